@@ -5,8 +5,11 @@ import { TableEditor } from '@/components/table-editor/TableEditor';
 import { DatabaseWorking as Database } from '@/components/database/DatabaseWorking';
 import { APITester } from '@/components/api-test/APITester';
 import { AuthTestPanel } from '@/components/auth/AuthTestPanel';
+import { OAuthConsent } from '@/components/auth/oauth/OAuthConsent';
 import { Storage } from '@/components/storage/Storage';
 import { AppHosting } from '@/components/app-hosting/AppHosting';
+import { Realtime } from '@/components/realtime/Realtime';
+import { EdgeFunctions } from '@/components/edge-functions/EdgeFunctions';
 import APIDocs from '@/pages/APIDocs';
 import { ErrorBoundary } from '@/components/ErrorBoundary';
 import { ThemeProvider } from '@/contexts/ThemeContext';
@@ -136,6 +139,17 @@ function App() {
     );
   }
 
+  // The OAuth consent page stands in for a provider's login, outside the dashboard
+  if (currentPage === 'oauth-consent') {
+    return (
+      <ThemeProvider>
+        <ErrorBoundary>
+          <OAuthConsent />
+        </ErrorBoundary>
+      </ThemeProvider>
+    );
+  }
+
   const renderCurrentPage = () => {
     switch (currentPage) {
       case 'dashboard':
@@ -180,6 +194,18 @@ function App() {
             <Storage />
           </ErrorBoundary>
         );
+      case 'realtime':
+        return (
+          <ErrorBoundary>
+            <Realtime />
+          </ErrorBoundary>
+        );
+      case 'edge-functions':
+        return (
+          <ErrorBoundary>
+            <EdgeFunctions />
+          </ErrorBoundary>
+        );
       case 'app-hosting':
         return (
           <ErrorBoundary>
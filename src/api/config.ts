@@ -38,6 +38,7 @@ export interface ApiConfig {
   }
   database: {
     defaultSchema: string
+    exposedSchemas: string[]  // Schemas clients may select with Accept-Profile/Content-Profile, like PostgREST's db-schemas
     queryTimeoutMs: number
     enableQueryCaching: boolean
   }
@@ -94,6 +95,7 @@ export const defaultApiConfig: ApiConfig = {
   },
   database: {
     defaultSchema: 'public',
+    exposedSchemas: ['public'],
     queryTimeoutMs: 30000,
     enableQueryCaching: true
   },
@@ -151,6 +153,12 @@ export function loadConfigFromEnvironment(): void {
     envUpdates.query = { ...currentConfig.query, defaultLimit: parseInt(env.DEFAULT_QUERY_LIMIT) }
   }
 
+  // Exposed schemas, comma-separated like PostgREST's PGRST_DB_SCHEMAS
+  if (env.PGRST_DB_SCHEMAS) {
+    const exposedSchemas = env.PGRST_DB_SCHEMAS.split(',').map(schema => schema.trim()).filter(Boolean)
+    envUpdates.database = { ...currentConfig.database, exposedSchemas }
+  }
+
   // Debug Level
   if (env.LOG_LEVEL && ['error', 'warn', 'info', 'debug'].includes(env.LOG_LEVEL)) {
     envUpdates.debugging = { ...currentConfig.debugging, logLevel: env.LOG_LEVEL as any }
@@ -178,6 +186,11 @@ export function validateApiConfig(): { isValid: boolean; errors: string[] } {
     errors.push('Default query limit cannot exceed max limit')
   }
 
+  // Validate schemas
+  if (!config.database.exposedSchemas.includes(config.database.defaultSchema)) {
+    errors.push('Default schema must be one of the exposed schemas')
+  }
+
   // Validate timeouts
   if (config.request.requestTimeoutMs < 1000) {
     errors.push('Request timeout must be at least 1 second')
@@ -1,8 +1,10 @@
 import { DatabaseManager, type SessionContext } from '../../lib/database/connection'
 import { logger } from '../../lib/infrastructure/Logger'
-import { QueryParser, SQLBuilder, ResponseFormatter, type ParsedQuery, type FormattedResponse } from '../../lib/postgrest'
+import { QueryParser, SQLBuilder, ResponseFormatter, PostgRESTQueryError, type ParsedQuery, type FormattedResponse } from '../../lib/postgrest'
+import type { InfrastructureError } from '../../types/infrastructure'
 import { ErrorMapper } from '../../lib/api/utils/ErrorMapper'
 import type { ApiRequest, ApiContext } from '../types'
+import { getApiConfig } from '../config'
 
 /**
  * Unified Query Engine - Phase 3 Implementation
@@ -46,6 +48,17 @@ export class QueryEngine {
         logger.debug('Using full syntax query processing', { table, method: request.method })
       }
 
+      // Like PostgREST, only the exposed schemas can be selected with a profile header
+      const { exposedSchemas } = getApiConfig().database
+      if (parsedQuery.schema && !exposedSchemas.includes(parsedQuery.schema)) {
+        throw new PostgRESTQueryError('PGRST106', `The schema must be one of the following: ${exposedSchemas.join(', ')}`)
+      }
+
+      // max-affected only limits PATCH and DELETE
+      if (request.method !== 'PATCH' && request.method !== 'DELETE') {
+        delete parsedQuery.preferMaxAffected
+      }
+
       // RLS is now handled at the database level via session context
       // Application-level filtering has been removed for 100% Supabase compatibility
 
@@ -53,30 +66,39 @@ export class QueryEngine {
       let sqlQuery: { sql: string, parameters?: any[] }
       if (request.method === 'POST') {
         const insertData = Array.isArray(request.body) ? request.body : [request.body]
+        const insertOptions = { columns: parsedQuery.columns, missing: parsedQuery.preferMissing }
 
         // Check if this is an upsert operation (merge-duplicates preference)
         if (parsedQuery.preferResolution === 'merge-duplicates') {
           // UPSERT operation
-          sqlQuery = await this.sqlBuilder.buildUpsertQuery(table, insertData, parsedQuery.onConflict, parsedQuery.schema)
+          sqlQuery = await this.sqlBuilder.buildUpsertQuery(table, insertData, parsedQuery.onConflict, parsedQuery.schema, insertOptions)
         } else {
           // INSERT operation
-          sqlQuery = this.sqlBuilder.buildInsertQuery(table, insertData, parsedQuery.schema)
+          sqlQuery = await this.sqlBuilder.buildInsertQuery(table, insertData, parsedQuery.schema, insertOptions)
         }
       } else if (request.method === 'PATCH') {
         // UPDATE operation
         if (!request.body || typeof request.body !== 'object') {
           throw new Error('UPDATE requires a request body with data to update')
         }
-        sqlQuery = this.sqlBuilder.buildUpdateQuery(table, request.body, parsedQuery.filters, parsedQuery.schema)
+        sqlQuery = await this.sqlBuilder.buildUpdateQuery(table, request.body, parsedQuery.filters, parsedQuery.schema)
       } else if (request.method === 'DELETE') {
         // DELETE operation
-        sqlQuery = this.sqlBuilder.buildDeleteQuery(table, parsedQuery.filters, parsedQuery.schema)
+        sqlQuery = await this.sqlBuilder.buildDeleteQuery(table, parsedQuery.filters, parsedQuery.schema)
       } else {
         // SELECT operations (GET, HEAD)
         const result = await this.sqlBuilder.buildQuery(table, parsedQuery)
         sqlQuery = { sql: result.sql, parameters: result.parameters }
       }
 
+      // .explain() asks for the plan of the statement instead of its rows
+      if (parsedQuery.explain) {
+        sqlQuery = this.sqlBuilder.buildExplainQuery(
+          { sql: sqlQuery.sql, parameters: sqlQuery.parameters ?? [] },
+          parsedQuery.explain
+        )
+      }
+
       // Execute query - use sessionContext from middleware if available
       const sessionContext: SessionContext = {
         projectId: context.projectId || 'default',
@@ -107,7 +129,7 @@ export class QueryEngine {
       // Execute query with enhanced error handling for complex operations
       let result
       try {
-        result = await this.dbManager.queryWithContext(sqlQuery.sql, sessionContext, sqlQuery.parameters)
+        result = await this.executeStatement(sqlQuery, sessionContext, parsedQuery, request.method !== 'GET' && request.method !== 'HEAD')
       } catch (error) {
         // Enhanced error logging for session context issues
         logger.error('Database query failed - checking session context', {
@@ -137,7 +159,7 @@ export class QueryEngine {
 
       // Execute count query if requested
       let totalCount = undefined
-      if (parsedQuery.count && (request.method === 'GET' || request.method === 'HEAD')) {
+      if (parsedQuery.count && !parsedQuery.explain && (request.method === 'GET' || request.method === 'HEAD')) {
         try {
           const countQuery = await this.sqlBuilder.buildCountQuery(table, parsedQuery)
           const countResult = await this.dbManager.queryWithContext(countQuery.sql, sessionContext, countQuery.parameters)
@@ -156,7 +178,9 @@ export class QueryEngine {
 
       // Format response based on request method
       let response: FormattedResponse
-      if (request.method === 'GET' || request.method === 'HEAD') {
+      if (parsedQuery.explain) {
+        response = ResponseFormatter.formatPlanResponse(result.rows || [], parsedQuery.explain)
+      } else if (request.method === 'GET' || request.method === 'HEAD') {
         response = ResponseFormatter.formatSelectResponse(result.rows || [], parsedQuery, totalCount)
       } else if (request.method === 'POST') {
         response = ResponseFormatter.formatInsertResponse(result.rows || [], parsedQuery)
@@ -168,6 +192,7 @@ export class QueryEngine {
         // Fallback for any other methods
         response = ResponseFormatter.formatSelectResponse(result.rows || [], parsedQuery)
       }
+      response = ResponseFormatter.withPreferenceApplied(response, parsedQuery)
 
       logger.debug('QueryEngine: Final response', {
         responseData: response.data,
@@ -188,6 +213,47 @@ export class QueryEngine {
     }
   }
 
+  /**
+   * Execute the generated statement. Prefer: tx=rollback, a strict
+   * max-affected limit and EXPLAIN ANALYZE of a mutation run it in a
+   * transaction so its changes can be undone.
+   */
+  private async executeStatement(
+    sqlQuery: { sql: string, parameters?: unknown[] },
+    sessionContext: SessionContext,
+    parsedQuery: ParsedQuery,
+    isMutation: boolean
+  ) {
+    const explain = parsedQuery.explain
+    const rollback = parsedQuery.preferTx === 'rollback' || (isMutation && !!explain?.options.includes('analyze'))
+    const maxAffected = isMutation && !explain && parsedQuery.preferHandling === 'strict'
+      ? parsedQuery.preferMaxAffected
+      : undefined
+
+    if (!rollback && maxAffected === undefined) {
+      return this.dbManager.queryWithContext(sqlQuery.sql, sessionContext, sqlQuery.parameters)
+    }
+
+    try {
+      const [result] = await this.dbManager.transaction([async () => {
+        const result = await this.dbManager.queryWithContext(sqlQuery.sql, sessionContext, sqlQuery.parameters)
+        const affected = result.rows?.length ?? 0
+        if (maxAffected !== undefined && affected > maxAffected) {
+          throw new PostgRESTQueryError(
+            'PGRST124',
+            'Query result exceeds max-affected preference constraint',
+            `The query affects ${affected} rows`
+          )
+        }
+        return result
+      }], { rollback })
+      return result
+    } catch (error) {
+      // The transaction wraps failures; surface the statement's own error for the PostgREST mapping
+      throw (error as InfrastructureError).originalError ?? error
+    }
+  }
+
   /**
    * Check if request can use optimized fast path processing
    */
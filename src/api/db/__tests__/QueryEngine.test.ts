@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import type { PGlite as PGliteType } from '@electric-sql/pglite'
+import { DatabaseManager } from '../../../lib/database/connection'
+import { QueryEngine } from '../QueryEngine'
+import type { ApiContext } from '../../types'
+import { ApiError } from '../../errors'
+import { getApiConfig, updateApiConfig, resetApiConfig } from '../../config'
+
+const userId = '11111111-1111-1111-1111-111111111111'
+
+const context: ApiContext = {
+  requestId: 'test-request',
+  startTime: 0,
+  sessionContext: { role: 'authenticated', userId, claims: { sub: userId, role: 'authenticated' } }
+}
+
+const request = (method: string, search: string, headers: Record<string, string> = {}, body?: unknown) => ({
+  method,
+  url: new URL(`http://localhost/rest/v1/notes?${search}`),
+  headers,
+  body
+})
+
+describe('QueryEngine on PGlite', () => {
+  let db: PGliteType
+  let engine: QueryEngine
+
+  beforeEach(async () => {
+    // The test setup mocks PGlite globally; these tests need a real database
+    const { PGlite } = await vi.importActual<typeof import('@electric-sql/pglite')>('@electric-sql/pglite')
+    db = new PGlite()
+    await db.exec(`
+      CREATE ROLE anon NOLOGIN;
+      CREATE ROLE authenticated NOLOGIN;
+      CREATE TABLE notes (id int PRIMARY KEY, body text);
+      INSERT INTO notes VALUES (1, 'first'), (2, 'second');
+      GRANT SELECT, INSERT, UPDATE, DELETE ON notes TO anon, authenticated;
+    `)
+
+    const dbManager = DatabaseManager.getInstance()
+    Object.assign(dbManager, { db, isInitialized: true })
+    engine = new QueryEngine()
+  })
+
+  afterEach(async () => {
+    resetApiConfig()
+    await db.close()
+  })
+
+  it('should return the changed rows and discard them with tx=rollback', async () => {
+    const response = await engine.processRequest(
+      request('PATCH', 'id=eq.1&select=*', { prefer: 'return=representation,tx=rollback' }, { body: 'changed' }),
+      context
+    )
+
+    expect(response.data).toEqual([{ id: 1, body: 'changed' }])
+    const { rows } = await db.query('SELECT body FROM notes WHERE id = 1')
+    expect(rows).toEqual([{ body: 'first' }])
+  })
+
+  it('should not limit inserts with max-affected', async () => {
+    const response = await engine.processRequest(
+      request('POST', 'select=*', { prefer: 'return=representation,handling=strict,max-affected=1' }, [{ id: 3 }, { id: 4 }]),
+      context
+    )
+
+    expect(response.data).toEqual([{ id: 3, body: null }, { id: 4, body: null }])
+    expect(response.headers['Preference-Applied']).toBe('return=representation, handling=strict')
+  })
+
+  it('should explain and analyze a mutation without applying it', async () => {
+    const response = await engine.processRequest(
+      request('DELETE', 'id=eq.2', { accept: 'application/vnd.pgrst.plan+json; options=analyze' }),
+      context
+    )
+
+    expect(JSON.stringify(response.data)).toContain('Delete')
+    const { rows } = await db.query('SELECT id FROM notes ORDER BY id')
+    expect(rows).toEqual([{ id: 1 }, { id: 2 }])
+  })
+
+  it('should reject an Accept-Profile outside the exposed schemas with 406', async () => {
+    const error = await engine.processRequest(request('GET', 'select=*', { 'accept-profile': 'auth' }), context)
+      .then(() => null, (e: unknown) => ApiError.fromError(e))
+
+    expect(error?.statusCode).toBe(406)
+    expect(error?.toPostgRESTFormat()).toEqual({
+      code: 'PGRST106',
+      message: 'The schema must be one of the following: public',
+      details: null,
+      hint: null
+    })
+  })
+
+  it('should reject a Content-Profile write outside the exposed schemas', async () => {
+    const error = await engine.processRequest(
+      request('POST', '', { 'content-profile': 'private' }, { id: 3, body: 'third' }),
+      context
+    ).catch((e: unknown) => e)
+
+    expect(error).toMatchObject({ code: 'PGRST106' })
+    const { rows } = await db.query('SELECT id FROM notes ORDER BY id')
+    expect(rows).toEqual([{ id: 1 }, { id: 2 }])
+  })
+
+  it('should check profiles against the configured exposed schemas', async () => {
+    updateApiConfig({ database: { ...getApiConfig().database, exposedSchemas: ['api'] } })
+
+    const error = await engine.processRequest(request('GET', 'select=*', { 'accept-profile': 'public' }), context)
+      .catch((e: unknown) => e)
+
+    expect(error).toMatchObject({ code: 'PGRST106', message: 'The schema must be one of the following: api' })
+  })
+})
@@ -0,0 +1,26 @@
+import { describe, it, expect, vi } from 'vitest'
+import { DatabaseManager } from '../../../lib/database/connection'
+import { openApiExecutor } from '../executor'
+import { ApiError } from '../../errors'
+import { createDbManager } from '../../../test/helpers'
+
+describe('openApiExecutor', () => {
+  it('should reject schemas that are not exposed with 406 and the PostgREST error body', async () => {
+    const dbManager = createDbManager(() => [{ nspname: 'auth' }, { nspname: 'public' }, { nspname: 'storage' }])
+    vi.spyOn(DatabaseManager, 'getInstance').mockReturnValue(dbManager as unknown as DatabaseManager)
+
+    const error = await openApiExecutor(
+      { method: 'GET', url: new URL('http://localhost/rest/v1/'), headers: { 'accept-profile': 'auth' } },
+      { requestId: 'test-request', startTime: 0 }
+    ).catch((e: unknown) => e)
+
+    expect(error).toBeInstanceOf(ApiError)
+    expect((error as ApiError).statusCode).toBe(406)
+    expect((error as ApiError).toPostgRESTFormat()).toEqual({
+      code: 'PGRST106',
+      message: 'The schema must be one of the following: public',
+      details: null,
+      hint: null
+    })
+  })
+})
@@ -7,6 +7,9 @@ import type { ApiRequest, ApiContext, ApiResponse } from '../types'
 import { QueryEngine } from './QueryEngine'
 import { ApiError, ApiErrorCode } from '../errors'
 import { logger } from '../../lib/infrastructure/Logger'
+import { DatabaseManager } from '../../lib/database/connection'
+import { OpenAPIGenerator } from '../../lib/postgrest'
+import { getApiConfig } from '../config'
 
 // Initialize the unified query engine (Phase 3 implementation)
 const queryEngine = new QueryEngine()
@@ -169,4 +172,34 @@ export async function headExecutor(
   } catch (error: any) {
     throw ApiError.fromError(error, ApiErrorCode.QUERY_ERROR, context.requestId)
   }
-}
\ No newline at end of file
+}
+
+/**
+ * OpenAPI executor for the API root, describing the schema selected by Accept-Profile
+ */
+export async function openApiExecutor(
+  request: ApiRequest,
+  context: ApiContext
+): Promise<ApiResponse> {
+  const schema = (request.headers['accept-profile'] || request.headers['Accept-Profile'] || getApiConfig().database.defaultSchema).trim()
+
+  try {
+    const generator = new OpenAPIGenerator(DatabaseManager.getInstance(), getApiConfig().database.exposedSchemas)
+    const document = await generator.generate(schema, {
+      host: request.url.host,
+      // The project prefix has been stripped from the URL by now
+      basePath: request.params?.projectId ? `/${request.params.projectId}/rest/v1` : '/rest/v1',
+      scheme: request.url.protocol.replace(':', '')
+    })
+
+    return {
+      data: document,
+      status: 200,
+      headers: {
+        'Content-Type': 'application/openapi+json; charset=utf-8'
+      }
+    }
+  } catch (error) {
+    throw ApiError.fromError(error, ApiErrorCode.QUERY_ERROR, context.requestId)
+  }
+}
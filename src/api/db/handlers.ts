@@ -1,9 +1,13 @@
 import { http } from 'msw'
 import { createApiHandler } from '../kernel'
-import { restExecutor, rpcExecutor, headExecutor } from './executor'
+import { restExecutor, rpcExecutor, headExecutor, openApiExecutor } from './executor'
 
 // Database/REST API handlers using the unified kernel
 export const dbHandlers = [
+  // OpenAPI description at the API root
+  http.get('/rest/v1', createApiHandler(openApiExecutor)),
+  http.get('/:projectId/rest/v1', createApiHandler(openApiExecutor)),
+
   // Non-project-scoped REST handlers
   http.get('/rest/v1/:table', createApiHandler(restExecutor)),
   http.head('/rest/v1/:table', createApiHandler(headExecutor)),
@@ -17,6 +17,7 @@ export enum ApiErrorCode {
   FORBIDDEN = 'FORBIDDEN',
   NOT_FOUND = 'NOT_FOUND',
   METHOD_NOT_ALLOWED = 'METHOD_NOT_ALLOWED',
+  NOT_ACCEPTABLE = 'NOT_ACCEPTABLE',
   CONFLICT = 'CONFLICT',
   UNPROCESSABLE_ENTITY = 'UNPROCESSABLE_ENTITY',
   TOO_MANY_REQUESTS = 'TOO_MANY_REQUESTS',
@@ -76,6 +77,7 @@ export const ERROR_STATUS_MAP: Record<ApiErrorCode, number> = {
   [ApiErrorCode.FORBIDDEN]: 403,
   [ApiErrorCode.NOT_FOUND]: 404,
   [ApiErrorCode.METHOD_NOT_ALLOWED]: 405,
+  [ApiErrorCode.NOT_ACCEPTABLE]: 406,
   [ApiErrorCode.CONFLICT]: 409,
   [ApiErrorCode.UNPROCESSABLE_ENTITY]: 422,
   [ApiErrorCode.TOO_MANY_REQUESTS]: 429,
@@ -265,6 +267,8 @@ export class ApiError extends Error {
             return new ApiError(ApiErrorCode.COLUMN_NOT_FOUND, error.message, error, undefined, requestId)
           case '42501': // insufficient_privilege
             return new ApiError(ApiErrorCode.PERMISSION_DENIED, error.message, error, undefined, requestId)
+          case 'PGRST106': // schema not exposed
+            return new ApiError(ApiErrorCode.NOT_ACCEPTABLE, error.message, error, undefined, requestId)
           default:
             return new ApiError(ApiErrorCode.QUERY_ERROR, error.message, error, undefined, requestId)
         }
@@ -0,0 +1,83 @@
+/**
+ * Edge Functions executor - routes invocations to the function runtime
+ */
+
+import type { ApiRequest, ApiContext, ApiResponse } from '../types'
+import { ApiError, ApiErrorCode } from '../errors'
+import { FunctionRuntime, FunctionInvocationError, functionStore } from '../../lib/functions'
+import { logger } from '../../lib/infrastructure/Logger'
+
+/**
+ * Invoke executor for /functions/v1/:name and any sub-path below it.
+ * Mirrors the hosted relay: OPTIONS is always forwarded so functions can
+ * answer CORS preflights, other methods require a valid JWT unless the
+ * function was configured with verify_jwt disabled.
+ */
+export async function invokeFunctionExecutor(
+  request: ApiRequest,
+  context: ApiContext
+): Promise<ApiResponse> {
+  const name = request.params?.name
+  const projectId = context.projectId || 'default'
+
+  const deployment = name ? await functionStore.getDeployment(projectId, name) : null
+  if (!deployment) {
+    throw new ApiError(
+      ApiErrorCode.FUNCTION_NOT_FOUND,
+      'Requested function was not found',
+      { function: name },
+      'Deploy the function from the Edge Functions page',
+      context.requestId
+    )
+  }
+
+  if (deployment.verifyJwt && request.method !== 'OPTIONS') {
+    const authHeader = request.headers['authorization']
+    if (!authHeader) {
+      throw new ApiError(ApiErrorCode.UNAUTHORIZED, 'Missing authorization header', undefined, undefined, context.requestId)
+    }
+    if (!authHeader.startsWith('Bearer ') || !context.sessionContext?.claims) {
+      throw new ApiError(ApiErrorCode.UNAUTHORIZED, 'Invalid JWT', undefined, undefined, context.requestId)
+    }
+  }
+
+  // Functions see their own name as the first path segment, as on the hosted runtime
+  const functionUrl = new URL(request.url)
+  functionUrl.pathname = functionUrl.pathname.replace(/^\/functions\/v1/, '')
+
+  const functionRequest = new Request(functionUrl, {
+    method: request.method,
+    headers: request.headers,
+    body: request.method === 'GET' || request.method === 'HEAD' ? null : request.body
+  })
+
+  let response: Response
+  try {
+    response = await FunctionRuntime.getInstance().invoke(projectId, deployment, functionRequest)
+  } catch (error) {
+    if (error instanceof FunctionInvocationError) {
+      throw new ApiError(
+        error.kind === 'timeout' ? ApiErrorCode.FUNCTION_TIMEOUT : ApiErrorCode.FUNCTION_ERROR,
+        error.message,
+        { function: name, reason: error.kind },
+        error.kind === 'boot' ? 'Check the function logs for errors raised while loading the module' : undefined,
+        context.requestId
+      )
+    }
+    throw error
+  }
+
+  logger.debug('Edge function invoked', {
+    requestId: context.requestId,
+    projectId,
+    name,
+    version: deployment.version,
+    status: response.status
+  })
+
+  return {
+    data: await response.arrayBuffer(),
+    status: response.status,
+    headers: Object.fromEntries(response.headers.entries())
+  }
+}
@@ -0,0 +1,13 @@
+import { http } from 'msw'
+import { createApiHandler } from '../kernel'
+import { invokeFunctionExecutor } from './executor'
+
+const invokeHandler = createApiHandler(invokeFunctionExecutor, { rawBody: true })
+
+// Edge Functions handlers - every method is forwarded to the function, including sub-paths
+export const functionsHandlers = [
+  http.all('/functions/v1/:name', invokeHandler),
+  http.all('/functions/v1/:name/*', invokeHandler),
+  http.all('/:projectId/functions/v1/:name', invokeHandler),
+  http.all('/:projectId/functions/v1/:name/*', invokeHandler),
+]
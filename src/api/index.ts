@@ -8,6 +8,8 @@
 import { dbHandlers } from './db/handlers'
 import { debugHandlers } from './debug/handlers'
 import { healthHandlers } from './health/handlers'
+import { realtimeHandlers } from './realtime/handlers'
+import { functionsHandlers } from './functions/handlers'
 
 // Import remaining handlers from existing locations until migrated
 import { authHandlers } from '../mocks/handlers/auth'
@@ -24,6 +26,8 @@ import { corsAndCatchAllHandler } from '../mocks/handlers/shared/cors'
  * ✅ Database/REST handlers - moved to src/api/db/
  * ✅ Debug handlers - moved to src/api/debug/
  * ✅ Health handlers - moved to src/api/health/
+ * ✅ Realtime handlers - src/api/realtime/ (WebSocket)
+ * ✅ Edge Functions handlers - src/api/functions/
  * 🚧 Auth handlers - still in mocks/handlers/auth
  * 🚧 Storage handlers - still in mocks/handlers/storage
  * 🚧 Projects handlers - still in mocks/handlers/projects
@@ -42,6 +46,12 @@ export const handlers = [
   // Debug handlers
   ...debugHandlers,
 
+  // Realtime WebSocket handlers
+  ...realtimeHandlers,
+
+  // Edge Functions handlers
+  ...functionsHandlers,
+
   // ==== NOT YET MIGRATED (Phase 2 TODO) ====
 
   // Authentication handlers (must come first due to specific auth handlers before catch-all)
@@ -9,6 +9,7 @@ import type {
   ApiRequest,
   ApiContext,
   ApiResponse,
+  ApiHandlerOptions,
   MiddlewareFunction,
   ExecutorFunction
 } from './types'
@@ -27,7 +28,7 @@ import { errorHandlingMiddleware } from './middleware/error-handling'
 /**
  * Creates a unified API handler with the standard middleware pipeline
  */
-export function createApiHandler(executor: ExecutorFunction) {
+export function createApiHandler(executor: ExecutorFunction, options: ApiHandlerOptions = {}) {
   return async (info: any) => {
     const { request, params } = info
     // Convert MSW Request to our internal ApiRequest format
@@ -35,7 +36,7 @@ export function createApiHandler(executor: ExecutorFunction) {
       url: new URL(request.url),
       method: request.method,
       headers: Object.fromEntries(request.headers.entries()),
-      body: await getRequestBody(request),
+      body: options.rawBody ? await getRawRequestBody(request) : await getRequestBody(request),
       params: params || {}
     }
 
@@ -57,8 +58,14 @@ export function createApiHandler(executor: ExecutorFunction) {
       // Handle different content types properly
       const contentType = response.headers['Content-Type'] || response.headers['content-type'] || 'application/json'
 
-      if (contentType.startsWith('text/csv')) {
-        // For CSV responses, return raw text content
+      if (response.data instanceof ArrayBuffer) {
+        // Binary passthrough (e.g. Edge Function responses), sent as-is
+        return new HttpResponse(response.data.byteLength > 0 ? response.data : null, {
+          status: response.status,
+          headers: response.headers
+        })
+      } else if (contentType.startsWith('text/csv') || contentType.startsWith('application/vnd.pgrst.plan+text')) {
+        // For CSV and text query plan responses, return raw text content
         return new HttpResponse(response.data, {
           status: response.status,
           headers: response.headers
@@ -159,6 +166,18 @@ async function getRequestBody(request: Request): Promise<any> {
   }
 }
 
+/**
+ * Helper to read the request body as bytes for executors that forward it untouched
+ */
+async function getRawRequestBody(request: Request): Promise<ArrayBuffer | null> {
+  if (!request.body) {
+    return null
+  }
+
+  const body = await request.arrayBuffer()
+  return body.byteLength > 0 ? body : null
+}
+
 /**
  * Convenience function to create simple handlers that don't need the full pipeline
  * Useful for health checks, static content, etc.
@@ -0,0 +1,29 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { useRealJose, createKeyStore, createStoredKey } from '../../../test/helpers'
+
+describe('resolveSessionContext', () => {
+  beforeEach(() => {
+    vi.resetModules()
+  })
+
+  afterEach(() => {
+    vi.doUnmock('jose')
+    vi.unstubAllGlobals()
+  })
+
+  it('should verify user tokens with the stored signing keys after a reload', async () => {
+    // A fresh module graph has no JWTService yet, like the page after a reload
+    const jose = await useRealJose()
+    const keyStore = createKeyStore([await createStoredKey(jose, 'es-key')])
+    const { JWTKeyService } = await import('../../../lib/auth/services/JWTKeyService')
+    vi.spyOn(JWTKeyService, 'getInstance').mockReturnValue(keyStore)
+    const { JWTService } = await import('../../../lib/auth/core/JWTService')
+    const { resolveSessionContext } = await import('../authentication')
+
+    const signer = new JWTService()
+    await signer.initialize(keyStore)
+    const token = await signer.generateCustomToken({ iss: 'https://supabase-lite.local/auth/v1', sub: 'user-1', role: 'authenticated' })
+
+    await expect(resolveSessionContext(token)).resolves.toMatchObject({ userId: 'user-1', role: 'authenticated', jwt: token })
+  })
+})
@@ -4,9 +4,70 @@
 
 import type { MiddlewareFunction, ApiRequest, ApiContext, ApiResponse, SessionContext } from '../types'
 import { JWTService } from '../../lib/auth/core/JWTService'
+import { JWTKeyService } from '../../lib/auth/services/JWTKeyService'
 import { apiKeyGenerator } from '../../lib/auth/api-keys'
 import { logger } from '../../lib/infrastructure/Logger'
 
+/**
+ * Resolve a bearer token (API key or user JWT) into an RLS session context.
+ * Invalid or missing tokens resolve to the anonymous role.
+ */
+export async function resolveSessionContext(
+  token: string | undefined,
+  requestId?: string
+): Promise<SessionContext> {
+  if (!token) {
+    logger.debug('No authentication provided, proceeding as anonymous', { requestId })
+    return { role: 'anon' }
+  }
+
+  // First check if this is an API key (service_role or anon)
+  const apiKeyRole = apiKeyGenerator.extractRole(token)
+
+  if (apiKeyRole) {
+    logger.debug(`API key authenticated: ${apiKeyRole}`, { requestId, role: apiKeyRole })
+    return {
+      role: apiKeyRole,
+      claims: {
+        role: apiKeyRole,
+        iss: 'supabase-lite'
+      }
+    }
+  }
+
+  // This might be a user JWT token - try to verify it
+  try {
+    // Tokens are signed with the project's persisted keys, also after a reload
+    const jwtService = JWTService.getInstance()
+    await jwtService.initialize(JWTKeyService.getInstance())
+
+    // Verify and decode the JWT token
+    const payload = await jwtService.verifyToken(token)
+
+    const sessionContext: SessionContext = {
+      userId: payload.sub || payload.user_id,
+      role: payload.role || 'authenticated',
+      claims: payload,
+      jwt: token
+    }
+
+    logger.debug(`User JWT authenticated: ${sessionContext.userId}`, {
+      requestId,
+      role: sessionContext.role,
+      tokenPayload: payload
+    })
+
+    return sessionContext
+  } catch (error) {
+    // Token verification failed - continue with anonymous access
+    logger.debug('JWT verification failed, proceeding as anonymous', {
+      requestId,
+      error: error instanceof Error ? error.message : String(error)
+    })
+    return { role: 'anon' }
+  }
+}
+
 export const authenticationMiddleware: MiddlewareFunction = async (
   request: ApiRequest,
   context: ApiContext,
@@ -26,96 +87,11 @@ export const authenticationMiddleware: MiddlewareFunction = async (
     token = apikeyHeader
   }
 
-  if (token) {
-    // First check if this is an API key (service_role or anon)
-    const apiKeyRole = apiKeyGenerator.extractRole(token)
-
-    if (apiKeyRole) {
-      // This is an API key - set up the session context accordingly
-      context.sessionContext = {
-        role: apiKeyRole,
-        claims: {
-          role: apiKeyRole,
-          iss: 'supabase-lite'
-        }
-      }
-
-      // Set direct context properties for backward compatibility
-      context.userId = undefined
-      context.role = apiKeyRole
+  context.sessionContext = await resolveSessionContext(token, context.requestId)
 
-      logger.debug(`API key authenticated: ${apiKeyRole}`, {
-        requestId: context.requestId,
-        role: apiKeyRole,
-        sessionContextSet: !!context.sessionContext,
-        contextUserId: context.userId,
-        contextRole: context.role
-      })
-    } else {
-      // This might be a user JWT token - try to verify it
-      try {
-        const jwtService = JWTService.getInstance()
-        await jwtService.initialize()
-
-        // Verify and decode the JWT token
-        const payload = await jwtService.verifyToken(token)
-
-        // Establish session context for RLS
-        const userId = payload.sub || payload.user_id
-        const role = payload.role || 'authenticated'
-
-        context.sessionContext = {
-          userId: userId,
-          role: role,
-          claims: payload,
-          jwt: token
-        }
-
-        // Also set direct context properties for backward compatibility
-        context.userId = userId
-        context.role = role
-
-        logger.debug(`User JWT authenticated: ${context.sessionContext.userId}`, {
-          requestId: context.requestId,
-          role: context.sessionContext.role,
-          sessionContextSet: !!context.sessionContext,
-          contextUserId: context.userId,
-          contextRole: context.role,
-          tokenPayload: payload
-        })
-      } catch (error) {
-        // Token verification failed - continue with anonymous access
-        context.sessionContext = {
-          role: 'anon'
-        }
-        // Set direct context properties for backward compatibility
-        context.userId = undefined
-        context.role = 'anon'
-        logger.debug('JWT verification failed, proceeding as anonymous', {
-          requestId: context.requestId,
-          error: error instanceof Error ? error.message : String(error),
-          sessionContextSet: !!context.sessionContext,
-          contextUserId: context.userId,
-          contextRole: context.role
-        })
-      }
-    }
-  } else {
-    // No token provided - anonymous access
-    context.sessionContext = {
-      role: 'anon'
-    }
-    // Set direct context properties for backward compatibility
-    context.userId = undefined
-    context.role = 'anon'
-
-    logger.debug('No authentication provided, proceeding as anonymous', {
-      requestId: context.requestId,
-      sessionContextSet: !!context.sessionContext,
-      contextUserId: context.userId,
-      contextRole: context.role
-    })
-  }
+  // Set direct context properties for backward compatibility
+  context.userId = context.sessionContext.userId
+  context.role = context.sessionContext.role
 
   return next()
-}
\ No newline at end of file
+}
@@ -24,11 +24,18 @@ export const corsMiddleware: MiddlewareFunction = async (
       'Access-Control-Max-Age': '86400' // 24 hours
     }
 
+    // Headers set by the executor win, so responses that manage their own
+    // CORS (such as Edge Functions) are passed through unchanged
+    const existing = new Set(Object.keys(response.headers).map(name => name.toLowerCase()))
+    const defaults = Object.fromEntries(
+      Object.entries(corsHeaders).filter(([name]) => !existing.has(name.toLowerCase()))
+    )
+
     return {
       ...response,
       headers: {
-        ...response.headers,
-        ...corsHeaders
+        ...defaults,
+        ...response.headers
       }
     }
   } catch (error) {
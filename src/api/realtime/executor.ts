@@ -0,0 +1,77 @@
+/**
+ * Realtime operation executors - REST broadcast endpoint
+ */
+
+import type { ApiRequest, ApiContext, ApiResponse } from '../types'
+import { ApiError, ApiErrorCode } from '../errors'
+import { RealtimeServer } from '../../lib/realtime'
+import { logger } from '../../lib/infrastructure/Logger'
+
+interface BroadcastApiMessage {
+  topic: string
+  event: string
+  payload?: unknown
+  private?: boolean
+}
+
+/**
+ * Broadcast executor for POST /realtime/v1/api/broadcast, used by
+ * realtime-js when sending on a channel that is not subscribed
+ */
+export async function broadcastExecutor(
+  request: ApiRequest,
+  context: ApiContext
+): Promise<ApiResponse> {
+  const messages = request.body?.messages
+
+  if (!Array.isArray(messages) || messages.length === 0) {
+    throw new ApiError(
+      ApiErrorCode.MISSING_REQUIRED_PARAMETER,
+      'Request body must contain a non-empty "messages" array',
+      { parameter: 'messages' },
+      undefined,
+      context.requestId
+    )
+  }
+
+  const invalid = messages.find((message: BroadcastApiMessage) =>
+    !message || typeof message.topic !== 'string' || typeof message.event !== 'string'
+  )
+  if (invalid) {
+    throw new ApiError(
+      ApiErrorCode.BAD_REQUEST,
+      'Each broadcast message requires a "topic" and an "event"',
+      { message: invalid },
+      undefined,
+      context.requestId
+    )
+  }
+
+  const realtimeServer = RealtimeServer.getInstance()
+  const session = context.sessionContext || { role: 'anon' }
+
+  for (const message of messages as BroadcastApiMessage[]) {
+    const sent = await realtimeServer.broadcastFromApi(context.projectId, message, session)
+    if (!sent) {
+      throw new ApiError(
+        ApiErrorCode.FORBIDDEN,
+        `You do not have permissions to write to this Channel topic: ${message.topic}`,
+        undefined,
+        'Add an INSERT policy on realtime.messages that allows this topic',
+        context.requestId
+      )
+    }
+  }
+
+  logger.debug('Realtime broadcast sent via REST', {
+    requestId: context.requestId,
+    projectId: context.projectId,
+    messages: messages.length
+  })
+
+  return {
+    data: null,
+    status: 202,
+    headers: {}
+  }
+}
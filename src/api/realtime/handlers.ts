@@ -0,0 +1,49 @@
+import { http, ws } from 'msw'
+import { createApiHandler } from '../kernel'
+import { RealtimeServer } from '../../lib/realtime'
+import { broadcastExecutor } from './executor'
+import { resolveAndSwitchToProject } from '../../mocks/project-resolver'
+
+const realtimeServer = RealtimeServer.getInstance()
+
+// Matches both /realtime/v1/websocket and /:projectId/realtime/v1/websocket
+const realtimeSocket = ws.link('*/realtime/v1/websocket')
+
+/**
+ * Resolve the project a realtime socket belongs to, switching the database like REST requests do
+ */
+async function resolveSocketProject(url: URL): Promise<string | undefined> {
+  const resolution = await resolveAndSwitchToProject(url)
+  if (!resolution.success) {
+    throw new Error(resolution.error || 'Project not found')
+  }
+  return resolution.projectId
+}
+
+// Realtime handlers (Phoenix channel protocol over an intercepted WebSocket)
+export const realtimeHandlers = [
+  // REST broadcast for channels that are not subscribed
+  http.post('/realtime/v1/api/broadcast', createApiHandler(broadcastExecutor)),
+  http.post('/:projectId/realtime/v1/api/broadcast', createApiHandler(broadcastExecutor)),
+
+  realtimeSocket.addEventListener('connection', ({ client }) => {
+    const connectionId = realtimeServer.openConnection(
+      {
+        send: (data) => client.send(data),
+        close: (code, reason) => client.close(code, reason)
+      },
+      {
+        apiKey: client.url.searchParams.get('apikey') || undefined,
+        projectId: resolveSocketProject(client.url)
+      }
+    )
+
+    client.addEventListener('message', (event) => {
+      void realtimeServer.handleMessage(connectionId, event.data)
+    })
+
+    client.addEventListener('close', () => {
+      realtimeServer.closeConnection(connectionId)
+    })
+  }),
+]
@@ -72,6 +72,11 @@ export type ExecutorFunction = (
   context: ApiContext
 ) => Promise<ApiResponse>
 
+export interface ApiHandlerOptions {
+  /** Pass the request body to the executor as an ArrayBuffer instead of parsing it */
+  rawBody?: boolean
+}
+
 export interface ApiError extends Error {
   statusCode: number
   errorCode?: string
@@ -11,6 +11,11 @@ import type { ApiKeys } from '@/lib/auth/api-keys'
 import { Copy, Eye, EyeOff, Check } from 'lucide-react'
 import { getBaseUrl } from '@/lib/utils'
 import { UsersList } from '@/components/auth/users/UsersList'
+import { Inbox } from '@/components/auth/inbox/Inbox'
+import { SmsOutbox } from '@/components/auth/inbox/SmsOutbox'
+import { EmailTemplates } from '@/components/auth/inbox/EmailTemplates'
+import { AuthSettings } from '@/components/auth/settings/AuthSettings'
+import { JWTSigningKeys } from '@/components/auth/settings/JWTSigningKeys'
 
 interface AuthTestResult {
   success: boolean
@@ -38,6 +43,8 @@ export function AuthTestPanel() {
   const [signinEmail, setSigninEmail] = useState('test@example.com')
   const [signinPassword, setSigninPassword] = useState('SecurePass123!')
   const [updateEmail, setUpdateEmail] = useState('')
+  const [phoneNumber, setPhoneNumber] = useState('+15555550100')
+  const [phoneCode, setPhoneCode] = useState('')
   const [recoveryEmail, setRecoveryEmail] = useState('test@example.com')
   const [mfaFactorType, setMfaFactorType] = useState<'totp' | 'phone'>('totp')
   const [mfaPhone, setMfaPhone] = useState('+1234567890')
@@ -141,6 +148,18 @@ export function AuthTestPanel() {
     })
   })
 
+  const handleSignInAnonymously = () => runTest('signinAnonymously', async () => {
+    return await authManager.signInAnonymously()
+  })
+
+  const handleSendSmsOtp = () => runTest('sendSmsOtp', async () => {
+    return await authManager.sendSmsOtp(phoneNumber)
+  })
+
+  const handleVerifySmsOtp = () => runTest('verifySmsOtp', async () => {
+    return await authManager.verifyOtp({ type: 'sms', phone: phoneNumber, token: phoneCode })
+  })
+
   const handleSignOut = () => runTest('signout', async () => {
     await authManager.signOut()
     return { success: true }
@@ -253,12 +272,16 @@ export function AuthTestPanel() {
       </Card>
 
       <Tabs defaultValue="keys" className="space-y-4">
-        <TabsList className="grid w-full grid-cols-5">
+        <TabsList className="grid w-full grid-cols-9">
           <TabsTrigger value="keys">API Keys</TabsTrigger>
           <TabsTrigger value="auth">Authentication</TabsTrigger>
           <TabsTrigger value="user">User Management</TabsTrigger>
           <TabsTrigger value="users">Users</TabsTrigger>
           <TabsTrigger value="mfa">Multi-Factor Auth</TabsTrigger>
+          <TabsTrigger value="inbox">Inbox</TabsTrigger>
+          <TabsTrigger value="sms">SMS</TabsTrigger>
+          <TabsTrigger value="templates">Email Templates</TabsTrigger>
+          <TabsTrigger value="settings">Settings</TabsTrigger>
         </TabsList>
 
         <TabsContent value="keys" className="space-y-4">
@@ -461,6 +484,44 @@ const supabase = createClient(
             </CardContent>
           </Card>
 
+          <Card>
+            <CardHeader>
+              <CardTitle>Anonymous Sign In</CardTitle>
+              <CardDescription>Requires anonymous sign-ins to be enabled in Settings</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <Button onClick={handleSignInAnonymously}>Sign In Anonymously</Button>
+              <TestResult testName="signinAnonymously" />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Phone Sign In</CardTitle>
+              <CardDescription>Codes are delivered to the SMS tab</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="flex gap-2">
+                <Input
+                  placeholder="Phone (E.164)"
+                  value={phoneNumber}
+                  onChange={(e) => setPhoneNumber(e.target.value)}
+                />
+                <Button onClick={handleSendSmsOtp}>Send Code</Button>
+              </div>
+              <div className="flex gap-2">
+                <Input
+                  placeholder="6-digit code"
+                  value={phoneCode}
+                  onChange={(e) => setPhoneCode(e.target.value)}
+                />
+                <Button onClick={handleVerifySmsOtp}>Verify</Button>
+              </div>
+              <TestResult testName="sendSmsOtp" />
+              <TestResult testName="verifySmsOtp" />
+            </CardContent>
+          </Card>
+
           <Card>
             <CardHeader>
               <CardTitle>Session Management</CardTitle>
@@ -603,6 +664,23 @@ const supabase = createClient(
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="inbox" className="space-y-4">
+          <Inbox />
+        </TabsContent>
+
+        <TabsContent value="sms" className="space-y-4">
+          <SmsOutbox />
+        </TabsContent>
+
+        <TabsContent value="templates" className="space-y-4">
+          <EmailTemplates />
+        </TabsContent>
+
+        <TabsContent value="settings" className="space-y-4">
+          <AuthSettings />
+          <JWTSigningKeys />
+        </TabsContent>
       </Tabs>
     </div>
   )
@@ -0,0 +1,156 @@
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { EmailService, renderEmailTemplate } from '@/lib/auth/services/EmailService'
+import type { EmailTemplate, EmailTemplateType } from '@/lib/auth/services/EmailService'
+import { getBaseUrl } from '@/lib/utils'
+
+const TEMPLATE_LABELS: Record<EmailTemplateType, string> = {
+  confirmation: 'Confirm signup',
+  invite: 'Invite user',
+  magic_link: 'Magic link',
+  recovery: 'Reset password',
+  email_change: 'Change email address'
+}
+
+const previewVariables = () => ({
+  ConfirmationURL: `${getBaseUrl()}/auth/v1/verify?token=example&type=signup&redirect_to=${getBaseUrl()}`,
+  Token: '123456',
+  TokenHash: 'example',
+  SiteURL: getBaseUrl(),
+  RedirectTo: getBaseUrl(),
+  Email: 'user@example.com',
+  NewEmail: 'new@example.com',
+  Data: {}
+})
+
+export function EmailTemplates() {
+  const [emailService] = useState(() => EmailService.getInstance())
+  const [templates, setTemplates] = useState<EmailTemplate[]>([])
+  const [selectedType, setSelectedType] = useState<EmailTemplateType>('confirmation')
+  const [subject, setSubject] = useState('')
+  const [content, setContent] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const selected = templates.find(template => template.type === selectedType)
+
+  const showTemplate = (template: EmailTemplate | undefined) => {
+    setSubject(template?.subject || '')
+    setContent(template?.content || '')
+  }
+
+  useEffect(() => {
+    emailService.getTemplates()
+      .then(loaded => {
+        setTemplates(loaded)
+        showTemplate(loaded.find(template => template.type === selectedType))
+      })
+      .catch(err => setError(`Error loading templates: ${err instanceof Error ? err.message : String(err)}`))
+  }, []) // eslint-disable-line react-hooks/exhaustive-deps
+
+  const handleTypeChange = (type: string) => {
+    setSelectedType(type as EmailTemplateType)
+    showTemplate(templates.find(template => template.type === type))
+  }
+
+  const replaceTemplate = (updated: EmailTemplate) => {
+    setTemplates(prev => prev.map(template => (template.type === updated.type ? updated : template)))
+    showTemplate(updated)
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    setError(null)
+    try {
+      replaceTemplate(await emailService.updateTemplate(selectedType, subject, content))
+    } catch (err) {
+      setError(`Error saving template: ${err instanceof Error ? err.message : String(err)}`)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleReset = async () => {
+    setSaving(true)
+    setError(null)
+    try {
+      replaceTemplate(await emailService.resetTemplate(selectedType))
+    } catch (err) {
+      setError(`Error resetting template: ${err instanceof Error ? err.message : String(err)}`)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Email Templates</CardTitle>
+        <CardDescription>
+          Available variables: {'{{ .ConfirmationURL }}'}, {'{{ .Token }}'}, {'{{ .TokenHash }}'}, {'{{ .SiteURL }}'},
+          {' {{ .RedirectTo }}'}, {'{{ .Email }}'}, {'{{ .NewEmail }}'} and {'{{ .Data.<key> }}'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <div className="text-sm text-red-600">{error}</div>}
+
+        <div className="flex items-center gap-2">
+          <Select value={selectedType} onValueChange={handleTypeChange}>
+            <SelectTrigger className="w-64">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(TEMPLATE_LABELS) as EmailTemplateType[]).map(type => (
+                <SelectItem key={type} value={type}>{TEMPLATE_LABELS[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {selected && (
+            <Badge variant={selected.customized ? 'default' : 'outline'}>
+              {selected.customized ? 'Customized' : 'Default'}
+            </Badge>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="email-template-subject">Subject</Label>
+          <Input id="email-template-subject" value={subject} onChange={(e) => setSubject(e.target.value)} />
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="email-template-content">Body (HTML)</Label>
+            <Textarea
+              id="email-template-content"
+              value={content}
+              onChange={(e) => setContent(e.target.value)}
+              className="font-mono text-xs h-72"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Preview</Label>
+            <iframe
+              title="Template preview"
+              sandbox=""
+              srcDoc={renderEmailTemplate(content, previewVariables())}
+              className="w-full h-72 border rounded bg-white"
+            />
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          <Button onClick={handleSave} disabled={saving}>Save</Button>
+          <Button variant="outline" onClick={handleReset} disabled={saving || !selected?.customized}>
+            Reset to default
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,213 @@
+import { useState, useEffect, useRef } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { EmailService } from '@/lib/auth/services/EmailService'
+import type { EmailMessage } from '@/lib/auth/services/EmailService'
+import { Mail, RefreshCw, Trash2 } from 'lucide-react'
+
+interface VerifyResult {
+  success: boolean
+  message: string
+}
+
+/**
+ * Verify a message through POST /verify on the same API its link points at.
+ * Opening the link itself would be a navigation, which the mock service
+ * worker does not intercept.
+ */
+async function verifyMessage(message: EmailMessage): Promise<VerifyResult> {
+  const link = new URL(message.action_link!)
+  const response = await fetch(`${link.origin}${link.pathname}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ type: message.verification_type, token_hash: message.token_hash })
+  })
+  const body = await response.json()
+
+  if (!response.ok) {
+    return { success: false, message: body.error_description || body.error || `HTTP ${response.status}` }
+  }
+  return { success: true, message: `Verified, signed in as ${body.user?.email}` }
+}
+
+export function Inbox() {
+  const [emailService] = useState(() => EmailService.getInstance())
+  const [messages, setMessages] = useState<EmailMessage[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [verifying, setVerifying] = useState(false)
+  const [verifyResult, setVerifyResult] = useState<VerifyResult | null>(null)
+  const frameRef = useRef<HTMLIFrameElement>(null)
+
+  const selected = messages.find(message => message.id === selectedId) || null
+
+  const loadMessages = async () => {
+    setLoading(true)
+    setError(null)
+
+    try {
+      setMessages(await emailService.listMessages())
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error'
+      setError(`Error loading inbox: ${errorMessage}`)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadMessages()
+  }, []) // eslint-disable-line react-hooks/exhaustive-deps
+
+  const handleSelect = async (message: EmailMessage) => {
+    setSelectedId(message.id)
+    setVerifyResult(null)
+
+    if (!message.read_at) {
+      await emailService.markRead(message.id)
+      setMessages(prev => prev.map(m => (m.id === message.id ? { ...m, read_at: new Date().toISOString() } : m)))
+    }
+  }
+
+  const handleVerify = async (message: EmailMessage) => {
+    setVerifying(true)
+    try {
+      setVerifyResult(await verifyMessage(message))
+    } catch (err) {
+      setVerifyResult({ success: false, message: err instanceof Error ? err.message : String(err) })
+    } finally {
+      setVerifying(false)
+    }
+  }
+
+  const handleDelete = async (message: EmailMessage) => {
+    await emailService.deleteMessage(message.id)
+    setSelectedId(null)
+    setMessages(prev => prev.filter(m => m.id !== message.id))
+  }
+
+  const handleClear = async () => {
+    await emailService.clearInbox()
+    setSelectedId(null)
+    setMessages([])
+  }
+
+  // Clicking the verification link inside the email verifies it in place
+  const handleFrameLoad = () => {
+    const doc = frameRef.current?.contentDocument
+    if (!doc || !selected) return
+
+    doc.addEventListener('click', (event) => {
+      const anchor = (event.target as HTMLElement).closest('a')
+      if (!anchor) return
+
+      event.preventDefault()
+      if (selected.action_link && anchor.href === selected.action_link) {
+        handleVerify(selected)
+      }
+    })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Inbox</CardTitle>
+            <CardDescription>
+              Emails sent by Auth for this project are caught here instead of being delivered
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={loadMessages}>
+              <RefreshCw className="h-4 w-4 mr-1" />
+              Refresh
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleClear} disabled={messages.length === 0}>
+              <Trash2 className="h-4 w-4 mr-1" />
+              Clear
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error && <div className="text-sm text-red-600 mb-4">{error}</div>}
+
+        {loading ? (
+          <div className="text-center py-8">Loading inbox...</div>
+        ) : messages.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <Mail className="h-8 w-8 mx-auto mb-2" />
+            No emails yet. Sign up, request a magic link or reset a password to receive one.
+          </div>
+        ) : (
+          <div className="grid grid-cols-3 gap-4">
+            <div className="col-span-1 border rounded divide-y max-h-[32rem] overflow-auto">
+              {messages.map(message => (
+                <button
+                  key={message.id}
+                  type="button"
+                  onClick={() => handleSelect(message)}
+                  className={`w-full text-left p-3 hover:bg-muted ${message.id === selectedId ? 'bg-muted' : ''}`}
+                >
+                  <div className={`text-sm truncate ${message.read_at ? '' : 'font-semibold'}`}>{message.subject}</div>
+                  <div className="text-xs text-muted-foreground truncate">{message.recipient}</div>
+                  <div className="text-xs text-muted-foreground">{new Date(message.created_at).toLocaleString()}</div>
+                </button>
+              ))}
+            </div>
+
+            <div className="col-span-2">
+              {selected ? (
+                <div className="space-y-3">
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <div className="font-medium">{selected.subject}</div>
+                      <div className="text-sm text-muted-foreground">To: {selected.recipient}</div>
+                    </div>
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(selected)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">{selected.verification_type}</Badge>
+                    {selected.token && (
+                      <span className="text-sm">
+                        Code: <code className="font-mono bg-muted px-1 rounded">{selected.token}</code>
+                      </span>
+                    )}
+                    {selected.action_link && (
+                      <Button size="sm" onClick={() => handleVerify(selected)} disabled={verifying}>
+                        {verifying ? 'Verifying...' : 'Verify'}
+                      </Button>
+                    )}
+                  </div>
+
+                  {verifyResult && (
+                    <div className={`text-sm ${verifyResult.success ? 'text-green-600' : 'text-red-600'}`}>
+                      {verifyResult.message}
+                    </div>
+                  )}
+
+                  <iframe
+                    ref={frameRef}
+                    title="Email body"
+                    sandbox="allow-same-origin"
+                    srcDoc={selected.html}
+                    onLoad={handleFrameLoad}
+                    className="w-full h-80 border rounded bg-white"
+                  />
+                </div>
+              ) : (
+                <div className="text-center py-8 text-muted-foreground">Select an email to read it</div>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
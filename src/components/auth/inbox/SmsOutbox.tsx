@@ -0,0 +1,100 @@
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { SmsService } from '@/lib/auth/services/SmsService'
+import type { SmsMessage } from '@/lib/auth/services/SmsService'
+import { MessageSquare, RefreshCw, Trash2 } from 'lucide-react'
+
+export function SmsOutbox() {
+  const [smsService] = useState(() => SmsService.getInstance())
+  const [messages, setMessages] = useState<SmsMessage[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadMessages = async () => {
+    setLoading(true)
+    setError(null)
+
+    try {
+      setMessages(await smsService.listMessages())
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error'
+      setError(`Error loading SMS outbox: ${errorMessage}`)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadMessages()
+  }, []) // eslint-disable-line react-hooks/exhaustive-deps
+
+  const handleDelete = async (message: SmsMessage) => {
+    await smsService.deleteMessage(message.id)
+    setMessages(prev => prev.filter(m => m.id !== message.id))
+  }
+
+  const handleClear = async () => {
+    await smsService.clearOutbox()
+    setMessages([])
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>SMS Outbox</CardTitle>
+            <CardDescription>
+              Text messages sent by Auth for this project are caught here instead of going to an SMS provider
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={loadMessages}>
+              <RefreshCw className="h-4 w-4 mr-1" />
+              Refresh
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleClear} disabled={messages.length === 0}>
+              <Trash2 className="h-4 w-4 mr-1" />
+              Clear
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error && <div className="text-sm text-red-600 mb-4">{error}</div>}
+
+        {loading ? (
+          <div className="text-center py-8">Loading SMS outbox...</div>
+        ) : messages.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <MessageSquare className="h-8 w-8 mx-auto mb-2" />
+            No text messages yet. Sign up or sign in with a phone number, or change a user's phone, to send one.
+          </div>
+        ) : (
+          <div className="border rounded divide-y max-h-[32rem] overflow-auto">
+            {messages.map(message => (
+              <div key={message.id} className="flex items-start justify-between gap-4 p-3">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{message.recipient}</span>
+                    <Badge variant="outline">{message.verification_type}</Badge>
+                  </div>
+                  <div className="text-sm">{message.body}</div>
+                  <div className="text-xs text-muted-foreground">{new Date(message.created_at).toLocaleString()}</div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <code className="font-mono text-lg bg-muted px-2 rounded">{message.token}</code>
+                  <Button variant="ghost" size="sm" onClick={() => handleDelete(message)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
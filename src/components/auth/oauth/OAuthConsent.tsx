@@ -0,0 +1,197 @@
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { AuthManager } from '@/lib/auth/core/AuthManager'
+import type { ProviderConsent } from '@/lib/auth/core/AuthManager'
+import { AuthBridge } from '@/lib/auth/AuthBridge'
+import { OAuthService, FAKE_OAUTH_PROVIDERS } from '@/lib/auth/services/OAuthService'
+import type { FakeIdentityProfile } from '@/lib/auth/services/OAuthService'
+import type { UserIdentity } from '@/lib/auth/types/auth.types'
+import { UserCircle } from 'lucide-react'
+
+/**
+ * Read the authorize request from the consent page URL. When the app was
+ * opened at /authorize itself the flow is started here first.
+ */
+async function resolveConsent(): Promise<ProviderConsent> {
+  let params = new URLSearchParams(window.location.search)
+
+  if (window.location.pathname.endsWith('/auth/v1/authorize')) {
+    const response = await AuthBridge.getInstance().handleAuthRequest({
+      endpoint: 'authorize',
+      method: 'GET',
+      url: new URL(window.location.href),
+      headers: {}
+    })
+    if (response.error) {
+      throw new Error(response.error.error_description)
+    }
+
+    const location = new URL(response.headers.Location)
+    window.history.replaceState(null, '', `${location.pathname}${location.search}`)
+    params = location.searchParams
+  }
+
+  const provider = params.get('provider') || ''
+  if (!FAKE_OAUTH_PROVIDERS[provider]) {
+    throw new Error(`Unsupported provider: ${provider || 'none'}`)
+  }
+
+  return {
+    provider,
+    redirectTo: new URL(params.get('redirect_to') || '/', window.location.origin).toString(),
+    flowStateId: params.get('flow_state_id') || undefined,
+    linkingTargetId: params.get('linking_target_id') || undefined
+  }
+}
+
+const profileFromIdentity = (identity: UserIdentity): FakeIdentityProfile => {
+  const data = identity.identity_data as Partial<Record<string, string>>
+  return {
+    id: identity.id,
+    email: data.email || identity.email || '',
+    name: data.name,
+    user_name: data.user_name,
+    avatar_url: data.avatar_url
+  }
+}
+
+export function OAuthConsent() {
+  const [authManager] = useState(() => AuthManager.getInstance())
+  const [consent, setConsent] = useState<ProviderConsent | null>(null)
+  const [identities, setIdentities] = useState<UserIdentity[]>([])
+  const [email, setEmail] = useState('')
+  const [name, setName] = useState('')
+  const [userName, setUserName] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        await authManager.initialize()
+        const resolved = await resolveConsent()
+        setConsent(resolved)
+        setIdentities(await OAuthService.getInstance().listIdentities(resolved.provider))
+      } catch (err) {
+        setError(err instanceof Error ? err.message : String(err))
+      }
+    }
+    load()
+  }, []) // eslint-disable-line react-hooks/exhaustive-deps
+
+  const providerName = consent ? FAKE_OAUTH_PROVIDERS[consent.provider].name : ''
+  const redirectHost = consent ? new URL(consent.redirectTo).host : ''
+
+  const authorize = async (profile: FakeIdentityProfile) => {
+    if (!consent) return
+
+    setBusy(true)
+    setError(null)
+    try {
+      window.location.assign(await authManager.completeProviderSignIn(consent, profile))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+      setBusy(false)
+    }
+  }
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault()
+    authorize({
+      email,
+      name: name || undefined,
+      user_name: userName || undefined
+    })
+  }
+
+  const handleDeny = async () => {
+    if (!consent) return
+
+    setBusy(true)
+    try {
+      window.location.assign(await authManager.denyProviderSignIn(consent))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-muted p-6">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>
+            {consent ? `${consent.linkingTargetId ? 'Link' : 'Sign in with'} ${providerName}` : 'Sign in'}
+          </CardTitle>
+          <CardDescription>
+            {consent
+              ? `Local stand-in for ${providerName}. Pick or create a fake account to authorize ${redirectHost}.`
+              : 'Loading authorization request...'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {error && <div className="text-sm text-red-600">{error}</div>}
+
+          {consent && identities.length > 0 && (
+            <div className="space-y-2">
+              <Label>Existing {providerName} accounts</Label>
+              <div className="border rounded divide-y">
+                {identities.map(identity => (
+                  <button
+                    key={identity.identity_id}
+                    type="button"
+                    disabled={busy}
+                    onClick={() => authorize(profileFromIdentity(identity))}
+                    className="w-full flex items-center gap-3 p-3 text-left hover:bg-muted disabled:opacity-50"
+                  >
+                    <UserCircle className="h-6 w-6 text-muted-foreground" />
+                    <div className="min-w-0">
+                      <div className="text-sm font-medium truncate">
+                        {profileFromIdentity(identity).name || identity.email}
+                      </div>
+                      <div className="text-xs text-muted-foreground truncate">{identity.email}</div>
+                    </div>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {consent && (
+            <form onSubmit={handleCreate} className="space-y-3">
+              <Label>New {providerName} account</Label>
+              <div className="space-y-1">
+                <Label htmlFor="oauth-email" className="text-xs">Email</Label>
+                <Input
+                  id="oauth-email"
+                  type="email"
+                  required
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="octocat@example.com"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="oauth-name" className="text-xs">Name</Label>
+                <Input id="oauth-name" value={name} onChange={(e) => setName(e.target.value)} />
+              </div>
+              {consent.provider === 'github' && (
+                <div className="space-y-1">
+                  <Label htmlFor="oauth-username" className="text-xs">Username</Label>
+                  <Input id="oauth-username" value={userName} onChange={(e) => setUserName(e.target.value)} />
+                </div>
+              )}
+              <div className="flex gap-2 pt-2">
+                <Button type="submit" disabled={busy}>Authorize</Button>
+                <Button type="button" variant="outline" disabled={busy} onClick={handleDeny}>Cancel</Button>
+              </div>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,286 @@
+import { useState, useEffect } from 'react'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { AuthSettingsService } from '@/lib/auth/services/AuthSettingsService'
+import type { AuthHookConfig, AuthSettings as AuthSettingsValues } from '@/lib/auth/services/AuthSettingsService'
+import { parseHookUri } from '@/lib/auth/services/AuthHooksService'
+
+type AuthHookSetting = 'hook_custom_access_token' | 'hook_password_verification_attempt' | 'hook_mfa_verification_attempt'
+
+const AUTH_HOOKS: Array<{ setting: AuthHookSetting; label: string; description: string }> = [
+  {
+    setting: 'hook_custom_access_token',
+    label: 'Custom access token',
+    description: 'Receives { user_id, claims, authentication_method } and returns { claims } to sign instead.'
+  },
+  {
+    setting: 'hook_password_verification_attempt',
+    label: 'Password verification attempt',
+    description: 'Receives { user_id, valid } and returns { decision: "continue" | "reject", message, should_logout_user }.'
+  },
+  {
+    setting: 'hook_mfa_verification_attempt',
+    label: 'MFA verification attempt',
+    description: 'Receives { user_id, factor_id, factor_type, valid } and returns { decision: "continue" | "reject", message }.'
+  }
+]
+
+type RateLimitSetting =
+  | 'rate_limit_email_sent'
+  | 'rate_limit_sms_sent'
+  | 'rate_limit_sign_in_sign_ups'
+  | 'rate_limit_anonymous_users'
+  | 'rate_limit_token_refresh'
+  | 'rate_limit_token_verifications'
+  | 'email_max_frequency'
+  | 'sms_max_frequency'
+
+const RATE_LIMITS: Array<{ setting: RateLimitSetting; label: string; unit: string }> = [
+  { setting: 'rate_limit_email_sent', label: 'Emails sent', unit: 'per hour' },
+  { setting: 'rate_limit_sms_sent', label: 'SMS messages sent', unit: 'per hour' },
+  { setting: 'rate_limit_sign_in_sign_ups', label: 'Sign-ups and sign-ins', unit: 'per 5 minutes per IP or address' },
+  { setting: 'rate_limit_anonymous_users', label: 'Anonymous sign-ins', unit: 'per hour per IP' },
+  { setting: 'rate_limit_token_refresh', label: 'Token refreshes', unit: 'per 5 minutes per IP' },
+  { setting: 'rate_limit_token_verifications', label: 'Token verifications', unit: 'per 5 minutes per IP or address' },
+  { setting: 'email_max_frequency', label: 'Email interval per address', unit: 'seconds' },
+  { setting: 'sms_max_frequency', label: 'SMS interval per number', unit: 'seconds' }
+]
+
+interface RateLimitFieldProps {
+  id: string
+  label: string
+  unit: string
+  value: number | undefined
+  disabled: boolean
+  onChange: (value: number) => void
+}
+
+/**
+ * Number input for one limit, saved when the field loses focus
+ */
+function RateLimitField({ id, label, unit, value, disabled, onChange }: RateLimitFieldProps) {
+  const [input, setInput] = useState(String(value ?? ''))
+
+  const saveValue = () => {
+    const parsed = Number(input)
+    if (input !== '' && Number.isInteger(parsed) && parsed >= 0 && parsed !== value) {
+      onChange(parsed)
+    } else {
+      setInput(String(value ?? ''))
+    }
+  }
+
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id}>{label}</Label>
+      <div className="flex items-center gap-2">
+        <Input
+          id={id}
+          type="number"
+          min={0}
+          className="w-28"
+          value={input}
+          disabled={disabled}
+          onChange={(e) => setInput(e.target.value)}
+          onBlur={saveValue}
+        />
+        <span className="text-sm text-muted-foreground">{unit}</span>
+      </div>
+    </div>
+  )
+}
+
+interface AuthHookFieldProps {
+  id: string
+  label: string
+  description: string
+  config: AuthHookConfig | undefined
+  disabled: boolean
+  onChange: (config: AuthHookConfig) => void
+}
+
+/**
+ * Switch and URI of one hook. The URI is saved when the field loses focus.
+ */
+function AuthHookField({ id, label, description, config, disabled, onChange }: AuthHookFieldProps) {
+  const [uri, setUri] = useState(config?.uri ?? '')
+  const enabled = config?.enabled ?? false
+  const validUri = parseHookUri(uri) !== null
+
+  const saveUri = () => {
+    if (uri !== (config?.uri ?? '')) {
+      onChange({ enabled: enabled && validUri, uri })
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-4">
+        <div className="space-y-1">
+          <Label htmlFor={id}>{label}</Label>
+          <p className="text-sm text-muted-foreground">{description}</p>
+        </div>
+        <Switch
+          id={id}
+          checked={enabled}
+          disabled={disabled || (!enabled && !validUri)}
+          onCheckedChange={(checked) => onChange({ enabled: checked, uri })}
+        />
+      </div>
+      <Input
+        placeholder="pg-functions://postgres/public/my_hook"
+        value={uri}
+        disabled={disabled}
+        onChange={(e) => setUri(e.target.value)}
+        onBlur={saveUri}
+      />
+      {uri !== '' && !validUri && (
+        <p className="text-sm text-red-600">Use pg-functions://postgres/&lt;schema&gt;/&lt;function&gt;</p>
+      )}
+    </div>
+  )
+}
+
+export function AuthSettings() {
+  const [settingsService] = useState(() => AuthSettingsService.getInstance())
+  const [settings, setSettings] = useState<AuthSettingsValues | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    settingsService.getSettings()
+      .then(setSettings)
+      .catch(err => setError(`Error loading settings: ${err instanceof Error ? err.message : String(err)}`))
+  }, []) // eslint-disable-line react-hooks/exhaustive-deps
+
+  const updateSetting = async (changes: Partial<AuthSettingsValues>) => {
+    setSaving(true)
+    setError(null)
+    try {
+      setSettings(await settingsService.updateSettings(changes))
+    } catch (err) {
+      setError(`Error saving settings: ${err instanceof Error ? err.message : String(err)}`)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Auth Settings</CardTitle>
+        <CardDescription>Options for the auth server of the current project</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <div className="text-sm text-red-600">{error}</div>}
+
+        <div className="flex items-center justify-between gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="anonymous-sign-ins">Allow anonymous sign-ins</Label>
+            <p className="text-sm text-muted-foreground">
+              Lets signInAnonymously() create users without credentials. Their JWTs carry is_anonymous: true
+              until an email, phone or identity is added.
+            </p>
+          </div>
+          <Switch
+            id="anonymous-sign-ins"
+            checked={settings?.anonymous_sign_ins_enabled ?? false}
+            disabled={!settings || saving}
+            onCheckedChange={(checked) => updateSetting({ anonymous_sign_ins_enabled: checked })}
+          />
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="manual-linking">Allow manual linking</Label>
+            <p className="text-sm text-muted-foreground">
+              Lets signed in users call linkIdentity() and unlinkIdentity() to manage their own identities.
+            </p>
+          </div>
+          <Switch
+            id="manual-linking"
+            checked={settings?.manual_linking_enabled ?? false}
+            disabled={!settings || saving}
+            onCheckedChange={(checked) => updateSetting({ manual_linking_enabled: checked })}
+          />
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="email-confirmations">Confirm email addresses</Label>
+            <p className="text-sm text-muted-foreground">
+              Email signups and email changes only take effect once the link sent to the inbox is followed.
+            </p>
+          </div>
+          <Switch
+            id="email-confirmations"
+            checked={settings?.email_confirmations_enabled ?? false}
+            disabled={!settings || saving}
+            onCheckedChange={(checked) => updateSetting({ email_confirmations_enabled: checked })}
+          />
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="phone-confirmations">Confirm phone numbers</Label>
+            <p className="text-sm text-muted-foreground">
+              Phone signups and phone changes only take effect once the code sent to the SMS outbox is verified.
+            </p>
+          </div>
+          <Switch
+            id="phone-confirmations"
+            checked={settings?.phone_confirmations_enabled ?? true}
+            disabled={!settings || saving}
+            onCheckedChange={(checked) => updateSetting({ phone_confirmations_enabled: checked })}
+          />
+        </div>
+
+        <div className="space-y-4 border-t pt-4">
+          <div className="space-y-1">
+            <h3 className="font-medium">Auth Hooks</h3>
+            <p className="text-sm text-muted-foreground">
+              Postgres functions that take the hook payload as jsonb and return jsonb. Returning
+              {' { "error": { "http_code": 403, "message": "..." } } '}fails the request.
+            </p>
+          </div>
+          {AUTH_HOOKS.map(hook => (
+            <AuthHookField
+              key={`${hook.setting}:${settings?.[hook.setting].uri ?? ''}`}
+              id={hook.setting}
+              label={hook.label}
+              description={hook.description}
+              config={settings?.[hook.setting]}
+              disabled={!settings || saving}
+              onChange={(config) => updateSetting({ [hook.setting]: config })}
+            />
+          ))}
+        </div>
+
+        <div className="space-y-4 border-t pt-4">
+          <div className="space-y-1">
+            <h3 className="font-medium">Rate Limits</h3>
+            <p className="text-sm text-muted-foreground">
+              Requests over a limit fail with 429 over_request_rate_limit, over_email_send_rate_limit or
+              over_sms_send_rate_limit. Set a limit to 0 to turn it off. Counters reset when the page reloads.
+            </p>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            {RATE_LIMITS.map(limit => (
+              <RateLimitField
+                key={`${limit.setting}:${settings?.[limit.setting] ?? ''}`}
+                id={limit.setting}
+                label={limit.label}
+                unit={limit.unit}
+                value={settings?.[limit.setting]}
+                disabled={!settings || saving}
+                onChange={(value) => updateSetting({ [limit.setting]: value })}
+              />
+            ))}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,166 @@
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import type { BadgeProps } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { JWTKeyService } from '@/lib/auth/services/JWTKeyService'
+import type { JWTSigningAlgorithm, SigningKeyInfo, SigningKeyStatus } from '@/lib/auth/services/JWTKeyService'
+import { KeyRound, RefreshCw, RotateCw, Trash2 } from 'lucide-react'
+
+const STATUS_LABELS: Record<SigningKeyStatus, string> = {
+  in_use: 'Current',
+  standby: 'Standby',
+  previously_used: 'Previously used',
+  revoked: 'Revoked'
+}
+
+const STATUS_VARIANTS: Record<SigningKeyStatus, BadgeProps['variant']> = {
+  in_use: 'success',
+  standby: 'secondary',
+  previously_used: 'outline',
+  revoked: 'destructive'
+}
+
+const ALGORITHM_LABELS: Record<JWTSigningAlgorithm, string> = {
+  ES256: 'ES256 (ECC P-256)',
+  RS256: 'RS256 (RSA 2048)',
+  HS256: 'HS256 (shared secret)'
+}
+
+export function JWTSigningKeys() {
+  const [keyService] = useState(() => JWTKeyService.getInstance())
+  const [keys, setKeys] = useState<SigningKeyInfo[]>([])
+  const [algorithm, setAlgorithm] = useState<JWTSigningAlgorithm>('ES256')
+  const [secret, setSecret] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const hasStandby = keys.some(key => key.status === 'standby')
+
+  const loadKeys = async () => {
+    setLoading(true)
+    setError(null)
+
+    try {
+      // Listing the current key first creates it for projects that never signed a token
+      await keyService.getCurrentKey()
+      setKeys(await keyService.listKeys())
+    } catch (err) {
+      setError(`Error loading signing keys: ${err instanceof Error ? err.message : String(err)}`)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadKeys()
+  }, []) // eslint-disable-line react-hooks/exhaustive-deps
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    setSaving(true)
+    setError(null)
+    try {
+      await action()
+      setKeys(await keyService.listKeys())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleCreateStandby = () => runAction(async () => {
+    await keyService.createStandbyKey(algorithm, algorithm === 'HS256' && secret ? secret : undefined)
+    setSecret('')
+  })
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>JWT Signing Keys</CardTitle>
+            <CardDescription>
+              The current key signs new tokens. Previously used keys keep verifying tokens until they are revoked.
+              Asymmetric keys are published at /auth/v1/.well-known/jwks.json.
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={loadKeys}>
+            <RefreshCw className="h-4 w-4 mr-1" />
+            Refresh
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <div className="text-sm text-red-600">{error}</div>}
+
+        {loading ? (
+          <div className="text-center py-8">Loading signing keys...</div>
+        ) : (
+          <div className="border rounded divide-y">
+            {keys.map(key => (
+              <div key={key.id} className="flex items-center justify-between gap-4 p-3">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <KeyRound className="h-4 w-4 text-muted-foreground" />
+                    <code className="font-mono text-sm">{key.id}</code>
+                    <Badge variant={STATUS_VARIANTS[key.status]}>{STATUS_LABELS[key.status]}</Badge>
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {key.algorithm} · created {new Date(key.created_at).toLocaleString()}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  {key.status === 'previously_used' && (
+                    <Button variant="outline" size="sm" disabled={saving} onClick={() => runAction(() => keyService.revokeKey(key.id))}>
+                      Revoke
+                    </Button>
+                  )}
+                  {(key.status === 'standby' || key.status === 'revoked') && (
+                    <Button variant="ghost" size="sm" disabled={saving} onClick={() => runAction(() => keyService.deleteKey(key.id))}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {hasStandby ? (
+          <Button disabled={saving} onClick={() => runAction(() => keyService.rotate())}>
+            <RotateCw className="h-4 w-4 mr-1" />
+            Rotate to standby key
+          </Button>
+        ) : (
+          <div className="flex items-center gap-2">
+            <Select value={algorithm} onValueChange={(value) => setAlgorithm(value as JWTSigningAlgorithm)}>
+              <SelectTrigger className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(ALGORITHM_LABELS) as JWTSigningAlgorithm[]).map(alg => (
+                  <SelectItem key={alg} value={alg}>{ALGORITHM_LABELS[alg]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {algorithm === 'HS256' && (
+              <Input
+                type="password"
+                placeholder="Shared secret, 32+ characters (random if empty)"
+                value={secret}
+                onChange={(e) => setSecret(e.target.value)}
+              />
+            )}
+            <Button variant="outline" disabled={saving} onClick={handleCreateStandby}>
+              Create standby key
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
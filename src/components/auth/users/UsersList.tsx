@@ -6,7 +6,8 @@ import { Badge } from '@/components/ui/badge'
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
 import { AuthManager } from '@/lib/auth/core/AuthManager'
 import type { User } from '@/lib/auth/types/auth.types'
-import { Mail, Phone, Trash2, Eye, MoreHorizontal } from 'lucide-react'
+import type { StoredSession } from '@/lib/auth/services/SessionService'
+import { Mail, Phone, Ghost, Trash2, Eye, MoreHorizontal, MonitorSmartphone } from 'lucide-react'
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu'
 import { projectManager } from '@/lib/projects/ProjectManager'
 
@@ -28,6 +29,11 @@ export function UsersList() {
   const [deleting, setDeleting] = useState(false)
   const [viewDialogOpen, setViewDialogOpen] = useState(false)
   const [userToView, setUserToView] = useState<User | null>(null)
+  const [sessionsDialogOpen, setSessionsDialogOpen] = useState(false)
+  const [sessionsUser, setSessionsUser] = useState<User | null>(null)
+  const [sessions, setSessions] = useState<StoredSession[]>([])
+  const [sessionsLoading, setSessionsLoading] = useState(false)
+  const [revokingSessionId, setRevokingSessionId] = useState<string | null>(null)
 
   // Ensure there's always an active project (let useDatabase hook handle initialization)
   const ensureActiveProject = async () => {
@@ -95,6 +101,36 @@ export function UsersList() {
     setViewDialogOpen(true)
   }
 
+  // Handle view sessions
+  const handleViewSessions = async (user: User) => {
+    setSessionsUser(user)
+    setSessions([])
+    setSessionsDialogOpen(true)
+    setSessionsLoading(true)
+    try {
+      setSessions(await authManager.adminListUserSessions(user.id))
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error'
+      setError(`Error loading sessions: ${errorMessage}`)
+    } finally {
+      setSessionsLoading(false)
+    }
+  }
+
+  // Revoke one session, its refresh tokens stop working
+  const revokeSession = async (sessionId: string) => {
+    setRevokingSessionId(sessionId)
+    try {
+      await authManager.adminRevokeSession(sessionId)
+      setSessions(current => current.filter(session => session.id !== sessionId))
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error'
+      setError(`Error revoking session: ${errorMessage}`)
+    } finally {
+      setRevokingSessionId(null)
+    }
+  }
+
   // Handle delete user
   const handleDeleteUser = (user: User) => {
     setUserToDelete(user)
@@ -137,6 +173,8 @@ export function UsersList() {
         return <Mail className="h-4 w-4" />
       case 'phone':
         return <Phone className="h-4 w-4" />
+      case 'anonymous':
+        return <Ghost className="h-4 w-4" />
       default:
         return <Mail className="h-4 w-4" />
     }
@@ -252,6 +290,10 @@ export function UsersList() {
                             <Eye className="mr-2 h-4 w-4" />
                             View details
                           </DropdownMenuItem>
+                          <DropdownMenuItem onClick={() => handleViewSessions(user)}>
+                            <MonitorSmartphone className="mr-2 h-4 w-4" />
+                            Sessions
+                          </DropdownMenuItem>
                           <DropdownMenuItem onClick={() => handleDeleteUser(user)} className="text-red-600">
                             <Trash2 className="mr-2 h-4 w-4" />
                             Delete user
@@ -403,6 +445,58 @@ export function UsersList() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {/* User Sessions Dialog */}
+      <Dialog open={sessionsDialogOpen} onOpenChange={setSessionsDialogOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Sessions</DialogTitle>
+            <DialogDescription>
+              Active sessions of {sessionsUser?.email || sessionsUser?.phone || sessionsUser?.id}. Revoking a
+              session deletes its refresh tokens, so it ends once its access token expires.
+            </DialogDescription>
+          </DialogHeader>
+          {sessionsLoading ? (
+            <div className="text-sm text-muted-foreground">Loading sessions...</div>
+          ) : sessions.length === 0 ? (
+            <div className="text-sm text-muted-foreground">No active sessions</div>
+          ) : (
+            <div className="space-y-2">
+              {sessions.map((session) => (
+                <div key={session.id} className="flex items-center justify-between gap-4 p-2 bg-muted rounded">
+                  <div className="space-y-1 min-w-0">
+                    <p className="font-mono text-xs truncate">{session.id}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Signed in {new Date(session.created_at).toLocaleString()}
+                      {' · '}
+                      {session.refreshed_at
+                        ? `refreshed ${new Date(session.refreshed_at).toLocaleString()}`
+                        : 'never refreshed'}
+                    </p>
+                    {session.user_agent && (
+                      <p className="text-xs text-muted-foreground truncate">{session.user_agent}</p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline" className="text-xs">{session.aal}</Badge>
+                    <Button
+                      size="sm"
+                      variant="destructive"
+                      onClick={() => revokeSession(session.id)}
+                      disabled={revokingSessionId === session.id}
+                    >
+                      {revokingSessionId === session.id ? 'Revoking...' : 'Revoke'}
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+          <DialogFooter>
+            <Button onClick={() => setSessionsDialogOpen(false)}>Close</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </>
   )
 }
\ No newline at end of file
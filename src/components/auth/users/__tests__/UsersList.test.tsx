@@ -221,7 +221,7 @@ describe('UsersList', () => {
       mockAuthManager.getAllUsers.mockResolvedValue(mockUsers)
       mockAuthManager.getUserCount.mockResolvedValue(32)
       mockAuthManager.getProviders.mockResolvedValue(mockProviders)
-      mockAuthManager.deleteUser.mockResolvedValue(undefined)
+      vi.mocked(mockAuthManager.deleteUser).mockResolvedValue(undefined)
 
       render(<UsersList />)
 
@@ -246,7 +246,7 @@ describe('UsersList', () => {
       mockAuthManager.getAllUsers.mockResolvedValue(mockUsers)
       mockAuthManager.getUserCount.mockResolvedValue(32)
       mockAuthManager.getProviders.mockResolvedValue(mockProviders)
-      mockAuthManager.deleteUser.mockResolvedValue(undefined)
+      vi.mocked(mockAuthManager.deleteUser).mockResolvedValue(undefined)
 
       render(<UsersList />)
 
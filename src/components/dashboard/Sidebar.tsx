@@ -6,6 +6,7 @@ import {
   Shield,
   FolderOpen,
   Zap,
+  Code,
   Globe,
   BookOpen,
   Database,
@@ -26,6 +27,7 @@ const iconMap = {
   Shield,
   FolderOpen,
   Zap,
+  Code,
   Globe,
   BookOpen,
   Database,
@@ -87,7 +89,13 @@ export function Sidebar({ currentPage, onPageChange, currentProjectName }: Sideb
       id: 'realtime',
       label: 'Realtime',
       icon: 'Zap' as keyof typeof iconMap,
-      badge: 'Coming Soon',
+      badge: null,
+    },
+    {
+      id: 'edge-functions',
+      label: 'Edge Functions',
+      icon: 'Code' as keyof typeof iconMap,
+      badge: null,
     },
     {
       id: 'app-hosting',
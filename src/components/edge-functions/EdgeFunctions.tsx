@@ -0,0 +1,385 @@
+import { useState, useEffect, useCallback } from 'react';
+import Editor from '@monaco-editor/react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Code, Plus, Save, Rocket, Trash2, RefreshCw } from 'lucide-react';
+import { projectManager } from '@/lib/projects/ProjectManager';
+import {
+  FunctionRuntime,
+  TranspileError,
+  functionStore,
+  isValidFunctionName,
+  type EdgeFunction,
+  type FunctionInvocation
+} from '@/lib/functions';
+import { useTheme } from '@/contexts/ThemeContext';
+import { toast } from 'sonner';
+
+const LOG_LEVEL_CLASSES: Record<string, string> = {
+  error: 'text-red-600',
+  warn: 'text-yellow-600',
+  debug: 'text-muted-foreground'
+};
+
+export function EdgeFunctions() {
+  const runtime = FunctionRuntime.getInstance();
+  const { monacoTheme } = useTheme();
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [functions, setFunctions] = useState<EdgeFunction[]>([]);
+  const [selectedName, setSelectedName] = useState<string | null>(null);
+  const [source, setSource] = useState('');
+  const [isDirty, setIsDirty] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isDeploying, setIsDeploying] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [invocations, setInvocations] = useState<FunctionInvocation[]>([]);
+
+  const selected = functions.find(fn => fn.name === selectedName) || null;
+
+  const loadFunctions = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const activeProject = projectManager.getActiveProject();
+      if (!activeProject) {
+        toast.error('No active project');
+        return;
+      }
+
+      setProjectId(activeProject.id);
+      const list = await functionStore.listFunctions(activeProject.id);
+      setFunctions(list);
+      setSelectedName(current => current && list.some(fn => fn.name === current) ? current : list[0]?.name || null);
+    } catch (error) {
+      console.error('Failed to load edge functions:', error);
+      toast.error('Failed to load edge functions');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadFunctions();
+  }, [loadFunctions]);
+
+  // Load the editor contents when the selection changes
+  useEffect(() => {
+    if (!projectId || !selectedName) {
+      setSource('');
+      return;
+    }
+
+    let cancelled = false;
+    functionStore.getSource(projectId, selectedName).then(content => {
+      if (!cancelled) {
+        setSource(content || '');
+        setIsDirty(false);
+      }
+    });
+    setInvocations(runtime.getInvocations(projectId, selectedName));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, selectedName, runtime]);
+
+  // Keep the logs tab live while requests come in
+  useEffect(() => {
+    return runtime.subscribe(invocation => {
+      if (invocation.projectId === projectId && invocation.functionName === selectedName) {
+        setInvocations(runtime.getInvocations(invocation.projectId, invocation.functionName));
+      }
+    });
+  }, [runtime, projectId, selectedName]);
+
+  const handleCreate = async () => {
+    const name = newName.trim();
+    if (!projectId || !name) {
+      return;
+    }
+    if (!isValidFunctionName(name)) {
+      toast.error('Use letters, numbers, hyphens and underscores, starting with a letter');
+      return;
+    }
+
+    try {
+      await functionStore.createFunction(projectId, name);
+      setNewName('');
+      await loadFunctions();
+      setSelectedName(name);
+      toast.success(`Function "${name}" created`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to create function');
+    }
+  };
+
+  const handleSave = async (): Promise<boolean> => {
+    if (!projectId || !selectedName) {
+      return false;
+    }
+
+    try {
+      await functionStore.saveSource(projectId, selectedName, source);
+      setIsDirty(false);
+      await loadFunctions();
+      return true;
+    } catch (error) {
+      console.error('Failed to save edge function:', error);
+      toast.error('Failed to save function');
+      return false;
+    }
+  };
+
+  const handleDeploy = async () => {
+    if (!projectId || !selectedName) {
+      return;
+    }
+
+    setIsDeploying(true);
+    try {
+      if (isDirty && !(await handleSave())) {
+        return;
+      }
+      const deployed = await functionStore.deploy(projectId, selectedName);
+      await loadFunctions();
+      toast.success(`Deployed ${deployed.name} (version ${deployed.version})`);
+    } catch (error) {
+      if (error instanceof TranspileError) {
+        toast.error(error.message, { description: error.diagnostics.join('\n') });
+      } else {
+        toast.error(error instanceof Error ? error.message : 'Failed to deploy function');
+      }
+    } finally {
+      setIsDeploying(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!projectId || !selectedName) {
+      return;
+    }
+    if (!confirm(`Are you sure you want to delete the function "${selectedName}"? This action cannot be undone.`)) {
+      return;
+    }
+
+    try {
+      await functionStore.deleteFunction(projectId, selectedName);
+      runtime.stop(projectId, selectedName);
+      runtime.clearInvocations(projectId, selectedName);
+      setSelectedName(null);
+      await loadFunctions();
+      toast.success('Function deleted');
+    } catch (error) {
+      console.error('Failed to delete edge function:', error);
+      toast.error('Failed to delete function');
+    }
+  };
+
+  const handleToggleVerifyJwt = async (verifyJwt: boolean) => {
+    if (!projectId || !selectedName) {
+      return;
+    }
+
+    try {
+      await functionStore.updateConfig(projectId, selectedName, { verifyJwt });
+      setFunctions(prev => prev.map(fn => fn.name === selectedName ? { ...fn, verifyJwt } : fn));
+    } catch (error) {
+      console.error('Failed to update edge function settings:', error);
+      toast.error('Failed to update function settings');
+    }
+  };
+
+  const formatTime = (timestamp: string): string => {
+    return new Intl.DateTimeFormat('en-US', {
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    }).format(new Date(timestamp));
+  };
+
+  const invokeUrl = selected ? `${window.location.origin}/functions/v1/${selected.name}` : '';
+
+  return (
+    <div className="flex-1 p-6 overflow-y-auto min-h-full">
+      <div className="max-w-6xl mx-auto">
+        {/* Header */}
+        <div className="mb-6">
+          <div className="flex items-center gap-2 mb-2">
+            <Code className="h-6 w-6" />
+            <h1 className="text-3xl font-bold">Edge Functions</h1>
+          </div>
+          <p className="text-muted-foreground">
+            Write TypeScript functions with <code>Deno.serve()</code> and call them with{' '}
+            <code>supabase.functions.invoke()</code>. Each deployed function runs in its own Web Worker.
+          </p>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-[260px_1fr]">
+          {/* Function list */}
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle>Functions</CardTitle>
+                <Button variant="outline" size="sm" onClick={loadFunctions} disabled={isLoading}>
+                  <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="flex gap-2">
+                <Input
+                  placeholder="function-name"
+                  value={newName}
+                  onChange={(e) => setNewName(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+                />
+                <Button size="sm" onClick={handleCreate} disabled={!newName.trim()} aria-label="Create function">
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </div>
+              {functions.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  {isLoading ? 'Loading functions...' : 'No functions yet.'}
+                </p>
+              ) : (
+                <div className="space-y-1">
+                  {functions.map(fn => (
+                    <button
+                      key={fn.name}
+                      onClick={() => setSelectedName(fn.name)}
+                      className={`w-full flex items-center justify-between rounded-md px-3 py-2 text-left text-sm ${
+                        fn.name === selectedName ? 'bg-accent' : 'hover:bg-accent/50'
+                      }`}
+                    >
+                      <span className="font-mono truncate">{fn.name}</span>
+                      {fn.version === 0 ? (
+                        <Badge variant="outline">draft</Badge>
+                      ) : (
+                        <Badge variant="secondary">v{fn.version}</Badge>
+                      )}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Selected function */}
+          {selected ? (
+            <Card>
+              <CardHeader>
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <CardTitle className="font-mono">{selected.name}</CardTitle>
+                      {(isDirty || selected.hasUndeployedChanges) && (
+                        <Badge variant="outline">undeployed changes</Badge>
+                      )}
+                    </div>
+                    <CardDescription className="font-mono truncate mt-1">{invokeUrl}</CardDescription>
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    <Button variant="outline" size="sm" onClick={handleSave} disabled={!isDirty}>
+                      <Save className="h-4 w-4 mr-1" />
+                      Save
+                    </Button>
+                    <Button size="sm" onClick={handleDeploy} disabled={isDeploying}>
+                      <Rocket className="h-4 w-4 mr-1" />
+                      {isDeploying ? 'Deploying...' : 'Deploy'}
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={handleDelete} aria-label="Delete function">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 pt-2">
+                  <Switch
+                    id="verify-jwt"
+                    checked={selected.verifyJwt}
+                    onCheckedChange={handleToggleVerifyJwt}
+                  />
+                  <Label htmlFor="verify-jwt" className="text-sm">
+                    Enforce JWT verification (requires an <code>Authorization</code> header)
+                  </Label>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <Tabs defaultValue="code">
+                  <TabsList>
+                    <TabsTrigger value="code">Code</TabsTrigger>
+                    <TabsTrigger value="logs">Logs ({invocations.length})</TabsTrigger>
+                  </TabsList>
+
+                  <TabsContent value="code">
+                    <div className="border rounded-md overflow-hidden">
+                      <Editor
+                        height="480px"
+                        language="typescript"
+                        path={`functions/${selected.name}/index.ts`}
+                        value={source}
+                        onChange={(value) => {
+                          setSource(value || '');
+                          setIsDirty(true);
+                        }}
+                        theme={monacoTheme}
+                        options={{
+                          minimap: { enabled: false },
+                          fontSize: 14,
+                          automaticLayout: true,
+                          scrollBeyondLastLine: false,
+                          tabSize: 2
+                        }}
+                      />
+                    </div>
+                  </TabsContent>
+
+                  <TabsContent value="logs">
+                    {invocations.length === 0 ? (
+                      <p className="text-sm text-muted-foreground py-4">
+                        No invocations yet. Deploy the function and call it to see requests and console output here.
+                      </p>
+                    ) : (
+                      <div className="space-y-2 max-h-[480px] overflow-y-auto">
+                        {invocations.map(invocation => (
+                          <div key={invocation.id} className="rounded-md border px-3 py-2 font-mono text-xs">
+                            <div className="flex items-center gap-2">
+                              <span className="text-muted-foreground">{formatTime(invocation.timestamp)}</span>
+                              <Badge variant={invocation.status >= 400 ? 'destructive' : 'secondary'}>
+                                {invocation.status}
+                              </Badge>
+                              <span>{invocation.method}</span>
+                              <span className="truncate">{invocation.path}</span>
+                              <span className="ml-auto text-muted-foreground">{invocation.durationMs}ms</span>
+                            </div>
+                            {invocation.error && (
+                              <p className="mt-1 text-red-600">{invocation.error}</p>
+                            )}
+                            {invocation.logs.map((log, index) => (
+                              <p key={index} className={`mt-1 whitespace-pre-wrap ${LOG_LEVEL_CLASSES[log.level] || ''}`}>
+                                [{log.level}] {log.message}
+                              </p>
+                            ))}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </TabsContent>
+                </Tabs>
+              </CardContent>
+            </Card>
+          ) : (
+            <Card>
+              <CardContent className="py-12 text-center text-sm text-muted-foreground">
+                Create a function to get started.
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,205 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Zap, RefreshCw, Radio } from 'lucide-react';
+import { DatabaseManager } from '@/lib/database/connection';
+import { RealtimeServer, type RealtimeStats, type RealtimeActivity } from '@/lib/realtime';
+import { toast } from 'sonner';
+
+interface RealtimeTable {
+  schema: string;
+  name: string;
+  published: boolean;
+}
+
+const USER_SCHEMAS = ['public'];
+
+export function Realtime() {
+  const realtimeServer = RealtimeServer.getInstance();
+  const [tables, setTables] = useState<RealtimeTable[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [stats, setStats] = useState<RealtimeStats>(() => realtimeServer.getStats());
+  const [activity, setActivity] = useState<RealtimeActivity[]>(() => realtimeServer.getActivity());
+
+  const loadTables = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const dbManager = DatabaseManager.getInstance();
+      const [allTables, publishedTables] = await Promise.all([
+        dbManager.getTableList(),
+        realtimeServer.getChangeCapture().getPublishedTables()
+      ]);
+
+      const published = new Set(publishedTables.map(t => `${t.schema}.${t.table}`));
+      setTables(
+        allTables
+          .filter(table => USER_SCHEMAS.includes(table.schema))
+          .map(table => ({
+            schema: table.schema,
+            name: table.name,
+            published: published.has(`${table.schema}.${table.name}`)
+          }))
+      );
+    } catch (error) {
+      console.error('Failed to load realtime tables:', error);
+      toast.error('Failed to load realtime tables');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [realtimeServer]);
+
+  useEffect(() => {
+    loadTables();
+  }, [loadTables]);
+
+  // Keep the inspector in sync with live connections and messages
+  useEffect(() => {
+    return realtimeServer.subscribe(() => {
+      setStats(realtimeServer.getStats());
+      setActivity(realtimeServer.getActivity());
+    });
+  }, [realtimeServer]);
+
+  const handleTogglePublished = async (table: RealtimeTable, published: boolean) => {
+    try {
+      await realtimeServer.getChangeCapture().setTablePublished(table.schema, table.name, published);
+      setTables(prev => prev.map(t =>
+        t.schema === table.schema && t.name === table.name ? { ...t, published } : t
+      ));
+      toast.success(`Realtime ${published ? 'enabled' : 'disabled'} for ${table.schema}.${table.name}`);
+    } catch (error) {
+      console.error('Failed to update realtime publication:', error);
+      toast.error(`Failed to update realtime for ${table.name}`);
+    }
+  };
+
+  const formatTime = (timestamp: string): string => {
+    return new Intl.DateTimeFormat('en-US', {
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    }).format(new Date(timestamp));
+  };
+
+  return (
+    <div className="flex-1 p-6 overflow-y-auto min-h-full">
+      <div className="max-w-6xl mx-auto">
+        {/* Header */}
+        <div className="mb-6">
+          <div className="flex items-center gap-2 mb-2">
+            <Zap className="h-6 w-6" />
+            <h1 className="text-3xl font-bold">Realtime</h1>
+          </div>
+          <p className="text-muted-foreground">
+            Listen to database changes with <code>supabase.channel().on('postgres_changes', ...)</code>,
+            or exchange Broadcast and Presence messages between clients and browser tabs.
+            Only tables in the <code>supabase_realtime</code> publication emit changes.
+          </p>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-2">
+          {/* Publication tables */}
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle>Tables</CardTitle>
+                  <CardDescription>Enable realtime per table</CardDescription>
+                </div>
+                <Button variant="outline" size="sm" onClick={loadTables} disabled={isLoading}>
+                  <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {tables.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  {isLoading ? 'Loading tables...' : 'No tables found in the public schema.'}
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  {tables.map(table => (
+                    <div
+                      key={`${table.schema}.${table.name}`}
+                      className="flex items-center justify-between rounded-md border px-3 py-2"
+                    >
+                      <span className="font-mono text-sm">{table.schema}.{table.name}</span>
+                      <Switch
+                        checked={table.published}
+                        onCheckedChange={(checked: boolean) => handleTogglePublished(table, checked)}
+                        aria-label={`Toggle realtime for ${table.name}`}
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Inspector */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Inspector</CardTitle>
+              <CardDescription>
+                {stats.connections} connection{stats.connections === 1 ? '' : 's'}, {stats.channels.length} channel{stats.channels.length === 1 ? '' : 's'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {stats.channels.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No clients are subscribed.</p>
+              ) : (
+                <div className="space-y-2">
+                  {stats.channels.map(channel => (
+                    <div key={`${channel.connectionId}-${channel.topic}`} className="rounded-md border px-3 py-2">
+                      <div className="flex items-center gap-2">
+                        <Radio className="h-4 w-4 text-green-600" />
+                        <span className="font-mono text-sm">{channel.topic}</span>
+                        <Badge variant="secondary">{channel.role}</Badge>
+                        {channel.private && <Badge variant="outline">private</Badge>}
+                        {channel.presence > 0 && (
+                          <Badge variant="outline">{channel.presence} present</Badge>
+                        )}
+                      </div>
+                      {channel.postgresChanges.map((binding, index) => (
+                        <p key={index} className="text-xs text-muted-foreground mt-1 font-mono">
+                          {binding.event} {binding.schema}.{binding.table || '*'}{binding.filter ? ` (${binding.filter})` : ''}
+                        </p>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Activity log */}
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle>Messages</CardTitle>
+            <CardDescription>Recent channel messages (heartbeats omitted)</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {activity.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No messages yet.</p>
+            ) : (
+              <div className="space-y-1 max-h-96 overflow-y-auto font-mono text-xs">
+                {[...activity].reverse().map((entry, index) => (
+                  <div key={`${entry.timestamp}-${index}`} className="flex gap-2">
+                    <span className="text-muted-foreground">{formatTime(entry.timestamp)}</span>
+                    <Badge variant={entry.direction === 'in' ? 'outline' : 'secondary'}>
+                      {entry.direction === 'in' ? '←' : '→'} {entry.event}
+                    </Badge>
+                    <span className="truncate">{entry.topic} {JSON.stringify(entry.payload)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
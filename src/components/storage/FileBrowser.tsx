@@ -31,6 +31,7 @@ import { vfsManager } from '@/lib/vfs/VFSManager';
 import { logger } from '@/lib/infrastructure/Logger';
 import { cn } from '@/lib/utils';
 import { StorageClient } from '@/lib/storage/StorageClient';
+import { apiKeyGenerator } from '@/lib/auth/api-keys';
 import { toast } from 'sonner';
 import type { VFSBucket, VFSFile } from '@/types/vfs';
 
@@ -76,10 +77,17 @@ export function FileBrowser({ bucket, currentPath, onPathChange }: FileBrowserPr
   const [newFilePath, setNewFilePath] = useState('');
   const [isMoving, setIsMoving] = useState(false);
 
+  // The dashboard manages files as service_role, bypassing storage policies
+  const [serviceRoleKey, setServiceRoleKey] = useState('');
+
+  useEffect(() => {
+    apiKeyGenerator.generateApiKeys().then(keys => setServiceRoleKey(keys.service_role));
+  }, []);
+
   // Initialize Storage Client
   const storageClient = new StorageClient({
     apiUrl: window.location.origin,
-    apiKey: 'dummy-key'
+    apiKey: serviceRoleKey
   });
   const storageBucket = storageClient.from(bucket.name);
 
@@ -5,6 +5,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/u
 import { Progress } from '@/components/ui/progress';
 import { cn } from '@/lib/utils';
 import { vfsManager } from '@/lib/vfs/VFSManager';
+import { UTILS } from '@/lib/vfs/constants';
 import { logger } from '@/lib/infrastructure/Logger';
 import type { VFSBucket } from '@/types/vfs';
 
@@ -39,12 +40,17 @@ export function FileUpload({
   const generateFileId = () => crypto.randomUUID();
 
   const addFiles = (files: File[]) => {
-    const newFiles: UploadFile[] = files.map(file => ({
-      file,
-      id: generateFileId(),
-      progress: 0,
-      status: 'pending'
-    }));
+    // Files the bucket does not accept are shown with the violation right away
+    const newFiles: UploadFile[] = files.map(file => {
+      const validationError = validateFile(file);
+      return {
+        file,
+        id: generateFileId(),
+        progress: 0,
+        status: validationError ? 'error' : 'pending',
+        error: validationError || undefined
+      };
+    });
 
     setUploadFiles(prev => [...prev, ...newFiles]);
   };
@@ -90,6 +96,8 @@ export function FileUpload({
     }
   };
 
+  const getFileMimeType = (file: File) => file.type || UTILS.getMimeType(file.name);
+
   const validateFile = (file: File): string | null => {
     // Check file size
     if (bucket.maxFileSize && file.size > bucket.maxFileSize) {
@@ -97,18 +105,9 @@ export function FileUpload({
     }
 
     // Check MIME type
-    if (bucket.allowedMimeTypes && bucket.allowedMimeTypes.length > 0) {
-      const isAllowed = bucket.allowedMimeTypes.some(mimeType => {
-        if (mimeType === '*/*') return true;
-        if (mimeType.endsWith('/*')) {
-          return file.type.startsWith(mimeType.slice(0, -2));
-        }
-        return file.type === mimeType;
-      });
-
-      if (!isAllowed) {
-        return `File type ${file.type} is not allowed`;
-      }
+    const mimeType = getFileMimeType(file);
+    if (!UTILS.isMimeTypeAllowed(mimeType, bucket.allowedMimeTypes)) {
+      return `File type ${mimeType} is not allowed`;
     }
 
     return null;
@@ -225,6 +224,13 @@ export function FileUpload({
     return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + ' ' + sizes[i];
   };
 
+  const restrictions = [
+    bucket.maxFileSize ? `Max file size ${formatBytes(bucket.maxFileSize)}` : null,
+    !bucket.allowedMimeTypes.every(mimeType => mimeType === '*' || mimeType === '*/*')
+      ? `Allowed types ${bucket.allowedMimeTypes.join(', ')}`
+      : null
+  ].filter(Boolean);
+
   const completedCount = uploadFiles.filter(f => f.status === 'completed').length;
   const errorCount = uploadFiles.filter(f => f.status === 'error').length;
 
@@ -260,6 +266,11 @@ export function FileUpload({
             <p className="text-muted-foreground mb-4">
               or click to select files from your computer
             </p>
+            {restrictions.length > 0 && (
+              <p className="text-xs text-muted-foreground mb-4">
+                {restrictions.join(' · ')}
+              </p>
+            )}
             <Button
               type="button"
               variant="outline"
@@ -0,0 +1,89 @@
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { FileUpload } from '../FileUpload';
+import { vfsManager } from '@/lib/vfs/VFSManager';
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import type { VFSBucket } from '@/types/vfs';
+
+// Mock VFS Manager
+vi.mock('@/lib/vfs/VFSManager', () => ({
+  vfsManager: {
+    createFile: vi.fn().mockResolvedValue({})
+  }
+}));
+
+// Mock logger
+vi.mock('@/lib/infrastructure/Logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn()
+  }
+}));
+
+const bucket: VFSBucket = {
+  id: 'avatars',
+  name: 'avatars',
+  projectId: 'test-project',
+  isPublic: false,
+  maxFileSize: 1024,
+  allowedMimeTypes: ['image/*'],
+  fileCount: 0,
+  totalSize: 0,
+  createdAt: new Date(),
+  updatedAt: new Date()
+};
+
+const renderUpload = () => {
+  render(
+    <FileUpload
+      open={true}
+      onOpenChange={vi.fn()}
+      bucket={bucket}
+      currentPath=""
+      onUploadComplete={vi.fn()}
+    />
+  );
+  return document.body.querySelector('input[type="file"]') as HTMLInputElement;
+};
+
+describe('FileUpload', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should show the bucket restrictions', () => {
+    renderUpload();
+
+    expect(screen.getByText('Max file size 1 KB · Allowed types image/*')).toBeInTheDocument();
+  });
+
+  it('should show violations as soon as files are added', async () => {
+    const user = userEvent.setup({ applyAccept: false });
+    const input = renderUpload();
+
+    await user.upload(input, [
+      new File(['x'.repeat(2048)], 'large.png', { type: 'image/png' }),
+      new File(['hello'], 'notes.txt', { type: 'text/plain' }),
+      new File(['png'], 'avatar.png', { type: 'image/png' })
+    ]);
+
+    expect(screen.getByText('File size exceeds limit of 1 KB')).toBeInTheDocument();
+    expect(screen.getByText('File type text/plain is not allowed')).toBeInTheDocument();
+    expect(screen.getByText('2 failed')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Upload 1 files' })).toBeInTheDocument();
+  });
+
+  it('should only upload the files the bucket accepts', async () => {
+    const user = userEvent.setup({ applyAccept: false });
+    const input = renderUpload();
+    // jsdom files cannot be read as array buffers
+    const avatar = new File(['png'], 'avatar.png', { type: 'image/png' });
+    Object.assign(avatar, { arrayBuffer: async () => new Uint8Array([1, 2, 3]).buffer });
+
+    await user.upload(input, [new File(['hello'], 'notes.txt', { type: 'text/plain' }), avatar]);
+    await user.click(screen.getByRole('button', { name: 'Upload 1 files' }));
+
+    await waitFor(() => expect(vfsManager.createFile).toHaveBeenCalledTimes(1));
+    expect(vfsManager.createFile).toHaveBeenCalledWith('avatars/avatar.png', expect.objectContaining({ mimeType: 'image/png' }));
+  });
+});
@@ -79,14 +79,25 @@ describe('Constants', () => {
       })
     })
 
-    it('should mark realtime navigation item as coming soon', () => {
+    it('should include realtime navigation item', () => {
       const realtime = NAVIGATION_ITEMS.find(item => item.id === 'realtime')
       expect(realtime).toEqual({
         id: 'realtime',
         label: 'Realtime',
         icon: 'Zap',
         path: '/realtime',
-        disabled: true,
+        disabled: false,
+      })
+    })
+
+    it('should include edge functions navigation item', () => {
+      const edgeFunctions = NAVIGATION_ITEMS.find(item => item.id === 'edge-functions')
+      expect(edgeFunctions).toEqual({
+        id: 'edge-functions',
+        label: 'Edge Functions',
+        icon: 'Code',
+        path: '/edge-functions',
+        disabled: false,
       })
     })
 
@@ -102,7 +113,7 @@ describe('Constants', () => {
     })
 
     it('should have correct number of navigation items', () => {
-      expect(NAVIGATION_ITEMS).toHaveLength(11)
+      expect(NAVIGATION_ITEMS).toHaveLength(12)
     })
 
     it('should have unique IDs for all navigation items', () => {
@@ -127,7 +138,7 @@ describe('Constants', () => {
 
     it('should have correct disabled items', () => {
       const disabledItems = NAVIGATION_ITEMS.filter(item => item.disabled === true)
-      const expectedDisabledIds = ['realtime']
+      const expectedDisabledIds: string[] = []
 
       expect(disabledItems).toHaveLength(expectedDisabledIds.length)
       expect(disabledItems.map(item => item.id)).toEqual(expectedDisabledIds)
@@ -9,6 +9,7 @@ import { ProxyConnector } from './ProxyConnector';
 import { AuthBridge } from '../auth/AuthBridge';
 import { apiKeyGenerator } from '../auth/api-keys';
 import { JWTService } from '../auth/core/JWTService';
+import { JWTKeyService } from '../auth/services/JWTKeyService';
 
 interface APIRequest {
   method: 'GET' | 'POST' | 'PATCH' | 'DELETE';
@@ -276,7 +277,7 @@ export class CrossOriginAPIHandler {
           // This might be a user JWT token
           try {
             const jwtService = JWTService.getInstance();
-            await jwtService.initialize();
+            await jwtService.initialize(JWTKeyService.getInstance());
 
             const payload = await jwtService.verifyToken(token);
             userId = payload.sub || payload.user_id;
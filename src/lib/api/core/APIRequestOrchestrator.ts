@@ -222,7 +222,10 @@ export class APIRequestOrchestrator {
 
     try {
       const data = Array.isArray(body) ? body : [body]
-      const sqlQuery = this.sqlBuilder.buildInsertQuery(table, data, query.schema)
+      const sqlQuery = await this.sqlBuilder.buildInsertQuery(table, data, query.schema, {
+        columns: query.columns,
+        missing: query.preferMissing
+      })
       logger.debug('Built INSERT SQL', sqlQuery)
 
       const result = await this.executeQueryWithContext(sqlQuery.sql, sqlQuery.parameters, context)
@@ -278,7 +281,10 @@ export class APIRequestOrchestrator {
 
     try {
       const data = Array.isArray(body) ? body : [body]
-      const sqlQuery = await this.sqlBuilder.buildUpsertQuery(table, data, query.onConflict, query.schema)
+      const sqlQuery = await this.sqlBuilder.buildUpsertQuery(table, data, query.onConflict, query.schema, {
+        columns: query.columns,
+        missing: query.preferMissing
+      })
       logger.debug('Built UPSERT SQL', sqlQuery)
 
       const result = await this.executeQueryWithContext(sqlQuery.sql, sqlQuery.parameters, context)
@@ -14,12 +14,19 @@ export class SessionContextService {
    * Extract user ID from JWT token
    */
   private extractUserIdFromJWT(token: string): string | null {
+    const payload = this.decodeJWTPayload(token)
+    return typeof payload?.sub === 'string' && payload.sub ? payload.sub : null
+  }
+
+  /**
+   * Decode the claims of a JWT token
+   */
+  private decodeJWTPayload(token: string): Record<string, unknown> | null {
     try {
       const parts = token.split('.')
       if (parts.length !== 3) return null
       
-      const payload = JSON.parse(atob(parts[1]))
-      return payload.sub || null
+      return JSON.parse(atob(parts[1].replace(/-/g, '+').replace(/_/g, '/')))
     } catch (error) {
       logger.warn('Failed to parse JWT token', { error })
       return null
@@ -64,12 +71,13 @@ export class SessionContextService {
         // Try to extract user ID from JWT
         userId = this.extractUserIdFromJWT(token)
         
-        // Create basic user claims
+        // Keep every claim so policies can check auth.jwt() ->> 'is_anonymous' etc.
         if (userId) {
           userClaims = {
+            iss: 'supabase-lite',
+            ...this.decodeJWTPayload(token),
             sub: userId,
-            role: 'authenticated',
-            iss: 'supabase-lite'
+            role: 'authenticated'
           }
         }
       } catch (error) {
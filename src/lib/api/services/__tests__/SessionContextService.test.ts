@@ -69,6 +69,26 @@ describe('SessionContextService', () => {
       })
     })
 
+    it('should keep the JWT claims policies check, such as is_anonymous', async () => {
+      vi.mocked(apiKeyGenerator.extractRole).mockReturnValue('anon')
+
+      const payload = { sub: 'user-123', role: 'authenticated', is_anonymous: true, aal: 'aal1' }
+      const mockToken = `header.${btoa(JSON.stringify(payload))}.signature`
+
+      const context = await service.createSessionContext({
+        apikey: 'anon-key',
+        authorization: `Bearer ${mockToken}`
+      })
+
+      expect(context.claims).toEqual({
+        sub: 'user-123',
+        role: 'authenticated',
+        iss: 'supabase-lite',
+        is_anonymous: true,
+        aal: 'aal1'
+      })
+    })
+
     it('should create anon context with anon API key and no JWT', async () => {
       vi.mocked(apiKeyGenerator.extractRole).mockReturnValue('anon')
 
@@ -2,6 +2,11 @@ import { AuthManager } from './core/AuthManager'
 import { JWTService } from './core/JWTService'
 import { SessionManager } from './core/SessionManager'
 import { MFAService } from './services/MFAService'
+import { RateLimitService } from './services/RateLimitService'
+import type { RateLimitedRequest } from './services/RateLimitService'
+import { apiKeyGenerator } from './api-keys'
+import { ROUTES } from '../routes'
+import type { EmailLinkOptions } from './services/EmailService'
 import type { 
   SignUpRequest, 
   SignUpResponse, 
@@ -10,6 +15,12 @@ import type {
   UpdateUserRequest,
   UpdateUserResponse,
   RecoverPasswordRequest,
+  OtpRequest,
+  ResendRequest,
+  AdminUserRequest,
+  AdminDeleteUserRequest,
+  GenerateLinkRequest,
+  InviteRequest,
   VerifyTokenRequest,
   MFAEnrollRequest,
   MFAVerifyRequest,
@@ -17,6 +28,7 @@ import type {
   AuthError,
   AuthAPIResponse
 } from './types/api-responses'
+import type { SignOutScope } from './types/auth.types'
 
 export interface AuthAPIRequest {
   endpoint: string
@@ -24,14 +36,20 @@ export interface AuthAPIRequest {
   body?: any
   headers: Record<string, string>
   url: URL
+  params?: Record<string, string>
 }
 
+const DEFAULT_USERS_PER_PAGE = 50
+
+const SIGN_OUT_SCOPES: SignOutScope[] = ['local', 'others', 'global']
+
 export class AuthBridge {
   private static instance: AuthBridge
   private authManager: AuthManager
   private jwtService: JWTService  
   private sessionManager: SessionManager
   private mfaService: MFAService
+  private rateLimits: RateLimitService
   private isInitialized: boolean = false
   private initializationPromise: Promise<void> | null = null
 
@@ -40,6 +58,7 @@ export class AuthBridge {
     this.jwtService = JWTService.getInstance()
     this.sessionManager = SessionManager.getInstance()
     this.mfaService = MFAService.getInstance()
+    this.rateLimits = RateLimitService.getInstance()
   }
 
   static getInstance(): AuthBridge {
@@ -111,10 +130,22 @@ export class AuthBridge {
       
       console.log(`🔐 AuthBridge[${requestId}]: About to handle endpoint: ${method} ${endpoint}`)
       
+      if (endpoint.startsWith('admin_') || endpoint === 'invite') {
+        const denied = await this.requireServiceRole(headers)
+        if (denied) {
+          return denied
+        }
+      }
+      
+      const limitedRequest = this.getRateLimitedRequest(request)
+      if (limitedRequest) {
+        await this.rateLimits.limitRequest(limitedRequest, this.getClientIp(headers), this.getRateLimitedAddress(request))
+      }
+      
       switch (`${method} ${endpoint}`) {
         // Authentication endpoints
         case 'POST signup':
-          return await this.handleSignUp(body as SignUpRequest)
+          return await this.handleSignUp(body as SignUpRequest, this.getEmailLinkOptions(request))
           
         case 'POST signin':
           return await this.handleSignIn(body as SignInRequest)
@@ -124,26 +155,60 @@ export class AuthBridge {
           return await this.handleTokenRefresh({ ...body, url: request.url })
           
         case 'POST logout':
-          return await this.handleSignOut(body, headers)
+          return await this.handleSignOut(request.url.searchParams.get('scope') || body?.scope, headers)
           
         // User management
         case 'GET user':
           return await this.handleGetUser(headers)
           
         case 'PUT user':
-          return await this.handleUpdateUser(body as UpdateUserRequest, headers)
+          return await this.handleUpdateUser(body as UpdateUserRequest, headers, this.getEmailLinkOptions(request))
+          
+        // Identity linking
+        case 'GET identities_list':
+          return await this.handleListIdentities(headers)
+          
+        case 'GET identities_authorize':
+          return await this.handleLinkIdentity(request.url, headers)
+          
+        case 'POST identities_link':
+          return await this.handleLinkIdentity(this.withBodyParams(request.url, body), headers)
+          
+        case 'DELETE identities_unlink':
+          return await this.handleUnlinkIdentity(request.params?.identityId, headers)
           
         // Session management
         case 'GET session':
           return await this.handleGetSession(headers)
           
+        case 'GET sessions_list':
+          return await this.handleListSessions(headers)
+          
+        case 'DELETE sessions_delete':
+          return await this.handleRevokeSession(request.params?.sessionId, headers)
+          
         // Password recovery
         case 'POST recover':
-          return await this.handleRecoverPassword(body as RecoverPasswordRequest)
+          return await this.handleRecoverPassword(body as RecoverPasswordRequest, this.getEmailLinkOptions(request))
+          
+        // Passwordless and email verification
+        case 'POST otp':
+        case 'POST magiclink':
+          return await this.handleSendOtp(body as OtpRequest, this.getEmailLinkOptions(request))
+          
+        case 'POST resend':
+          return await this.handleResend(body as ResendRequest, this.getEmailLinkOptions(request))
           
         case 'POST verify':
           return await this.handleVerifyToken(body as VerifyTokenRequest)
           
+        case 'GET verify':
+          return await this.handleVerifyLink(request.url)
+          
+        // OAuth endpoints
+        case 'GET authorize':
+          return await this.handleAuthorize(request.url)
+          
         // MFA endpoints
         case 'GET factors':
           return await this.handleListFactors(headers)
@@ -160,6 +225,28 @@ export class AuthBridge {
         case 'DELETE factors':
           return await this.handleUnenrollFactor(body, headers)
           
+        // Admin endpoints (service_role only)
+        case 'GET admin_list_users':
+          return await this.handleAdminListUsers(request.url)
+          
+        case 'POST admin_create_user':
+          return await this.handleAdminCreateUser(body as AdminUserRequest)
+          
+        case 'GET admin_get_user':
+          return await this.handleAdminGetUser(request.params?.userId)
+          
+        case 'PUT admin_update_user':
+          return await this.handleAdminUpdateUser(request.params?.userId, body as AdminUserRequest)
+          
+        case 'DELETE admin_delete_user':
+          return await this.handleAdminDeleteUser(request.params?.userId, body as AdminDeleteUserRequest)
+          
+        case 'POST admin_generate_link':
+          return await this.handleGenerateLink(body as GenerateLinkRequest, this.getEmailLinkOptions(request))
+          
+        case 'POST invite':
+          return await this.handleInvite(body as InviteRequest, this.getEmailLinkOptions(request))
+          
         // Discovery endpoints
         case 'GET .well-known/jwks.json':
           return await this.handleJWKS()
@@ -192,16 +279,30 @@ export class AuthBridge {
   /**
    * Auth endpoint handlers
    */
-  private async handleSignUp(request: SignUpRequest): Promise<AuthAPIResponse> {
+  private async handleSignUp(request: SignUpRequest, links: EmailLinkOptions): Promise<AuthAPIResponse> {
     console.log('AuthBridge handleSignUp received:', { email: request.email })
-    
+
+    // signInAnonymously() posts to /signup without any credentials
+    if (!request.email && !request.phone && !request.password) {
+      const { user, session } = await this.authManager.signInAnonymously(request.data)
+
+      return this.createSuccessResponse({
+        access_token: session.access_token,
+        token_type: 'bearer',
+        expires_in: 3600,
+        expires_at: session.expires_at,
+        refresh_token: session.refresh_token,
+        user: this.serializeUser(user)
+      }, 200)
+    }
+
     try {
       const result = await this.authManager.signUp({
         email: request.email,
         phone: request.phone,
         password: request.password,
         data: request.data
-      })
+      }, links)
 
       console.log('SignUp successful with real database authentication')
 
@@ -211,7 +312,7 @@ export class AuthBridge {
       }
 
       if (!result.session) {
-        response.message = 'Confirmation email sent'
+        response.message = request.email ? 'Confirmation email sent' : 'Confirmation SMS sent'
       }
 
       return this.createSuccessResponse(response, 201)
@@ -300,26 +401,48 @@ export class AuthBridge {
         }, 200)
       } catch (error) {
         console.error('Refresh token error:', error)
+        if (error.status && error.code) {
+          return this.createErrorResponse(error.message, error.status, error.code)
+        }
         return this.createErrorResponse(
           'Invalid refresh token',
           400,
           'invalid_grant'
         )
       }
+    } else if (grantType === 'pkce') {
+      const { user, session, providerToken } = await this.authManager.exchangeCodeForSession(
+        request.auth_code,
+        request.code_verifier
+      )
+
+      return this.createSuccessResponse({
+        access_token: session.access_token,
+        token_type: 'bearer',
+        expires_in: 3600,
+        expires_at: session.expires_at,
+        refresh_token: session.refresh_token,
+        ...(providerToken ? { provider_token: providerToken } : {}),
+        user: this.serializeUser(user)
+      }, 200)
     } else {
       return this.createErrorResponse(
-        'Invalid grant type. Supported grant types: password, refresh_token',
+        'Invalid grant type. Supported grant types: password, refresh_token, pkce',
         400,
         'invalid_grant'
       )
     }
   }
 
-  private async handleSignOut(request: any, headers: Record<string, string>): Promise<AuthAPIResponse> {
+  private async handleSignOut(scope: string | undefined, headers: Record<string, string>): Promise<AuthAPIResponse> {
+    if (scope && !SIGN_OUT_SCOPES.includes(scope as SignOutScope)) {
+      return this.createErrorResponse(`Unsupported logout scope "${scope}"`, 400, 'validation_failed')
+    }
+
     try {
       // Validate auth token and get user context for proper signout
       this.validateAuthToken(headers)
-      await this.authManager.signOut(request.scope || 'local')
+      await this.authManager.signOut((scope as SignOutScope) || 'local')
       return this.createSuccessResponse(null, 204)
     } catch (error) {
       console.error('SignOut error:', error)
@@ -345,6 +468,7 @@ export class AuthBridge {
       }
 
       console.log('User found in auth system:', user.email)
+      user.identities = await this.authManager.getUserIdentities()
       return this.createSuccessResponse(this.serializeUser(user), 200)
     } catch (error) {
       console.error('Error in handleGetUser:', error)
@@ -359,7 +483,11 @@ export class AuthBridge {
     }
   }
 
-  private async handleUpdateUser(request: UpdateUserRequest, headers: Record<string, string>): Promise<AuthAPIResponse> {
+  private async handleUpdateUser(
+    request: UpdateUserRequest,
+    headers: Record<string, string>,
+    links: EmailLinkOptions
+  ): Promise<AuthAPIResponse> {
     this.validateAuthToken(headers)
     
     const user = await this.authManager.updateUser({
@@ -367,7 +495,7 @@ export class AuthBridge {
       phone: request.phone,
       password: request.password,
       data: request.data
-    })
+    }, links)
 
     const response: UpdateUserResponse = {
       user: this.serializeUser(user)
@@ -408,26 +536,222 @@ export class AuthBridge {
     }
   }
 
-  private async handleRecoverPassword(request: RecoverPasswordRequest): Promise<AuthAPIResponse> {
-    await this.authManager.requestPasswordRecovery(request.email)
+  private async handleRecoverPassword(request: RecoverPasswordRequest, links: EmailLinkOptions): Promise<AuthAPIResponse> {
+    await this.authManager.requestPasswordRecovery(request.email, links)
     
     return this.createSuccessResponse({
       message: 'Recovery email sent'
     }, 200)
   }
 
-  private async handleVerifyToken(_request: VerifyTokenRequest): Promise<AuthAPIResponse> {
-    // Implementation depends on token type
-    // For now, return success
+  private async handleSendOtp(request: OtpRequest, links: EmailLinkOptions): Promise<AuthAPIResponse> {
+    if (request.phone) {
+      const message = await this.authManager.sendSmsOtp(request.phone, {
+        createUser: request.create_user,
+        data: request.data
+      })
+      return this.createSuccessResponse({ message_id: message.id }, 200)
+    }
+
+    if (!request.email) {
+      return this.createErrorResponse('An email address or phone number is required', 400, 'validation_failed')
+    }
+
+    await this.authManager.sendOtp(request.email, {
+      createUser: request.create_user,
+      data: request.data,
+      links
+    })
+
+    return this.createSuccessResponse({}, 200)
+  }
+
+  private async handleResend(request: ResendRequest, links: EmailLinkOptions): Promise<AuthAPIResponse> {
+    if (request.type === 'sms' || request.type === 'phone_change') {
+      if (!request.phone) {
+        return this.createErrorResponse('A phone number is required for sms and phone_change resends', 400, 'validation_failed')
+      }
+
+      const message = await this.authManager.resendSms(request.type, request.phone)
+      return this.createSuccessResponse(message ? { message_id: message.id } : {}, 200)
+    }
+
+    if (!request.email) {
+      return this.createErrorResponse('Only email resends are supported', 400, 'validation_failed')
+    }
+
+    await this.authManager.resend(request.type, request.email, links)
+    return this.createSuccessResponse({}, 200)
+  }
+
+  private async handleVerifyToken(request: VerifyTokenRequest): Promise<AuthAPIResponse> {
+    const { user, session } = await this.authManager.verifyOtp({
+      type: request.type,
+      email: request.email,
+      phone: request.phone,
+      token: request.token,
+      token_hash: request.token_hash
+    })
+
     return this.createSuccessResponse({
-      access_token: 'verified',
+      access_token: session.access_token,
       token_type: 'bearer',
       expires_in: 3600,
-      expires_at: Math.floor(Date.now() / 1000) + 3600,
-      user: null
+      expires_at: session.expires_at,
+      refresh_token: session.refresh_token,
+      user: this.serializeUser(user)
     }, 200)
   }
 
+  /**
+   * GET /verify is what emailed links open: redirect to redirect_to with the
+   * session (or the error) in the URL fragment, like GoTrue
+   */
+  private async handleVerifyLink(url: URL): Promise<AuthAPIResponse> {
+    const type = url.searchParams.get('type') as VerifyTokenRequest['type']
+    const redirectTo = url.searchParams.get('redirect_to') || url.origin
+    let fragment: URLSearchParams
+
+    try {
+      const { session } = await this.authManager.verifyOtp({
+        type,
+        token_hash: url.searchParams.get('token') || undefined
+      })
+      fragment = new URLSearchParams({
+        access_token: session.access_token,
+        expires_at: String(session.expires_at),
+        expires_in: '3600',
+        refresh_token: session.refresh_token,
+        token_type: 'bearer',
+        type
+      })
+    } catch (error) {
+      const authError = error as { status?: number; code?: string; message?: string }
+      fragment = new URLSearchParams({
+        error: authError.status === 403 ? 'access_denied' : 'invalid_request',
+        error_code: authError.code || 'unexpected_failure',
+        error_description: authError.message || 'Verification failed'
+      })
+    }
+
+    return {
+      data: null,
+      status: 303,
+      statusText: 'See Other',
+      headers: {
+        Location: `${redirectTo}#${fragment.toString()}`
+      }
+    }
+  }
+
+  /**
+   * GET /authorize sends the browser to the local consent page, which
+   * stands in for the provider's login
+   */
+  private async handleAuthorize(url: URL): Promise<AuthAPIResponse> {
+    const provider = url.searchParams.get('provider')
+    if (!provider) {
+      return this.createErrorResponse('Unsupported provider: provider is not enabled', 400, 'validation_failed')
+    }
+
+    const location = await this.authManager.authorizeProvider({
+      provider,
+      redirectTo: url.searchParams.get('redirect_to') || url.origin,
+      scopes: url.searchParams.get('scopes') || undefined,
+      codeChallenge: url.searchParams.get('code_challenge') || undefined,
+      codeChallengeMethod: url.searchParams.get('code_challenge_method') || undefined
+    }, `${url.origin}${ROUTES.OAUTH_CONSENT}`)
+
+    return {
+      data: null,
+      status: 302,
+      statusText: 'Found',
+      headers: {
+        Location: location
+      }
+    }
+  }
+
+  /**
+   * Session list handlers
+   */
+  private async handleListSessions(headers: Record<string, string>): Promise<AuthAPIResponse> {
+    this.validateAuthToken(headers)
+
+    const currentSessionId = this.sessionManager.getSession()?.id
+    const sessions = await this.authManager.listSessions()
+    return this.createSuccessResponse({
+      sessions: sessions.map(session => ({ ...session, current: session.id === currentSessionId }))
+    }, 200)
+  }
+
+  private async handleRevokeSession(sessionId: string | undefined, headers: Record<string, string>): Promise<AuthAPIResponse> {
+    this.validateAuthToken(headers)
+
+    if (!sessionId) {
+      return this.createErrorResponse('Session not found', 404, 'session_not_found')
+    }
+
+    await this.authManager.revokeSession(sessionId)
+    return this.createSuccessResponse(null, 204)
+  }
+
+  /**
+   * Identity linking handlers
+   */
+  private async handleListIdentities(headers: Record<string, string>): Promise<AuthAPIResponse> {
+    this.validateAuthToken(headers)
+
+    const identities = await this.authManager.getUserIdentities()
+    return this.createSuccessResponse({ identities }, 200)
+  }
+
+  /**
+   * Answers linkIdentity() with the consent page URL instead of a redirect
+   */
+  private async handleLinkIdentity(url: URL, headers: Record<string, string>): Promise<AuthAPIResponse> {
+    this.validateAuthToken(headers)
+
+    const provider = url.searchParams.get('provider')
+    if (!provider) {
+      return this.createErrorResponse('Unsupported provider: provider is not enabled', 400, 'validation_failed')
+    }
+
+    const location = await this.authManager.linkIdentity({
+      provider,
+      redirectTo: url.searchParams.get('redirect_to') || url.origin,
+      scopes: url.searchParams.get('scopes') || undefined,
+      codeChallenge: url.searchParams.get('code_challenge') || undefined,
+      codeChallengeMethod: url.searchParams.get('code_challenge_method') || undefined
+    }, `${url.origin}${ROUTES.OAUTH_CONSENT}`)
+
+    return this.createSuccessResponse({ url: location }, 200)
+  }
+
+  private async handleUnlinkIdentity(identityId: string | undefined, headers: Record<string, string>): Promise<AuthAPIResponse> {
+    this.validateAuthToken(headers)
+
+    if (!identityId) {
+      return this.createErrorResponse('Identity doesn\'t exist', 404, 'identity_not_found')
+    }
+
+    await this.authManager.unlinkIdentity(identityId)
+    return this.createSuccessResponse({}, 200)
+  }
+
+  /**
+   * Copy string fields of a JSON body onto the URL's query parameters
+   */
+  private withBodyParams(url: URL, body: unknown): URL {
+    const merged = new URL(url)
+    Object.entries((body as Record<string, unknown>) || {}).forEach(([key, value]) => {
+      if (typeof value === 'string') {
+        merged.searchParams.set(key, value)
+      }
+    })
+    return merged
+  }
+
   /**
    * MFA endpoint handlers
    */
@@ -476,6 +800,93 @@ export class AuthBridge {
     return this.createSuccessResponse(null, 204)
   }
 
+  /**
+   * Admin endpoint handlers
+   */
+  private async handleAdminListUsers(url: URL): Promise<AuthAPIResponse> {
+    const page = Number(url.searchParams.get('page') || 1)
+    const perPage = Number(url.searchParams.get('per_page') || DEFAULT_USERS_PER_PAGE)
+    if (!Number.isInteger(page) || !Number.isInteger(perPage) || page < 1 || perPage < 1) {
+      return this.createErrorResponse('Bad Pagination Parameters', 400, 'validation_failed')
+    }
+
+    const { users, total } = await this.authManager.listUsersPage(page, perPage)
+
+    // Same Link header GoTrue sends; supabase-js reads nextPage/lastPage from it
+    const pageLink = (target: number) => {
+      const query = new URLSearchParams(url.searchParams)
+      query.set('page', String(target))
+      query.sort()
+      return `<${url.pathname}?${query.toString()}>`
+    }
+    const lastPage = Math.ceil(total / perPage)
+    const links = [`${pageLink(lastPage)}; rel="last"`]
+    if (total > page * perPage) {
+      links.unshift(`${pageLink(page + 1)}; rel="next"`)
+    }
+
+    return this.createSuccessResponse({
+      users: users.map((user) => this.serializeUser(user)),
+      aud: 'authenticated'
+    }, 200, {
+      'X-Total-Count': String(total),
+      'Link': links.join(', '),
+      'Access-Control-Expose-Headers': 'X-Total-Count, Link'
+    })
+  }
+
+  private async handleAdminCreateUser(request: AdminUserRequest): Promise<AuthAPIResponse> {
+    const user = await this.authManager.adminCreateUser(request)
+    return this.createSuccessResponse(this.serializeUser(user), 200)
+  }
+
+  private async handleAdminGetUser(userId: string | undefined): Promise<AuthAPIResponse> {
+    const user = userId ? await this.authManager.getUserById(userId) : null
+    if (!user) {
+      return this.createErrorResponse('User not found', 404, 'user_not_found')
+    }
+    return this.createSuccessResponse(this.serializeUser(user), 200)
+  }
+
+  private async handleAdminUpdateUser(userId: string | undefined, request: AdminUserRequest): Promise<AuthAPIResponse> {
+    if (!userId) {
+      return this.createErrorResponse('User not found', 404, 'user_not_found')
+    }
+    const user = await this.authManager.adminUpdateUser(userId, request)
+    return this.createSuccessResponse(this.serializeUser(user), 200)
+  }
+
+  private async handleAdminDeleteUser(userId: string | undefined, request: AdminDeleteUserRequest): Promise<AuthAPIResponse> {
+    const user = userId ? await this.authManager.getUserById(userId) : null
+    if (!user) {
+      return this.createErrorResponse('User not found', 404, 'user_not_found')
+    }
+    await this.authManager.deleteUser(user.id, !!request?.should_soft_delete)
+    return this.createSuccessResponse({}, 200)
+  }
+
+  private async handleGenerateLink(request: GenerateLinkRequest, links: EmailLinkOptions): Promise<AuthAPIResponse> {
+    if (!request.email) {
+      return this.createErrorResponse('Unable to validate email address: invalid format', 400, 'validation_failed')
+    }
+
+    const { user, properties } = await this.authManager.generateLink({
+      type: request.type,
+      email: request.email,
+      password: request.password,
+      new_email: request.new_email,
+      data: request.data,
+      links
+    })
+
+    return this.createSuccessResponse({ ...this.serializeUser(user), ...properties }, 200)
+  }
+
+  private async handleInvite(request: InviteRequest, links: EmailLinkOptions): Promise<AuthAPIResponse> {
+    const user = await this.authManager.inviteUserByEmail(request.email, { data: request.data, links })
+    return this.createSuccessResponse(this.serializeUser(user), 200)
+  }
+
   /**
    * Discovery endpoints
    */
@@ -490,6 +901,90 @@ export class AuthBridge {
   /**
    * Helper methods
    */
+
+  /**
+   * Admin endpoints need a verified service_role API key or JWT.
+   * Returns the error response to send, or null when allowed.
+   */
+  private async requireServiceRole(headers: Record<string, string>): Promise<AuthAPIResponse | null> {
+    const authHeader = headers.authorization || headers.Authorization
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return this.createErrorResponse('This endpoint requires a Bearer token', 401, 'no_authorization')
+    }
+
+    const token = authHeader.substring(7)
+    let role = (await apiKeyGenerator.validateApiKey(token))?.role
+    if (!role) {
+      role = await this.jwtService.verifyToken(token).then((payload) => payload.role, () => undefined)
+    }
+
+    if (role !== 'service_role') {
+      return this.createErrorResponse('User not allowed', 403, 'not_admin')
+    }
+    return null
+  }
+
+  /**
+   * The per-IP rate limit a request counts against, if any
+   */
+  private getRateLimitedRequest(request: AuthAPIRequest): RateLimitedRequest | null {
+    const { body, url } = request
+
+    switch (`${request.method} ${request.endpoint}`) {
+      case 'POST signup':
+        return body?.email || body?.phone || body?.password ? 'sign_in_sign_ups' : 'anonymous_users'
+      case 'POST signin':
+      case 'POST otp':
+      case 'POST magiclink':
+        return 'sign_in_sign_ups'
+      case 'POST token':
+        return (body?.grant_type || url.searchParams.get('grant_type')) === 'refresh_token' ? 'token_refresh' : 'sign_in_sign_ups'
+      case 'POST verify':
+      case 'GET verify':
+      case 'POST factors/verify':
+        return 'token_verifications'
+      default:
+        return null
+    }
+  }
+
+  /**
+   * The email or phone of a password sign-in or OTP verification. These
+   * are limited per address, so one account using up its limit doesn't
+   * lock out the others signing in from the same client.
+   */
+  private getRateLimitedAddress(request: AuthAPIRequest): string | undefined {
+    const { body, url } = request
+
+    switch (`${request.method} ${request.endpoint}`) {
+      case 'POST signin':
+      case 'POST verify':
+        return body?.email || body?.phone || undefined
+      case 'POST token':
+        return (body?.grant_type || url.searchParams.get('grant_type')) === 'password'
+          ? body?.username || body?.email || body?.phone || undefined
+          : undefined
+      default:
+        return undefined
+    }
+  }
+
+  /**
+   * The client address reported by a proxy in front of the API. Requests
+   * made from the browser itself carry none and share one limit.
+   */
+  private getClientIp(headers: Record<string, string>): string {
+    return headers['x-forwarded-for']?.split(',')[0].trim() || headers['x-real-ip'] || '127.0.0.1'
+  }
+
+  private getEmailLinkOptions(request: AuthAPIRequest): EmailLinkOptions {
+    const projectPrefix = request.params?.projectId ? `/${request.params.projectId}` : ''
+    return {
+      apiUrl: `${request.url.origin}${projectPrefix}/auth/v1`,
+      redirectTo: request.url.searchParams.get('redirect_to') || request.body?.redirect_to || undefined
+    }
+  }
+
   private validateAuthToken(headers: Record<string, string>): void {
     const authHeader = headers.authorization || headers.Authorization
     
@@ -515,12 +1010,14 @@ export class AuthBridge {
       role: user.role || 'authenticated',
       email: user.email,
       phone: user.phone,
-      email_confirmed_at: user.email_verified ? user.created_at : null,
-      phone_confirmed_at: user.phone_verified ? user.created_at : null,
+      email_confirmed_at: user.email_confirmed_at || (user.email_verified ? user.created_at : null),
+      phone_confirmed_at: user.phone_confirmed_at || (user.phone_verified ? user.created_at : null),
+      ...(user.invited_at ? { invited_at: user.invited_at } : {}),
+      ...(user.banned_until ? { banned_until: user.banned_until } : {}),
       last_sign_in_at: user.last_sign_in_at,
       app_metadata: user.app_metadata || {},
       user_metadata: user.user_metadata || {},
-      identities: [],
+      identities: user.identities || [],
       created_at: user.created_at,
       updated_at: user.updated_at,
       is_anonymous: user.is_anonymous || false
@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { AuthBridge } from '../AuthBridge'
+import type { AuthAPIRequest } from '../AuthBridge'
+import { apiKeyGenerator } from '../api-keys'
+
+const user = {
+  id: 'user-1',
+  email: 'ada@example.com',
+  email_verified: true,
+  email_confirmed_at: '2024-01-01T00:00:00Z',
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+  app_metadata: { provider: 'email', providers: ['email'] },
+  user_metadata: {},
+  is_anonymous: false
+}
+
+const request = (method: AuthAPIRequest['method'], endpoint: string, path: string, extra: Partial<AuthAPIRequest> = {}): AuthAPIRequest => ({
+  method,
+  endpoint,
+  url: new URL(`http://localhost:5173/auth/v1/${path}`),
+  headers: { authorization: 'Bearer service-role-key' },
+  ...extra
+})
+
+describe('AuthBridge admin API', () => {
+  let bridge: AuthBridge
+  let authManager: Record<string, ReturnType<typeof vi.fn>>
+
+  beforeEach(() => {
+    authManager = {
+      listUsersPage: vi.fn(async () => ({ users: [user], total: 160 })),
+      getUserById: vi.fn(async (id: string) => (id === user.id ? user : null)),
+      deleteUser: vi.fn(),
+      generateLink: vi.fn(async () => ({
+        user,
+        properties: {
+          action_link: 'http://localhost:5173/auth/v1/verify?token=hash&type=magiclink&redirect_to=http%3A%2F%2Flocalhost%3A3000',
+          email_otp: '123456',
+          hashed_token: 'hash',
+          redirect_to: 'http://localhost:3000',
+          verification_type: 'magiclink'
+        }
+      }))
+    }
+    bridge = Object.assign(new AuthBridge(), {
+      authManager,
+      jwtService: { verifyToken: vi.fn(async () => { throw new Error('Invalid token') }) },
+      isInitialized: true
+    })
+    vi.spyOn(apiKeyGenerator, 'validateApiKey').mockImplementation(async (token: string) =>
+      token === 'service-role-key' ? { role: 'service_role', iss: 'supabase-lite', iat: 0, exp: 0 } : null
+    )
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should require a service_role bearer token', async () => {
+    const missing = await bridge.handleAuthRequest(request('GET', 'admin_list_users', 'admin/users', { headers: {} }))
+    const anon = await bridge.handleAuthRequest(request('GET', 'admin_list_users', 'admin/users', { headers: { authorization: 'Bearer user-jwt' } }))
+
+    expect(missing).toMatchObject({ status: 401, error: { error: 'no_authorization' } })
+    expect(anon).toMatchObject({ status: 403, error: { error: 'not_admin' } })
+    expect(authManager.listUsersPage).not.toHaveBeenCalled()
+  })
+
+  it('should paginate users with X-Total-Count and Link headers', async () => {
+    const response = await bridge.handleAuthRequest(request('GET', 'admin_list_users', 'admin/users?per_page=50&page=2'))
+
+    expect(authManager.listUsersPage).toHaveBeenCalledWith(2, 50)
+    expect(response.data).toMatchObject({ aud: 'authenticated', users: [{ id: 'user-1', email: 'ada@example.com' }] })
+    expect(response.headers['X-Total-Count']).toBe('160')
+    expect(response.headers['Link']).toBe(
+      '</auth/v1/admin/users?page=3&per_page=50>; rel="next", </auth/v1/admin/users?page=4&per_page=50>; rel="last"'
+    )
+  })
+
+  it('should reject bad pagination parameters', async () => {
+    const response = await bridge.handleAuthRequest(request('GET', 'admin_list_users', 'admin/users?page=0'))
+
+    expect(response).toMatchObject({ status: 400, error: { error: 'validation_failed' } })
+  })
+
+  it('should return 404 for unknown users and soft delete on request', async () => {
+    const missing = await bridge.handleAuthRequest(request('GET', 'admin_get_user', 'admin/users/nope', { params: { userId: 'nope' } }))
+    const deleted = await bridge.handleAuthRequest(request('DELETE', 'admin_delete_user', 'admin/users/user-1', {
+      params: { userId: 'user-1' },
+      body: { should_soft_delete: true }
+    }))
+
+    expect(missing).toMatchObject({ status: 404, error: { error: 'user_not_found' } })
+    expect(deleted).toMatchObject({ status: 200, data: {} })
+    expect(authManager.deleteUser).toHaveBeenCalledWith('user-1', true)
+  })
+
+  it('should return the user with the generated link properties', async () => {
+    const response = await bridge.handleAuthRequest(request('POST', 'admin_generate_link', 'admin/generate_link?redirect_to=http://localhost:3000', {
+      body: { type: 'magiclink', email: 'ada@example.com' }
+    }))
+
+    expect(authManager.generateLink).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'magiclink',
+      email: 'ada@example.com',
+      links: { apiUrl: 'http://localhost:5173/auth/v1', redirectTo: 'http://localhost:3000' }
+    }))
+    expect(response.data).toMatchObject({
+      id: 'user-1',
+      email: 'ada@example.com',
+      email_otp: '123456',
+      hashed_token: 'hash',
+      verification_type: 'magiclink'
+    })
+  })
+})
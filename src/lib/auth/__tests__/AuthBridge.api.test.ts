@@ -82,6 +82,7 @@ describe('AuthBridge API Compatibility', () => {
 
     authBridge = new AuthBridge()
     authBridge['authManager'] = authManager
+    Object.assign(authBridge, { rateLimits: { limitRequest: vi.fn() } })
   })
 
   describe('Sign-in Response Format', () => {
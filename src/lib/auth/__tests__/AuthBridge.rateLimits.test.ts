@@ -0,0 +1,39 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { AuthBridge } from '../AuthBridge'
+import type { AuthAPIRequest } from '../AuthBridge'
+import { RateLimitService } from '../services/RateLimitService'
+import { DEFAULT_AUTH_SETTINGS } from '../services/AuthSettingsService'
+import type { DatabaseManager } from '../../database/connection'
+
+const signIn = (email: string): AuthAPIRequest => ({
+  method: 'POST',
+  endpoint: 'token',
+  url: new URL('http://localhost:5173/auth/v1/token?grant_type=password'),
+  headers: {},
+  body: { email, password: 'wrong-password' }
+})
+
+describe('AuthBridge rate limits', () => {
+  let bridge: AuthBridge
+
+  beforeEach(() => {
+    const rateLimits = Object.assign(
+      new RateLimitService({ getConnectionInfo: () => ({ id: 'project-a' }) } as unknown as DatabaseManager),
+      { authSettings: { getSettings: vi.fn(async () => ({ ...DEFAULT_AUTH_SETTINGS, rate_limit_sign_in_sign_ups: 2 })) } }
+    )
+    const invalidCredentials = Object.assign(new Error('Invalid login credentials'), { status: 400, code: 'invalid_credentials' })
+    bridge = Object.assign(new AuthBridge(), {
+      authManager: { signIn: vi.fn(async () => { throw invalidCredentials }) },
+      rateLimits,
+      isInitialized: true
+    })
+  })
+
+  it('should not let one address using up its sign-in limit block another from the same browser', async () => {
+    await bridge.handleAuthRequest(signIn('ada@example.com'))
+    await bridge.handleAuthRequest(signIn('ada@example.com'))
+
+    expect(await bridge.handleAuthRequest(signIn('ada@example.com'))).toMatchObject({ status: 429, error: { error: 'over_request_rate_limit' } })
+    expect(await bridge.handleAuthRequest(signIn('grace@example.com'))).toMatchObject({ status: 400, error: { error: 'invalid_credentials' } })
+  })
+})
@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import type { ApiKeyGenerator } from '../api-keys'
+import type { StoredSigningKey } from '../services/JWTKeyService'
+import { useRealJose, createKeyStore, createStoredKey } from '../../../test/helpers'
+
+const SECRET = 'a-shared-secret-of-at-least-32-characters'
+
+describe('ApiKeyGenerator', () => {
+  // The test setup mocks jose, so these tests load the real one and fresh auth modules
+  let jose: typeof import('jose')
+  let apiKeyGenerator: ApiKeyGenerator
+  let keys: StoredSigningKey[]
+
+  beforeEach(async () => {
+    vi.resetModules()
+    jose = await useRealJose()
+    keys = [await createStoredKey(jose, 'es-key'), await createStoredKey(jose, 'hs-key', SECRET)]
+    const { JWTKeyService } = await import('../services/JWTKeyService')
+    vi.spyOn(JWTKeyService, 'getInstance').mockReturnValue(createKeyStore(keys))
+    ;({ apiKeyGenerator } = await import('../api-keys'))
+  })
+
+  afterEach(() => {
+    vi.doUnmock('jose')
+    vi.unstubAllGlobals()
+  })
+
+  it('should sign the API keys with the project signing key', async () => {
+    const { anon, service_role } = await apiKeyGenerator.generateApiKeys()
+
+    expect(jose.decodeProtectedHeader(anon)).toMatchObject({ alg: 'ES256', kid: 'es-key' })
+    await expect(apiKeyGenerator.validateApiKey(anon)).resolves.toMatchObject({ role: 'anon' })
+    await expect(apiKeyGenerator.validateApiKey(service_role)).resolves.toMatchObject({ role: 'service_role' })
+  })
+
+  it('should accept API keys minted with the project shared secret', async () => {
+    const serviceRoleKey = await new jose.SignJWT({ role: 'service_role' })
+      .setProtectedHeader({ alg: 'HS256', typ: 'JWT' })
+      .setIssuer('supabase')
+      .sign(new TextEncoder().encode(SECRET))
+
+    await expect(apiKeyGenerator.validateApiKey(serviceRoleKey)).resolves.toMatchObject({ role: 'service_role', iss: 'supabase' })
+  })
+
+  it('should reject user tokens and keys signed with another secret', async () => {
+    const encode = (secret: string) => new TextEncoder().encode(secret)
+    const userToken = await new jose.SignJWT({ sub: 'user-1', role: 'service_role' })
+      .setProtectedHeader({ alg: 'HS256' })
+      .sign(encode(SECRET))
+    const foreignKey = await new jose.SignJWT({ role: 'service_role' })
+      .setProtectedHeader({ alg: 'HS256' })
+      .sign(encode('another-secret-of-at-least-32-characters'))
+
+    await expect(apiKeyGenerator.validateApiKey(userToken)).resolves.toBeNull()
+    await expect(apiKeyGenerator.validateApiKey(foreignKey)).resolves.toBeNull()
+  })
+})
@@ -1,3 +1,6 @@
+import { JWTService } from './core/JWTService';
+import { JWTKeyService } from './services/JWTKeyService';
+
 export interface ApiKeys {
   anon: string;
   service_role: string;
@@ -113,10 +116,11 @@ class SimpleJWT {
 /**
  * Generates Supabase-compatible API keys for anon and service_role
  * These are long-lived JWTs that identify the application component (not the user)
+ * They are signed with the project's JWT signing key, so keys minted with the
+ * project's shared secret elsewhere are accepted too
  */
 export class ApiKeyGenerator {
   private simpleJWT: SimpleJWT;
-  private readonly JWT_SECRET = 'supabase-lite-jwt-secret-key';
 
   constructor() {
     this.simpleJWT = new SimpleJWT();
@@ -126,28 +130,13 @@ export class ApiKeyGenerator {
    * Generate anon and service_role API keys for a project
    */
   async generateApiKeys(projectId: string = 'default'): Promise<ApiKeys> {
-    const now = Math.floor(Date.now() / 1000);
-    const tenYears = 10 * 365 * 24 * 60 * 60; // 10 years in seconds
-
-    // Anonymous key - for public client access (respects RLS)
-    const anonPayload: ApiKeyPayload = {
-      role: 'anon',
-      iss: 'supabase-lite',
-      iat: now,
-      exp: now + tenYears
-    };
-
-    // Service role key - for admin access (bypasses RLS)
-    const servicePayload: ApiKeyPayload = {
-      role: 'service_role',
-      iss: 'supabase-lite',
-      iat: now,
-      exp: now + tenYears
-    };
+    const jwtService = await this.getJWTService();
 
     return {
-      anon: await this.simpleJWT.sign(anonPayload, this.JWT_SECRET),
-      service_role: await this.simpleJWT.sign(servicePayload, this.JWT_SECRET)
+      // Anonymous key - for public client access (respects RLS)
+      anon: await jwtService.createAnonymousToken(),
+      // Service role key - for admin access (bypasses RLS)
+      service_role: await jwtService.createServiceRoleToken()
     };
   }
 
@@ -156,28 +145,26 @@ export class ApiKeyGenerator {
    */
   async validateApiKey(apiKey: string): Promise<ApiKeyPayload | null> {
     try {
-      const payload = await this.simpleJWT.verify(apiKey, this.JWT_SECRET);
-      
-      if (!payload) {
-        return null;
-      }
-      
-      // Validate it's a proper API key (not a user JWT)
-      if (!payload.role || payload.iss !== 'supabase-lite') {
-        return null;
-      }
+      const jwtService = await this.getJWTService();
+      const payload = await jwtService.verifyToken(apiKey);
 
-      // Validate role is valid
-      if (!['anon', 'service_role'].includes(payload.role)) {
+      // Validate it's a proper API key (not a user JWT)
+      if (!payload.role || !['anon', 'service_role'].includes(payload.role) || payload.sub) {
         return null;
       }
 
-      return payload as ApiKeyPayload;
-    } catch (error) {
+      return payload as unknown as ApiKeyPayload;
+    } catch {
       return null;
     }
   }
 
+  private async getJWTService(): Promise<JWTService> {
+    const jwtService = JWTService.getInstance();
+    await jwtService.initialize(JWTKeyService.getInstance());
+    return jwtService;
+  }
+
   /**
    * Extract role from API key without full validation
    * Used for quick role determination
@@ -208,13 +195,6 @@ export class ApiKeyGenerator {
   isServiceRole(apiKey: string): boolean {
     return this.extractRole(apiKey) === 'service_role';
   }
-
-  /**
-   * Get the JWT secret (for testing purposes)
-   */
-  getJwtSecret(): string {
-    return this.JWT_SECRET;
-  }
 }
 
 // Singleton instance
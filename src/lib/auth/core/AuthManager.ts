@@ -5,12 +5,27 @@ import { PasswordService } from './PasswordService'
 import { CryptoUtils } from '../utils/crypto'
 import { Validators, ValidationError } from '../utils/validators'
 import { AuthQueryBuilder } from '../utils/DatabaseQueryBuilder'
+import { EmailService, EMAIL_VERIFICATION_TYPES } from '../services/EmailService'
+import type { EmailLinkOptions, EmailTemplateType } from '../services/EmailService'
+import { OAuthService } from '../services/OAuthService'
+import type { FakeIdentityProfile } from '../services/OAuthService'
+import { AuthSettingsService } from '../services/AuthSettingsService'
+import { SmsService } from '../services/SmsService'
+import { AuthHooksService } from '../services/AuthHooksService'
+import { JWTKeyService } from '../services/JWTKeyService'
+import { RateLimitService } from '../services/RateLimitService'
+import type { SmsMessage } from '../services/SmsService'
+import { SessionService } from '../services/SessionService'
+import type { StoredSession } from '../services/SessionService'
 import type { 
   User, 
   Session, 
   SignUpCredentials, 
   SignInCredentials, 
   UpdateUserAttributes,
+  AdminUserAttributes,
+  UserIdentity,
+  SignOutScope,
   AuthError,
   AuthenticatorAssuranceLevel,
   MFAFactor,
@@ -21,13 +36,142 @@ export interface AuthManagerConfig {
   enableSignups: boolean
   enableEmailAuth: boolean
   enablePhoneAuth: boolean
-  enableAnonymousAuth: boolean
-  requireEmailVerification: boolean
-  requirePhoneVerification: boolean
   passwordMinLength: number
   sessionTimeoutMinutes: number
   maxFailedAttempts: number
   lockoutDurationMinutes: number
+  emailOtpExpirySeconds: number
+  smsOtpExpirySeconds: number
+}
+
+export type EmailOtpType = 'signup' | 'invite' | 'magiclink' | 'recovery' | 'email_change' | 'email'
+
+export type PhoneOtpType = 'sms' | 'phone_change'
+
+export interface VerifyOtpParams {
+  type: EmailOtpType | PhoneOtpType
+  email?: string
+  phone?: string
+  token?: string
+  token_hash?: string
+}
+
+export type GenerateLinkType = 'signup' | 'invite' | 'magiclink' | 'recovery' | 'email_change_current' | 'email_change_new'
+
+export interface GenerateLinkParams {
+  type: GenerateLinkType
+  email: string
+  password?: string
+  new_email?: string
+  data?: Record<string, unknown>
+  links?: EmailLinkOptions
+}
+
+export interface GeneratedLink {
+  user: User
+  properties: {
+    action_link: string
+    email_otp: string
+    hashed_token: string
+    redirect_to: string
+    verification_type: string
+  }
+}
+
+export interface ProviderAuthorizeParams {
+  provider: string
+  redirectTo: string
+  scopes?: string
+  codeChallenge?: string
+  codeChallengeMethod?: string
+  /** The signed in user a manually linked identity is added to */
+  linkingTargetId?: string
+}
+
+/**
+ * The authorize request the consent page is answering
+ */
+export interface ProviderConsent {
+  provider: string
+  redirectTo: string
+  /** Set for PKCE flows, which get an auth code instead of a session */
+  flowStateId?: string
+  /** Set when the identity is linked to an existing user */
+  linkingTargetId?: string
+}
+
+type EmailTokenKind = 'confirmation' | 'recovery' | 'email_change_new' | 'email_change_current'
+
+/**
+ * auth.users columns holding each kind of hashed token and its send time
+ */
+const EMAIL_TOKEN_COLUMNS: Record<EmailTokenKind, { token: string; sentAt: string }> = {
+  confirmation: { token: 'confirmation_token', sentAt: 'confirmation_sent_at' },
+  recovery: { token: 'recovery_token', sentAt: 'recovery_sent_at' },
+  email_change_new: { token: 'email_change_token_new', sentAt: 'email_change_sent_at' },
+  email_change_current: { token: 'email_change_token_current', sentAt: 'email_change_sent_at' }
+}
+
+const TEMPLATE_TOKEN_KINDS: Record<EmailTemplateType, EmailTokenKind> = {
+  confirmation: 'confirmation',
+  invite: 'confirmation',
+  magic_link: 'recovery',
+  recovery: 'recovery',
+  email_change: 'email_change_new'
+}
+
+/**
+ * Tokens each verification type may consume, in lookup order
+ */
+const OTP_TYPE_TOKEN_KINDS: Record<EmailOtpType, EmailTokenKind[]> = {
+  signup: ['confirmation'],
+  invite: ['confirmation'],
+  magiclink: ['recovery'],
+  recovery: ['recovery'],
+  email_change: ['email_change_new', 'email_change_current'],
+  email: ['confirmation', 'recovery']
+}
+
+type PhoneTokenKind = 'sms_confirmation' | 'sms_recovery' | 'phone_change'
+
+/**
+ * Texted codes share the confirmation and recovery columns with email
+ * tokens; their hashes differ because they are salted with the number
+ */
+const PHONE_TOKEN_COLUMNS: Record<PhoneTokenKind, { token: string; sentAt: string }> = {
+  sms_confirmation: { token: 'confirmation_token', sentAt: 'confirmation_sent_at' },
+  sms_recovery: { token: 'recovery_token', sentAt: 'recovery_sent_at' },
+  phone_change: { token: 'phone_change_token', sentAt: 'phone_change_sent_at' }
+}
+
+const PHONE_OTP_TYPE_TOKEN_KINDS: Record<PhoneOtpType, PhoneTokenKind[]> = {
+  sms: ['sms_confirmation', 'sms_recovery'],
+  phone_change: ['phone_change']
+}
+
+const DURATION_UNITS_MS: Record<string, number> = {
+  ns: 1e-6,
+  us: 1e-3,
+  µs: 1e-3,
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000
+}
+
+/**
+ * Parse a Go duration string such as "24h" or "1h30m" into milliseconds
+ */
+function parseDuration(duration: string): number | null {
+  const parts = duration.match(/(\d+(?:\.\d+)?)(ns|us|µs|ms|s|m|h)/g)
+  if (!parts || parts.join('') !== duration) {
+    return null
+  }
+
+  return parts.reduce((total, part) => {
+    const [, value, unit] = part.match(/(\d+(?:\.\d+)?)(\w+|µs)/)!
+    return total + parseFloat(value) * DURATION_UNITS_MS[unit]
+  }, 0)
 }
 
 export class AuthManager {
@@ -37,6 +181,13 @@ export class AuthManager {
   private jwtService: JWTService
   private sessionManager: SessionManager
   private passwordService: PasswordService
+  private emailService: EmailService
+  private smsService: SmsService
+  private oauthService: OAuthService
+  private authSettings: AuthSettingsService
+  private sessionService: SessionService
+  private authHooks: AuthHooksService
+  private rateLimits: RateLimitService
   private config: AuthManagerConfig
   private isInitialized: boolean = false
   private initializationPromise: Promise<void> | null = null
@@ -46,13 +197,12 @@ export class AuthManager {
       enableSignups: true,
       enableEmailAuth: true,
       enablePhoneAuth: false,
-      enableAnonymousAuth: false,
-      requireEmailVerification: false,
-      requirePhoneVerification: false,
       passwordMinLength: 6,
       sessionTimeoutMinutes: 60,
       maxFailedAttempts: 5,
       lockoutDurationMinutes: 15,
+      emailOtpExpirySeconds: 3600,
+      smsOtpExpirySeconds: 60,
       ...config
     }
 
@@ -61,6 +211,16 @@ export class AuthManager {
     this.jwtService = JWTService.getInstance()
     this.sessionManager = SessionManager.getInstance()
     this.passwordService = PasswordService.getInstance()
+    this.emailService = EmailService.getInstance()
+    this.smsService = SmsService.getInstance()
+    this.oauthService = OAuthService.getInstance()
+    this.authSettings = AuthSettingsService.getInstance()
+    this.sessionService = SessionService.getInstance()
+    this.authHooks = AuthHooksService.getInstance()
+    this.rateLimits = RateLimitService.getInstance()
+
+    // Every access token, including ones SessionManager and MFAService mint, passes the custom access token hook
+    this.jwtService.setAccessTokenClaimsHook((claims, method) => this.authHooks.customizeAccessToken(claims, method))
   }
 
   static getInstance(config?: Partial<AuthManagerConfig>): AuthManager {
@@ -107,7 +267,8 @@ export class AuthManager {
       console.log('AuthManager: Database already connected')
     }
 
-    await this.jwtService.initialize()
+    // Once the database is up, tokens are signed with the project's own keys
+    await this.jwtService.initialize(JWTKeyService.getInstance())
     await this.sessionManager.initialize()
     await this.ensureAuthTables()
     
@@ -117,7 +278,7 @@ export class AuthManager {
   /**
    * Sign up new user with email/password
    */
-  async signUp(credentials: SignUpCredentials): Promise<{ user: User; session: Session | null }> {
+  async signUp(credentials: SignUpCredentials, links?: EmailLinkOptions): Promise<{ user: User; session: Session | null }> {
     console.log('🔐 AuthManager.signUp: Starting signup process for:', credentials.email)
     
     if (!this.config.enableSignups) {
@@ -141,6 +302,10 @@ export class AuthManager {
         throw this.createAuthError('Phone number already registered', 422, 'phone_already_exists')
       }
 
+      const settings = await this.authSettings.getSettings()
+      const confirmEmail = !!email && settings.email_confirmations_enabled
+      const confirmPhone = !!phone && settings.phone_confirmations_enabled
+
       console.log('🔐 AuthManager.signUp: Hashing password')
       // Hash password
       const hashedPassword = await this.passwordService.hashPassword(password)
@@ -155,8 +320,8 @@ export class AuthManager {
         id: userId,
         email: email || undefined,
         phone: phone || undefined,
-        email_verified: !this.config.requireEmailVerification,
-        phone_verified: !this.config.requirePhoneVerification,
+        email_verified: !settings.email_confirmations_enabled,
+        phone_verified: !!phone && !confirmPhone,
         created_at: now,
         updated_at: now,
         role: 'authenticated',
@@ -172,10 +337,17 @@ export class AuthManager {
       // Store user in database
       await this.createUserInDB(user, hashedPassword)
 
+      if (confirmEmail) {
+        await this.sendAuthEmail(user, 'confirmation', links)
+      }
+      if (confirmPhone) {
+        await this.sendAuthSms(user, 'sms_confirmation')
+      }
+
       console.log('🔐 AuthManager.signUp: Creating session')
-      // Create session if email verification not required
+      // Create session unless the email or phone has to be confirmed first
       let session: Session | null = null
-      if (!this.config.requireEmailVerification && !this.config.requirePhoneVerification) {
+      if (!confirmEmail && !confirmPhone) {
         session = await this.sessionManager.createSession(user)
       }
 
@@ -213,7 +385,7 @@ export class AuthManager {
     const { email, phone, password, provider } = credentials
 
     if (provider) {
-      return await this.signInWithProvider(provider)
+      throw this.createAuthError(`Sign in with ${provider} through /authorize?provider=${provider}`, 400, 'validation_failed')
     }
 
     if (!password) {
@@ -231,6 +403,14 @@ export class AuthManager {
       throw this.createAuthError('Invalid login credentials', 400, 'invalid_credentials')
     }
 
+    if (email && !user.email_verified && (await this.authSettings.getSettings()).email_confirmations_enabled) {
+      throw this.createAuthError('Email not confirmed', 400, 'email_not_confirmed')
+    }
+
+    if (!email && !user.phone_verified && (await this.authSettings.getSettings()).phone_confirmations_enabled) {
+      throw this.createAuthError('Phone not confirmed', 400, 'phone_not_confirmed')
+    }
+
     // Note: Account lockout removed for Supabase compatibility
 
     // Get stored password hash
@@ -241,11 +421,25 @@ export class AuthManager {
 
     // Verify password
     const isValidPassword = await this.passwordService.verifyPassword(password, storedPassword)
-    
+
+    const attempt = await this.authHooks.passwordVerificationAttempt(user.id, isValidPassword)
+    if (attempt.decision === 'reject') {
+      if (attempt.should_logout_user) {
+        await this.sessionService.deleteUserSessions(user.id)
+      }
+      throw this.createAuthError(
+        attempt.message || 'Further password verification attempts will be rejected.',
+        400,
+        'invalid_credentials'
+      )
+    }
+
     if (!isValidPassword) {
       throw this.createAuthError('Invalid login credentials', 400, 'invalid_credentials')
     }
 
+    this.assertNotBanned(user)
+
     // Update last sign in
     await this.updateLastSignIn(user.id)
 
@@ -258,13 +452,46 @@ export class AuthManager {
     return { user, session }
   }
 
+  /**
+   * Create a user without credentials. It signs in with role authenticated
+   * and is_anonymous set until an email, phone or identity is attached.
+   */
+  async signInAnonymously(data: Record<string, unknown> = {}): Promise<{ user: User; session: Session }> {
+    const settings = await this.authSettings.getSettings()
+    if (!settings.anonymous_sign_ins_enabled) {
+      throw this.createAuthError('Anonymous sign-ins are disabled', 422, 'anonymous_provider_disabled')
+    }
+
+    const now = new Date().toISOString()
+    const user: User = {
+      id: CryptoUtils.generateUUID(),
+      email_verified: false,
+      phone_verified: false,
+      created_at: now,
+      updated_at: now,
+      last_sign_in_at: now,
+      role: 'authenticated',
+      app_metadata: { provider: 'anonymous', providers: ['anonymous'] },
+      user_metadata: Validators.sanitizeUserMetadata(data),
+      is_anonymous: true
+    }
+
+    await this.createUserInDB(user, null)
+    await this.updateLastSignIn(user.id)
+    const session = await this.sessionManager.createSession(user)
+
+    await this.logAuditEvent('user_signed_up', { user_id: user.id, provider: 'anonymous' })
+
+    return { user, session }
+  }
+
   /**
    * Sign out user
    */
-  async signOut(scope: 'local' | 'global' = 'local'): Promise<void> {
+  async signOut(scope: SignOutScope = 'local'): Promise<void> {
     const session = this.sessionManager.getSession()
     if (session) {
-      await this.logAuditEvent('user_signed_out', { user_id: session.user_id })
+      await this.logAuditEvent('user_signed_out', { user_id: session.user_id, scope })
     }
 
     await this.sessionManager.signOut(scope)
@@ -287,7 +514,7 @@ export class AuthManager {
   /**
    * Update user attributes
    */
-  async updateUser(attributes: UpdateUserAttributes): Promise<User> {
+  async updateUser(attributes: UpdateUserAttributes, links?: EmailLinkOptions): Promise<User> {
     const currentUser = this.getCurrentUser()
     if (!currentUser) {
       throw this.createAuthError('No authenticated user', 401, 'no_user')
@@ -305,8 +532,14 @@ export class AuthManager {
       if (await this.getUserByEmail(email)) {
         throw this.createAuthError('Email already in use', 422, 'email_already_exists')
       }
-      updates.email = email
-      updates.email_verified = !this.config.requireEmailVerification
+      if ((await this.authSettings.getSettings()).email_confirmations_enabled) {
+        // The change stays pending until the link sent to the new address is verified
+        await this.sendAuthEmail(currentUser, 'email_change', links, email)
+      } else {
+        updates.email = email
+        updates.email_verified = true
+        Object.assign(updates, this.convertAnonymousUser(currentUser, 'email'))
+      }
     }
 
     // Update phone
@@ -314,8 +547,14 @@ export class AuthManager {
       if (await this.getUserByPhone(phone)) {
         throw this.createAuthError('Phone already in use', 422, 'phone_already_exists')
       }
-      updates.phone = phone
-      updates.phone_verified = !this.config.requirePhoneVerification
+      if ((await this.authSettings.getSettings()).phone_confirmations_enabled) {
+        // The change stays pending until the code texted to the new number is verified
+        await this.sendAuthSms(currentUser, 'phone_change', phone)
+      } else {
+        updates.phone = phone
+        updates.phone_verified = true
+        Object.assign(updates, this.convertAnonymousUser(currentUser, 'phone'))
+      }
     }
 
     // Update password
@@ -334,6 +573,9 @@ export class AuthManager {
 
     // Update user in database
     await this.updateUserInDB(currentUser.id, updates)
+    if (updates.is_anonymous === false) {
+      await this.addCredentialIdentity({ ...currentUser, ...updates }, updates.email ? 'email' : 'phone')
+    }
 
     // Update session
     const updatedUser = await this.sessionManager.updateUser(updates)
@@ -354,12 +596,57 @@ export class AuthManager {
    * Refresh session token
    */
   async refreshSession(refreshToken?: string): Promise<Session> {
-    const session = await this.sessionManager.refreshSession(refreshToken)
-    if (!session) {
-      throw this.createAuthError('Failed to refresh session', 400, 'refresh_failed')
+    const token = refreshToken || this.sessionManager.getSession()?.refresh_token
+    const stored = token ? await this.sessionService.getRefreshToken(token) : null
+    if (!stored) {
+      throw this.createAuthError('Invalid Refresh Token: Refresh Token Not Found', 400, 'refresh_token_not_found')
+    }
+
+    // A token that was already exchanged is only presented again if it
+    // leaked, so the whole family is revoked
+    if (stored.revoked || !(await this.sessionService.revokeRefreshToken(stored.id))) {
+      await this.sessionService.revokeTokenFamily(stored.session_id)
+      await this.forgetCurrentSession(stored.session_id)
+      await this.logAuditEvent('token_revoked', { user_id: stored.user_id, session_id: stored.session_id, reason: 'refresh_token_reuse' })
+      throw this.createAuthError('Invalid Refresh Token: Already Used', 400, 'refresh_token_already_used')
+    }
+
+    const user = await this.getUserById(stored.user_id)
+    if (!user) {
+      throw this.createAuthError('Invalid Refresh Token: Refresh Token Not Found', 400, 'refresh_token_not_found')
     }
+    this.assertNotBanned(user)
 
-    return session
+    return this.sessionManager.refreshSession(user, stored)
+  }
+
+  /**
+   * Sessions of the signed in user that can still be refreshed
+   */
+  async listSessions(): Promise<StoredSession[]> {
+    const currentUser = this.getCurrentUser()
+    if (!currentUser) {
+      throw this.createAuthError('No authenticated user', 401, 'no_user')
+    }
+
+    return this.sessionService.listUserSessions(currentUser.id)
+  }
+
+  /**
+   * End one of the signed in user's sessions
+   */
+  async revokeSession(sessionId: string): Promise<void> {
+    const currentUser = this.getCurrentUser()
+    if (!currentUser) {
+      throw this.createAuthError('No authenticated user', 401, 'no_user')
+    }
+
+    const session = await this.sessionService.getSession(sessionId)
+    if (!session || session.user_id !== currentUser.id) {
+      throw this.createAuthError('Session not found', 404, 'session_not_found')
+    }
+
+    await this.endSession(session)
   }
 
   /**
@@ -389,7 +676,7 @@ export class AuthManager {
   /**
    * Request password recovery
    */
-  async requestPasswordRecovery(email: string): Promise<void> {
+  async requestPasswordRecovery(email: string, links?: EmailLinkOptions): Promise<void> {
     if (!Validators.isValidEmail(email)) {
       throw this.createAuthError('Invalid email format', 400, 'invalid_email')
     }
@@ -400,40 +687,173 @@ export class AuthManager {
       return
     }
 
-    const token = this.passwordService.generatePasswordResetToken()
-    const expiresAt = new Date(Date.now() + 60 * 60 * 1000) // 1 hour
-
-    await this.storePasswordResetToken(user.id, token, expiresAt)
+    await this.sendAuthEmail(user, 'recovery', links)
 
     // Log audit event
     await this.logAuditEvent('password_recovery_requested', { 
       user_id: user.id, 
       email 
     })
-
-    // In a real implementation, send email here
-    console.log(`Password reset token for ${email}: ${token}`)
   }
 
   /**
-   * Reset password with token
+   * Reset password with the token_hash from a recovery email
    */
   async resetPassword(token: string, newPassword: string): Promise<void> {
-    if (!this.passwordService.isValidPasswordResetToken(token)) {
-      throw this.createAuthError('Invalid reset token', 400, 'invalid_token')
-    }
-
-    const userId = await this.validatePasswordResetToken(token)
-    if (!userId) {
+    const user = await this.consumeEmailToken(['recovery'], token)
+    if (!user) {
       throw this.createAuthError('Invalid or expired reset token', 400, 'invalid_token')
     }
 
     const hashedPassword = await this.passwordService.hashPassword(newPassword)
-    await this.updatePasswordInDB(userId, hashedPassword)
-    await this.deletePasswordResetToken(token)
+    await this.updatePasswordInDB(user.id, hashedPassword)
 
     // Log audit event
-    await this.logAuditEvent('password_reset', { user_id: userId })
+    await this.logAuditEvent('password_reset', { user_id: user.id })
+  }
+
+  /**
+   * Send a magic link or OTP code, creating a passwordless user when allowed
+   */
+  async sendOtp(
+    email: string,
+    options: { createUser?: boolean; data?: Record<string, unknown>; links?: EmailLinkOptions } = {}
+  ): Promise<void> {
+    if (!Validators.isValidEmail(email)) {
+      throw this.createAuthError('Invalid email format', 400, 'invalid_email')
+    }
+
+    let user = await this.getUserByEmail(email)
+    if (!user) {
+      if (options.createUser === false) {
+        throw this.createAuthError('Signups not allowed for otp', 422, 'otp_disabled')
+      }
+      if (!this.config.enableSignups) {
+        throw this.createAuthError('Signups are disabled', 422, 'signups_disabled')
+      }
+
+      user = await this.createEmailUser(email, options.data || {}, null)
+    }
+
+    // Unconfirmed users get a signup confirmation instead of a magic link
+    await this.sendAuthEmail(user, user.email_verified ? 'magic_link' : 'confirmation', options.links)
+  }
+
+  /**
+   * Resend a signup confirmation or a pending email change
+   */
+  async resend(type: 'signup' | 'email_change', email: string, links?: EmailLinkOptions): Promise<void> {
+    if (!Validators.isValidEmail(email)) {
+      throw this.createAuthError('Invalid email format', 400, 'invalid_email')
+    }
+
+    if (type === 'signup') {
+      const user = await this.getUserByEmail(email)
+      if (user && !user.email_verified) {
+        await this.sendAuthEmail(user, 'confirmation', links)
+      }
+      return
+    }
+
+    if (type === 'email_change') {
+      const result = await this.dbManager.query(
+        'SELECT * FROM auth.users WHERE email = $1 AND COALESCE(email_change, \'\') <> \'\'',
+        [email]
+      )
+      const row = result.rows[0] as Record<string, unknown> | undefined
+      if (row) {
+        await this.sendAuthEmail(this.mapDBUserToUser(row), 'email_change', links, String(row.email_change))
+      }
+      return
+    }
+
+    throw this.createAuthError('Missing one of these types: signup, email_change', 400, 'validation_failed')
+  }
+
+  /**
+   * Text an OTP code, creating a passwordless phone user when allowed
+   */
+  async sendSmsOtp(
+    phone: string,
+    options: { createUser?: boolean; data?: Record<string, unknown> } = {}
+  ): Promise<SmsMessage> {
+    if (!Validators.isValidPhone(phone)) {
+      throw this.createAuthError('Invalid phone number format (E.164 required)', 400, 'validation_failed')
+    }
+
+    let user = await this.getUserByPhone(phone)
+    if (!user) {
+      if (options.createUser === false) {
+        throw this.createAuthError('Signups not allowed for otp', 422, 'otp_disabled')
+      }
+      if (!this.config.enableSignups) {
+        throw this.createAuthError('Signups are disabled', 422, 'signups_disabled')
+      }
+
+      user = await this.createPhoneUser(phone, options.data || {})
+    }
+
+    return this.sendAuthSms(user, user.phone_verified ? 'sms_recovery' : 'sms_confirmation')
+  }
+
+  /**
+   * Resend a signup code or a pending phone change code. Returns null when
+   * nothing is pending for the number.
+   */
+  async resendSms(type: PhoneOtpType, phone: string): Promise<SmsMessage | null> {
+    if (!Validators.isValidPhone(phone)) {
+      throw this.createAuthError('Invalid phone number format (E.164 required)', 400, 'validation_failed')
+    }
+
+    if (type === 'sms') {
+      const user = await this.getUserByPhone(phone)
+      return user && !user.phone_verified ? this.sendAuthSms(user, 'sms_confirmation') : null
+    }
+
+    // Phone changes are resent to the new number, which is what the user knows
+    const result = await this.dbManager.query('SELECT * FROM auth.users WHERE phone_change = $1', [phone])
+    const row = result.rows[0] as Record<string, unknown> | undefined
+    return row ? this.sendAuthSms(this.mapDBUserToUser(row), 'phone_change', phone) : null
+  }
+
+  /**
+   * Verify an emailed OTP code or link token_hash and sign the user in
+   */
+  async verifyOtp(params: VerifyOtpParams): Promise<{ user: User; session: Session }> {
+    let user: User | null
+    if (params.type === 'sms' || params.type === 'phone_change') {
+      if (!params.phone || !params.token) {
+        throw this.createAuthError('Verify requires a phone number and a token', 400, 'validation_failed')
+      }
+      const tokenHash = await CryptoUtils.generateTokenHash(params.phone, params.token)
+      user = await this.consumePhoneToken(PHONE_OTP_TYPE_TOKEN_KINDS[params.type], tokenHash)
+    } else {
+      const kinds = OTP_TYPE_TOKEN_KINDS[params.type]
+      if (!kinds) {
+        throw this.createAuthError('Verify requires a verification type', 400, 'validation_failed')
+      }
+
+      let tokenHash = params.token_hash
+      if (!tokenHash) {
+        if (!params.email || !params.token) {
+          throw this.createAuthError('Verify requires either a token or a token hash', 400, 'validation_failed')
+        }
+        tokenHash = await CryptoUtils.generateTokenHash(params.email, params.token)
+      }
+
+      user = await this.consumeEmailToken(kinds, tokenHash)
+    }
+    if (!user) {
+      throw this.createAuthError('Token has expired or is invalid', 403, 'otp_expired')
+    }
+    this.assertNotBanned(user)
+
+    await this.updateLastSignIn(user.id)
+    const session = await this.sessionManager.createSession(user)
+
+    await this.logAuditEvent('user_verified', { user_id: user.id, email: user.email, phone: user.phone, type: params.type })
+
+    return { user, session }
   }
 
   /**
@@ -472,20 +892,259 @@ export class AuthManager {
   /**
    * Delete a user by ID
    */
-  async deleteUser(userId: string): Promise<void> {
+  async deleteUser(userId: string, softDelete: boolean = false): Promise<void> {
     if (!userId || userId.trim() === '') {
       throw this.createAuthError('User ID is required', 400, 'user_id_required')
     }
 
-    await this.dbManager.query(
-      'DELETE FROM auth.users WHERE id = $1',
-      [userId]
-    )
+    if (softDelete) {
+      // Keep the row for foreign keys but strip everything identifying
+      await this.dbManager.query(`
+        UPDATE auth.users
+        SET deleted_at = $1, updated_at = $1, email = NULL, phone = NULL, encrypted_password = NULL,
+            raw_user_meta_data = '{}'::jsonb
+        WHERE id = $2
+      `, [new Date().toISOString(), userId])
+    } else {
+      await this.dbManager.query(
+        'DELETE FROM auth.users WHERE id = $1',
+        [userId]
+      )
+    }
 
     // Log audit event
     await this.logAuditEvent('user_deleted', { user_id: userId })
   }
 
+  /**
+   * Get a user by ID
+   */
+  async getUserById(userId: string): Promise<User | null> {
+    const result = await this.dbManager.query(
+      'SELECT * FROM auth.users WHERE id = $1',
+      [userId]
+    )
+    return result.rows[0] ? this.mapDBUserToUser(result.rows[0]) : null
+  }
+
+  /**
+   * Get the sessions of any user that can still be refreshed
+   */
+  async adminListUserSessions(userId: string): Promise<StoredSession[]> {
+    return this.sessionService.listUserSessions(userId)
+  }
+
+  /**
+   * End any session, e.g. from the users panel
+   */
+  async adminRevokeSession(sessionId: string): Promise<void> {
+    const session = await this.sessionService.getSession(sessionId)
+    if (!session) {
+      throw this.createAuthError('Session not found', 404, 'session_not_found')
+    }
+
+    await this.endSession(session)
+  }
+
+  /**
+   * Get one page of users, newest first, with the total user count
+   */
+  async listUsersPage(page: number, perPage: number): Promise<{ users: User[]; total: number }> {
+    const result = await this.dbManager.query(
+      'SELECT * FROM auth.users ORDER BY created_at DESC LIMIT $1 OFFSET $2',
+      [perPage, (page - 1) * perPage]
+    )
+    const total = await this.getUserCount()
+    return { users: result.rows.map((row) => this.mapDBUserToUser(row)), total }
+  }
+
+  /**
+   * Create a user as an admin, optionally confirmed and without a password
+   */
+  async adminCreateUser(attributes: AdminUserAttributes): Promise<User> {
+    const { email, phone, password, user_metadata = {}, app_metadata = {} } = attributes
+
+    if (!email && !phone) {
+      throw this.createAuthError('Unable to validate request: email or phone is required', 400, 'validation_failed')
+    }
+    await this.assertAvailableIdentifiers(attributes)
+    if (password !== undefined) {
+      this.assertPasswordLength(password)
+    }
+
+    const now = new Date().toISOString()
+    const provider = email ? 'email' : 'phone'
+    const user: User = {
+      id: CryptoUtils.generateUUID(),
+      email,
+      phone,
+      email_verified: !!(email && attributes.email_confirm),
+      phone_verified: !!(phone && attributes.phone_confirm),
+      created_at: now,
+      updated_at: now,
+      role: attributes.role || 'authenticated',
+      app_metadata: { provider, providers: [provider], ...app_metadata },
+      user_metadata: Validators.sanitizeUserMetadata(user_metadata),
+      is_anonymous: false
+    }
+
+    const hashedPassword = password ? await this.passwordService.hashPassword(password) : null
+    await this.createUserInDB(user, hashedPassword)
+
+    if (attributes.ban_duration) {
+      await this.updateUserInDB(user.id, { banned_until: this.resolveBanDuration(attributes.ban_duration) })
+    }
+
+    await this.logAuditEvent('user_signed_up', { user_id: user.id, email, phone, provider, admin: true })
+
+    return (await this.getUserById(user.id)) || user
+  }
+
+  /**
+   * Update any user as an admin. Metadata is merged and keys set to null are removed.
+   */
+  async adminUpdateUser(userId: string, attributes: AdminUserAttributes): Promise<User> {
+    const user = await this.getUserById(userId)
+    if (!user) {
+      throw this.createAuthError('User not found', 404, 'user_not_found')
+    }
+
+    await this.assertAvailableIdentifiers(attributes, user)
+
+    const updates: Partial<User> = {
+      updated_at: new Date().toISOString()
+    }
+
+    if (attributes.email !== undefined && attributes.email !== user.email) {
+      updates.email = attributes.email
+      updates.email_verified = !!attributes.email_confirm
+    } else if (attributes.email_confirm) {
+      updates.email_verified = true
+    }
+
+    if (attributes.phone !== undefined && attributes.phone !== user.phone) {
+      updates.phone = attributes.phone
+      updates.phone_verified = !!attributes.phone_confirm
+    } else if (attributes.phone_confirm) {
+      updates.phone_verified = true
+    }
+
+    if (attributes.user_metadata) {
+      updates.user_metadata = this.mergeMetadata(user.user_metadata, Validators.sanitizeUserMetadata(attributes.user_metadata))
+    }
+    if (attributes.app_metadata) {
+      updates.app_metadata = this.mergeMetadata(user.app_metadata, attributes.app_metadata)
+    }
+    if (attributes.role) {
+      updates.role = attributes.role
+    }
+    if (attributes.ban_duration) {
+      updates.banned_until = this.resolveBanDuration(attributes.ban_duration)
+    }
+
+    if (attributes.password !== undefined) {
+      this.assertPasswordLength(attributes.password)
+      await this.updatePasswordInDB(userId, await this.passwordService.hashPassword(attributes.password))
+    }
+
+    await this.updateUserInDB(userId, updates)
+    await this.logAuditEvent('user_updated', { user_id: userId, changes: Object.keys(updates), admin: true })
+
+    return (await this.getUserById(userId)) || { ...user, ...updates }
+  }
+
+  /**
+   * Invite a user by email, creating them without a password
+   */
+  async inviteUserByEmail(
+    email: string,
+    options: { data?: Record<string, unknown>; links?: EmailLinkOptions } = {}
+  ): Promise<User> {
+    const user = await this.prepareInvitedUser(email, options.data || {})
+    await this.sendAuthEmail(user, 'invite', options.links)
+    return user
+  }
+
+  /**
+   * Generate an email action link without sending the email (admin generate_link)
+   */
+  async generateLink(params: GenerateLinkParams): Promise<GeneratedLink> {
+    const { type, email } = params
+    if (!Validators.isValidEmail(email)) {
+      throw this.createAuthError('Unable to validate email address: invalid format', 400, 'validation_failed')
+    }
+
+    let user = await this.getUserByEmail(email)
+    let template: EmailTemplateType
+    let kind: EmailTokenKind
+    let newEmail: string | undefined
+
+    switch (type) {
+      case 'signup':
+        if (user?.email_verified) {
+          throw this.createAuthError('A user with this email address has already been registered', 422, 'email_exists')
+        }
+        if (!user) {
+          if (!params.password) {
+            throw this.createAuthError('Password is required for signup links', 400, 'validation_failed')
+          }
+          this.assertPasswordLength(params.password)
+          user = await this.createEmailUser(email, params.data || {}, await this.passwordService.hashPassword(params.password))
+        }
+        template = 'confirmation'
+        kind = 'confirmation'
+        break
+
+      case 'invite':
+        user = await this.prepareInvitedUser(email, params.data || {})
+        template = 'invite'
+        kind = 'confirmation'
+        break
+
+      case 'magiclink':
+      case 'recovery':
+        if (!user) {
+          throw this.createAuthError('User with this email not found', 404, 'user_not_found')
+        }
+        template = type === 'magiclink' ? 'magic_link' : 'recovery'
+        kind = 'recovery'
+        break
+
+      case 'email_change_current':
+      case 'email_change_new':
+        if (!user) {
+          throw this.createAuthError('User with this email not found', 404, 'user_not_found')
+        }
+        if (!params.new_email || !Validators.isValidEmail(params.new_email)) {
+          throw this.createAuthError('The new_email address provided is invalid', 400, 'validation_failed')
+        }
+        if (await this.getUserByEmail(params.new_email)) {
+          throw this.createAuthError('A user with this email address has already been registered', 422, 'email_exists')
+        }
+        newEmail = params.new_email
+        template = 'email_change'
+        kind = type
+        break
+
+      default:
+        throw this.createAuthError(`Invalid link type: ${type}`, 400, 'validation_failed')
+    }
+
+    const { token, tokenHash } = await this.issueEmailToken(user, kind, newEmail)
+    const actionLink = this.emailService.buildActionLink(template, tokenHash, params.links)
+
+    return {
+      user: (await this.getUserById(user.id)) || user,
+      properties: {
+        action_link: actionLink,
+        email_otp: token,
+        hashed_token: tokenHash,
+        redirect_to: new URL(actionLink).searchParams.get('redirect_to') || '',
+        verification_type: EMAIL_VERIFICATION_TYPES[template]
+      }
+    }
+  }
+
   /**
    * Get available providers with user counts
    */
@@ -501,10 +1160,238 @@ export class AuthManager {
   }
 
   /**
-   * Sign in with OAuth provider (simulated)
+   * Start an OAuth sign in. There is no real provider: the returned URL is
+   * the local consent page, which finishes with completeProviderSignIn.
+   */
+  async authorizeProvider(params: ProviderAuthorizeParams, consentUrl: string): Promise<string> {
+    if (!this.oauthService.getProvider(params.provider)) {
+      throw this.createAuthError('Unsupported provider: provider is not enabled', 400, 'validation_failed')
+    }
+
+    const consent = new URL(consentUrl)
+    consent.searchParams.set('provider', params.provider)
+    // Relative redirects resolve against this server, like a missing one
+    consent.searchParams.set('redirect_to', new URL(params.redirectTo, consent.origin).toString())
+    if (params.scopes) {
+      consent.searchParams.set('scopes', params.scopes)
+    }
+    if (params.linkingTargetId) {
+      consent.searchParams.set('linking_target_id', params.linkingTargetId)
+    }
+
+    if (params.codeChallenge || params.codeChallengeMethod) {
+      if (!params.codeChallenge || !params.codeChallengeMethod) {
+        throw this.createAuthError('PKCE flow requires code_challenge_method and code_challenge', 400, 'validation_failed')
+      }
+      const method = params.codeChallengeMethod.toLowerCase()
+      if (method !== 's256' && method !== 'plain') {
+        throw this.createAuthError(`code challenge method not supported: ${params.codeChallengeMethod}`, 400, 'validation_failed')
+      }
+      if (params.codeChallenge.length < 43 || params.codeChallenge.length > 128) {
+        throw this.createAuthError('code challenge has to be between 43 and 128 characters', 400, 'validation_failed')
+      }
+
+      const flowState = await this.oauthService.createFlowState(params.provider, params.codeChallenge, method)
+      consent.searchParams.set('flow_state_id', flowState.id)
+    }
+
+    return consent.toString()
+  }
+
+  /**
+   * Sign in with the fake account picked on the consent page. PKCE flows
+   * redirect with an auth code, implicit flows with the session in the fragment.
+   */
+  async completeProviderSignIn(consent: ProviderConsent, profile: FakeIdentityProfile): Promise<string> {
+    if (!this.oauthService.getProvider(consent.provider)) {
+      throw this.createAuthError('Unsupported provider: provider is not enabled', 400, 'validation_failed')
+    }
+    if (!Validators.isValidEmail(profile.email)) {
+      throw this.createAuthError('Unable to validate email address: invalid format', 400, 'validation_failed')
+    }
+
+    const identityData = this.oauthService.buildIdentityData(consent.provider, profile)
+    let linkingTarget: User | undefined
+    if (consent.linkingTargetId) {
+      const target = await this.getUserById(consent.linkingTargetId)
+      if (!target) {
+        throw this.createAuthError('User not found', 404, 'user_not_found')
+      }
+      linkingTarget = target
+    }
+    const user = await this.findOrCreateProviderUser(consent.provider, identityData, linkingTarget)
+    this.assertNotBanned(user)
+
+    const providerToken = CryptoUtils.generateRandomString(20)
+    const redirect = new URL(consent.redirectTo)
+
+    if (consent.flowStateId) {
+      const authCode = await this.oauthService.issueAuthCode(consent.flowStateId, user.id, providerToken)
+      if (!authCode) {
+        throw this.createAuthError('invalid flow state, no valid flow state found', 404, 'flow_state_not_found')
+      }
+      redirect.searchParams.set('code', authCode)
+      return redirect.toString()
+    }
+
+    await this.updateLastSignIn(user.id)
+    const session = await this.sessionManager.createSession(user)
+    await this.logAuditEvent('user_signed_in', { user_id: user.id, provider: consent.provider })
+
+    redirect.hash = new URLSearchParams({
+      access_token: session.access_token,
+      expires_at: String(session.expires_at),
+      expires_in: '3600',
+      provider_token: providerToken,
+      refresh_token: session.refresh_token,
+      token_type: 'bearer'
+    }).toString()
+    return redirect.toString()
+  }
+
+  /**
+   * Send the user back without signing in, as when consent is denied
    */
-  private async signInWithProvider(provider: string): Promise<{ user: User; session: Session }> {
-    throw this.createAuthError('OAuth authentication not implemented', 501, 'oauth_not_implemented')
+  async denyProviderSignIn(consent: ProviderConsent): Promise<string> {
+    const error = new URLSearchParams({
+      error: 'access_denied',
+      error_description: 'The user denied the authorization request'
+    })
+    const redirect = new URL(consent.redirectTo)
+
+    // PKCE errors go in the query string, implicit flow errors in the fragment
+    if (consent.flowStateId) {
+      await this.oauthService.deleteFlowState(consent.flowStateId)
+      error.forEach((value, key) => redirect.searchParams.set(key, value))
+    } else {
+      redirect.hash = error.toString()
+    }
+    return redirect.toString()
+  }
+
+  /**
+   * Exchange a PKCE auth code and its code verifier for a session
+   */
+  async exchangeCodeForSession(
+    authCode: string,
+    codeVerifier: string
+  ): Promise<{ user: User; session: Session; providerToken: string | null }> {
+    if (!authCode || !codeVerifier) {
+      throw this.createAuthError('invalid request: both auth code and code verifier should be non-empty', 400, 'validation_failed')
+    }
+
+    const found = await this.oauthService.findFlowStateByAuthCode(authCode)
+    if (!found) {
+      throw this.createAuthError('invalid flow state, no valid flow state found', 404, 'flow_state_not_found')
+    }
+    const { flowState, expired } = found
+    if (expired) {
+      await this.oauthService.deleteFlowState(flowState.id)
+      throw this.createAuthError('invalid flow state, flow state has expired', 400, 'flow_state_expired')
+    }
+    if (!await this.oauthService.verifyCodeChallenge(flowState, codeVerifier)) {
+      throw this.createAuthError('code challenge does not match previously saved code verifier', 400, 'bad_code_verifier')
+    }
+
+    await this.oauthService.deleteFlowState(flowState.id)
+    const user = await this.getUserById(flowState.user_id!)
+    if (!user) {
+      throw this.createAuthError('User not found', 404, 'user_not_found')
+    }
+    this.assertNotBanned(user)
+    user.identities = await this.oauthService.getUserIdentities(user.id)
+
+    await this.updateLastSignIn(user.id)
+    const session = await this.sessionManager.createSession(user)
+    await this.logAuditEvent('user_signed_in', { user_id: user.id, provider: flowState.provider_type })
+
+    return { user, session, providerToken: flowState.provider_access_token }
+  }
+
+  /**
+   * Identities of the signed in user
+   */
+  async getUserIdentities(): Promise<UserIdentity[]> {
+    const currentUser = this.getCurrentUser()
+    if (!currentUser) {
+      throw this.createAuthError('No authenticated user', 401, 'no_user')
+    }
+
+    return this.oauthService.getUserIdentities(currentUser.id)
+  }
+
+  /**
+   * Start an OAuth flow that adds the provider's identity to the signed in user
+   */
+  async linkIdentity(params: ProviderAuthorizeParams, consentUrl: string): Promise<string> {
+    const currentUser = this.getCurrentUser()
+    if (!currentUser) {
+      throw this.createAuthError('No authenticated user', 401, 'no_user')
+    }
+    await this.assertManualLinkingEnabled()
+
+    return this.authorizeProvider({ ...params, linkingTargetId: currentUser.id }, consentUrl)
+  }
+
+  /**
+   * Remove one of the signed in user's identities. The last identity stays,
+   * so the user can still sign in.
+   */
+  async unlinkIdentity(identityId: string): Promise<User> {
+    const currentUser = this.getCurrentUser()
+    if (!currentUser) {
+      throw this.createAuthError('No authenticated user', 401, 'no_user')
+    }
+    await this.assertManualLinkingEnabled()
+
+    const identities = await this.oauthService.getUserIdentities(currentUser.id)
+    if (identities.length <= 1) {
+      throw this.createAuthError('User must have at least 1 identity after unlinking', 422, 'single_identity_not_deletable')
+    }
+    const identity = identities.find(candidate => candidate.identity_id === identityId)
+    if (!identity) {
+      throw this.createAuthError('Identity doesn\'t exist', 404, 'identity_not_found')
+    }
+
+    await this.oauthService.deleteIdentity(identity.identity_id)
+
+    const remaining = identities.filter(candidate => candidate.identity_id !== identityId)
+    const providers = Array.from(new Set(remaining.map(candidate => candidate.provider)))
+    const currentProvider = currentUser.app_metadata.provider as string | undefined
+    const updates: Partial<User> = {
+      app_metadata: {
+        ...currentUser.app_metadata,
+        provider: currentProvider && providers.includes(currentProvider) ? currentProvider : providers[0],
+        providers
+      },
+      updated_at: new Date().toISOString()
+    }
+    await this.updateUserInDB(currentUser.id, updates)
+
+    const updatedUser = await this.sessionManager.updateUser(updates)
+    if (!updatedUser) {
+      throw this.createAuthError('Failed to update user', 500, 'update_failed')
+    }
+    updatedUser.identities = remaining
+
+    await this.logAuditEvent('identity_unlinked', { user_id: currentUser.id, provider: identity.provider })
+
+    return updatedUser
+  }
+
+  private async endSession(session: StoredSession): Promise<void> {
+    await this.sessionService.deleteSession(session.id)
+    await this.forgetCurrentSession(session.id)
+    await this.logAuditEvent('token_revoked', { user_id: session.user_id, session_id: session.id })
+  }
+
+  /**
+   * Sign out locally when the session that ended is the current one
+   */
+  private async forgetCurrentSession(sessionId: string): Promise<void> {
+    if (this.sessionManager.getSession()?.id === sessionId) {
+      await this.sessionManager.signOut('local')
+    }
   }
 
   /**
@@ -552,7 +1439,8 @@ export class AuthManager {
       const phoneConfirmedAt = user.phone_verified ? user.created_at : null
       
       // Store complete HashedPassword object as JSON to preserve algorithm and salt info
-      const passwordData = JSON.stringify(hashedPassword)
+      // Passwordless (OTP and magic link) users have no password at all
+      const passwordData = hashedPassword === null ? null : JSON.stringify(hashedPassword)
       
       // Create user record with password data in standard Supabase location
       await this.dbManager.query(`
@@ -574,6 +1462,11 @@ export class AuthManager {
         JSON.stringify(user.user_metadata),
         user.is_anonymous
       ])
+
+      const provider = user.app_metadata.provider
+      if (provider === 'email' || provider === 'phone') {
+        await this.addCredentialIdentity(user, provider)
+      }
     } catch (error: any) {
       // Transform database constraint violations into user-friendly errors
       if (error?.message && (
@@ -669,61 +1562,404 @@ export class AuthManager {
   }
 
 
-  private async storePasswordResetToken(userId: string, token: string, expiresAt: Date): Promise<void> {
-    // Store password reset token in a temp table or extend users table
-    // For simplicity, we'll extend the audit log to track reset tokens
-    await this.dbManager.query(`
-      INSERT INTO auth.audit_log_entries (id, payload, created_at)
-      VALUES ($1, $2, $3)
-    `, [
-      CryptoUtils.generateUUID(),
-      JSON.stringify({ 
-        event: 'password_reset_token_created',
-        user_id: userId,
-        token: token,
-        expires_at: expiresAt.toISOString()
-      }),
-      new Date().toISOString()
-    ])
+  /**
+   * Find the user an identity belongs to. New identities are linked to the
+   * user being linked to or with the same email, or get a new user with the
+   * provider's claims.
+   */
+  private async findOrCreateProviderUser(
+    provider: string,
+    identityData: Record<string, unknown>,
+    linkingTarget?: User
+  ): Promise<User> {
+    const email = String(identityData.email)
+    const identity = await this.oauthService.findIdentity(provider, String(identityData.sub))
+    if (linkingTarget && identity && identity.user_id !== linkingTarget.id) {
+      throw this.createAuthError('Identity is already linked to another user', 422, 'identity_already_exists')
+    }
+
+    let user = linkingTarget
+      || (identity ? await this.getUserById(identity.user_id) : await this.getUserByEmail(email))
+
+    if (!user) {
+      const now = new Date().toISOString()
+      user = {
+        id: CryptoUtils.generateUUID(),
+        email,
+        email_verified: true,
+        phone_verified: false,
+        created_at: now,
+        updated_at: now,
+        role: 'authenticated',
+        app_metadata: { provider, providers: [provider] },
+        user_metadata: identityData,
+        is_anonymous: false
+      }
+      await this.createUserInDB(user, null)
+      await this.logAuditEvent('user_signed_up', { user_id: user.id, email, provider })
+    } else if (!identity) {
+      const updates = this.convertAnonymousUser(user, provider)
+      if (!updates.app_metadata) {
+        const providers = new Set<string>([...(user.app_metadata.providers || []), provider])
+        updates.app_metadata = { ...user.app_metadata, providers: Array.from(providers) }
+      }
+      Object.assign(user, updates)
+      await this.updateUserInDB(user.id, updates)
+    }
+
+    await this.oauthService.upsertIdentity(user.id, provider, identityData)
+    user.identities = await this.oauthService.getUserIdentities(user.id)
+    return user
   }
 
-  private async validatePasswordResetToken(token: string): Promise<string | null> {
-    try {
-      const result = await this.dbManager.query(`
-        SELECT payload
-        FROM auth.audit_log_entries
-        WHERE payload->>'event' = 'password_reset_token_created'
-        AND payload->>'token' = $1
-        AND (payload->>'expires_at')::timestamp > NOW()
-        ORDER BY created_at DESC
-        LIMIT 1
-      `, [token])
-
-      if (result.rows.length === 0) {
-        return null
+  /**
+   * Create an unconfirmed email user, e.g. for OTP sign in or generated links
+   */
+  private async createEmailUser(email: string, data: Record<string, unknown>, hashedPassword: unknown): Promise<User> {
+    const now = new Date().toISOString()
+    const user: User = {
+      id: CryptoUtils.generateUUID(),
+      email,
+      email_verified: false,
+      phone_verified: false,
+      created_at: now,
+      updated_at: now,
+      role: 'authenticated',
+      app_metadata: { provider: 'email', providers: ['email'] },
+      user_metadata: Validators.sanitizeUserMetadata(data),
+      is_anonymous: false
+    }
+    await this.createUserInDB(user, hashedPassword)
+    await this.logAuditEvent('user_signed_up', { user_id: user.id, email })
+    return user
+  }
+
+  private async createPhoneUser(phone: string, data: Record<string, unknown>): Promise<User> {
+    const now = new Date().toISOString()
+    const user: User = {
+      id: CryptoUtils.generateUUID(),
+      phone,
+      email_verified: false,
+      phone_verified: false,
+      created_at: now,
+      updated_at: now,
+      role: 'authenticated',
+      app_metadata: { provider: 'phone', providers: ['phone'] },
+      user_metadata: Validators.sanitizeUserMetadata(data),
+      is_anonymous: false
+    }
+    await this.createUserInDB(user, null)
+    await this.logAuditEvent('user_signed_up', { user_id: user.id, phone })
+    return user
+  }
+
+  private async prepareInvitedUser(email: string, data: Record<string, unknown>): Promise<User> {
+    if (!Validators.isValidEmail(email)) {
+      throw this.createAuthError('Unable to validate email address: invalid format', 400, 'validation_failed')
+    }
+
+    const existing = await this.getUserByEmail(email)
+    if (existing?.email_verified) {
+      throw this.createAuthError('A user with this email address has already been registered', 422, 'email_exists')
+    }
+
+    const user = existing || await this.createEmailUser(email, data, null)
+    const invitedAt = new Date().toISOString()
+    await this.updateUserInDB(user.id, { invited_at: invitedAt })
+    return { ...user, invited_at: invitedAt }
+  }
+
+  private async assertAvailableIdentifiers(attributes: AdminUserAttributes, current?: User): Promise<void> {
+    const { email, phone } = attributes
+
+    if (email !== undefined && email !== current?.email) {
+      if (!Validators.isValidEmail(email)) {
+        throw this.createAuthError('Unable to validate email address: invalid format', 400, 'validation_failed')
+      }
+      if (await this.getUserByEmail(email)) {
+        throw this.createAuthError('A user with this email address has already been registered', 422, 'email_exists')
       }
+    }
 
-      const payload = JSON.parse(result.rows[0].payload)
-      return payload.user_id
-    } catch (error) {
-      console.error('Error validating password reset token:', error)
+    if (phone !== undefined && phone !== current?.phone) {
+      if (!Validators.isValidPhone(phone)) {
+        throw this.createAuthError('Invalid phone number format (E.164 required)', 400, 'validation_failed')
+      }
+      if (await this.getUserByPhone(phone)) {
+        throw this.createAuthError('A user with this phone number has already been registered', 422, 'phone_exists')
+      }
+    }
+  }
+
+  /**
+   * Updates that make an anonymous user permanent once an email, phone or
+   * identity is attached. Empty for users that are not anonymous.
+   */
+  private convertAnonymousUser(user: User, provider: string): Partial<User> {
+    if (!user.is_anonymous) {
+      return {}
+    }
+
+    return {
+      is_anonymous: false,
+      app_metadata: { ...user.app_metadata, provider, providers: [provider] }
+    }
+  }
+
+  private async addCredentialIdentity(user: User, provider: 'email' | 'phone'): Promise<void> {
+    await this.oauthService.createCredentialIdentity(user.id, provider, provider === 'email'
+      ? { email: user.email, email_verified: user.email_verified, phone_verified: false }
+      : { phone: user.phone, email_verified: false, phone_verified: user.phone_verified })
+  }
+
+  private assertPasswordLength(password: string): void {
+    if (password.length < this.config.passwordMinLength) {
+      throw this.createAuthError(
+        `Password should be at least ${this.config.passwordMinLength} characters.`,
+        422,
+        'weak_password'
+      )
+    }
+  }
+
+  private async assertManualLinkingEnabled(): Promise<void> {
+    const settings = await this.authSettings.getSettings()
+    if (!settings.manual_linking_enabled) {
+      throw this.createAuthError('Manual linking is disabled', 404, 'manual_linking_disabled')
+    }
+  }
+
+  private assertNotBanned(user: User): void {
+    if (user.banned_until && new Date(user.banned_until).getTime() > Date.now()) {
+      throw this.createAuthError('User is banned', 400, 'user_banned')
+    }
+  }
+
+  /**
+   * Turn a ban_duration into the banned_until timestamp ("none" lifts the ban)
+   */
+  private resolveBanDuration(banDuration: string): string | null {
+    if (banDuration === 'none') {
       return null
     }
+
+    const duration = parseDuration(banDuration)
+    if (duration === null) {
+      throw this.createAuthError(`invalid format for ban duration: ${banDuration}`, 400, 'validation_failed')
+    }
+    return new Date(Date.now() + duration).toISOString()
   }
 
-  private async deletePasswordResetToken(token: string): Promise<void> {
-    // Mark token as used by adding a deletion event
-    await this.dbManager.query(`
-      INSERT INTO auth.audit_log_entries (id, payload, created_at)
-      VALUES ($1, $2, $3)
-    `, [
-      CryptoUtils.generateUUID(),
-      JSON.stringify({ 
-        event: 'password_reset_token_used',
-        token: token
-      }),
-      new Date().toISOString()
-    ])
+  private mergeMetadata(current: Record<string, unknown>, changes: Record<string, unknown>): Record<string, unknown> {
+    const merged = { ...current }
+    for (const [key, value] of Object.entries(changes)) {
+      if (value === null) {
+        delete merged[key]
+      } else {
+        merged[key] = value
+      }
+    }
+    return merged
+  }
+
+  /**
+   * Store a fresh OTP for the user and return it with its token_hash
+   */
+  private async issueEmailToken(
+    user: User,
+    kind: EmailTokenKind,
+    newEmail?: string
+  ): Promise<{ token: string; tokenHash: string }> {
+    const recipient = kind === 'email_change_new' ? newEmail! : user.email!
+    const token = CryptoUtils.generateOTP()
+    const tokenHash = await CryptoUtils.generateTokenHash(recipient, token)
+    const columns = EMAIL_TOKEN_COLUMNS[kind]
+    const sentAt = new Date().toISOString()
+
+    if (newEmail) {
+      await this.dbManager.query(
+        `UPDATE auth.users SET ${columns.token} = $1, ${columns.sentAt} = $2, email_change = $3 WHERE id = $4`,
+        [tokenHash, sentAt, newEmail, user.id]
+      )
+    } else {
+      await this.dbManager.query(
+        `UPDATE auth.users SET ${columns.token} = $1, ${columns.sentAt} = $2 WHERE id = $3`,
+        [tokenHash, sentAt, user.id]
+      )
+    }
+
+    return { token, tokenHash }
+  }
+
+  /**
+   * Issue a token for the email and drop the rendered email into the inbox
+   */
+  private async sendAuthEmail(
+    user: User,
+    template: EmailTemplateType,
+    links?: EmailLinkOptions,
+    newEmail?: string
+  ): Promise<void> {
+    const recipient = newEmail || user.email!
+    // Invites come from admins, who are not rate limited
+    if (template !== 'invite') {
+      await this.rateLimits.limitMessage('email', recipient)
+    }
+
+    const { token, tokenHash } = await this.issueEmailToken(user, TEMPLATE_TOKEN_KINDS[template], newEmail)
+
+    await this.emailService.send({
+      template,
+      recipient,
+      // Anonymous users have no current address to show
+      email: user.email || newEmail!,
+      newEmail,
+      token,
+      tokenHash,
+      data: user.user_metadata,
+      links
+    })
+  }
+
+  /**
+   * Find the user holding an unexpired token, clear it and apply what it
+   * confirms. Returns null when no kind of token matches.
+   */
+  private async consumeEmailToken(kinds: EmailTokenKind[], tokenHash: string): Promise<User | null> {
+    for (const kind of kinds) {
+      const columns = EMAIL_TOKEN_COLUMNS[kind]
+      const result = await this.dbManager.query(
+        `SELECT * FROM auth.users WHERE ${columns.token} = $1 LIMIT 1`,
+        [tokenHash]
+      )
+      const row = result.rows[0] as Record<string, unknown> | undefined
+      if (!row) {
+        continue
+      }
+
+      const sentAt = row[columns.sentAt] ? new Date(row[columns.sentAt] as string).getTime() : 0
+      if (Date.now() - sentAt > this.config.emailOtpExpirySeconds * 1000) {
+        return null
+      }
+
+      const now = new Date().toISOString()
+      if (kind === 'email_change_new' || kind === 'email_change_current') {
+        await this.dbManager.query(`
+          UPDATE auth.users
+          SET email = email_change, email_change = '', email_change_token_new = '', email_change_token_current = '',
+              email_confirmed_at = $1, updated_at = $1
+          WHERE id = $2
+        `, [now, row.id])
+        row.email = row.email_change
+
+        const converted = this.convertAnonymousUser(this.mapDBUserToUser(row), 'email')
+        if (converted.app_metadata) {
+          await this.updateUserInDB(String(row.id), converted)
+          row.is_anonymous = false
+          row.raw_app_meta_data = converted.app_metadata
+          await this.addCredentialIdentity({ ...this.mapDBUserToUser(row), email_verified: true }, 'email')
+        }
+      } else {
+        // Opening an emailed link proves ownership of the address
+        await this.dbManager.query(`
+          UPDATE auth.users
+          SET ${columns.token} = '', email_confirmed_at = COALESCE(email_confirmed_at, $1), updated_at = $1
+          WHERE id = $2
+        `, [now, row.id])
+      }
+
+      row.email_confirmed_at = row.email_confirmed_at || now
+      row.updated_at = now
+      return this.mapDBUserToUser(row)
+    }
+
+    return null
+  }
+
+  /**
+   * Store a fresh OTP for the user and text it to the outbox. Phone
+   * changes send it to the new number.
+   */
+  private async sendAuthSms(user: User, kind: PhoneTokenKind, newPhone?: string): Promise<SmsMessage> {
+    const recipient = newPhone || user.phone!
+    await this.rateLimits.limitMessage('sms', recipient)
+
+    const token = CryptoUtils.generateOTP()
+    const tokenHash = await CryptoUtils.generateTokenHash(recipient, token)
+    const columns = PHONE_TOKEN_COLUMNS[kind]
+    const sentAt = new Date().toISOString()
+
+    if (newPhone) {
+      await this.dbManager.query(
+        `UPDATE auth.users SET ${columns.token} = $1, ${columns.sentAt} = $2, phone_change = $3 WHERE id = $4`,
+        [tokenHash, sentAt, newPhone, user.id]
+      )
+    } else {
+      await this.dbManager.query(
+        `UPDATE auth.users SET ${columns.token} = $1, ${columns.sentAt} = $2 WHERE id = $3`,
+        [tokenHash, sentAt, user.id]
+      )
+    }
+
+    return this.smsService.send({
+      recipient,
+      type: kind === 'phone_change' ? 'phone_change' : 'sms',
+      token
+    })
+  }
+
+  /**
+   * Phone counterpart of consumeEmailToken
+   */
+  private async consumePhoneToken(kinds: PhoneTokenKind[], tokenHash: string): Promise<User | null> {
+    for (const kind of kinds) {
+      const columns = PHONE_TOKEN_COLUMNS[kind]
+      const result = await this.dbManager.query(
+        `SELECT * FROM auth.users WHERE ${columns.token} = $1 LIMIT 1`,
+        [tokenHash]
+      )
+      const row = result.rows[0] as Record<string, unknown> | undefined
+      if (!row) {
+        continue
+      }
+
+      const sentAt = row[columns.sentAt] ? new Date(row[columns.sentAt] as string).getTime() : 0
+      if (Date.now() - sentAt > this.config.smsOtpExpirySeconds * 1000) {
+        return null
+      }
+
+      const now = new Date().toISOString()
+      if (kind === 'phone_change') {
+        await this.dbManager.query(`
+          UPDATE auth.users
+          SET phone = phone_change, phone_change = '', phone_change_token = '', phone_confirmed_at = $1, updated_at = $1
+          WHERE id = $2
+        `, [now, row.id])
+        row.phone = row.phone_change
+        row.phone_confirmed_at = now
+
+        const converted = this.convertAnonymousUser(this.mapDBUserToUser(row), 'phone')
+        if (converted.app_metadata) {
+          await this.updateUserInDB(String(row.id), converted)
+          row.is_anonymous = false
+          row.raw_app_meta_data = converted.app_metadata
+          await this.addCredentialIdentity(this.mapDBUserToUser(row), 'phone')
+        }
+      } else {
+        // Entering the texted code proves ownership of the number
+        await this.dbManager.query(`
+          UPDATE auth.users
+          SET ${columns.token} = '', phone_confirmed_at = COALESCE(phone_confirmed_at, $1), updated_at = $1
+          WHERE id = $2
+        `, [now, row.id])
+      }
+
+      row.phone_confirmed_at = row.phone_confirmed_at || now
+      row.updated_at = now
+      return this.mapDBUserToUser(row)
+    }
+
+    return null
   }
 
   private async logAuditEvent(event: string, payload: unknown): Promise<void> {
@@ -762,6 +1998,10 @@ export class AuthManager {
       // Convert Supabase timestamp fields to boolean
       email_verified: !!dbUser.email_confirmed_at,
       phone_verified: !!dbUser.phone_confirmed_at,
+      email_confirmed_at: dbUser.email_confirmed_at || undefined,
+      phone_confirmed_at: dbUser.phone_confirmed_at || undefined,
+      invited_at: dbUser.invited_at || undefined,
+      banned_until: dbUser.banned_until || undefined,
       created_at: dbUser.created_at,
       updated_at: dbUser.updated_at,
       last_sign_in_at: dbUser.last_sign_in_at,
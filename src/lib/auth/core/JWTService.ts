@@ -1,8 +1,13 @@
-import { SignJWT, jwtVerify, importJWK, exportJWK } from 'jose'
-import type { JWTPayload, JWTHeader, JWTSigningKey, JWKS, TokenPair } from '../types/jwt.types'
+import { SignJWT, jwtVerify, importJWK, decodeProtectedHeader } from 'jose'
+import type { JWK } from 'jose'
+import type { JWTPayload, JWTSigningKey, JWKS, TokenPair } from '../types/jwt.types'
 import type { User, Session } from '../types/auth.types'
+import type { JWTKeyService, JWTSigningAlgorithm, StoredSigningKey } from '../services/JWTKeyService'
 import { CryptoUtils } from '../utils/crypto'
 
+/** Issuer of the anon and service_role API keys */
+const API_KEY_ISSUER = 'supabase-lite'
+
 export interface JWTConfig {
   issuer: string
   projectRef: string
@@ -10,12 +15,21 @@ export interface JWTConfig {
   refreshTokenExpirySeconds: number
 }
 
+/**
+ * Rewrites the claims of an access token before it is signed
+ */
+export type AccessTokenClaimsHook = (claims: JWTPayload, authenticationMethod: string) => Promise<JWTPayload>
+
 export class JWTService {
   private static instance: JWTService
   private keyPair: CryptoKeyPair | null = null
   private publicKeyJWK: JWTSigningKey | null = null
   private kid: string
+  private algorithm: JWTSigningAlgorithm = 'ES256'
   private config: JWTConfig
+  private claimsHook: AccessTokenClaimsHook | null = null
+  private keyStore: JWTKeyService | null = null
+  private importedKeys = new Map<string, CryptoKey | Uint8Array>()
 
   constructor(config?: Partial<JWTConfig>) {
     this.config = {
@@ -36,10 +50,14 @@ export class JWTService {
   }
 
   /**
-   * Initialize the JWT service with ES256 key pair
+   * Initialize the JWT service with ES256 key pair. It is only used until
+   * a key store is set, here or through setKeyStore.
    */
-  async initialize(): Promise<void> {
-    if (!this.keyPair) {
+  async initialize(keyStore?: JWTKeyService): Promise<void> {
+    if (keyStore) {
+      this.setKeyStore(keyStore)
+    }
+    if (!this.keyStore && !this.keyPair) {
       this.keyPair = await CryptoUtils.generateES256KeyPair()
       this.publicKeyJWK = await this.createPublicKeyJWK()
     }
@@ -66,10 +84,23 @@ export class JWTService {
     }
   }
 
+  /**
+   * Sign with the project's persisted keys instead of the key pair
+   * generated at startup
+   */
+  setKeyStore(keyStore: JWTKeyService | null): void {
+    this.keyStore = keyStore
+    this.importedKeys.clear()
+  }
+
   /**
    * Get JWKS (JSON Web Key Set) for public key discovery
    */
   async getJWKS(): Promise<JWKS> {
+    if (this.keyStore) {
+      return this.keyStore.getJWKS()
+    }
+
     await this.initialize()
     
     if (!this.publicKeyJWK) {
@@ -81,16 +112,17 @@ export class JWTService {
     }
   }
 
+  /**
+   * Install the hook access tokens pass through, or remove it with null
+   */
+  setAccessTokenClaimsHook(hook: AccessTokenClaimsHook | null): void {
+    this.claimsHook = hook
+  }
+
   /**
    * Create access token for user
    */
   async createAccessToken(user: User, session: Session, aal: 'aal1' | 'aal2' = 'aal1'): Promise<string> {
-    await this.initialize()
-
-    if (!this.keyPair) {
-      throw new Error('Key pair not initialized')
-    }
-
     const now = Math.floor(Date.now() / 1000)
     
     const payload: JWTPayload = {
@@ -110,80 +142,49 @@ export class JWTService {
       user_metadata: user.user_metadata || {},
       amr: [
         {
-          method: 'password',
+          method: user.is_anonymous ? 'anonymous' : 'password',
           timestamp: now
         }
       ]
     }
 
-    const jwt = new SignJWT(payload as Record<string, any>)
-      .setProtectedHeader({
-        alg: 'ES256',
-        typ: 'JWT',
-        kid: this.kid
-      })
+    const claims = this.claimsHook ? await this.claimsHook(payload, payload.amr![0].method) : payload
 
-    return await jwt.sign(this.keyPair.privateKey)
+    return this.sign(claims)
   }
 
   /**
    * Create anonymous access token
    */
   async createAnonymousToken(): Promise<string> {
-    await this.initialize()
-
-    if (!this.keyPair) {
-      throw new Error('Key pair not initialized')
-    }
-
     const now = Math.floor(Date.now() / 1000)
     
     const payload: Partial<JWTPayload> = {
-      iss: 'supabase-lite',
+      iss: API_KEY_ISSUER,
       ref: this.config.projectRef,
       role: 'anon',
       iat: now,
       exp: now + (10 * 365 * 24 * 60 * 60) // 10 years
     }
 
-    const jwt = new SignJWT(payload as Record<string, any>)
-      .setProtectedHeader({
-        alg: 'ES256',
-        typ: 'JWT',
-        kid: this.kid
-      })
-
-    return await jwt.sign(this.keyPair.privateKey)
+    return this.sign(payload)
   }
 
   /**
    * Create service role token
    */
   async createServiceRoleToken(): Promise<string> {
-    await this.initialize()
-
-    if (!this.keyPair) {
-      throw new Error('Key pair not initialized')
-    }
-
     const now = Math.floor(Date.now() / 1000)
     
     const payload: Partial<JWTPayload> = {
-      iss: 'supabase-lite',
+      iss: API_KEY_ISSUER,
       ref: this.config.projectRef,
       role: 'service_role',
       iat: now,
       exp: now + (10 * 365 * 24 * 60 * 60) // 10 years
     }
 
-    const jwt = new SignJWT(payload as Record<string, any>)
-      .setProtectedHeader({
-        alg: 'ES256',
-        typ: 'JWT',
-        kid: this.kid
-      })
-
-    return await jwt.sign(this.keyPair.privateKey)
+    return this.sign(payload)
   }
 
   /**
@@ -211,22 +212,48 @@ export class JWTService {
   }
 
   /**
-   * Verify and decode JWT token
+   * Verify and decode JWT token. Tokens signed with a shared secret may be
+   * minted by the project's own backend, so their issuer is not checked.
    */
   async verifyToken(token: string): Promise<JWTPayload> {
-    await this.initialize()
+    try {
+      if (!this.keyStore) {
+        await this.initialize()
+        if (!this.keyPair) {
+          throw new Error('Key pair not initialized')
+        }
 
-    if (!this.keyPair) {
-      throw new Error('Key pair not initialized')
-    }
+        const { payload } = await jwtVerify(token, this.keyPair.publicKey, {
+          issuer: [this.config.issuer, API_KEY_ISSUER],
+          algorithms: ['ES256']
+        })
+        return payload as JWTPayload
+      }
 
-    try {
-      const { payload } = await jwtVerify(token, this.keyPair.publicKey, {
-        issuer: this.config.issuer,
-        algorithms: ['ES256']
-      })
+      // Tokens name their key by kid. HS256 tokens minted elsewhere often
+      // have none, so those are tried against every shared secret.
+      const { kid } = decodeProtectedHeader(token)
+      const keys = await this.keyStore.getVerificationKeys()
+      const candidates = kid
+        ? keys.filter(key => key.id === kid)
+        : keys.filter(key => key.algorithm === 'HS256')
+      if (candidates.length === 0) {
+        throw new Error(kid ? `no signing key with kid ${kid}` : 'no key to verify tokens without a kid')
+      }
 
-      return payload as JWTPayload
+      let lastError: unknown
+      for (const candidate of candidates) {
+        try {
+          const { payload } = await jwtVerify(token, await this.importKey(candidate, 'public'), {
+            issuer: candidate.algorithm === 'HS256' ? undefined : [this.config.issuer, API_KEY_ISSUER],
+            algorithms: [candidate.algorithm]
+          })
+          return payload as JWTPayload
+        } catch (error) {
+          lastError = error
+        }
+      }
+      throw lastError
     } catch (error) {
       throw new Error(`Invalid token: ${error instanceof Error ? error.message : 'Unknown error'}`)
     }
@@ -288,31 +315,13 @@ export class JWTService {
       iat: Math.floor(Date.now() / 1000) // Update issued at time
     }
 
-    await this.initialize()
-    if (!this.keyPair) {
-      throw new Error('Key pair not initialized')
-    }
-
-    const jwt = new SignJWT(updatedPayload)
-      .setProtectedHeader({
-        alg: 'ES256',
-        typ: 'JWT',
-        kid: this.kid
-      })
-
-    return await jwt.sign(this.keyPair.privateKey)
+    return this.sign(updatedPayload)
   }
 
   /**
    * Create MFA challenge token (short-lived, single use)
    */
   async createMFAChallengeToken(factorId: string, userId: string): Promise<string> {
-    await this.initialize()
-
-    if (!this.keyPair) {
-      throw new Error('Key pair not initialized')
-    }
-
     const now = Math.floor(Date.now() / 1000)
     
     const payload = {
@@ -326,14 +335,45 @@ export class JWTService {
       challenge_type: 'mfa'
     }
 
-    const jwt = new SignJWT(payload as Record<string, any>)
+    return this.sign(payload)
+  }
+
+  /**
+   * Sign with the key in use and name it in the kid header
+   */
+  private async sign(payload: Record<string, any>): Promise<string> {
+    let key: CryptoKey | Uint8Array
+    if (this.keyStore) {
+      const stored = await this.keyStore.getCurrentKey()
+      key = await this.importKey(stored, 'private')
+      this.kid = stored.id
+      this.algorithm = stored.algorithm
+    } else {
+      await this.initialize()
+      if (!this.keyPair) {
+        throw new Error('Key pair not initialized')
+      }
+      key = this.keyPair.privateKey
+    }
+
+    return await new SignJWT(payload)
       .setProtectedHeader({
-        alg: 'ES256',
+        alg: this.algorithm,
         typ: 'JWT',
         kid: this.kid
       })
+      .sign(key)
+  }
 
-    return await jwt.sign(this.keyPair.privateKey)
+  private async importKey(stored: StoredSigningKey, use: 'private' | 'public'): Promise<CryptoKey | Uint8Array> {
+    const cacheKey = `${stored.id}:${use}`
+    let key = this.importedKeys.get(cacheKey)
+    if (!key) {
+      const jwk = use === 'public' && stored.public_jwk ? stored.public_jwk : stored.private_jwk
+      key = await importJWK(jwk as JWK, stored.algorithm)
+      this.importedKeys.set(cacheKey, key)
+    }
+    return key
   }
 
   /**
@@ -357,14 +397,14 @@ export class JWTService {
   }
 
   /**
-   * Get signing algorithm
+   * Get signing algorithm of the last signed token
    */
   getSigningAlgorithm(): string {
-    return 'ES256'
+    return this.algorithm
   }
 
   /**
-   * Get key ID
+   * Get key ID of the last signed token
    */
   getKeyId(): string {
     return this.kid
@@ -374,26 +414,18 @@ export class JWTService {
    * Generate custom JWT token with provided payload
    */
   async generateCustomToken(payload: Record<string, any>): Promise<string> {
-    await this.initialize()
-
-    if (!this.keyPair) {
-      throw new Error('Key pair not initialized')
-    }
-
-    const jwt = new SignJWT(payload)
-      .setProtectedHeader({
-        alg: 'ES256',
-        typ: 'JWT',
-        kid: this.kid
-      })
-
-    return await jwt.sign(this.keyPair.privateKey)
+    return this.sign(payload)
   }
 
   /**
    * Rotate signing key (for security purposes)
    */
   async rotateSigningKey(): Promise<void> {
+    if (this.keyStore) {
+      await this.keyStore.rotate()
+      return
+    }
+
     this.keyPair = await CryptoUtils.generateES256KeyPair()
     this.kid = CryptoUtils.generateUUID()
     this.publicKeyJWK = await this.createPublicKeyJWK()
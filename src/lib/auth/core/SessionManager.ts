@@ -1,11 +1,12 @@
-import type { Session, RefreshToken, User, AuthChangeEvent, AuthEventListener } from '../types/auth.types'
+import type { Session, RefreshToken, User, AuthChangeEvent, AuthEventListener, SignOutScope } from '../types/auth.types'
 import type { TokenPair } from '../types/jwt.types'
 import { AuthStorage, CrossTabSync } from '../utils/storage'
 import { CryptoUtils } from '../utils/crypto'
 import { JWTService } from './JWTService'
+import { SessionService } from '../services/SessionService'
+import type { StoredRefreshToken } from '../services/SessionService'
 
 export interface SessionConfig {
-  autoRefreshToken: boolean
   persistSession: boolean
   refreshThresholdSeconds: number
   maxRetryAttempts: number
@@ -16,15 +17,14 @@ export class SessionManager {
   private storage: AuthStorage
   private crossTabSync: CrossTabSync
   private jwtService: JWTService
+  private sessionService: SessionService
   private currentSession: Session | null = null
   private currentUser: User | null = null
-  private refreshTimer: NodeJS.Timeout | null = null
   private listeners: Set<AuthEventListener> = new Set()
   private config: SessionConfig
 
   constructor(config?: Partial<SessionConfig>) {
     this.config = {
-      autoRefreshToken: true,
       persistSession: true,
       refreshThresholdSeconds: 300, // Refresh 5 minutes before expiry
       maxRetryAttempts: 3,
@@ -34,6 +34,7 @@ export class SessionManager {
     this.storage = AuthStorage.getInstance()
     this.crossTabSync = CrossTabSync.getInstance()
     this.jwtService = JWTService.getInstance()
+    this.sessionService = SessionService.getInstance()
 
     this.setupCrossTabSync()
   }
@@ -92,6 +93,7 @@ export class SessionManager {
     session.access_token = tokenPair.access_token
     session.refresh_token = tokenPair.refresh_token
 
+    await this.sessionService.createSession(sessionId, user.id, aal, tokenPair.refresh_token)
     await this.setSession(session, user)
     
     this.notifyListeners({
@@ -123,11 +125,6 @@ export class SessionManager {
       await this.storage.storeCurrentUser(session.user_id)
     }
 
-    // Set up auto-refresh
-    if (this.config.autoRefreshToken) {
-      this.setupAutoRefresh()
-    }
-
     // Broadcast session change to other tabs
     this.crossTabSync.broadcast('session_changed', {
       session,
@@ -157,42 +154,57 @@ export class SessionManager {
   }
 
   /**
-   * Refresh session tokens
+   * Issue new tokens for a stored session in exchange for one of its
+   * refresh tokens, which the caller has already revoked. Refreshing is
+   * always driven by the client holding the token; rotating it here on a
+   * timer would make the client's next refresh look like reuse.
    */
-  async refreshSession(refreshToken?: string): Promise<Session | null> {
-    const token = refreshToken || this.currentSession?.refresh_token
-
-    if (!token) {
-      throw new Error('No refresh token available')
+  async refreshSession(user: User, previous: StoredRefreshToken): Promise<Session> {
+    const now = new Date().toISOString()
+    const session: Session = {
+      id: previous.session_id,
+      user_id: user.id,
+      access_token: '',
+      refresh_token: '',
+      expires_at: Math.floor(Date.now() / 1000) + 3600,
+      created_at: this.currentSession?.id === previous.session_id ? this.currentSession.created_at : now,
+      updated_at: now
     }
 
-    if (!this.currentUser) {
-      throw new Error('No current user available')
-    }
+    const tokenPair = await this.jwtService.createTokenPair(user, session, previous.aal)
+    session.access_token = tokenPair.access_token
+    session.refresh_token = tokenPair.refresh_token
 
-    try {
-      // Create new session with fresh tokens
-      const newSession = await this.createSession(this.currentUser)
+    await this.sessionService.addRefreshToken(session.id, user.id, tokenPair.refresh_token, previous.token)
+    await this.setSession(session, user)
 
-      this.notifyListeners({
-        event: 'TOKEN_REFRESHED',
-        session: newSession
-      })
+    this.notifyListeners({
+      event: 'TOKEN_REFRESHED',
+      session
+    })
 
-      return newSession
-    } catch (error) {
-      console.error('Token refresh failed:', error)
-      await this.clearSession()
-      throw error
-    }
+    return session
   }
 
   /**
-   * Sign out user
+   * Sign out user. 'local' ends the current session, 'others' every other
+   * session of the user and 'global' all of them.
    */
-  async signOut(scope: 'local' | 'global' = 'local'): Promise<void> {
+  async signOut(scope: SignOutScope = 'local'): Promise<void> {
     const session = this.currentSession
 
+    if (session) {
+      if (scope === 'local') {
+        await this.sessionService.deleteSession(session.id)
+      } else {
+        await this.sessionService.deleteUserSessions(session.user_id, scope === 'others' ? session.id : undefined)
+      }
+    }
+
+    if (scope === 'others') {
+      return
+    }
+
     // Clear local session
     await this.clearSession()
 
@@ -211,11 +223,6 @@ export class SessionManager {
    * Clear current session
    */
   async clearSession(): Promise<void> {
-    if (this.refreshTimer) {
-      clearTimeout(this.refreshTimer)
-      this.refreshTimer = null
-    }
-
     const userId = this.currentSession?.user_id
 
     this.currentSession = null
@@ -307,7 +314,7 @@ export class SessionManager {
   }
 
   /**
-   * Force refresh session if needed
+   * Drop the current session once it has expired
    */
   async ensureValidSession(): Promise<Session | null> {
     if (!this.currentSession) {
@@ -321,46 +328,9 @@ export class SessionManager {
       return null
     }
 
-    if (info.needsRefresh) {
-      return await this.refreshSession()
-    }
-
     return this.currentSession
   }
 
-  /**
-   * Set up automatic token refresh
-   */
-  private setupAutoRefresh(): void {
-    if (this.refreshTimer) {
-      clearTimeout(this.refreshTimer)
-    }
-
-    if (!this.currentSession) {
-      return
-    }
-
-    const info = this.getSessionInfo()
-    if (!info.timeUntilExpiry || info.timeUntilExpiry <= 0) {
-      return
-    }
-
-    // Schedule refresh 5 minutes before expiry
-    const refreshIn = Math.max(
-      (info.timeUntilExpiry - this.config.refreshThresholdSeconds) * 1000,
-      60000 // Minimum 1 minute
-    )
-
-    this.refreshTimer = setTimeout(async () => {
-      try {
-        await this.refreshSession()
-      } catch (error) {
-        console.error('Auto refresh failed:', error)
-        await this.clearSession()
-      }
-    }, refreshIn)
-  }
-
   /**
    * Set up cross-tab synchronization
    */
@@ -440,9 +410,6 @@ export class SessionManager {
    * Cleanup resources
    */
   destroy(): void {
-    if (this.refreshTimer) {
-      clearTimeout(this.refreshTimer)
-    }
     this.listeners.clear()
     this.crossTabSync.close()
   }
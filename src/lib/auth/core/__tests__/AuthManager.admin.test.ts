@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { AuthManager } from '../AuthManager'
+import { OAuthService } from '../../services/OAuthService'
+import { CryptoUtils } from '../../utils/crypto'
+import { createUsersDbManager } from '../../../../test/helpers'
+
+vi.mock('../../../database/connection', () => ({
+  DatabaseManager: {
+    getInstance: vi.fn(() => ({
+      query: vi.fn(),
+      exec: vi.fn(),
+      isConnected: vi.fn(() => true),
+      initialize: vi.fn()
+    }))
+  }
+}))
+
+describe('AuthManager admin API', () => {
+  let authManager: AuthManager
+  let dbManager: ReturnType<typeof createUsersDbManager>
+
+  const setup = (rows: Record<string, unknown>[] = []) => {
+    dbManager = createUsersDbManager(rows)
+    authManager = Object.assign(new AuthManager(), {
+      dbManager,
+      oauthService: Object.assign(new OAuthService(), { dbManager }),
+      passwordService: { hashPassword: vi.fn(async () => ({ hash: 'hash', salt: 'salt', algorithm: 'PBKDF2' })) }
+    })
+  }
+
+  beforeEach(() => {
+    vi.spyOn(CryptoUtils, 'generateUUID').mockReturnValue('user-1')
+    vi.spyOn(CryptoUtils, 'generateOTP').mockReturnValue('123456')
+    vi.spyOn(CryptoUtils, 'generateTokenHash').mockImplementation(async (email, otp) => `hash:${email}:${otp}`)
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should create confirmed users with app_metadata and a ban', async () => {
+    setup()
+    const user = await authManager.adminCreateUser({
+      email: 'ada@example.com',
+      email_confirm: true,
+      app_metadata: { plan: 'pro' },
+      ban_duration: '24h'
+    })
+
+    expect(user.email_verified).toBe(true)
+    expect(user.app_metadata).toEqual({ provider: 'email', providers: ['email'], plan: 'pro' })
+    expect(new Date(user.banned_until!).getTime()).toBeGreaterThan(Date.now() + 23 * 60 * 60 * 1000)
+    expect(dbManager.rows[0].encrypted_password).toBeNull()
+  })
+
+  it('should reject duplicate emails and malformed ban durations', async () => {
+    setup([{ id: 'user-0', email: 'ada@example.com' }])
+
+    await expect(authManager.adminCreateUser({ email: 'ada@example.com' }))
+      .rejects.toMatchObject({ status: 422, code: 'email_exists' })
+    await expect(authManager.adminCreateUser({ email: 'bob@example.com', ban_duration: '1 day' }))
+      .rejects.toMatchObject({ status: 400, code: 'validation_failed', message: 'invalid format for ban duration: 1 day' })
+  })
+
+  it('should merge metadata and lift bans on update', async () => {
+    setup([{
+      id: 'user-1',
+      email: 'ada@example.com',
+      banned_until: '2999-01-01T00:00:00Z',
+      raw_user_meta_data: { name: 'Ada', theme: 'dark' },
+      raw_app_meta_data: { provider: 'email' }
+    }])
+
+    const user = await authManager.adminUpdateUser('user-1', {
+      user_metadata: { theme: null, locale: 'en' },
+      ban_duration: 'none'
+    })
+
+    expect(user.user_metadata).toEqual({ name: 'Ada', locale: 'en' })
+    expect(user.banned_until).toBeUndefined()
+    await expect(authManager.adminUpdateUser('missing', {})).rejects.toMatchObject({ status: 404, code: 'user_not_found' })
+  })
+
+  it('should generate links without sending an email', async () => {
+    setup([{ id: 'user-1', email: 'ada@example.com', email_confirmed_at: '2024-01-01T00:00:00Z' }])
+    const send = vi.fn()
+    Object.assign(authManager, { emailService: { send, buildActionLink: (_template: string, hash: string) => `http://localhost/auth/v1/verify?token=${hash}&type=recovery&redirect_to=http%3A%2F%2Flocalhost%3A3000` } })
+
+    const { properties } = await authManager.generateLink({ type: 'recovery', email: 'ada@example.com' })
+
+    expect(properties).toEqual({
+      action_link: 'http://localhost/auth/v1/verify?token=hash:ada@example.com:123456&type=recovery&redirect_to=http%3A%2F%2Flocalhost%3A3000',
+      email_otp: '123456',
+      hashed_token: 'hash:ada@example.com:123456',
+      redirect_to: 'http://localhost:3000',
+      verification_type: 'recovery'
+    })
+    expect(send).not.toHaveBeenCalled()
+    await expect(authManager.generateLink({ type: 'magiclink', email: 'nobody@example.com' }))
+      .rejects.toMatchObject({ status: 404, code: 'user_not_found' })
+  })
+})
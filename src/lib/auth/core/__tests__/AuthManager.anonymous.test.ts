@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { AuthManager } from '../AuthManager'
+import { OAuthService } from '../../services/OAuthService'
+import { CryptoUtils } from '../../utils/crypto'
+import { createUsersDbManager } from '../../../../test/helpers'
+import type { User } from '../../types/auth.types'
+
+vi.mock('../../../database/connection', () => ({
+  DatabaseManager: {
+    getInstance: vi.fn(() => ({
+      query: vi.fn(),
+      exec: vi.fn(),
+      isConnected: vi.fn(() => true),
+      initialize: vi.fn()
+    }))
+  }
+}))
+
+const anonymousUser = (): User => ({
+  id: 'user-1',
+  email_verified: false,
+  phone_verified: false,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+  role: 'authenticated',
+  app_metadata: { provider: 'anonymous', providers: ['anonymous'] },
+  user_metadata: {},
+  is_anonymous: true
+})
+
+describe('AuthManager anonymous sign-ins', () => {
+  let dbManager: ReturnType<typeof createUsersDbManager>
+  let authSettings: { getSettings: ReturnType<typeof vi.fn> }
+  let sessionManager: Record<string, ReturnType<typeof vi.fn>>
+
+  const setup = (config = {}, rows: Record<string, unknown>[] = []): AuthManager => {
+    dbManager = createUsersDbManager(rows)
+    let currentUser: User | null = anonymousUser()
+    sessionManager = {
+      createSession: vi.fn(async () => ({ access_token: 'access', refresh_token: 'refresh', expires_at: 1 })),
+      getUser: vi.fn(() => currentUser),
+      updateUser: vi.fn(async (updates: Partial<User>) => (currentUser = { ...currentUser!, ...updates }))
+    }
+    return Object.assign(new AuthManager(config), {
+      dbManager,
+      oauthService: Object.assign(new OAuthService(), { dbManager }),
+      authSettings,
+      sessionManager,
+      emailService: { send: vi.fn() },
+      rateLimits: { limitMessage: vi.fn() }
+    })
+  }
+
+  beforeEach(() => {
+    authSettings = { getSettings: vi.fn(async () => ({ anonymous_sign_ins_enabled: true })) }
+    vi.spyOn(CryptoUtils, 'generateUUID').mockReturnValue('user-1')
+    vi.spyOn(CryptoUtils, 'generateOTP').mockReturnValue('123456')
+    vi.spyOn(CryptoUtils, 'generateTokenHash').mockImplementation(async (email, otp) => `hash:${email}:${otp}`)
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should reject anonymous sign-ins unless the project enables them', async () => {
+    authSettings.getSettings.mockResolvedValue({ anonymous_sign_ins_enabled: false })
+    const authManager = setup()
+
+    await expect(authManager.signInAnonymously())
+      .rejects.toMatchObject({ status: 422, code: 'anonymous_provider_disabled' })
+    expect(dbManager.rows).toHaveLength(0)
+  })
+
+  it('should create an anonymous user without credentials and sign it in', async () => {
+    const authManager = setup()
+
+    const { user, session } = await authManager.signInAnonymously({ theme: 'dark' })
+
+    expect(user).toMatchObject({
+      is_anonymous: true,
+      role: 'authenticated',
+      app_metadata: { provider: 'anonymous', providers: ['anonymous'] },
+      user_metadata: { theme: 'dark' }
+    })
+    expect(user.email).toBeUndefined()
+    expect(dbManager.rows[0]).toMatchObject({ is_anonymous: true, encrypted_password: null })
+    expect(sessionManager.createSession).toHaveBeenCalledWith(user)
+    expect(session.access_token).toBe('access')
+  })
+
+  it('should make the user permanent when an email is added', async () => {
+    const authManager = setup({}, [{ id: 'user-1', is_anonymous: true }])
+
+    const user = await authManager.updateUser({ email: 'ada@example.com' })
+
+    expect(user).toMatchObject({
+      email: 'ada@example.com',
+      is_anonymous: false,
+      app_metadata: { provider: 'email', providers: ['email'] }
+    })
+    expect(dbManager.rows[0]).toMatchObject({ email: 'ada@example.com', is_anonymous: false })
+    expect(dbManager.query).toHaveBeenCalledWith(
+      expect.stringContaining('INSERT INTO auth.identities'),
+      expect.arrayContaining(['email', '{"sub":"user-1","email":"ada@example.com","email_verified":true,"phone_verified":false}'])
+    )
+  })
+
+  it('should keep the user anonymous until the new email is verified', async () => {
+    authSettings.getSettings.mockResolvedValue({ anonymous_sign_ins_enabled: true, email_confirmations_enabled: true })
+    const authManager = setup({}, [{ id: 'user-1', is_anonymous: true }])
+
+    const pending = await authManager.updateUser({ email: 'ada@example.com' })
+    expect(pending.is_anonymous).toBe(true)
+    expect(dbManager.rows[0]).toMatchObject({ email_change: 'ada@example.com', is_anonymous: true })
+
+    const { user } = await authManager.verifyOtp({ type: 'email_change', email: 'ada@example.com', token: '123456' })
+
+    expect(user).toMatchObject({ email: 'ada@example.com', is_anonymous: false })
+    expect(dbManager.rows[0]).toMatchObject({
+      is_anonymous: false,
+      raw_app_meta_data: '{"provider":"email","providers":["email"]}'
+    })
+  })
+})
@@ -191,7 +191,7 @@ describe('AuthManager Database Operations', () => {
       expect(insertQuery).toContain('email_confirmed_at')
       expect(insertQuery).not.toContain('email_verified')
 
-      // Since requireEmailVerification is false by default, should have a timestamp
+      // Since email confirmations are off by default, should have a timestamp
       expect(insertQuery).toMatch(/'[0-9]{4}-[0-9]{2}-[0-9]{2}T[0-9]{2}:[0-9]{2}:[0-9]{2}\.[0-9]{3}Z'/)
     })
 
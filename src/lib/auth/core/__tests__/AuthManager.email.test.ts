@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { AuthManager } from '../AuthManager'
+import { OAuthService } from '../../services/OAuthService'
+import { CryptoUtils } from '../../utils/crypto'
+import { createUsersDbManager } from '../../../../test/helpers'
+
+vi.mock('../../../database/connection', () => ({
+  DatabaseManager: {
+    getInstance: vi.fn(() => ({
+      query: vi.fn(),
+      exec: vi.fn(),
+      isConnected: vi.fn(() => true),
+      initialize: vi.fn()
+    }))
+  }
+}))
+
+describe('AuthManager email flows', () => {
+  let authManager: AuthManager
+  let emailService: { send: ReturnType<typeof vi.fn> }
+  let authSettings: { getSettings: ReturnType<typeof vi.fn> }
+  let sessionManager: { createSession: ReturnType<typeof vi.fn> }
+
+  const setup = (row: Record<string, unknown> | null) => {
+    const dbManager = createUsersDbManager(row ? [row] : [])
+    authManager = Object.assign(new AuthManager(), {
+      dbManager,
+      emailService,
+      rateLimits: { limitMessage: vi.fn() },
+      authSettings,
+      passwordService: { hashPassword: vi.fn(async () => ({ hash: 'hash', salt: 'salt', algorithm: 'PBKDF2' })) },
+      sessionManager,
+      oauthService: Object.assign(new OAuthService(), { dbManager })
+    })
+    return dbManager
+  }
+
+  beforeEach(() => {
+    emailService = { send: vi.fn() }
+    authSettings = { getSettings: vi.fn(async () => ({ email_confirmations_enabled: false })) }
+    sessionManager = { createSession: vi.fn(async () => ({ access_token: 'access', refresh_token: 'refresh', expires_at: 1 })) }
+    vi.spyOn(CryptoUtils, 'generateOTP').mockReturnValue('123456')
+    vi.spyOn(CryptoUtils, 'generateTokenHash').mockImplementation(async (email, otp) => `hash:${email}:${otp}`)
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should create a passwordless user and email a signup confirmation', async () => {
+    const dbManager = setup(null)
+    await authManager.sendOtp('new@example.com', { links: { redirectTo: 'http://localhost:3000' } })
+
+    const insert = dbManager.query.mock.calls.find(([sql]) => sql.includes('INSERT INTO auth.users'))
+    expect(insert?.[1]?.[3]).toBeNull()
+    expect(dbManager.query).toHaveBeenCalledWith(
+      expect.stringContaining('SET confirmation_token = $1, confirmation_sent_at = $2'),
+      ['hash:new@example.com:123456', expect.any(String), expect.any(String)]
+    )
+    expect(emailService.send).toHaveBeenCalledWith(expect.objectContaining({
+      template: 'confirmation',
+      recipient: 'new@example.com',
+      token: '123456',
+      tokenHash: 'hash:new@example.com:123456',
+      links: { redirectTo: 'http://localhost:3000' }
+    }))
+  })
+
+  it('should send a magic link to confirmed users and refuse to create users when asked not to', async () => {
+    setup({ id: 'user-1', email: 'ada@example.com', email_confirmed_at: '2024-01-01T00:00:00Z' })
+    await authManager.sendOtp('ada@example.com')
+
+    expect(emailService.send).toHaveBeenCalledWith(expect.objectContaining({ template: 'magic_link' }))
+    await expect(authManager.sendOtp('nobody@example.com', { createUser: false })).rejects.toMatchObject({ code: 'otp_disabled' })
+  })
+
+  it('should verify an emailed OTP, confirm the address and sign the user in', async () => {
+    const dbManager = setup({
+      id: 'user-1',
+      email: 'ada@example.com',
+      email_confirmed_at: null,
+      confirmation_token: 'hash:ada@example.com:123456',
+      confirmation_sent_at: new Date().toISOString()
+    })
+
+    const { user, session } = await authManager.verifyOtp({ type: 'email', email: 'ada@example.com', token: '123456' })
+
+    expect(user.email_verified).toBe(true)
+    expect(session.access_token).toBe('access')
+    expect(dbManager.query).toHaveBeenCalledWith(expect.stringContaining("SET confirmation_token = ''"), [expect.any(String), 'user-1'])
+  })
+
+  it('should apply a pending email change from its token hash', async () => {
+    setup({
+      id: 'user-1',
+      email: 'old@example.com',
+      email_confirmed_at: '2024-01-01T00:00:00Z',
+      email_change: 'new@example.com',
+      email_change_token_new: 'hash:new@example.com:123456',
+      email_change_sent_at: new Date().toISOString()
+    })
+
+    const { user } = await authManager.verifyOtp({ type: 'email_change', token_hash: 'hash:new@example.com:123456' })
+
+    expect(user.email).toBe('new@example.com')
+  })
+
+  it('should reject expired and unknown tokens with otp_expired', async () => {
+    setup({
+      id: 'user-1',
+      email: 'ada@example.com',
+      recovery_token: 'hash:ada@example.com:123456',
+      recovery_sent_at: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString()
+    })
+
+    await expect(authManager.verifyOtp({ type: 'recovery', token_hash: 'hash:ada@example.com:123456' }))
+      .rejects.toMatchObject({ status: 403, code: 'otp_expired', message: 'Token has expired or is invalid' })
+    await expect(authManager.verifyOtp({ type: 'magiclink', token_hash: 'unknown' }))
+      .rejects.toMatchObject({ code: 'otp_expired' })
+  })
+
+  it('should sign email signups in right away while email confirmations are disabled', async () => {
+    const dbManager = setup(null)
+
+    const { user, session } = await authManager.signUp({ email: 'new@example.com', password: 'Password123!' })
+
+    expect(user.email_verified).toBe(true)
+    expect(session?.access_token).toBe('access')
+    expect(emailService.send).not.toHaveBeenCalled()
+    expect(dbManager.rows[0].email_confirmed_at).toEqual(expect.any(String))
+  })
+
+  it('should email a signup confirmation instead of a session once email confirmations are enabled', async () => {
+    authSettings.getSettings.mockResolvedValue({ email_confirmations_enabled: true })
+    const dbManager = setup(null)
+
+    const { user, session } = await authManager.signUp({ email: 'new@example.com', password: 'Password123!' })
+
+    expect(user.email_verified).toBe(false)
+    expect(session).toBeNull()
+    expect(sessionManager.createSession).not.toHaveBeenCalled()
+    expect(emailService.send).toHaveBeenCalledWith(expect.objectContaining({ template: 'confirmation', recipient: 'new@example.com' }))
+    expect(dbManager.rows[0].email_confirmed_at).toBeNull()
+  })
+
+  it('should reject password sign-ins of unconfirmed emails only while email confirmations are enabled', async () => {
+    setup({ id: 'user-1', email: 'ada@example.com', email_confirmed_at: null })
+    authSettings.getSettings.mockResolvedValue({ email_confirmations_enabled: true })
+
+    await expect(authManager.signIn({ email: 'ada@example.com', password: 'Password123!' }))
+      .rejects.toMatchObject({ status: 400, code: 'email_not_confirmed' })
+
+    authSettings.getSettings.mockResolvedValue({ email_confirmations_enabled: false })
+    await expect(authManager.signIn({ email: 'ada@example.com', password: 'Password123!' }))
+      .rejects.toMatchObject({ code: 'invalid_credentials' })
+  })
+})
@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { AuthManager } from '../AuthManager'
+import { OAuthService } from '../../services/OAuthService'
+import { CryptoUtils } from '../../utils/crypto'
+import { createDbManager } from '../../../../test/helpers'
+import type { User, UserIdentity } from '../../types/auth.types'
+
+vi.mock('../../../database/connection', () => ({
+  DatabaseManager: {
+    getInstance: vi.fn(() => ({
+      query: vi.fn(),
+      exec: vi.fn(),
+      isConnected: vi.fn(() => true),
+      initialize: vi.fn()
+    }))
+  }
+}))
+
+const CONSENT_URL = 'http://localhost:5173/oauth/consent'
+
+const identity = (provider: string, overrides: Partial<UserIdentity> = {}): UserIdentity => ({
+  id: `${provider}-id`,
+  identity_id: `${provider}-identity`,
+  user_id: 'user-1',
+  identity_data: {},
+  provider,
+  created_at: '',
+  updated_at: '',
+  ...overrides
+})
+
+describe('AuthManager identity linking', () => {
+  let authManager: AuthManager
+  let oauthService: OAuthService
+  let authSettings: { getSettings: ReturnType<typeof vi.fn> }
+  let currentUser: User | null
+  let dbManager: ReturnType<typeof createDbManager>
+
+  beforeEach(() => {
+    currentUser = {
+      id: 'user-1',
+      email: 'ada@example.com',
+      email_verified: true,
+      phone_verified: false,
+      created_at: '2024-01-01T00:00:00Z',
+      updated_at: '2024-01-01T00:00:00Z',
+      role: 'authenticated',
+      app_metadata: { provider: 'email', providers: ['email', 'github'] },
+      user_metadata: {},
+      is_anonymous: false
+    }
+    dbManager = createDbManager((sql, params) =>
+      sql.includes('WHERE id = $1') && currentUser && params[0] === currentUser.id
+        ? [{ ...currentUser, raw_app_meta_data: currentUser.app_metadata }]
+        : []
+    )
+    oauthService = new OAuthService()
+    authSettings = { getSettings: vi.fn(async () => ({ manual_linking_enabled: true })) }
+    authManager = Object.assign(new AuthManager(), {
+      dbManager,
+      oauthService,
+      authSettings,
+      sessionManager: {
+        getUser: vi.fn(() => currentUser),
+        createSession: vi.fn(async () => ({ access_token: 'access', refresh_token: 'refresh', expires_at: 1 })),
+        updateUser: vi.fn(async (updates: Partial<User>) => ({ ...currentUser!, ...updates }))
+      }
+    })
+
+    vi.spyOn(CryptoUtils, 'generateRandomString').mockReturnValue('provider-token')
+    vi.spyOn(oauthService, 'getUserIdentities').mockResolvedValue([identity('email'), identity('github')])
+    vi.spyOn(oauthService, 'deleteIdentity').mockResolvedValue()
+    vi.spyOn(oauthService, 'upsertIdentity').mockImplementation(async (userId, provider) => identity(provider, { user_id: userId }))
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should only link identities for signed in users when manual linking is enabled', async () => {
+    authSettings.getSettings.mockResolvedValue({ manual_linking_enabled: false })
+    await expect(authManager.linkIdentity({ provider: 'github', redirectTo: '/' }, CONSENT_URL))
+      .rejects.toMatchObject({ status: 404, code: 'manual_linking_disabled' })
+
+    currentUser = null
+    await expect(authManager.linkIdentity({ provider: 'github', redirectTo: '/' }, CONSENT_URL))
+      .rejects.toMatchObject({ status: 401 })
+  })
+
+  it('should send linkIdentity to the consent page with the user to link to', async () => {
+    const location = new URL(await authManager.linkIdentity({
+      provider: 'google',
+      redirectTo: 'http://localhost:3000/settings'
+    }, CONSENT_URL))
+
+    expect(location.searchParams.get('linking_target_id')).toBe('user-1')
+    expect(location.searchParams.get('provider')).toBe('google')
+  })
+
+  it('should add the identity to the linking target and make anonymous users permanent', async () => {
+    currentUser = { ...currentUser!, email: undefined, is_anonymous: true, app_metadata: { provider: 'anonymous', providers: ['anonymous'] } }
+    vi.spyOn(oauthService, 'findIdentity').mockResolvedValue(null)
+
+    await authManager.completeProviderSignIn(
+      { provider: 'google', redirectTo: 'http://localhost:3000/', linkingTargetId: 'user-1' },
+      { id: '42', email: 'ada@gmail.com' }
+    )
+
+    expect(oauthService.upsertIdentity).toHaveBeenCalledWith('user-1', 'google', expect.objectContaining({ sub: '42' }))
+    const update = dbManager.query.mock.calls.find(([sql]) => sql.includes('UPDATE auth.users') && sql.includes('is_anonymous'))
+    expect(update?.[1]).toEqual([false, '{"provider":"google","providers":["google"]}', 'user-1'])
+  })
+
+  it('should refuse to link an identity that belongs to another user', async () => {
+    vi.spyOn(oauthService, 'findIdentity').mockResolvedValue(identity('google', { user_id: 'user-2' }))
+
+    await expect(authManager.completeProviderSignIn(
+      { provider: 'google', redirectTo: 'http://localhost:3000/', linkingTargetId: 'user-1' },
+      { id: '42', email: 'ada@gmail.com' }
+    )).rejects.toMatchObject({ status: 422, code: 'identity_already_exists' })
+    expect(oauthService.upsertIdentity).not.toHaveBeenCalled()
+  })
+
+  it('should unlink identities and update the providers', async () => {
+    const user = await authManager.unlinkIdentity('github-identity')
+
+    expect(oauthService.deleteIdentity).toHaveBeenCalledWith('github-identity')
+    expect(user.app_metadata).toEqual({ provider: 'email', providers: ['email'] })
+    expect(user.identities).toEqual([identity('email')])
+  })
+
+  it('should keep the last identity and reject unknown ones', async () => {
+    await expect(authManager.unlinkIdentity('missing'))
+      .rejects.toMatchObject({ status: 404, code: 'identity_not_found' })
+
+    vi.mocked(oauthService.getUserIdentities).mockResolvedValue([identity('email')])
+    await expect(authManager.unlinkIdentity('email-identity'))
+      .rejects.toMatchObject({ status: 422, code: 'single_identity_not_deletable' })
+    expect(oauthService.deleteIdentity).not.toHaveBeenCalled()
+  })
+})
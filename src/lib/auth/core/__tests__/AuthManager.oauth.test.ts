@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { AuthManager } from '../AuthManager'
+import { OAuthService } from '../../services/OAuthService'
+import type { FlowState } from '../../services/OAuthService'
+import { CryptoUtils } from '../../utils/crypto'
+import { createUsersDbManager } from '../../../../test/helpers'
+
+vi.mock('../../../database/connection', () => ({
+  DatabaseManager: {
+    getInstance: vi.fn(() => ({
+      query: vi.fn(),
+      exec: vi.fn(),
+      isConnected: vi.fn(() => true),
+      initialize: vi.fn()
+    }))
+  }
+}))
+
+const CONSENT_URL = 'http://localhost:5173/oauth/consent'
+const CHALLENGE = 'E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM'
+
+const flowState = (overrides: Partial<FlowState> = {}): FlowState => ({
+  id: 'flow-1',
+  user_id: 'user-1',
+  auth_code: 'code-1',
+  code_challenge_method: 's256',
+  code_challenge: CHALLENGE,
+  provider_type: 'github',
+  provider_access_token: 'provider-token',
+  auth_code_issued_at: new Date().toISOString(),
+  ...overrides
+})
+
+describe('AuthManager OAuth flows', () => {
+  let authManager: AuthManager
+  let oauthService: OAuthService
+  let dbManager: ReturnType<typeof createUsersDbManager>
+  let sessionManager: { createSession: ReturnType<typeof vi.fn> }
+  const users: Record<string, unknown>[] = []
+
+  beforeEach(() => {
+    users.length = 0
+    dbManager = createUsersDbManager(users)
+    oauthService = new OAuthService()
+    sessionManager = { createSession: vi.fn(async () => ({ access_token: 'access', refresh_token: 'refresh', expires_at: 1 })) }
+    authManager = Object.assign(new AuthManager(), { dbManager, oauthService, sessionManager })
+
+    vi.spyOn(CryptoUtils, 'generateUUID').mockReturnValue('user-1')
+    vi.spyOn(CryptoUtils, 'generateRandomString').mockReturnValue('provider-token')
+    vi.spyOn(CryptoUtils, 'generateOTP').mockReturnValue('113456789012345678901')
+    vi.spyOn(CryptoUtils, 'generateCodeChallenge').mockImplementation(async (verifier) => (verifier === 'verifier' ? CHALLENGE : 'other'))
+    vi.spyOn(oauthService, 'findIdentity').mockResolvedValue(null)
+    vi.spyOn(oauthService, 'upsertIdentity').mockImplementation(async (userId, provider, data) => ({
+      id: String(data.sub), identity_id: 'identity-1', user_id: userId, identity_data: data, provider, created_at: '', updated_at: ''
+    }))
+    vi.spyOn(oauthService, 'getUserIdentities').mockResolvedValue([])
+    vi.spyOn(oauthService, 'deleteFlowState').mockResolvedValue()
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should send /authorize to the consent page and start a PKCE flow', async () => {
+    const createFlowState = vi.spyOn(oauthService, 'createFlowState').mockResolvedValue(flowState({ user_id: null }))
+
+    const location = new URL(await authManager.authorizeProvider({
+      provider: 'github',
+      redirectTo: 'http://localhost:3000/callback',
+      codeChallenge: CHALLENGE,
+      codeChallengeMethod: 'S256'
+    }, CONSENT_URL))
+
+    expect(createFlowState).toHaveBeenCalledWith('github', CHALLENGE, 's256')
+    expect(`${location.origin}${location.pathname}`).toBe(CONSENT_URL)
+    expect(Object.fromEntries(location.searchParams)).toEqual({
+      provider: 'github',
+      redirect_to: 'http://localhost:3000/callback',
+      flow_state_id: 'flow-1'
+    })
+  })
+
+  it('should reject unknown providers and incomplete PKCE parameters', async () => {
+    await expect(authManager.authorizeProvider({ provider: 'myspace', redirectTo: '/' }, CONSENT_URL))
+      .rejects.toMatchObject({ status: 400, message: 'Unsupported provider: provider is not enabled' })
+    await expect(authManager.authorizeProvider({ provider: 'github', redirectTo: '/', codeChallenge: CHALLENGE }, CONSENT_URL))
+      .rejects.toMatchObject({ status: 400, code: 'validation_failed' })
+  })
+
+  it('should create a user and identity on consent and redirect with an auth code', async () => {
+    const issueAuthCode = vi.spyOn(oauthService, 'issueAuthCode').mockResolvedValue('code-1')
+
+    const location = await authManager.completeProviderSignIn(
+      { provider: 'github', redirectTo: 'http://localhost:3000/callback', flowStateId: 'flow-1' },
+      { id: '583231', email: 'octocat@example.com', name: 'The Octocat', user_name: 'octocat' }
+    )
+
+    expect(location).toBe('http://localhost:3000/callback?code=code-1')
+    expect(issueAuthCode).toHaveBeenCalledWith('flow-1', 'user-1', 'provider-token')
+    expect(users[0]).toMatchObject({ email: 'octocat@example.com', raw_app_meta_data: '{"provider":"github","providers":["github"]}' })
+    expect(JSON.parse(String(users[0].raw_user_meta_data))).toMatchObject({
+      iss: 'https://api.github.com',
+      sub: '583231',
+      user_name: 'octocat',
+      email_verified: true
+    })
+    expect(oauthService.upsertIdentity).toHaveBeenCalledWith('user-1', 'github', expect.objectContaining({ sub: '583231' }))
+    expect(sessionManager.createSession).not.toHaveBeenCalled()
+  })
+
+  it('should put the session in the fragment for implicit flows', async () => {
+    const location = new URL(await authManager.completeProviderSignIn(
+      { provider: 'google', redirectTo: 'http://localhost:3000/' },
+      { email: 'ada@example.com' }
+    ))
+
+    expect(Object.fromEntries(new URLSearchParams(location.hash.slice(1)))).toEqual({
+      access_token: 'access',
+      expires_at: '1',
+      expires_in: '3600',
+      provider_token: 'provider-token',
+      refresh_token: 'refresh',
+      token_type: 'bearer'
+    })
+  })
+
+  it('should exchange an auth code only with the matching code verifier', async () => {
+    users.push({ id: 'user-1', email: 'octocat@example.com', email_confirmed_at: '2024-01-01T00:00:00Z' })
+    vi.spyOn(oauthService, 'findFlowStateByAuthCode').mockResolvedValue({ flowState: flowState(), expired: false })
+
+    await expect(authManager.exchangeCodeForSession('code-1', 'wrong'))
+      .rejects.toMatchObject({ status: 400, code: 'bad_code_verifier' })
+    expect(oauthService.deleteFlowState).not.toHaveBeenCalled()
+
+    const { user, session, providerToken } = await authManager.exchangeCodeForSession('code-1', 'verifier')
+
+    expect(user.id).toBe('user-1')
+    expect(session.access_token).toBe('access')
+    expect(providerToken).toBe('provider-token')
+    expect(oauthService.deleteFlowState).toHaveBeenCalledWith('flow-1')
+  })
+
+  it('should reject unknown and expired auth codes', async () => {
+    const find = vi.spyOn(oauthService, 'findFlowStateByAuthCode').mockResolvedValue(null)
+    await expect(authManager.exchangeCodeForSession('nope', 'verifier'))
+      .rejects.toMatchObject({ status: 404, code: 'flow_state_not_found' })
+
+    find.mockResolvedValue({ flowState: flowState(), expired: true })
+    await expect(authManager.exchangeCodeForSession('code-1', 'verifier'))
+      .rejects.toMatchObject({ status: 400, code: 'flow_state_expired' })
+  })
+})
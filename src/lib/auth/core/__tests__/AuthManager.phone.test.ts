@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { AuthManager } from '../AuthManager'
+import { OAuthService } from '../../services/OAuthService'
+import { CryptoUtils } from '../../utils/crypto'
+import { createUsersDbManager } from '../../../../test/helpers'
+import type { User } from '../../types/auth.types'
+
+vi.mock('../../../database/connection', () => ({
+  DatabaseManager: {
+    getInstance: vi.fn(() => ({
+      query: vi.fn(),
+      exec: vi.fn(),
+      isConnected: vi.fn(() => true),
+      initialize: vi.fn()
+    }))
+  }
+}))
+
+describe('AuthManager phone flows', () => {
+  let authManager: AuthManager
+  let smsService: { send: ReturnType<typeof vi.fn> }
+  let authSettings: { getSettings: ReturnType<typeof vi.fn> }
+  let sessionManager: {
+    createSession: ReturnType<typeof vi.fn>
+    getUser: ReturnType<typeof vi.fn>
+    updateUser: ReturnType<typeof vi.fn>
+  }
+  const user: User = {
+    id: 'user-1',
+    phone: '+15555550100',
+    email_verified: false,
+    phone_verified: true,
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z',
+    role: 'authenticated',
+    app_metadata: { provider: 'phone', providers: ['phone'] },
+    user_metadata: {},
+    is_anonymous: false
+  }
+
+  const setup = (row: Record<string, unknown> | null) => {
+    const dbManager = createUsersDbManager(row ? [row] : [])
+    authManager = Object.assign(new AuthManager(), {
+      dbManager,
+      smsService,
+      rateLimits: { limitMessage: vi.fn() },
+      authSettings,
+      sessionManager,
+      oauthService: Object.assign(new OAuthService(), { dbManager })
+    })
+    return dbManager
+  }
+
+  beforeEach(() => {
+    smsService = { send: vi.fn(async (sms) => ({ id: 'sms-1', ...sms })) }
+    authSettings = { getSettings: vi.fn(async () => ({ phone_confirmations_enabled: true })) }
+    sessionManager = {
+      createSession: vi.fn(async () => ({ access_token: 'access', refresh_token: 'refresh', expires_at: 1 })),
+      getUser: vi.fn(() => user),
+      updateUser: vi.fn(async (updates: Partial<User>) => ({ ...user, ...updates }))
+    }
+    vi.spyOn(CryptoUtils, 'generateUUID').mockReturnValue('user-2')
+    vi.spyOn(CryptoUtils, 'generateOTP').mockReturnValue('123456')
+    vi.spyOn(CryptoUtils, 'generateTokenHash').mockImplementation(async (phone, otp) => `hash:${phone}:${otp}`)
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should create a passwordless phone user and text a confirmation code', async () => {
+    const dbManager = setup(null)
+    const message = await authManager.sendSmsOtp('+15555550199')
+
+    const insert = dbManager.query.mock.calls.find(([sql]) => sql.includes('INSERT INTO auth.users'))
+    expect(insert?.[1]?.slice(0, 4)).toEqual(['user-2', undefined, '+15555550199', null])
+    expect(dbManager.query).toHaveBeenCalledWith(
+      expect.stringContaining('SET confirmation_token = $1, confirmation_sent_at = $2'),
+      ['hash:+15555550199:123456', expect.any(String), 'user-2']
+    )
+    expect(message).toMatchObject({ recipient: '+15555550199', type: 'sms', token: '123456' })
+  })
+
+  it('should reject invalid numbers and unknown users when signups are not allowed', async () => {
+    setup(null)
+
+    await expect(authManager.sendSmsOtp('555-0100'))
+      .rejects.toMatchObject({ status: 400, code: 'validation_failed' })
+    await expect(authManager.sendSmsOtp('+15555550199', { createUser: false }))
+      .rejects.toMatchObject({ status: 422, code: 'otp_disabled' })
+    expect(smsService.send).not.toHaveBeenCalled()
+  })
+
+  it('should confirm the phone and sign in with a texted code', async () => {
+    const dbManager = setup({
+      id: 'user-1',
+      phone: '+15555550100',
+      confirmation_token: 'hash:+15555550100:123456',
+      confirmation_sent_at: new Date().toISOString(),
+      raw_app_meta_data: user.app_metadata,
+      raw_user_meta_data: {}
+    })
+
+    const { user: verified, session } = await authManager.verifyOtp({ type: 'sms', phone: '+15555550100', token: '123456' })
+
+    expect(verified.phone_verified).toBe(true)
+    expect(session.access_token).toBe('access')
+    expect(dbManager.query).toHaveBeenCalledWith(
+      expect.stringContaining('phone_confirmed_at = COALESCE(phone_confirmed_at, $1)'),
+      [expect.any(String), 'user-1']
+    )
+  })
+
+  it('should reject expired codes', async () => {
+    setup({
+      id: 'user-1',
+      phone: '+15555550100',
+      confirmation_token: 'hash:+15555550100:123456',
+      confirmation_sent_at: new Date(Date.now() - 120_000).toISOString()
+    })
+
+    await expect(authManager.verifyOtp({ type: 'sms', phone: '+15555550100', token: '123456' }))
+      .rejects.toMatchObject({ status: 403, code: 'otp_expired' })
+  })
+
+  it('should keep a phone change pending until the new number is verified', async () => {
+    const dbManager = setup(null)
+
+    const updated = await authManager.updateUser({ phone: '+15555550101' })
+
+    expect(updated.phone).toBe('+15555550100')
+    expect(dbManager.query).toHaveBeenCalledWith(
+      expect.stringContaining('SET phone_change_token = $1, phone_change_sent_at = $2, phone_change = $3'),
+      ['hash:+15555550101:123456', expect.any(String), '+15555550101', 'user-1']
+    )
+    expect(smsService.send).toHaveBeenCalledWith({ recipient: '+15555550101', type: 'phone_change', token: '123456' })
+  })
+
+  it('should swap in the new number once the phone change code is verified', async () => {
+    setup({
+      id: 'user-1',
+      phone: '+15555550100',
+      phone_change: '+15555550101',
+      phone_change_token: 'hash:+15555550101:123456',
+      phone_change_sent_at: new Date().toISOString(),
+      raw_app_meta_data: user.app_metadata,
+      raw_user_meta_data: {}
+    })
+
+    const { user: verified } = await authManager.verifyOtp({ type: 'phone_change', phone: '+15555550101', token: '123456' })
+
+    expect(verified.phone).toBe('+15555550101')
+  })
+})
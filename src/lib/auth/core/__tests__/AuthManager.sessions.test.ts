@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { AuthManager } from '../AuthManager'
+import { SessionService } from '../../services/SessionService'
+import type { StoredRefreshToken, StoredSession } from '../../services/SessionService'
+import type { Session, User } from '../../types/auth.types'
+import { createUsersDbManager } from '../../../../test/helpers'
+
+vi.mock('../../../database/connection', () => ({
+  DatabaseManager: {
+    getInstance: vi.fn(() => ({
+      query: vi.fn(),
+      exec: vi.fn(),
+      isConnected: vi.fn(() => true),
+      initialize: vi.fn()
+    }))
+  }
+}))
+
+const storedToken = (overrides: Partial<StoredRefreshToken> = {}): StoredRefreshToken => ({
+  id: '1',
+  token: 'refresh-1',
+  user_id: 'user-1',
+  session_id: 'session-1',
+  revoked: false,
+  parent: null,
+  aal: 'aal1',
+  ...overrides
+})
+
+const storedSession = (overrides: Partial<StoredSession> = {}): StoredSession => ({
+  id: 'session-1',
+  user_id: 'user-1',
+  aal: 'aal1',
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+  refreshed_at: null,
+  user_agent: null,
+  ip: null,
+  ...overrides
+})
+
+describe('AuthManager sessions', () => {
+  let authManager: AuthManager
+  let sessionService: SessionService
+  let currentSession: Session | null
+  let sessionManager: {
+    getSession: ReturnType<typeof vi.fn>
+    getUser: ReturnType<typeof vi.fn>
+    refreshSession: ReturnType<typeof vi.fn>
+    signOut: ReturnType<typeof vi.fn>
+  }
+  const user: User = {
+    id: 'user-1',
+    email: 'ada@example.com',
+    email_verified: true,
+    phone_verified: false,
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z',
+    role: 'authenticated',
+    app_metadata: { provider: 'email', providers: ['email'] },
+    user_metadata: {},
+    is_anonymous: false
+  }
+
+  beforeEach(() => {
+    currentSession = {
+      id: 'session-1',
+      user_id: 'user-1',
+      access_token: 'access',
+      refresh_token: 'refresh-1',
+      expires_at: 1,
+      created_at: '',
+      updated_at: ''
+    }
+    const dbManager = createUsersDbManager([{ ...user }])
+    sessionService = new SessionService()
+    sessionManager = {
+      getSession: vi.fn(() => currentSession),
+      getUser: vi.fn(() => user),
+      refreshSession: vi.fn(async () => ({ ...currentSession!, refresh_token: 'refresh-2' })),
+      signOut: vi.fn(async () => { currentSession = null })
+    }
+    authManager = Object.assign(new AuthManager(), { dbManager, sessionService, sessionManager })
+
+    vi.spyOn(sessionService, 'getRefreshToken').mockResolvedValue(storedToken())
+    vi.spyOn(sessionService, 'revokeRefreshToken').mockResolvedValue(true)
+    vi.spyOn(sessionService, 'revokeTokenFamily').mockResolvedValue()
+    vi.spyOn(sessionService, 'getSession').mockResolvedValue(storedSession())
+    vi.spyOn(sessionService, 'deleteSession').mockResolvedValue()
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should rotate the refresh token within its session', async () => {
+    const session = await authManager.refreshSession('refresh-1')
+
+    expect(sessionService.revokeRefreshToken).toHaveBeenCalledWith('1')
+    expect(sessionManager.refreshSession).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'user-1' }),
+      storedToken()
+    )
+    expect(session.refresh_token).toBe('refresh-2')
+  })
+
+  it('should reject unknown refresh tokens', async () => {
+    vi.mocked(sessionService.getRefreshToken).mockResolvedValue(null)
+
+    await expect(authManager.refreshSession('missing'))
+      .rejects.toMatchObject({ status: 400, code: 'refresh_token_not_found' })
+  })
+
+  it('should revoke the whole family when a rotated token is reused', async () => {
+    vi.mocked(sessionService.getRefreshToken).mockResolvedValue(storedToken({ revoked: true }))
+
+    await expect(authManager.refreshSession('refresh-1'))
+      .rejects.toMatchObject({ status: 400, code: 'refresh_token_already_used' })
+    expect(sessionService.revokeTokenFamily).toHaveBeenCalledWith('session-1')
+    expect(sessionManager.signOut).toHaveBeenCalledWith('local')
+    expect(sessionManager.refreshSession).not.toHaveBeenCalled()
+  })
+
+  it('should treat losing a concurrent refresh as reuse', async () => {
+    vi.mocked(sessionService.revokeRefreshToken).mockResolvedValue(false)
+
+    await expect(authManager.refreshSession('refresh-1'))
+      .rejects.toMatchObject({ code: 'refresh_token_already_used' })
+    expect(sessionService.revokeTokenFamily).toHaveBeenCalledWith('session-1')
+  })
+
+  it('should only let users revoke their own sessions', async () => {
+    vi.mocked(sessionService.getSession).mockResolvedValue(storedSession({ id: 'session-2', user_id: 'user-2' }))
+
+    await expect(authManager.revokeSession('session-2'))
+      .rejects.toMatchObject({ status: 404, code: 'session_not_found' })
+    expect(sessionService.deleteSession).not.toHaveBeenCalled()
+  })
+
+  it('should sign out locally when an admin revokes the current session', async () => {
+    await authManager.adminRevokeSession('session-1')
+
+    expect(sessionService.deleteSession).toHaveBeenCalledWith('session-1')
+    expect(sessionManager.signOut).toHaveBeenCalledWith('local')
+  })
+})
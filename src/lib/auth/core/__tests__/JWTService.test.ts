@@ -0,0 +1,61 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import type { JWTService as JWTServiceType } from '../JWTService'
+import type { StoredSigningKey } from '../../services/JWTKeyService'
+import { useRealJose, createKeyStore, createStoredKey } from '../../../../test/helpers'
+
+const SECRET = 'a-shared-secret-of-at-least-32-characters'
+
+describe('JWTService with stored signing keys', () => {
+  // The test setup mocks jose, so these tests load the real one and a fresh JWTService
+  let jose: typeof import('jose')
+  let JWTService: typeof JWTServiceType
+  let keys: StoredSigningKey[]
+
+  beforeEach(async () => {
+    vi.resetModules()
+    jose = await useRealJose()
+    ;({ JWTService } = await import('../JWTService'))
+    keys = [await createStoredKey(jose, 'es-key')]
+  })
+
+  afterEach(() => {
+    vi.doUnmock('jose')
+    vi.unstubAllGlobals()
+  })
+
+  it('should verify a token signed with a stored key through a freshly created service', async () => {
+    const signer = new JWTService()
+    await signer.initialize(createKeyStore(keys))
+    const token = await signer.generateCustomToken({ iss: 'https://supabase-lite.local/auth/v1', sub: 'user-1', role: 'authenticated' })
+
+    const verifier = new JWTService()
+    await verifier.initialize(createKeyStore(keys))
+
+    await expect(verifier.verifyToken(token)).resolves.toMatchObject({ sub: 'user-1', role: 'authenticated' })
+    await expect(new JWTService().verifyToken(token)).rejects.toThrow('Invalid token')
+  })
+
+  it('should verify shared-secret tokens this service did not sign, whatever their issuer', async () => {
+    keys.push(await createStoredKey(jose, 'hs-key', SECRET))
+    const token = await new jose.SignJWT({ sub: 'user-2', role: 'authenticated' })
+      .setProtectedHeader({ alg: 'HS256', typ: 'JWT' })
+      .setIssuer('https://backend.example.com')
+      .setExpirationTime('1h')
+      .sign(new TextEncoder().encode(SECRET))
+    const service = new JWTService()
+    await service.initialize(createKeyStore(keys))
+
+    await expect(service.verifyToken(token)).resolves.toMatchObject({ sub: 'user-2', iss: 'https://backend.example.com' })
+  })
+
+  it('should still check the issuer of tokens signed with asymmetric keys', async () => {
+    const token = await new jose.SignJWT({ sub: 'user-3' })
+      .setProtectedHeader({ alg: 'ES256', kid: 'es-key' })
+      .setIssuer('https://backend.example.com')
+      .sign(await jose.importJWK(keys[0].private_jwk as import('jose').JWK, 'ES256'))
+    const service = new JWTService()
+    await service.initialize(createKeyStore(keys))
+
+    await expect(service.verifyToken(token)).rejects.toThrow('unexpected "iss" claim value')
+  })
+})
@@ -1,6 +1,7 @@
 // Core authentication components
 export { AuthManager } from './core/AuthManager'
 export { JWTService } from './core/JWTService'
+export type { AccessTokenClaimsHook } from './core/JWTService'
 export { SessionManager } from './core/SessionManager'
 export { PasswordService } from './core/PasswordService'
 
@@ -22,9 +23,22 @@ export { Validators, ValidationError } from './utils/validators'
 
 // Services
 export { MFAService } from './services/MFAService'
+export { EmailService, renderEmailTemplate, DEFAULT_EMAIL_TEMPLATES } from './services/EmailService'
+export type { EmailTemplate, EmailTemplateType, EmailMessage, EmailLinkOptions } from './services/EmailService'
+export { OAuthService, FAKE_OAUTH_PROVIDERS } from './services/OAuthService'
+export type { FakeIdentityProfile, OAuthProviderInfo } from './services/OAuthService'
+export { AuthSettingsService, DEFAULT_AUTH_SETTINGS } from './services/AuthSettingsService'
+export type { AuthSettings, AuthHookConfig } from './services/AuthSettingsService'
+export { AuthHooksService, parseHookUri } from './services/AuthHooksService'
+export { JWTKeyService } from './services/JWTKeyService'
+export type { JWTSigningAlgorithm, SigningKeyStatus, StoredSigningKey, SigningKeyInfo } from './services/JWTKeyService'
+export { RateLimitService } from './services/RateLimitService'
+export type { RateLimitedRequest, MessageChannel } from './services/RateLimitService'
+export type { AuthHookName, VerificationAttemptDecision } from './services/AuthHooksService'
+export { SessionService } from './services/SessionService'
+export type { StoredSession, StoredRefreshToken } from './services/SessionService'
+export { SmsService } from './services/SmsService'
+export type { SmsMessage, SmsVerificationType } from './services/SmsService'
 
 // Service types (to be implemented)
-// export type { EmailAuthService } from './services/EmailAuthService'
-// export type { PhoneAuthService } from './services/PhoneAuthService'
-// export type { OAuthService } from './services/OAuthService'
 // export type { AdminService } from './services/AdminService'
\ No newline at end of file
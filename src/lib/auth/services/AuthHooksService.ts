@@ -0,0 +1,188 @@
+import { DatabaseManager } from '../../database/connection'
+import { AuthSettingsService } from './AuthSettingsService'
+import type { JWTPayload } from '../types/jwt.types'
+import type { AuthError } from '../types/auth.types'
+
+type Row = Record<string, unknown>
+
+export type AuthHookName = 'custom_access_token' | 'password_verification_attempt' | 'mfa_verification_attempt'
+
+/**
+ * What the password and MFA verification attempt hooks decide
+ */
+export interface VerificationAttemptDecision {
+  decision: 'continue' | 'reject'
+  message?: string
+  /** Password hook only: end all of the user's sessions */
+  should_logout_user?: boolean
+}
+
+const HOOK_URI_PATTERN = /^pg-functions:\/\/postgres\/([a-z_][a-z0-9_]*)\/([a-z_][a-z0-9_]*)$/
+
+/**
+ * Claims a customized access token has to keep, with their JSON types
+ */
+const REQUIRED_CLAIMS: Record<string, string> = {
+  aud: 'string',
+  exp: 'number',
+  iat: 'number',
+  sub: 'string',
+  role: 'string',
+  aal: 'string',
+  session_id: 'string',
+  email: 'string',
+  phone: 'string',
+  is_anonymous: 'boolean'
+}
+
+/**
+ * Split a hook URI into the schema and name of its Postgres function
+ */
+export function parseHookUri(uri: string): { schema: string; functionName: string } | null {
+  const match = uri.match(HOOK_URI_PATTERN)
+  return match ? { schema: match[1], functionName: match[2] } : null
+}
+
+/**
+ * AuthHooksService runs the Postgres functions a project registered as
+ * auth hooks. Each receives GoTrue's hook payload as jsonb and returns
+ * jsonb, optionally `{ "error": { "http_code": ..., "message": ... } }`
+ * to fail the request.
+ */
+export class AuthHooksService {
+  private static instance: AuthHooksService
+  private dbManager: DatabaseManager
+  private authSettings: AuthSettingsService
+
+  constructor(dbManager: DatabaseManager = DatabaseManager.getInstance()) {
+    this.dbManager = dbManager
+    this.authSettings = AuthSettingsService.getInstance()
+  }
+
+  static getInstance(): AuthHooksService {
+    if (!AuthHooksService.instance) {
+      AuthHooksService.instance = new AuthHooksService()
+    }
+    return AuthHooksService.instance
+  }
+
+  /**
+   * Let the custom access token hook rewrite the claims. The hook returns
+   * the complete set of claims, which replaces the original one.
+   */
+  async customizeAccessToken(claims: JWTPayload, authenticationMethod: string): Promise<JWTPayload> {
+    const output = await this.invoke('custom_access_token', {
+      user_id: claims.sub,
+      claims,
+      authentication_method: authenticationMethod
+    })
+    if (!output) {
+      return claims
+    }
+
+    const customized = output.claims
+    if (!customized || typeof customized !== 'object' || Array.isArray(customized)) {
+      throw this.createHookError('Custom access token hook must return claims', 500, 'unexpected_failure')
+    }
+
+    const problems = Object.entries(REQUIRED_CLAIMS)
+      .filter(([claim, type]) => {
+        const value = (customized as Row)[claim]
+        return claim === 'aud' && Array.isArray(value) ? false : typeof value !== type
+      })
+      .map(([claim, type]) => `${claim} must be a ${type}`)
+    if (problems.length > 0) {
+      throw this.createHookError(
+        `Custom access token hook returned invalid claims: ${problems.join(', ')}`,
+        500,
+        'unexpected_failure'
+      )
+    }
+
+    return customized as JWTPayload
+  }
+
+  async passwordVerificationAttempt(userId: string, valid: boolean): Promise<VerificationAttemptDecision> {
+    const output = await this.invoke('password_verification_attempt', { user_id: userId, valid })
+    return this.toDecision('Password verification attempt', output)
+  }
+
+  async mfaVerificationAttempt(
+    userId: string,
+    factorId: string,
+    factorType: string,
+    valid: boolean
+  ): Promise<VerificationAttemptDecision> {
+    const output = await this.invoke('mfa_verification_attempt', {
+      user_id: userId,
+      factor_id: factorId,
+      factor_type: factorType,
+      valid
+    })
+    return this.toDecision('MFA verification attempt', output)
+  }
+
+  /**
+   * Call the hook's function. Returns null when the hook is disabled.
+   */
+  private async invoke(name: AuthHookName, payload: Row): Promise<Row | null> {
+    const hook = (await this.authSettings.getSettings())[`hook_${name}`]
+    if (!hook.enabled) {
+      return null
+    }
+
+    const target = parseHookUri(hook.uri)
+    if (!target) {
+      throw this.createHookError(`Invalid URI for the ${name} hook: ${hook.uri}`, 500, 'unexpected_failure')
+    }
+
+    let output: unknown
+    try {
+      const result = await this.dbManager.query(
+        `SELECT "${target.schema}"."${target.functionName}"($1::jsonb) AS output`,
+        [JSON.stringify(payload)]
+      )
+      output = (result.rows as Row[])[0]?.output
+      if (typeof output === 'string') {
+        output = JSON.parse(output)
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      throw this.createHookError(`Error running hook URI ${hook.uri}: ${message}`, 500, 'unexpected_failure')
+    }
+
+    if (!output || typeof output !== 'object' || Array.isArray(output)) {
+      throw this.createHookError(`The ${name} hook must return a JSON object`, 500, 'unexpected_failure')
+    }
+
+    const hookError = (output as Row).error as { http_code?: number; message?: string } | undefined
+    if (hookError) {
+      throw this.createHookError(hookError.message || `The ${name} hook failed`, hookError.http_code || 500, 'unexpected_failure')
+    }
+
+    return output as Row
+  }
+
+  private toDecision(hook: string, output: Row | null): VerificationAttemptDecision {
+    if (!output) {
+      return { decision: 'continue' }
+    }
+
+    if (output.decision !== 'continue' && output.decision !== 'reject') {
+      throw this.createHookError(`${hook} hook must decide continue or reject`, 500, 'unexpected_failure')
+    }
+
+    return {
+      decision: output.decision,
+      message: typeof output.message === 'string' ? output.message : undefined,
+      should_logout_user: output.should_logout_user === true
+    }
+  }
+
+  private createHookError(message: string, status: number, code: string): AuthError {
+    const error = new Error(message) as AuthError
+    error.status = status
+    error.code = code
+    return error
+  }
+}
@@ -0,0 +1,144 @@
+import { DatabaseManager } from '../../database/connection'
+
+const SETTINGS_TABLE = 'auth.settings'
+
+type Row = Record<string, unknown>
+
+/**
+ * A Postgres function the auth server calls at one point of its flows
+ */
+export interface AuthHookConfig {
+  enabled: boolean
+  /** pg-functions://postgres/{schema}/{function} */
+  uri: string
+}
+
+/**
+ * Auth server options that are configured per project
+ */
+export interface AuthSettings {
+  anonymous_sign_ins_enabled: boolean
+  /** Lets signed in users link and unlink identities themselves */
+  manual_linking_enabled: boolean
+  /** Emails a link that confirms email signups and email changes */
+  email_confirmations_enabled: boolean
+  /** Texts a code that confirms phone signups and phone changes */
+  phone_confirmations_enabled: boolean
+  hook_custom_access_token: AuthHookConfig
+  hook_password_verification_attempt: AuthHookConfig
+  hook_mfa_verification_attempt: AuthHookConfig
+  /** Emails sent per hour across the project, 0 for no limit */
+  rate_limit_email_sent: number
+  /** Text messages sent per hour across the project, 0 for no limit */
+  rate_limit_sms_sent: number
+  /** Sign-up, sign-in and OTP requests per 5 minutes per IP, password sign-ins per address */
+  rate_limit_sign_in_sign_ups: number
+  /** Anonymous sign-ins per hour per IP */
+  rate_limit_anonymous_users: number
+  /** Token refreshes per 5 minutes per IP */
+  rate_limit_token_refresh: number
+  /** OTP and link verifications per 5 minutes per IP, OTPs per address */
+  rate_limit_token_verifications: number
+  /** Seconds before the same address can be emailed again */
+  email_max_frequency: number
+  /** Seconds before the same number can be texted again */
+  sms_max_frequency: number
+}
+
+export const DEFAULT_AUTH_SETTINGS: AuthSettings = {
+  anonymous_sign_ins_enabled: false,
+  manual_linking_enabled: false,
+  email_confirmations_enabled: false,
+  phone_confirmations_enabled: true,
+  hook_custom_access_token: { enabled: false, uri: '' },
+  hook_password_verification_attempt: { enabled: false, uri: '' },
+  hook_mfa_verification_attempt: { enabled: false, uri: '' },
+  // The limits in the config.toml of a new local Supabase stack
+  rate_limit_email_sent: 2,
+  rate_limit_sms_sent: 30,
+  rate_limit_sign_in_sign_ups: 30,
+  rate_limit_anonymous_users: 30,
+  rate_limit_token_refresh: 150,
+  rate_limit_token_verifications: 30,
+  email_max_frequency: 1,
+  sms_max_frequency: 5
+}
+
+/**
+ * AuthSettingsService keeps the project's auth options in its own
+ * database, so every project can be configured independently.
+ */
+export class AuthSettingsService {
+  private static instance: AuthSettingsService
+  private dbManager: DatabaseManager
+  private installedConnectionId: string | null = null
+
+  constructor(dbManager: DatabaseManager = DatabaseManager.getInstance()) {
+    this.dbManager = dbManager
+  }
+
+  static getInstance(): AuthSettingsService {
+    if (!AuthSettingsService.instance) {
+      AuthSettingsService.instance = new AuthSettingsService()
+    }
+    return AuthSettingsService.instance
+  }
+
+  /**
+   * Create the settings table for the active database (idempotent)
+   */
+  async install(): Promise<void> {
+    const connectionId = this.dbManager.getConnectionInfo()?.id || null
+    if (connectionId && this.installedConnectionId === connectionId) {
+      return
+    }
+
+    await this.dbManager.exec(`
+      CREATE SCHEMA IF NOT EXISTS auth;
+
+      CREATE TABLE IF NOT EXISTS ${SETTINGS_TABLE} (
+        key TEXT PRIMARY KEY,
+        value JSONB NOT NULL,
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+      );
+    `)
+
+    this.installedConnectionId = connectionId
+  }
+
+  /**
+   * Get the settings, falling back to the defaults for ones never changed
+   */
+  async getSettings(): Promise<AuthSettings> {
+    await this.install()
+    const result = await this.dbManager.query(`SELECT key, value FROM ${SETTINGS_TABLE}`, [])
+    const settings: AuthSettings = { ...DEFAULT_AUTH_SETTINGS }
+
+    for (const row of result.rows as Row[]) {
+      const key = String(row.key) as keyof AuthSettings
+      if (key in DEFAULT_AUTH_SETTINGS) {
+        const value = typeof row.value === 'string' ? JSON.parse(row.value) : row.value
+        Object.assign(settings, { [key]: value })
+      }
+    }
+
+    return settings
+  }
+
+  async updateSettings(changes: Partial<AuthSettings>): Promise<AuthSettings> {
+    await this.install()
+
+    for (const [key, value] of Object.entries(changes)) {
+      if (!(key in DEFAULT_AUTH_SETTINGS)) {
+        throw new Error(`Unknown auth setting: ${key}`)
+      }
+      await this.dbManager.query(`
+        INSERT INTO ${SETTINGS_TABLE} (key, value, updated_at)
+        VALUES ($1, $2, now())
+        ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value, updated_at = now()
+      `, [key, JSON.stringify(value)])
+    }
+
+    return this.getSettings()
+  }
+}
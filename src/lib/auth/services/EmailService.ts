@@ -0,0 +1,340 @@
+import { DatabaseManager } from '../../database/connection'
+import { CryptoUtils } from '../utils/crypto'
+import { getBaseUrl } from '../../utils'
+
+const TEMPLATES_TABLE = 'auth.email_templates'
+const MESSAGES_TABLE = 'auth.email_messages'
+
+export type EmailTemplateType = 'confirmation' | 'invite' | 'magic_link' | 'recovery' | 'email_change'
+
+/**
+ * The `type` a link or OTP from each template is verified with
+ */
+export const EMAIL_VERIFICATION_TYPES: Record<EmailTemplateType, 'signup' | 'invite' | 'magiclink' | 'recovery' | 'email_change'> = {
+  confirmation: 'signup',
+  invite: 'invite',
+  magic_link: 'magiclink',
+  recovery: 'recovery',
+  email_change: 'email_change'
+}
+
+export interface EmailTemplate {
+  type: EmailTemplateType
+  subject: string
+  content: string
+  customized: boolean
+}
+
+export interface EmailLinkOptions {
+  /** Base URL of the auth API the verification link points at */
+  apiUrl?: string
+  /** Where /verify redirects after the link is opened */
+  redirectTo?: string
+}
+
+export interface AuthEmail {
+  template: EmailTemplateType
+  recipient: string
+  email: string
+  newEmail?: string
+  token: string
+  tokenHash: string
+  data?: Record<string, unknown>
+  links?: EmailLinkOptions
+}
+
+export interface EmailMessage {
+  id: string
+  recipient: string
+  subject: string
+  html: string
+  template: EmailTemplateType
+  verification_type: string
+  token: string | null
+  token_hash: string | null
+  action_link: string | null
+  created_at: string
+  read_at: string | null
+}
+
+export const DEFAULT_EMAIL_TEMPLATES: Record<EmailTemplateType, { subject: string; content: string }> = {
+  confirmation: {
+    subject: 'Confirm Your Signup',
+    content: `<h2>Confirm your signup</h2>
+
+<p>Follow this link to confirm your user:</p>
+<p><a href="{{ .ConfirmationURL }}">Confirm your mail</a></p>
+<p>Alternatively, enter the code: {{ .Token }}</p>`
+  },
+  invite: {
+    subject: 'You have been invited',
+    content: `<h2>You have been invited</h2>
+
+<p>You have been invited to create a user on {{ .SiteURL }}. Follow this link to accept the invite:</p>
+<p><a href="{{ .ConfirmationURL }}">Accept the invite</a></p>
+<p>Alternatively, enter the code: {{ .Token }}</p>`
+  },
+  magic_link: {
+    subject: 'Your Magic Link',
+    content: `<h2>Magic Link</h2>
+
+<p>Follow this link to login:</p>
+<p><a href="{{ .ConfirmationURL }}">Log In</a></p>
+<p>Alternatively, enter the code: {{ .Token }}</p>`
+  },
+  recovery: {
+    subject: 'Reset Your Password',
+    content: `<h2>Reset Password</h2>
+
+<p>Follow this link to reset the password for your user:</p>
+<p><a href="{{ .ConfirmationURL }}">Reset Password</a></p>
+<p>Alternatively, enter the code: {{ .Token }}</p>`
+  },
+  email_change: {
+    subject: 'Confirm Email Change',
+    content: `<h2>Confirm Change of Email</h2>
+
+<p>Follow this link to confirm the update of your email from {{ .Email }} to {{ .NewEmail }}:</p>
+<p><a href="{{ .ConfirmationURL }}">Change Email</a></p>
+<p>Alternatively, enter the code: {{ .Token }}</p>`
+  }
+}
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+
+/**
+ * Render a GoTrue style template. `{{ .Name }}` and `{{ .Data.key }}`
+ * are substituted and HTML-escaped; unknown variables render empty.
+ */
+export function renderEmailTemplate(template: string, variables: Record<string, unknown>): string {
+  return template.replace(/\{\{\s*\.([A-Za-z_][\w.]*)\s*\}\}/g, (_match, path: string) => {
+    let value: unknown = variables
+    for (const key of path.split('.')) {
+      value = value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined
+    }
+    if (value === undefined || value === null) {
+      return ''
+    }
+    return escapeHtml(typeof value === 'object' ? JSON.stringify(value) : String(value))
+  })
+}
+
+/**
+ * EmailService is a local mail catcher in the spirit of Inbucket.
+ * Every email the auth server would send is rendered from the project's
+ * templates and stored in auth.email_messages instead of being delivered.
+ */
+export class EmailService {
+  private static instance: EmailService
+  private dbManager: DatabaseManager
+  private installedConnectionId: string | null = null
+
+  constructor(dbManager: DatabaseManager = DatabaseManager.getInstance()) {
+    this.dbManager = dbManager
+  }
+
+  static getInstance(): EmailService {
+    if (!EmailService.instance) {
+      EmailService.instance = new EmailService()
+    }
+    return EmailService.instance
+  }
+
+  /**
+   * Create the template and inbox tables for the active database (idempotent)
+   */
+  async install(): Promise<void> {
+    const connectionId = this.dbManager.getConnectionInfo()?.id || null
+    if (connectionId && this.installedConnectionId === connectionId) {
+      return
+    }
+
+    await this.dbManager.exec(`
+      CREATE SCHEMA IF NOT EXISTS auth;
+
+      CREATE TABLE IF NOT EXISTS ${TEMPLATES_TABLE} (
+        type TEXT PRIMARY KEY,
+        subject TEXT NOT NULL,
+        content TEXT NOT NULL,
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+      );
+
+      CREATE TABLE IF NOT EXISTS ${MESSAGES_TABLE} (
+        id UUID PRIMARY KEY,
+        recipient TEXT NOT NULL,
+        subject TEXT NOT NULL,
+        html TEXT NOT NULL,
+        template TEXT NOT NULL,
+        verification_type TEXT NOT NULL,
+        token TEXT,
+        token_hash TEXT,
+        action_link TEXT,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+        read_at TIMESTAMPTZ
+      );
+    `)
+
+    this.installedConnectionId = connectionId
+  }
+
+  /**
+   * Get all templates, falling back to the defaults for ones never edited
+   */
+  async getTemplates(): Promise<EmailTemplate[]> {
+    await this.install()
+    const result = await this.dbManager.query(`SELECT type, subject, content FROM ${TEMPLATES_TABLE}`, [])
+    const saved = new Map(
+      (result.rows as Array<{ type: EmailTemplateType; subject: string; content: string }>).map(row => [row.type, row])
+    )
+
+    return (Object.keys(DEFAULT_EMAIL_TEMPLATES) as EmailTemplateType[]).map(type => {
+      const row = saved.get(type)
+      return row
+        ? { type, subject: row.subject, content: row.content, customized: true }
+        : { type, ...DEFAULT_EMAIL_TEMPLATES[type], customized: false }
+    })
+  }
+
+  async getTemplate(type: EmailTemplateType): Promise<EmailTemplate> {
+    const templates = await this.getTemplates()
+    return templates.find(template => template.type === type)!
+  }
+
+  async updateTemplate(type: EmailTemplateType, subject: string, content: string): Promise<EmailTemplate> {
+    if (!DEFAULT_EMAIL_TEMPLATES[type]) {
+      throw new Error(`Unknown email template: ${type}`)
+    }
+
+    await this.install()
+    await this.dbManager.query(`
+      INSERT INTO ${TEMPLATES_TABLE} (type, subject, content, updated_at)
+      VALUES ($1, $2, $3, now())
+      ON CONFLICT (type) DO UPDATE SET subject = EXCLUDED.subject, content = EXCLUDED.content, updated_at = now()
+    `, [type, subject, content])
+
+    return { type, subject, content, customized: true }
+  }
+
+  async resetTemplate(type: EmailTemplateType): Promise<EmailTemplate> {
+    await this.install()
+    await this.dbManager.query(`DELETE FROM ${TEMPLATES_TABLE} WHERE type = $1`, [type])
+    return { type, ...DEFAULT_EMAIL_TEMPLATES[type], customized: false }
+  }
+
+  /**
+   * Build the /verify link GoTrue puts in {{ .ConfirmationURL }}
+   */
+  buildActionLink(template: EmailTemplateType, tokenHash: string, links: EmailLinkOptions = {}): string {
+    const siteUrl = getBaseUrl()
+    const apiUrl = links.apiUrl || `${siteUrl}/auth/v1`
+    const params = new URLSearchParams({
+      token: tokenHash,
+      type: EMAIL_VERIFICATION_TYPES[template],
+      redirect_to: links.redirectTo || siteUrl
+    })
+    return `${apiUrl}/verify?${params.toString()}`
+  }
+
+  /**
+   * Render an auth email and drop it into the inbox
+   */
+  async send(email: AuthEmail): Promise<EmailMessage> {
+    const template = await this.getTemplate(email.template)
+    const siteUrl = getBaseUrl()
+    const actionLink = this.buildActionLink(email.template, email.tokenHash, email.links)
+    const variables = {
+      ConfirmationURL: actionLink,
+      Token: email.token,
+      TokenHash: email.tokenHash,
+      SiteURL: siteUrl,
+      RedirectTo: email.links?.redirectTo || siteUrl,
+      Email: email.email,
+      NewEmail: email.newEmail || '',
+      Data: email.data || {}
+    }
+
+    const message: EmailMessage = {
+      id: CryptoUtils.generateUUID(),
+      recipient: email.recipient,
+      subject: renderEmailTemplate(template.subject, variables),
+      html: renderEmailTemplate(template.content, variables),
+      template: email.template,
+      verification_type: EMAIL_VERIFICATION_TYPES[email.template],
+      token: email.token,
+      token_hash: email.tokenHash,
+      action_link: actionLink,
+      created_at: new Date().toISOString(),
+      read_at: null
+    }
+
+    await this.dbManager.query(`
+      INSERT INTO ${MESSAGES_TABLE} (
+        id, recipient, subject, html, template, verification_type, token, token_hash, action_link, created_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+    `, [
+      message.id,
+      message.recipient,
+      message.subject,
+      message.html,
+      message.template,
+      message.verification_type,
+      message.token,
+      message.token_hash,
+      message.action_link,
+      message.created_at
+    ])
+
+    return message
+  }
+
+  /**
+   * List inbox messages, newest first, optionally for one recipient
+   */
+  async listMessages(recipient?: string): Promise<EmailMessage[]> {
+    await this.install()
+    const result = recipient
+      ? await this.dbManager.query(`SELECT * FROM ${MESSAGES_TABLE} WHERE recipient = $1 ORDER BY created_at DESC`, [recipient])
+      : await this.dbManager.query(`SELECT * FROM ${MESSAGES_TABLE} ORDER BY created_at DESC`, [])
+    return (result.rows as Array<Record<string, unknown>>).map(row => this.mapMessage(row))
+  }
+
+  async markRead(id: string): Promise<void> {
+    await this.install()
+    await this.dbManager.query(`UPDATE ${MESSAGES_TABLE} SET read_at = now() WHERE id = $1 AND read_at IS NULL`, [id])
+  }
+
+  async deleteMessage(id: string): Promise<void> {
+    await this.install()
+    await this.dbManager.query(`DELETE FROM ${MESSAGES_TABLE} WHERE id = $1`, [id])
+  }
+
+  async clearInbox(): Promise<void> {
+    await this.install()
+    await this.dbManager.query(`DELETE FROM ${MESSAGES_TABLE}`, [])
+  }
+
+  private mapMessage(row: Record<string, unknown>): EmailMessage {
+    const toIso = (value: unknown): string | null =>
+      value === null || value === undefined ? null : value instanceof Date ? value.toISOString() : String(value)
+
+    return {
+      id: String(row.id),
+      recipient: String(row.recipient),
+      subject: String(row.subject),
+      html: String(row.html),
+      template: row.template as EmailTemplateType,
+      verification_type: String(row.verification_type),
+      token: (row.token as string | null) ?? null,
+      token_hash: (row.token_hash as string | null) ?? null,
+      action_link: (row.action_link as string | null) ?? null,
+      created_at: toIso(row.created_at) || '',
+      read_at: toIso(row.read_at)
+    }
+  }
+}
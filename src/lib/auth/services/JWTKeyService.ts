@@ -0,0 +1,276 @@
+import { generateKeyPair, exportJWK, base64url } from 'jose'
+import { DatabaseManager } from '../../database/connection'
+import { CryptoUtils } from '../utils/crypto'
+import type { JWKS, JWTSigningKey } from '../types/jwt.types'
+
+const KEYS_TABLE = 'auth.jwt_signing_keys'
+
+/** Shortest shared secret accepted for HS256, as on supabase.com */
+const MIN_SECRET_LENGTH = 32
+
+type Row = Record<string, unknown>
+
+export type JWTSigningAlgorithm = 'HS256' | 'ES256' | 'RS256'
+
+/**
+ * Lifecycle of a signing key: a standby key is rotated in, the key in use
+ * becomes previously used and keeps verifying until it is revoked
+ */
+export type SigningKeyStatus = 'standby' | 'in_use' | 'previously_used' | 'revoked'
+
+export interface StoredSigningKey {
+  /** Used as the kid of tokens the key signs */
+  id: string
+  algorithm: JWTSigningAlgorithm
+  status: SigningKeyStatus
+  /** Private JWK of an asymmetric key, or the { kty: 'oct', k } secret of an HS256 key */
+  private_jwk: JsonWebKey
+  public_jwk: JsonWebKey | null
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * A signing key without its private material
+ */
+export type SigningKeyInfo = Omit<StoredSigningKey, 'private_jwk'>
+
+const STATUS_ORDER: SigningKeyStatus[] = ['in_use', 'standby', 'previously_used', 'revoked']
+
+const toKeyInfo = ({ id, algorithm, status, public_jwk, created_at, updated_at }: StoredSigningKey): SigningKeyInfo =>
+  ({ id, algorithm, status, public_jwk, created_at, updated_at })
+
+/**
+ * JWTKeyService keeps each project's JWT signing keys in its own
+ * database, so tokens keep verifying across reloads and projects can
+ * use different algorithms. One key is in use at a time.
+ */
+export class JWTKeyService {
+  private static instance: JWTKeyService
+  private dbManager: DatabaseManager
+  private installedConnectionId: string | null = null
+  private creatingKey: Promise<StoredSigningKey> | null = null
+
+  constructor(dbManager: DatabaseManager = DatabaseManager.getInstance()) {
+    this.dbManager = dbManager
+  }
+
+  static getInstance(): JWTKeyService {
+    if (!JWTKeyService.instance) {
+      JWTKeyService.instance = new JWTKeyService()
+    }
+    return JWTKeyService.instance
+  }
+
+  /**
+   * Create the keys table for the active database (idempotent)
+   */
+  async install(): Promise<void> {
+    const connectionId = this.dbManager.getConnectionInfo()?.id || null
+    if (connectionId && this.installedConnectionId === connectionId) {
+      return
+    }
+
+    await this.dbManager.exec(`
+      CREATE SCHEMA IF NOT EXISTS auth;
+
+      CREATE TABLE IF NOT EXISTS ${KEYS_TABLE} (
+        id TEXT PRIMARY KEY,
+        algorithm TEXT NOT NULL,
+        status TEXT NOT NULL,
+        private_jwk JSONB NOT NULL,
+        public_jwk JSONB,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+      );
+    `)
+
+    this.installedConnectionId = connectionId
+  }
+
+  /**
+   * All keys, the one in use first
+   */
+  async listKeys(): Promise<SigningKeyInfo[]> {
+    const keys = await this.loadKeys()
+    return keys
+      .sort((a, b) => STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status) || b.created_at.localeCompare(a.created_at))
+      .map(toKeyInfo)
+  }
+
+  /**
+   * The key new tokens are signed with. A project without keys gets an
+   * ES256 key on first use.
+   */
+  async getCurrentKey(): Promise<StoredSigningKey> {
+    const current = (await this.loadKeys()).find(key => key.status === 'in_use')
+    if (current) {
+      return current
+    }
+
+    // Concurrent first signs share the one key being created
+    this.creatingKey ??= this.generateKey('ES256')
+      .then(key => this.insertKey(key, 'in_use'))
+      .finally(() => { this.creatingKey = null })
+    return this.creatingKey
+  }
+
+  /**
+   * Keys tokens may be signed with: all but revoked ones
+   */
+  async getVerificationKeys(): Promise<StoredSigningKey[]> {
+    return (await this.loadKeys()).filter(key => key.status !== 'revoked')
+  }
+
+  /**
+   * Public keys of the asymmetric keys that verify tokens. Standby keys
+   * are included so verifiers can cache them before a rotation.
+   */
+  async getJWKS(): Promise<JWKS> {
+    await this.getCurrentKey()
+    const keys = await this.getVerificationKeys()
+
+    return {
+      keys: keys
+        .filter(key => key.public_jwk)
+        .map(key => ({ ...key.public_jwk, kid: key.id, use: 'sig', alg: key.algorithm }) as JWTSigningKey)
+    }
+  }
+
+  /**
+   * Add the key the next rotation switches to. HS256 keys use the given
+   * shared secret, or a random one.
+   */
+  async createStandbyKey(algorithm: JWTSigningAlgorithm, secret?: string): Promise<SigningKeyInfo> {
+    const keys = await this.loadKeys()
+    if (keys.some(key => key.status === 'standby')) {
+      throw new Error('A standby key already exists, rotate to it or delete it first')
+    }
+    if (secret !== undefined && algorithm !== 'HS256') {
+      throw new Error('Only HS256 keys take a shared secret')
+    }
+    if (secret !== undefined && secret.length < MIN_SECRET_LENGTH) {
+      throw new Error(`The JWT secret must be at least ${MIN_SECRET_LENGTH} characters long`)
+    }
+
+    return toKeyInfo(await this.insertKey(await this.generateKey(algorithm, secret), 'standby'))
+  }
+
+  /**
+   * Start signing with the standby key. The key in use becomes previously
+   * used, so tokens it signed stay valid until it is revoked.
+   */
+  async rotate(): Promise<void> {
+    await this.getCurrentKey()
+    const standby = (await this.loadKeys()).find(key => key.status === 'standby')
+    if (!standby) {
+      throw new Error('Create a standby key before rotating')
+    }
+
+    const now = new Date().toISOString()
+    await this.dbManager.query(
+      `UPDATE ${KEYS_TABLE} SET status = 'previously_used', updated_at = $1 WHERE status = 'in_use'`,
+      [now]
+    )
+    await this.dbManager.query(
+      `UPDATE ${KEYS_TABLE} SET status = 'in_use', updated_at = $1 WHERE id = $2`,
+      [now, standby.id]
+    )
+  }
+
+  /**
+   * Stop accepting tokens signed with a previously used key
+   */
+  async revokeKey(id: string): Promise<void> {
+    const key = await this.getKey(id)
+    if (key.status !== 'previously_used') {
+      throw new Error('Only previously used keys can be revoked')
+    }
+
+    await this.dbManager.query(
+      `UPDATE ${KEYS_TABLE} SET status = 'revoked', updated_at = $1 WHERE id = $2`,
+      [new Date().toISOString(), id]
+    )
+  }
+
+  /**
+   * Delete a standby or revoked key
+   */
+  async deleteKey(id: string): Promise<void> {
+    const key = await this.getKey(id)
+    if (key.status !== 'standby' && key.status !== 'revoked') {
+      throw new Error('Only standby and revoked keys can be deleted')
+    }
+
+    await this.dbManager.query(`DELETE FROM ${KEYS_TABLE} WHERE id = $1`, [id])
+  }
+
+  private async getKey(id: string): Promise<StoredSigningKey> {
+    const key = (await this.loadKeys()).find(candidate => candidate.id === id)
+    if (!key) {
+      throw new Error(`Signing key ${id} not found`)
+    }
+    return key
+  }
+
+  private async loadKeys(): Promise<StoredSigningKey[]> {
+    await this.install()
+    const result = await this.dbManager.query(`SELECT * FROM ${KEYS_TABLE}`, [])
+    return (result.rows as Row[]).map(row => this.mapKey(row))
+  }
+
+  private async generateKey(
+    algorithm: JWTSigningAlgorithm,
+    secret?: string
+  ): Promise<Pick<StoredSigningKey, 'algorithm' | 'private_jwk' | 'public_jwk'>> {
+    if (algorithm === 'HS256') {
+      const k = base64url.encode(secret ?? CryptoUtils.generateSecureToken(64))
+      return { algorithm, private_jwk: { kty: 'oct', k }, public_jwk: null }
+    }
+
+    const { privateKey, publicKey } = await generateKeyPair(algorithm, { extractable: true })
+    return {
+      algorithm,
+      private_jwk: await exportJWK(privateKey),
+      public_jwk: await exportJWK(publicKey)
+    }
+  }
+
+  private async insertKey(
+    key: Pick<StoredSigningKey, 'algorithm' | 'private_jwk' | 'public_jwk'>,
+    status: SigningKeyStatus
+  ): Promise<StoredSigningKey> {
+    const now = new Date().toISOString()
+    const stored: StoredSigningKey = { id: CryptoUtils.generateUUID(), status, created_at: now, updated_at: now, ...key }
+
+    await this.dbManager.query(`
+      INSERT INTO ${KEYS_TABLE} (id, algorithm, status, private_jwk, public_jwk, created_at, updated_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+    `, [
+      stored.id,
+      stored.algorithm,
+      stored.status,
+      JSON.stringify(stored.private_jwk),
+      stored.public_jwk ? JSON.stringify(stored.public_jwk) : null,
+      now,
+      now
+    ])
+
+    return stored
+  }
+
+  private mapKey(row: Row): StoredSigningKey {
+    const toJson = (value: unknown) => (typeof value === 'string' ? JSON.parse(value) : value)
+    const toIso = (value: unknown) => (value instanceof Date ? value.toISOString() : String(value))
+
+    return {
+      id: String(row.id),
+      algorithm: row.algorithm as JWTSigningAlgorithm,
+      status: row.status as SigningKeyStatus,
+      private_jwk: toJson(row.private_jwk),
+      public_jwk: row.public_jwk ? toJson(row.public_jwk) : null,
+      created_at: toIso(row.created_at),
+      updated_at: toIso(row.updated_at)
+    }
+  }
+}
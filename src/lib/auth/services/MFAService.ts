@@ -1,6 +1,7 @@
 import { DatabaseManager } from '../../database/connection'
 import { JWTService } from '../core/JWTService'
 import { SessionManager } from '../core/SessionManager'
+import { AuthHooksService } from './AuthHooksService'
 import { CryptoUtils } from '../utils/crypto'
 import { Validators, ValidationError } from '../utils/validators'
 import type { MFAFactor, MFAChallenge, User, Session, AuthError } from '../types/auth.types'
@@ -40,11 +41,13 @@ export class MFAService {
   private dbManager: DatabaseManager
   private jwtService: JWTService
   private sessionManager: SessionManager
+  private authHooks: AuthHooksService
 
   constructor() {
     this.dbManager = DatabaseManager.getInstance()
     this.jwtService = JWTService.getInstance()
     this.sessionManager = SessionManager.getInstance()
+    this.authHooks = AuthHooksService.getInstance()
   }
 
   static getInstance(): MFAService {
@@ -228,6 +231,16 @@ export class MFAService {
 
     // Verify the code
     const isValidCode = await this.verifyCode(factor, code, challenge)
+
+    const attempt = await this.authHooks.mfaVerificationAttempt(currentUser.id, factor.id, factor.factor_type, isValidCode)
+    if (attempt.decision === 'reject') {
+      throw this.createMFAError(
+        attempt.message || 'Further MFA verification attempts will be rejected.',
+        403,
+        'mfa_verification_rejected'
+      )
+    }
+
     if (!isValidCode) {
       throw this.createMFAError('Invalid verification code', 400, 'invalid_code')
     }
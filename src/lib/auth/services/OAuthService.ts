@@ -0,0 +1,280 @@
+import { DatabaseManager } from '../../database/connection'
+import { CryptoUtils } from '../utils/crypto'
+import type { UserIdentity } from '../types/auth.types'
+
+/**
+ * Seconds an issued auth code stays exchangeable, as in GoTrue
+ */
+const FLOW_STATE_EXPIRY_SECONDS = 300
+
+type Row = Record<string, unknown>
+
+export interface OAuthProviderInfo {
+  name: string
+  issuer: string
+  /** Length of the numeric ids the real provider hands out */
+  idLength: number
+}
+
+/**
+ * Providers the local consent page can stand in for
+ */
+export const FAKE_OAUTH_PROVIDERS: Record<string, OAuthProviderInfo> = {
+  github: { name: 'GitHub', issuer: 'https://api.github.com', idLength: 8 },
+  google: { name: 'Google', issuer: 'https://accounts.google.com', idLength: 21 }
+}
+
+export type CodeChallengeMethod = 's256' | 'plain'
+
+/**
+ * What the developer enters on the consent page for the fake account
+ */
+export interface FakeIdentityProfile {
+  /** The provider's id for the account, generated when omitted */
+  id?: string
+  email: string
+  name?: string
+  user_name?: string
+  avatar_url?: string
+}
+
+export interface FlowState {
+  id: string
+  user_id: string | null
+  auth_code: string
+  code_challenge_method: CodeChallengeMethod
+  code_challenge: string
+  provider_type: string
+  provider_access_token: string | null
+  auth_code_issued_at: string | null
+}
+
+/**
+ * OAuthService stands in for third-party identity providers. It keeps
+ * the PKCE flow state and the provider identities in auth.flow_state and
+ * auth.identities, the same tables GoTrue uses.
+ */
+export class OAuthService {
+  private static instance: OAuthService
+  private dbManager: DatabaseManager
+
+  constructor(dbManager: DatabaseManager = DatabaseManager.getInstance()) {
+    this.dbManager = dbManager
+  }
+
+  static getInstance(): OAuthService {
+    if (!OAuthService.instance) {
+      OAuthService.instance = new OAuthService()
+    }
+    return OAuthService.instance
+  }
+
+  getProvider(provider: string): OAuthProviderInfo | null {
+    return FAKE_OAUTH_PROVIDERS[provider] || null
+  }
+
+  /**
+   * Build the claims a provider would return for a profile
+   */
+  buildIdentityData(provider: string, profile: FakeIdentityProfile): Record<string, unknown> {
+    const info = FAKE_OAUTH_PROVIDERS[provider]
+    // Numeric like the real provider's ids
+    const providerId = profile.id || CryptoUtils.generateOTP(info.idLength)
+    const name = profile.name || profile.email.split('@')[0]
+    const userName = profile.user_name || profile.email.split('@')[0]
+
+    return {
+      iss: info.issuer,
+      sub: providerId,
+      provider_id: providerId,
+      email: profile.email,
+      email_verified: true,
+      phone_verified: false,
+      name,
+      full_name: name,
+      ...(provider === 'github' ? { user_name: userName, preferred_username: userName } : {}),
+      ...(profile.avatar_url ? { avatar_url: profile.avatar_url, picture: profile.avatar_url } : {})
+    }
+  }
+
+  /**
+   * Start a PKCE flow. The auth code is only handed out once consent is given.
+   */
+  async createFlowState(provider: string, codeChallenge: string, method: CodeChallengeMethod): Promise<FlowState> {
+    const now = new Date().toISOString()
+    const flowState: FlowState = {
+      id: CryptoUtils.generateUUID(),
+      user_id: null,
+      auth_code: CryptoUtils.generateUUID(),
+      code_challenge_method: method,
+      code_challenge: codeChallenge,
+      provider_type: provider,
+      provider_access_token: null,
+      auth_code_issued_at: null
+    }
+
+    await this.dbManager.query(`
+      INSERT INTO auth.flow_state (
+        id, auth_code, code_challenge_method, code_challenge, provider_type, authentication_method, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, 'oauth', $6, $6)
+    `, [flowState.id, flowState.auth_code, method, codeChallenge, provider, now])
+
+    return flowState
+  }
+
+  async getFlowState(id: string): Promise<FlowState | null> {
+    const result = await this.dbManager.query('SELECT * FROM auth.flow_state WHERE id = $1', [id])
+    const [row] = result.rows as Row[]
+    return row ? this.mapFlowState(row) : null
+  }
+
+  /**
+   * Tie a flow to the user who consented and return its auth code
+   */
+  async issueAuthCode(flowStateId: string, userId: string, providerToken: string): Promise<string | null> {
+    const now = new Date().toISOString()
+    const result = await this.dbManager.query(`
+      UPDATE auth.flow_state
+      SET user_id = $1, provider_access_token = $2, auth_code_issued_at = $3, updated_at = $3
+      WHERE id = $4 AND user_id IS NULL
+      RETURNING auth_code
+    `, [userId, providerToken, now, flowStateId])
+
+    const [row] = result.rows as Row[]
+    return row ? String(row.auth_code) : null
+  }
+
+  async deleteFlowState(id: string): Promise<void> {
+    await this.dbManager.query('DELETE FROM auth.flow_state WHERE id = $1', [id])
+  }
+
+  /**
+   * Find the consented flow for an auth code. Flows whose code is older
+   * than five minutes are reported as expired.
+   */
+  async findFlowStateByAuthCode(authCode: string): Promise<{ flowState: FlowState; expired: boolean } | null> {
+    const result = await this.dbManager.query(
+      'SELECT * FROM auth.flow_state WHERE auth_code = $1 AND user_id IS NOT NULL',
+      [authCode]
+    )
+    const [row] = result.rows as Row[]
+    if (!row) {
+      return null
+    }
+
+    const flowState = this.mapFlowState(row)
+    const issuedAt = new Date(flowState.auth_code_issued_at || 0).getTime()
+    return { flowState, expired: issuedAt + FLOW_STATE_EXPIRY_SECONDS * 1000 < Date.now() }
+  }
+
+  /**
+   * Check a code verifier against the challenge saved at /authorize
+   */
+  async verifyCodeChallenge(flowState: FlowState, codeVerifier: string): Promise<boolean> {
+    const challenge = flowState.code_challenge_method === 's256'
+      ? await CryptoUtils.generateCodeChallenge(codeVerifier)
+      : codeVerifier
+    return CryptoUtils.constantTimeEqual(challenge, flowState.code_challenge)
+  }
+
+  async findIdentity(provider: string, providerId: string): Promise<UserIdentity | null> {
+    const result = await this.dbManager.query(
+      'SELECT * FROM auth.identities WHERE provider = $1 AND provider_id = $2',
+      [provider, providerId]
+    )
+    const [row] = result.rows as Row[]
+    return row ? this.mapIdentity(row) : null
+  }
+
+  /**
+   * List identities, optionally of one provider, most recently used first
+   */
+  async listIdentities(provider?: string): Promise<UserIdentity[]> {
+    const result = provider
+      ? await this.dbManager.query(
+        'SELECT * FROM auth.identities WHERE provider = $1 ORDER BY last_sign_in_at DESC NULLS LAST',
+        [provider]
+      )
+      : await this.dbManager.query('SELECT * FROM auth.identities ORDER BY last_sign_in_at DESC NULLS LAST', [])
+    return (result.rows as Row[]).map((row) => this.mapIdentity(row))
+  }
+
+  async getUserIdentities(userId: string): Promise<UserIdentity[]> {
+    const result = await this.dbManager.query(
+      'SELECT * FROM auth.identities WHERE user_id = $1 ORDER BY created_at',
+      [userId]
+    )
+    return (result.rows as Row[]).map((row) => this.mapIdentity(row))
+  }
+
+  /**
+   * Record a sign in with an identity, creating it on first use
+   */
+  async upsertIdentity(userId: string, provider: string, identityData: Record<string, unknown>): Promise<UserIdentity> {
+    const now = new Date().toISOString()
+    const result = await this.dbManager.query(`
+      INSERT INTO auth.identities (
+        id, provider_id, user_id, identity_data, provider, last_sign_in_at, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $6, $6)
+      ON CONFLICT (provider_id, provider) DO UPDATE
+      SET identity_data = EXCLUDED.identity_data, last_sign_in_at = EXCLUDED.last_sign_in_at, updated_at = EXCLUDED.updated_at
+      RETURNING *
+    `, [CryptoUtils.generateUUID(), String(identityData.sub), userId, JSON.stringify(identityData), provider, now])
+
+    return this.mapIdentity((result.rows as Row[])[0])
+  }
+
+  /**
+   * Record the email or phone identity GoTrue keeps for users who sign in
+   * with credentials. Its provider id is the user's own id.
+   */
+  async createCredentialIdentity(userId: string, provider: 'email' | 'phone', identityData: Record<string, unknown>): Promise<void> {
+    const now = new Date().toISOString()
+    await this.dbManager.query(`
+      INSERT INTO auth.identities (
+        id, provider_id, user_id, identity_data, provider, last_sign_in_at, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $6, $6)
+      ON CONFLICT (provider_id, provider) DO NOTHING
+    `, [CryptoUtils.generateUUID(), userId, userId, JSON.stringify({ sub: userId, ...identityData }), provider, now])
+  }
+
+  async deleteIdentity(identityId: string): Promise<void> {
+    await this.dbManager.query('DELETE FROM auth.identities WHERE id = $1', [identityId])
+  }
+
+  private mapFlowState(row: Row): FlowState {
+    const toIso = (value: unknown): string | null =>
+      value === null || value === undefined ? null : value instanceof Date ? value.toISOString() : String(value)
+
+    return {
+      id: String(row.id),
+      user_id: (row.user_id as string | null) ?? null,
+      auth_code: String(row.auth_code),
+      code_challenge_method: row.code_challenge_method as CodeChallengeMethod,
+      code_challenge: String(row.code_challenge),
+      provider_type: String(row.provider_type),
+      provider_access_token: (row.provider_access_token as string | null) ?? null,
+      auth_code_issued_at: toIso(row.auth_code_issued_at)
+    }
+  }
+
+  private mapIdentity(row: Row): UserIdentity {
+    const toIso = (value: unknown): string | undefined =>
+      value === null || value === undefined ? undefined : value instanceof Date ? value.toISOString() : String(value)
+    const identityData = typeof row.identity_data === 'string'
+      ? JSON.parse(row.identity_data)
+      : (row.identity_data as Record<string, unknown>) || {}
+
+    return {
+      id: String(row.provider_id),
+      identity_id: String(row.id),
+      user_id: String(row.user_id),
+      identity_data: identityData,
+      provider: String(row.provider),
+      email: (row.email as string | null) || undefined,
+      last_sign_in_at: toIso(row.last_sign_in_at),
+      created_at: toIso(row.created_at) || '',
+      updated_at: toIso(row.updated_at) || ''
+    }
+  }
+}
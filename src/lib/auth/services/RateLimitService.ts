@@ -0,0 +1,130 @@
+import { DatabaseManager } from '../../database/connection'
+import { AuthSettingsService } from './AuthSettingsService'
+import type { AuthError } from '../types/auth.types'
+
+/**
+ * Requests limited per client IP or per address, named after GoTrue's rate limits
+ */
+export type RateLimitedRequest = 'sign_in_sign_ups' | 'anonymous_users' | 'token_refresh' | 'token_verifications'
+
+export type MessageChannel = 'email' | 'sms'
+
+interface RateLimitEntry {
+  count: number
+  windowStart: number
+}
+
+const FIVE_MINUTES = 5 * 60 * 1000
+const ONE_HOUR = 60 * 60 * 1000
+
+const REQUEST_WINDOWS: Record<RateLimitedRequest, number> = {
+  sign_in_sign_ups: FIVE_MINUTES,
+  anonymous_users: ONE_HOUR,
+  token_refresh: FIVE_MINUTES,
+  token_verifications: FIVE_MINUTES
+}
+
+const CHANNEL_ERRORS: Record<MessageChannel, { code: string; message: string }> = {
+  email: { code: 'over_email_send_rate_limit', message: 'Email rate limit exceeded' },
+  sms: { code: 'over_sms_send_rate_limit', message: 'SMS rate limit exceeded' }
+}
+
+/**
+ * RateLimitService throttles auth requests the way GoTrue does: fixed
+ * windows per client IP (or per email or phone, for requests naming
+ * one) for requests, and a project-wide hourly budget
+ * plus a minimum interval per recipient for emails and text messages.
+ * Counters live in memory and are kept apart per project.
+ */
+export class RateLimitService {
+  private static instance: RateLimitService
+  private dbManager: DatabaseManager
+  private authSettings: AuthSettingsService
+  private windows = new Map<string, RateLimitEntry>()
+  private lastSent = new Map<string, number>()
+
+  constructor(dbManager: DatabaseManager = DatabaseManager.getInstance()) {
+    this.dbManager = dbManager
+    this.authSettings = AuthSettingsService.getInstance()
+  }
+
+  static getInstance(): RateLimitService {
+    if (!RateLimitService.instance) {
+      RateLimitService.instance = new RateLimitService()
+    }
+    return RateLimitService.instance
+  }
+
+  /**
+   * Count a request from the IP, or for the email or phone it names,
+   * failing with 429 over_request_rate_limit once the window's limit is
+   * used up
+   */
+  async limitRequest(request: RateLimitedRequest, ip: string, address?: string): Promise<void> {
+    const limit = (await this.authSettings.getSettings())[`rate_limit_${request}`]
+    const client = address ? `address:${address.toLowerCase()}` : ip
+
+    if (!this.consume(`${request}:${client}`, limit, REQUEST_WINDOWS[request])) {
+      throw this.createRateLimitError('Request rate limit reached', 'over_request_rate_limit')
+    }
+  }
+
+  /**
+   * Count a message about to be sent, failing with 429 when the recipient
+   * got one too recently or the project's hourly budget is used up
+   */
+  async limitMessage(channel: MessageChannel, recipient: string): Promise<void> {
+    const settings = await this.authSettings.getSettings()
+    const { code, message } = CHANNEL_ERRORS[channel]
+    const recipientKey = this.scopedKey(`${channel}:${recipient.toLowerCase()}`)
+    const now = Date.now()
+
+    const sentAt = this.lastSent.get(recipientKey)
+    const waitSeconds = sentAt ? Math.ceil((sentAt + settings[`${channel}_max_frequency`] * 1000 - now) / 1000) : 0
+    if (waitSeconds > 0) {
+      throw this.createRateLimitError(`For security purposes, you can only request this after ${waitSeconds} seconds.`, code)
+    }
+
+    if (!this.consume(`${channel}_sent`, settings[`rate_limit_${channel}_sent`], ONE_HOUR)) {
+      throw this.createRateLimitError(message, code)
+    }
+
+    this.lastSent.set(recipientKey, now)
+  }
+
+  /**
+   * Take one from the key's current window. A limit of 0 turns it off.
+   */
+  private consume(key: string, limit: number, windowMs: number): boolean {
+    if (limit <= 0) {
+      return true
+    }
+
+    const scopedKey = this.scopedKey(key)
+    const now = Date.now()
+    const entry = this.windows.get(scopedKey)
+
+    if (!entry || now - entry.windowStart >= windowMs) {
+      this.windows.set(scopedKey, { count: 1, windowStart: now })
+      return true
+    }
+
+    if (entry.count >= limit) {
+      return false
+    }
+
+    entry.count++
+    return true
+  }
+
+  private scopedKey(key: string): string {
+    return `${this.dbManager.getConnectionInfo()?.id || 'default'}:${key}`
+  }
+
+  private createRateLimitError(message: string, code: string): AuthError {
+    const error = new Error(message) as AuthError
+    error.status = 429
+    error.code = code
+    return error
+  }
+}
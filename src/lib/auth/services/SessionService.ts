@@ -0,0 +1,188 @@
+import { DatabaseManager } from '../../database/connection'
+
+type Row = Record<string, unknown>
+
+/**
+ * A signed in session as kept in auth.sessions
+ */
+export interface StoredSession {
+  id: string
+  user_id: string
+  aal: 'aal1' | 'aal2'
+  created_at: string
+  updated_at: string
+  refreshed_at: string | null
+  user_agent: string | null
+  ip: string | null
+}
+
+/**
+ * A refresh token and the session (token family) it belongs to
+ */
+export interface StoredRefreshToken {
+  id: string
+  token: string
+  user_id: string
+  session_id: string
+  revoked: boolean
+  /** The token this one was rotated from */
+  parent: string | null
+  aal: 'aal1' | 'aal2'
+}
+
+/**
+ * SessionService persists sessions and their refresh tokens in
+ * auth.sessions and auth.refresh_tokens, the same tables GoTrue uses.
+ * Every refresh revokes the used token and adds a child to the family,
+ * so a revoked token coming back means the family leaked.
+ */
+export class SessionService {
+  private static instance: SessionService
+  private dbManager: DatabaseManager
+
+  constructor(dbManager: DatabaseManager = DatabaseManager.getInstance()) {
+    this.dbManager = dbManager
+  }
+
+  static getInstance(): SessionService {
+    if (!SessionService.instance) {
+      SessionService.instance = new SessionService()
+    }
+    return SessionService.instance
+  }
+
+  /**
+   * Store a new session with the first refresh token of its family
+   */
+  async createSession(sessionId: string, userId: string, aal: 'aal1' | 'aal2', refreshToken: string): Promise<void> {
+    const now = new Date().toISOString()
+
+    await this.dbManager.query(`
+      INSERT INTO auth.sessions (id, user_id, aal, created_at, updated_at)
+      VALUES ($1, $2, $3, $4, $4)
+    `, [sessionId, userId, aal, now])
+    await this.addRefreshToken(sessionId, userId, refreshToken, null)
+  }
+
+  async getRefreshToken(token: string): Promise<StoredRefreshToken | null> {
+    const result = await this.dbManager.query(`
+      SELECT t.id, t.token, t.user_id, t.session_id, t.revoked, t.parent, s.aal
+      FROM auth.refresh_tokens t
+      JOIN auth.sessions s ON s.id = t.session_id
+      WHERE t.token = $1
+    `, [token])
+    const [row] = result.rows as Row[]
+    if (!row) {
+      return null
+    }
+
+    return {
+      id: String(row.id),
+      token: String(row.token),
+      user_id: String(row.user_id),
+      session_id: String(row.session_id),
+      revoked: row.revoked === true,
+      parent: (row.parent as string | null) ?? null,
+      aal: (row.aal as 'aal1' | 'aal2' | null) || 'aal1'
+    }
+  }
+
+  /**
+   * Revoke a token that is being exchanged. Returns false when it was
+   * already revoked, e.g. by a concurrent refresh.
+   */
+  async revokeRefreshToken(id: string): Promise<boolean> {
+    const result = await this.dbManager.query(`
+      UPDATE auth.refresh_tokens SET revoked = true, updated_at = $1
+      WHERE id = $2 AND revoked = false
+      RETURNING id
+    `, [new Date().toISOString(), id])
+    return result.rows.length > 0
+  }
+
+  /**
+   * Add the token a refresh rotated to and mark the session as refreshed
+   */
+  async addRefreshToken(sessionId: string, userId: string, token: string, parent: string | null): Promise<void> {
+    const now = new Date().toISOString()
+
+    await this.dbManager.query(`
+      INSERT INTO auth.refresh_tokens (token, user_id, session_id, parent, revoked, created_at, updated_at)
+      VALUES ($1, $2, $3, $4, false, $5, $5)
+    `, [token, userId, sessionId, parent, now])
+
+    if (parent) {
+      await this.dbManager.query(
+        'UPDATE auth.sessions SET refreshed_at = $1, updated_at = $2 WHERE id = $3',
+        [now, now, sessionId]
+      )
+    }
+  }
+
+  /**
+   * Revoke every refresh token of a session, which ends it without
+   * forgetting its tokens, so reuse of any of them is still detected
+   */
+  async revokeTokenFamily(sessionId: string): Promise<void> {
+    await this.dbManager.query(`
+      UPDATE auth.refresh_tokens SET revoked = true, updated_at = $1
+      WHERE session_id = $2 AND revoked = false
+    `, [new Date().toISOString(), sessionId])
+  }
+
+  async getSession(sessionId: string): Promise<StoredSession | null> {
+    const result = await this.dbManager.query('SELECT * FROM auth.sessions WHERE id = $1', [sessionId])
+    const [row] = result.rows as Row[]
+    return row ? this.mapSession(row) : null
+  }
+
+  /**
+   * Sessions of a user that can still be refreshed, newest first
+   */
+  async listUserSessions(userId: string): Promise<StoredSession[]> {
+    const result = await this.dbManager.query(`
+      SELECT s.* FROM auth.sessions s
+      WHERE s.user_id = $1
+        AND EXISTS (SELECT 1 FROM auth.refresh_tokens t WHERE t.session_id = s.id AND t.revoked = false)
+      ORDER BY s.created_at DESC
+    `, [userId])
+    return (result.rows as Row[]).map(row => this.mapSession(row))
+  }
+
+  /**
+   * Delete a session, its refresh tokens go with it
+   */
+  async deleteSession(sessionId: string): Promise<void> {
+    await this.dbManager.query('DELETE FROM auth.sessions WHERE id = $1', [sessionId])
+  }
+
+  /**
+   * Delete all sessions of a user, optionally keeping one
+   */
+  async deleteUserSessions(userId: string, exceptSessionId?: string): Promise<void> {
+    if (exceptSessionId) {
+      await this.dbManager.query(
+        'DELETE FROM auth.sessions WHERE user_id = $1 AND id <> $2',
+        [userId, exceptSessionId]
+      )
+    } else {
+      await this.dbManager.query('DELETE FROM auth.sessions WHERE user_id = $1', [userId])
+    }
+  }
+
+  private mapSession(row: Row): StoredSession {
+    const toIso = (value: unknown): string | null =>
+      value === null || value === undefined ? null : value instanceof Date ? value.toISOString() : String(value)
+
+    return {
+      id: String(row.id),
+      user_id: String(row.user_id),
+      aal: (row.aal as 'aal1' | 'aal2' | null) || 'aal1',
+      created_at: toIso(row.created_at)!,
+      updated_at: toIso(row.updated_at)!,
+      refreshed_at: toIso(row.refreshed_at),
+      user_agent: (row.user_agent as string | null) ?? null,
+      ip: row.ip === null || row.ip === undefined ? null : String(row.ip)
+    }
+  }
+}
@@ -0,0 +1,133 @@
+import { DatabaseManager } from '../../database/connection'
+import { CryptoUtils } from '../utils/crypto'
+
+const MESSAGES_TABLE = 'auth.sms_messages'
+
+/**
+ * The `type` the code in each SMS is verified with
+ */
+export type SmsVerificationType = 'sms' | 'phone_change'
+
+/**
+ * GoTrue's default SMS template
+ */
+const SMS_TEMPLATE = 'Your code is {{ .Code }}'
+
+export interface AuthSms {
+  recipient: string
+  type: SmsVerificationType
+  token: string
+}
+
+export interface SmsMessage {
+  id: string
+  recipient: string
+  body: string
+  verification_type: SmsVerificationType
+  token: string
+  created_at: string
+}
+
+/**
+ * SmsService is the phone counterpart of EmailService. Every SMS the
+ * auth server would send through a provider such as Twilio lands in
+ * auth.sms_messages, so phone flows can be tested offline.
+ */
+export class SmsService {
+  private static instance: SmsService
+  private dbManager: DatabaseManager
+  private installedConnectionId: string | null = null
+
+  constructor(dbManager: DatabaseManager = DatabaseManager.getInstance()) {
+    this.dbManager = dbManager
+  }
+
+  static getInstance(): SmsService {
+    if (!SmsService.instance) {
+      SmsService.instance = new SmsService()
+    }
+    return SmsService.instance
+  }
+
+  /**
+   * Create the outbox table for the active database (idempotent)
+   */
+  async install(): Promise<void> {
+    const connectionId = this.dbManager.getConnectionInfo()?.id || null
+    if (connectionId && this.installedConnectionId === connectionId) {
+      return
+    }
+
+    await this.dbManager.exec(`
+      CREATE SCHEMA IF NOT EXISTS auth;
+
+      CREATE TABLE IF NOT EXISTS ${MESSAGES_TABLE} (
+        id UUID PRIMARY KEY,
+        recipient TEXT NOT NULL,
+        body TEXT NOT NULL,
+        verification_type TEXT NOT NULL,
+        token TEXT NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+      );
+    `)
+
+    this.installedConnectionId = connectionId
+  }
+
+  /**
+   * Render an auth SMS and drop it into the outbox
+   */
+  async send(sms: AuthSms): Promise<SmsMessage> {
+    await this.install()
+
+    const message: SmsMessage = {
+      id: CryptoUtils.generateUUID(),
+      recipient: sms.recipient,
+      body: SMS_TEMPLATE.replace('{{ .Code }}', sms.token),
+      verification_type: sms.type,
+      token: sms.token,
+      created_at: new Date().toISOString()
+    }
+
+    await this.dbManager.query(`
+      INSERT INTO ${MESSAGES_TABLE} (id, recipient, body, verification_type, token, created_at)
+      VALUES ($1, $2, $3, $4, $5, $6)
+    `, [message.id, message.recipient, message.body, message.verification_type, message.token, message.created_at])
+
+    return message
+  }
+
+  /**
+   * List outbox messages, newest first, optionally for one number
+   */
+  async listMessages(recipient?: string): Promise<SmsMessage[]> {
+    await this.install()
+    const result = recipient
+      ? await this.dbManager.query(`SELECT * FROM ${MESSAGES_TABLE} WHERE recipient = $1 ORDER BY created_at DESC`, [recipient])
+      : await this.dbManager.query(`SELECT * FROM ${MESSAGES_TABLE} ORDER BY created_at DESC`, [])
+    return (result.rows as Array<Record<string, unknown>>).map(row => this.mapMessage(row))
+  }
+
+  async deleteMessage(id: string): Promise<void> {
+    await this.install()
+    await this.dbManager.query(`DELETE FROM ${MESSAGES_TABLE} WHERE id = $1`, [id])
+  }
+
+  async clearOutbox(): Promise<void> {
+    await this.install()
+    await this.dbManager.query(`DELETE FROM ${MESSAGES_TABLE}`, [])
+  }
+
+  private mapMessage(row: Record<string, unknown>): SmsMessage {
+    const createdAt = row.created_at instanceof Date ? row.created_at.toISOString() : String(row.created_at ?? '')
+
+    return {
+      id: String(row.id),
+      recipient: String(row.recipient),
+      body: String(row.body),
+      verification_type: row.verification_type as SmsVerificationType,
+      token: String(row.token),
+      created_at: createdAt
+    }
+  }
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect, vi } from 'vitest'
+import { AuthHooksService, parseHookUri } from '../AuthHooksService'
+import { DEFAULT_AUTH_SETTINGS } from '../AuthSettingsService'
+import type { AuthHookConfig } from '../AuthSettingsService'
+import type { DatabaseManager } from '../../../database/connection'
+import type { JWTPayload } from '../../types/jwt.types'
+import { createDbManager } from '../../../../test/helpers'
+
+const claims: JWTPayload = {
+  iss: 'https://supabase-lite.local/auth/v1',
+  sub: 'user-1',
+  aud: 'authenticated',
+  exp: 2000,
+  iat: 1000,
+  role: 'authenticated',
+  aal: 'aal1',
+  session_id: 'session-1',
+  email: 'ada@example.com',
+  phone: '',
+  is_anonymous: false,
+  app_metadata: {},
+  user_metadata: {}
+}
+
+const createService = (hooks: Record<string, AuthHookConfig>, output: unknown) => {
+  const dbManager = createDbManager(() => [{ output }])
+  const service = new AuthHooksService(dbManager as unknown as DatabaseManager)
+  Object.assign(service, {
+    authSettings: { getSettings: vi.fn(async () => ({ ...DEFAULT_AUTH_SETTINGS, ...hooks })) }
+  })
+  return { service, dbManager }
+}
+
+const enabled = (uri: string): AuthHookConfig => ({ enabled: true, uri })
+
+describe('parseHookUri', () => {
+  it('should accept pg-functions URIs only', () => {
+    expect(parseHookUri('pg-functions://postgres/public/custom_access_token_hook'))
+      .toEqual({ schema: 'public', functionName: 'custom_access_token_hook' })
+    expect(parseHookUri('https://example.com/hook')).toBeNull()
+    expect(parseHookUri('pg-functions://postgres/public/hook"; drop table x')).toBeNull()
+  })
+})
+
+describe('AuthHooksService', () => {
+  it('should leave claims alone while the hook is disabled', async () => {
+    const { service, dbManager } = createService({}, null)
+
+    await expect(service.customizeAccessToken(claims, 'password')).resolves.toBe(claims)
+    expect(dbManager.query).not.toHaveBeenCalled()
+  })
+
+  it('should sign the claims the custom access token hook returns', async () => {
+    const { service, dbManager } = createService(
+      { hook_custom_access_token: enabled('pg-functions://postgres/public/custom_access_token_hook') },
+      { claims: { ...claims, user_role: 'admin' } }
+    )
+
+    const customized = await service.customizeAccessToken(claims, 'password')
+
+    expect(customized.user_role).toBe('admin')
+    expect(dbManager.query).toHaveBeenCalledWith(
+      'SELECT "public"."custom_access_token_hook"($1::jsonb) AS output',
+      [JSON.stringify({ user_id: 'user-1', claims, authentication_method: 'password' })]
+    )
+  })
+
+  it('should reject customized claims without the required ones', async () => {
+    const { service } = createService(
+      { hook_custom_access_token: enabled('pg-functions://postgres/public/custom_access_token_hook') },
+      { claims: { ...claims, role: undefined, exp: '2000' } }
+    )
+
+    await expect(service.customizeAccessToken(claims, 'password')).rejects.toMatchObject({
+      status: 500,
+      message: 'Custom access token hook returned invalid claims: exp must be a number, role must be a string'
+    })
+  })
+
+  it('should fail the request with the error a hook returns', async () => {
+    const { service } = createService(
+      { hook_custom_access_token: enabled('pg-functions://postgres/public/custom_access_token_hook') },
+      { error: { http_code: 403, message: 'Not on the allow list' } }
+    )
+
+    await expect(service.customizeAccessToken(claims, 'password'))
+      .rejects.toMatchObject({ status: 403, message: 'Not on the allow list' })
+  })
+
+  it('should pass on verification attempt decisions and validate them', async () => {
+    const { service } = createService(
+      { hook_password_verification_attempt: enabled('pg-functions://postgres/public/password_hook') },
+      { decision: 'reject', message: 'Locked', should_logout_user: true }
+    )
+    await expect(service.passwordVerificationAttempt('user-1', false))
+      .resolves.toEqual({ decision: 'reject', message: 'Locked', should_logout_user: true })
+
+    const { service: invalid } = createService(
+      { hook_mfa_verification_attempt: enabled('pg-functions://postgres/public/mfa_hook') },
+      { decision: 'maybe' }
+    )
+    await expect(invalid.mfaVerificationAttempt('user-1', 'factor-1', 'totp', true))
+      .rejects.toMatchObject({ status: 500 })
+  })
+})
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest'
+import { EmailService, renderEmailTemplate, DEFAULT_EMAIL_TEMPLATES } from '../EmailService'
+import type { DatabaseManager } from '../../../database/connection'
+import { createDbManager } from '../../../../test/helpers'
+
+const emailTemplates = (savedTemplates: Array<{ type: string; subject: string; content: string }>) =>
+  (sql: string, params: unknown[]) => (sql.includes('FROM auth.email_templates') && params.length === 0 ? savedTemplates : [])
+
+const createService = (dbManager: ReturnType<typeof createDbManager>) =>
+  new EmailService(dbManager as unknown as DatabaseManager)
+
+describe('renderEmailTemplate', () => {
+  it('should substitute variables and user metadata', () => {
+    const html = renderEmailTemplate('<p>Hi {{ .Data.name }}, code {{.Token}} for {{ .Email }}</p>', {
+      Token: '123456',
+      Email: 'ada@example.com',
+      Data: { name: 'Ada' }
+    })
+
+    expect(html).toBe('<p>Hi Ada, code 123456 for ada@example.com</p>')
+  })
+
+  it('should escape values and render unknown variables empty', () => {
+    const html = renderEmailTemplate('<a href="{{ .ConfirmationURL }}">{{ .Missing }}</a>', {
+      ConfirmationURL: 'http://localhost/verify?token=a&type=signup'
+    })
+
+    expect(html).toBe('<a href="http://localhost/verify?token=a&amp;type=signup"></a>')
+  })
+})
+
+describe('EmailService', () => {
+  it('should fall back to the default template when none is saved', async () => {
+    const service = createService(createDbManager(emailTemplates([{ type: 'recovery', subject: 'Reset', content: 'custom' }])))
+    const templates = await service.getTemplates()
+
+    expect(templates.find(t => t.type === 'recovery')).toEqual({ type: 'recovery', subject: 'Reset', content: 'custom', customized: true })
+    expect(templates.find(t => t.type === 'magic_link')).toEqual({ type: 'magic_link', ...DEFAULT_EMAIL_TEMPLATES.magic_link, customized: false })
+  })
+
+  it('should install its tables once per connection', async () => {
+    const dbManager = createDbManager()
+    const service = createService(dbManager)
+    await service.listMessages()
+    await service.listMessages()
+
+    expect(dbManager.exec).toHaveBeenCalledTimes(1)
+  })
+
+  it('should store the rendered email with a verification link', async () => {
+    const dbManager = createDbManager()
+    const message = await createService(dbManager).send({
+      template: 'magic_link',
+      recipient: 'ada@example.com',
+      email: 'ada@example.com',
+      token: '123456',
+      tokenHash: 'abc123',
+      links: { apiUrl: 'http://localhost:5173/my-project/auth/v1', redirectTo: 'http://localhost:3000/welcome' }
+    })
+
+    expect(message.action_link).toBe(
+      'http://localhost:5173/my-project/auth/v1/verify?token=abc123&type=magiclink&redirect_to=http%3A%2F%2Flocalhost%3A3000%2Fwelcome'
+    )
+    expect(message.subject).toBe('Your Magic Link')
+    expect(message.html).toContain('Alternatively, enter the code: 123456')
+    expect(message.verification_type).toBe('magiclink')
+
+    const insert = dbManager.query.mock.calls.find(([sql]) => sql.includes('INSERT INTO auth.email_messages'))
+    expect(insert?.[1]).toEqual(expect.arrayContaining(['ada@example.com', 'Your Magic Link', '123456', 'abc123']))
+  })
+})
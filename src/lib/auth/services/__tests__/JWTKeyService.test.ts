@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest'
+import { JWTKeyService } from '../JWTKeyService'
+import type { SigningKeyStatus } from '../JWTKeyService'
+import type { DatabaseManager } from '../../../database/connection'
+import { createDbManager } from '../../../../test/helpers'
+
+type KeyRow = { id: string; algorithm: string; status: SigningKeyStatus; private_jwk: object; public_jwk: object | null; created_at: string; updated_at: string }
+
+const keyRow = (id: string, status: SigningKeyStatus, algorithm = 'ES256'): KeyRow => ({
+  id,
+  algorithm,
+  status,
+  private_jwk: algorithm === 'HS256' ? { kty: 'oct', k: 'c2VjcmV0' } : { kty: 'EC', crv: 'P-256', x: 'x', y: 'y', d: 'd' },
+  public_jwk: algorithm === 'HS256' ? null : { kty: 'EC', crv: 'P-256', x: 'x', y: 'y' },
+  created_at: '2024-01-01T00:00:00.000Z',
+  updated_at: '2024-01-01T00:00:00.000Z'
+})
+
+/**
+ * An auth.jwt_signing_keys table answering the statements JWTKeyService runs
+ */
+const signingKeys = (rows: KeyRow[]) => (sql: string, params: unknown[]) => {
+  const update = sql.match(/SET status = '(\w+)', updated_at = \$1 WHERE (?:status = '(\w+)'|id = \$2)/)
+  if (update) {
+    rows.filter(row => (update[2] ? row.status === update[2] : row.id === params[1]))
+      .forEach(row => { row.status = update[1] as SigningKeyStatus })
+  } else if (sql.startsWith('DELETE')) {
+    rows.splice(rows.findIndex(row => row.id === params[0]), 1)
+  }
+  return sql.startsWith('SELECT') ? rows.map(row => ({ ...row })) : []
+}
+
+const createService = (rows: KeyRow[]) => new JWTKeyService(createDbManager(signingKeys(rows)) as unknown as DatabaseManager)
+
+describe('JWTKeyService', () => {
+  it('should rotate the standby key in and keep the old one verifying', async () => {
+    const rows = [keyRow('a', 'in_use'), keyRow('bb', 'standby', 'HS256')]
+    const service = createService(rows)
+
+    await service.rotate()
+
+    expect((await service.getCurrentKey()).id).toBe('bb')
+    expect((await service.getVerificationKeys()).map(key => [key.id, key.status]))
+      .toEqual([['a', 'previously_used'], ['bb', 'in_use']])
+  })
+
+  it('should refuse to rotate without a standby key or to add a second one', async () => {
+    const service = createService([keyRow('a', 'in_use'), keyRow('bb', 'previously_used')])
+    await expect(service.rotate()).rejects.toThrow('Create a standby key before rotating')
+
+    const withStandby = createService([keyRow('a', 'in_use'), keyRow('bb', 'standby')])
+    await expect(withStandby.createStandbyKey('ES256')).rejects.toThrow('A standby key already exists')
+  })
+
+  it('should validate shared secrets', async () => {
+    const service = createService([keyRow('a', 'in_use')])
+
+    await expect(service.createStandbyKey('HS256', 'too short')).rejects.toThrow('at least 32 characters')
+    await expect(service.createStandbyKey('RS256', 'x'.repeat(40))).rejects.toThrow('Only HS256 keys take a shared secret')
+  })
+
+  it('should only revoke previously used keys and stop verifying with them', async () => {
+    const service = createService([keyRow('a', 'in_use'), keyRow('bb', 'previously_used')])
+
+    await expect(service.revokeKey('a')).rejects.toThrow('Only previously used keys can be revoked')
+    await service.revokeKey('bb')
+
+    expect((await service.getVerificationKeys()).map(key => key.id)).toEqual(['a'])
+  })
+
+  it('should delete only standby and revoked keys', async () => {
+    const rows = [keyRow('a', 'in_use'), keyRow('bb', 'revoked')]
+    const service = createService(rows)
+
+    await expect(service.deleteKey('a')).rejects.toThrow('Only standby and revoked keys can be deleted')
+    await service.deleteKey('bb')
+
+    expect(rows.map(row => row.id)).toEqual(['a'])
+  })
+
+  it('should publish the public halves of asymmetric keys that still verify', async () => {
+    const service = createService([
+      keyRow('a', 'in_use'),
+      keyRow('bb', 'standby', 'HS256'),
+      keyRow('ccc', 'previously_used', 'RS256'),
+      keyRow('dddd', 'revoked')
+    ])
+
+    const jwks = await service.getJWKS()
+
+    expect(jwks.keys.map(key => [key.kid, key.alg])).toEqual([['a', 'ES256'], ['ccc', 'RS256']])
+    expect(jwks.keys.every(key => key.d === undefined)).toBe(true)
+  })
+
+  it('should list keys without private material, the current one first', async () => {
+    const service = createService([keyRow('bb', 'previously_used'), keyRow('a', 'in_use')])
+
+    const keys = await service.listKeys()
+
+    expect(keys.map(key => key.id)).toEqual(['a', 'bb'])
+    expect(keys[0]).not.toHaveProperty('private_jwk')
+  })
+})
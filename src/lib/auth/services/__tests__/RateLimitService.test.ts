@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { RateLimitService } from '../RateLimitService'
+import { DEFAULT_AUTH_SETTINGS } from '../AuthSettingsService'
+import type { AuthSettings } from '../AuthSettingsService'
+import type { DatabaseManager } from '../../../database/connection'
+
+const createService = (limits: Partial<AuthSettings>) => {
+  let projectId = 'project-a'
+  const dbManager = { getConnectionInfo: () => ({ id: projectId }) }
+  const service = new RateLimitService(dbManager as unknown as DatabaseManager)
+  Object.assign(service, {
+    authSettings: { getSettings: vi.fn(async () => ({ ...DEFAULT_AUTH_SETTINGS, ...limits })) }
+  })
+  return { service, switchProject: (id: string) => { projectId = id } }
+}
+
+describe('RateLimitService', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should limit requests per IP until the window passes', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date(Date.UTC(2024, 0, 1)))
+    const { service } = createService({ rate_limit_sign_in_sign_ups: 2 })
+
+    await service.limitRequest('sign_in_sign_ups', '10.0.0.1')
+    await service.limitRequest('sign_in_sign_ups', '10.0.0.1')
+    await expect(service.limitRequest('sign_in_sign_ups', '10.0.0.1'))
+      .rejects.toMatchObject({ status: 429, code: 'over_request_rate_limit', message: 'Request rate limit reached' })
+    await expect(service.limitRequest('sign_in_sign_ups', '10.0.0.2')).resolves.toBeUndefined()
+
+    vi.setSystemTime(new Date(Date.UTC(2024, 0, 1, 0, 5)))
+    await expect(service.limitRequest('sign_in_sign_ups', '10.0.0.1')).resolves.toBeUndefined()
+  })
+
+  it('should count requests naming an address per address, whatever their IP', async () => {
+    const { service } = createService({ rate_limit_token_verifications: 1 })
+
+    await service.limitRequest('token_verifications', '127.0.0.1', 'ada@example.com')
+    await expect(service.limitRequest('token_verifications', '127.0.0.1', 'ADA@example.com'))
+      .rejects.toMatchObject({ status: 429, code: 'over_request_rate_limit' })
+
+    await expect(service.limitRequest('token_verifications', '127.0.0.1', 'grace@example.com')).resolves.toBeUndefined()
+    await expect(service.limitRequest('token_verifications', '127.0.0.1', '+15555550100')).resolves.toBeUndefined()
+    await expect(service.limitRequest('token_verifications', '127.0.0.1')).resolves.toBeUndefined()
+  })
+
+  it('should keep the counters of each project apart', async () => {
+    const { service, switchProject } = createService({ rate_limit_token_refresh: 1 })
+
+    await service.limitRequest('token_refresh', '10.0.0.1')
+    await expect(service.limitRequest('token_refresh', '10.0.0.1')).rejects.toMatchObject({ status: 429 })
+
+    switchProject('project-b')
+    await expect(service.limitRequest('token_refresh', '10.0.0.1')).resolves.toBeUndefined()
+  })
+
+  it('should ask a recipient to wait before the next message', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date(Date.UTC(2024, 0, 1)))
+    const { service } = createService({ email_max_frequency: 60, rate_limit_email_sent: 10 })
+
+    await service.limitMessage('email', 'ada@example.com')
+    vi.setSystemTime(new Date(Date.UTC(2024, 0, 1, 0, 0, 15)))
+
+    await expect(service.limitMessage('email', 'Ada@example.com')).rejects.toMatchObject({
+      status: 429,
+      code: 'over_email_send_rate_limit',
+      message: 'For security purposes, you can only request this after 45 seconds.'
+    })
+    await expect(service.limitMessage('email', 'grace@example.com')).resolves.toBeUndefined()
+  })
+
+  it('should cap the messages a project sends per hour', async () => {
+    const { service } = createService({ sms_max_frequency: 0, rate_limit_sms_sent: 2 })
+
+    await service.limitMessage('sms', '+15550000001')
+    await service.limitMessage('sms', '+15550000002')
+
+    await expect(service.limitMessage('sms', '+15550000003'))
+      .rejects.toMatchObject({ status: 429, code: 'over_sms_send_rate_limit', message: 'SMS rate limit exceeded' })
+  })
+
+  it('should turn a limit of 0 off', async () => {
+    const { service } = createService({ rate_limit_email_sent: 0, email_max_frequency: 0 })
+
+    for (let i = 0; i < 5; i++) {
+      await service.limitMessage('email', 'ada@example.com')
+    }
+  })
+})
@@ -52,9 +52,25 @@ export interface RecoverPasswordRequest {
   gotrue_meta_security?: Record<string, any>
 }
 
+export interface OtpRequest {
+  email?: string
+  phone?: string
+  create_user?: boolean
+  data?: Record<string, unknown>
+  gotrue_meta_security?: Record<string, unknown>
+}
+
+export interface ResendRequest {
+  type: 'signup' | 'email_change' | 'sms' | 'phone_change'
+  email?: string
+  phone?: string
+  gotrue_meta_security?: Record<string, unknown>
+}
+
 export interface VerifyTokenRequest {
-  token: string
-  type: 'signup' | 'recovery' | 'invite' | 'email_change' | 'phone_change' | 'magiclink'
+  token?: string
+  token_hash?: string
+  type: 'signup' | 'recovery' | 'invite' | 'email_change' | 'magiclink' | 'email' | 'sms' | 'phone_change'
   email?: string
   phone?: string
   password?: string
@@ -76,14 +92,35 @@ export interface UpdateUserResponse {
 }
 
 export interface GenerateLinkRequest {
-  type: 'signup' | 'recovery' | 'invite' | 'magiclink' | 'email_change_current' | 'email_change_new' | 'phone_change'
+  type: 'signup' | 'recovery' | 'invite' | 'magiclink' | 'email_change_current' | 'email_change_new'
   email?: string
-  phone?: string
+  new_email?: string
   password?: string
   data?: Record<string, any>
   redirect_to?: string
 }
 
+export interface AdminUserRequest {
+  email?: string
+  phone?: string
+  password?: string
+  email_confirm?: boolean
+  phone_confirm?: boolean
+  user_metadata?: Record<string, unknown>
+  app_metadata?: Record<string, unknown>
+  ban_duration?: string
+  role?: string
+}
+
+export interface AdminDeleteUserRequest {
+  should_soft_delete?: boolean
+}
+
+export interface InviteRequest {
+  email: string
+  data?: Record<string, unknown>
+}
+
 export interface GenerateLinkResponse {
   action_link: string
   email_otp?: string
@@ -5,15 +5,36 @@ export interface User {
   phone?: string
   email_verified?: boolean
   phone_verified?: boolean
+  email_confirmed_at?: string
+  phone_confirmed_at?: string
+  invited_at?: string
+  banned_until?: string | null
   created_at: string
   updated_at: string
   last_sign_in_at?: string
   role?: string
   app_metadata: Record<string, any>
   user_metadata: Record<string, any>
+  identities?: UserIdentity[]
   is_anonymous: boolean
 }
 
+/**
+ * A row of auth.identities in the shape GoTrue returns it: `id` is the
+ * provider's id for the user and `identity_id` the row's own id
+ */
+export interface UserIdentity {
+  id: string
+  identity_id: string
+  user_id: string
+  identity_data: Record<string, unknown>
+  provider: string
+  email?: string
+  last_sign_in_at?: string
+  created_at: string
+  updated_at: string
+}
+
 export interface Session {
   id: string
   user_id: string
@@ -24,6 +45,11 @@ export interface Session {
   updated_at: string
 }
 
+/**
+ * Which sessions signOut() ends: the current one, all others, or all
+ */
+export type SignOutScope = 'local' | 'others' | 'global'
+
 export interface RefreshToken {
   id: string
   user_id: string
@@ -85,6 +111,19 @@ export interface UpdateUserAttributes {
   data?: Record<string, any>
 }
 
+export interface AdminUserAttributes {
+  email?: string
+  phone?: string
+  password?: string
+  email_confirm?: boolean
+  phone_confirm?: boolean
+  user_metadata?: Record<string, unknown>
+  app_metadata?: Record<string, unknown>
+  /** Go duration such as "24h", or "none" to lift a ban */
+  ban_duration?: string
+  role?: string
+}
+
 export interface AuthError extends Error {
   status: number
   code: string
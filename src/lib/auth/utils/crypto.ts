@@ -207,6 +207,35 @@ export class CryptoUtils {
     return false
   }
 
+  /**
+   * Generate a numeric one-time code for emailed OTPs
+   */
+  static generateOTP(digits: number = 6): string {
+    const randomArray = crypto.getRandomValues(new Uint32Array(digits))
+    return Array.from(randomArray, value => (value % 10).toString()).join('')
+  }
+
+  /**
+   * Hash an email/phone and OTP pair into the token_hash sent in links
+   */
+  static async generateTokenHash(emailOrPhone: string, otp: string): Promise<string> {
+    const encoder = new TextEncoder()
+    const hashBuffer = await crypto.subtle.digest('SHA-256', encoder.encode(emailOrPhone + otp))
+    return Array.from(new Uint8Array(hashBuffer), byte => byte.toString(16).padStart(2, '0')).join('')
+  }
+
+  /**
+   * Derive the S256 PKCE code challenge (base64url SHA-256) of a code verifier
+   */
+  static async generateCodeChallenge(codeVerifier: string): Promise<string> {
+    const encoder = new TextEncoder()
+    const hashBuffer = await crypto.subtle.digest('SHA-256', encoder.encode(codeVerifier))
+    return btoa(String.fromCharCode(...Array.from(new Uint8Array(hashBuffer))))
+      .replace(/\+/g, '-')
+      .replace(/\//g, '_')
+      .replace(/=/g, '')
+  }
+
   /**
    * Constant time string comparison to prevent timing attacks
    */
@@ -54,7 +54,14 @@ export const NAVIGATION_ITEMS = [
     label: 'Realtime',
     icon: 'Zap',
     path: '/realtime',
-    disabled: true,
+    disabled: false,
+  },
+  {
+    id: 'edge-functions',
+    label: 'Edge Functions',
+    icon: 'Code',
+    path: '/edge-functions',
+    disabled: false,
   },
   {
     id: 'app-hosting',
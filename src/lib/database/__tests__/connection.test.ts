@@ -273,6 +273,27 @@ describe('DatabaseManager', () => {
     })
   })
 
+  describe('Transactions', () => {
+    beforeEach(async () => {
+      await dbManager.initialize()
+      global.mockPGliteInstance.exec.mockClear()
+    })
+
+    it('should commit after all queries succeed', async () => {
+      const results = await dbManager.transaction([async () => 1, async () => 2])
+
+      expect(results).toEqual([1, 2])
+      expect(global.mockPGliteInstance.exec.mock.calls.map(([sql]: [string]) => sql)).toEqual(['BEGIN', 'COMMIT'])
+    })
+
+    it('should roll back but keep the results when asked to', async () => {
+      const results = await dbManager.transaction([async () => 'rows'], { rollback: true })
+
+      expect(results).toEqual(['rows'])
+      expect(global.mockPGliteInstance.exec.mock.calls.map(([sql]: [string]) => sql)).toEqual(['BEGIN', 'ROLLBACK'])
+    })
+  })
+
   describe('Script Execution', () => {
     beforeEach(async () => {
       global.mockPGliteInstance.exec.mockResolvedValue(undefined)
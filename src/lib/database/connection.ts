@@ -576,37 +576,17 @@ export class DatabaseManager {
     this.currentSessionContext = context;
 
     try {
-      // For service_role, bypass RLS entirely - this is critical for Supabase compatibility
-      if (context.role === 'service_role') {
-        try {
-          await this.db.query(`SET LOCAL row_security = OFF;`);
-          logger.debug('RLS disabled for service_role');
-        } catch (rlsError) {
-          logger.warn('Could not disable RLS for service_role', { error: rlsError });
-        }
-      } else {
-        // For all other roles, ensure RLS is enabled
-        try {
-          await this.db.query(`SET LOCAL row_security = ON;`);
-          logger.debug('RLS enabled for role', { role: context.role });
-        } catch (rlsError) {
-          logger.warn('Could not enable RLS', { error: rlsError });
-        }
-      }
-
-      // Try to set the role, but don't fail if it doesn't work
+      // Leave any role set earlier in this transaction, so the bookkeeping below
+      // runs with the session user's privileges
       try {
-        await this.db.query(`SET LOCAL role = '${context.role}';`);
-        logger.debug('Role set successfully', { role: context.role });
-      } catch (roleError) {
-        logger.warn('Role setting not supported, continuing with session variables only', {
-          role: context.role,
-          error: roleError
-        });
-        // Continue with session variable setting even if role setting fails
+        await this.db.query(`RESET role;`);
+      } catch (resetError) {
+        logger.warn('Could not reset role before setting session context', { error: resetError });
       }
 
-      // Set session context in _current_user table for auth functions to access
+      // Set session context in _current_user table for auth functions to access.
+      // This must happen before the role switch: inside a transaction SET LOCAL role
+      // takes effect, and the request role may not create or update this table
       try {
         // Ensure _current_user table exists
         await this.db.query(`
@@ -638,34 +618,64 @@ export class DatabaseManager {
         `, [userId, context.role, claimsJson]);
 
         logger.debug('Session context set in _current_user table', { role: context.role, userId: context.userId });
+      } catch (sessionError) {
+        logger.warn('Could not set session context in _current_user table', { error: sessionError });
+      }
 
-        // Set PostgreSQL session variables for auth.uid() function
+      // For service_role, bypass RLS entirely - this is critical for Supabase compatibility
+      if (context.role === 'service_role') {
+        try {
+          await this.db.query(`SET LOCAL row_security = OFF;`);
+          logger.debug('RLS disabled for service_role');
+        } catch (rlsError) {
+          logger.warn('Could not disable RLS for service_role', { error: rlsError });
+        }
+      } else {
+        // For all other roles, ensure RLS is enabled
         try {
-          const sessionUserId = context.role === 'service_role' ? null : (context.userId || null);
-          const claimsJson = context.claims ? JSON.stringify(context.claims) : '{}';
+          await this.db.query(`SET LOCAL row_security = ON;`);
+          logger.debug('RLS enabled for role', { role: context.role });
+        } catch (rlsError) {
+          logger.warn('Could not enable RLS', { error: rlsError });
+        }
+      }
+
+      // Try to set the role, but don't fail if it doesn't work
+      try {
+        await this.db.query(`SET LOCAL role = '${context.role}';`);
+        logger.debug('Role set successfully', { role: context.role });
+      } catch (roleError) {
+        logger.warn('Role setting not supported, continuing with session variables only', {
+          role: context.role,
+          error: roleError
+        });
+        // Continue with session variable setting even if role setting fails
+      }
 
-          await this.db.query(`
-            SELECT set_config('request.jwt.claim.sub', $1, true);
-          `, [sessionUserId || '']);
+      // Set PostgreSQL session variables for auth.uid() function
+      try {
+        const sessionUserId = context.role === 'service_role' ? null : (context.userId || null);
+        const claimsJson = context.claims ? JSON.stringify(context.claims) : '{}';
 
-          await this.db.query(`
-            SELECT set_config('request.jwt.claims', $2, true);
-          `, [claimsJson]);
+        await this.db.query(`
+          SELECT set_config('request.jwt.claim.sub', $1, true);
+        `, [sessionUserId || '']);
 
-          await this.db.query(`
-            SELECT set_config('request.jwt.claim.role', $3, true);
-          `, [context.role]);
+        await this.db.query(`
+          SELECT set_config('request.jwt.claims', $1, true);
+        `, [claimsJson]);
 
-          logger.debug('PostgreSQL session variables set for auth.uid()', {
-            role: context.role,
-            userId: context.userId,
-            hasSessionVars: true
-          });
-        } catch (sessionVarError) {
-          logger.warn('Could not set PostgreSQL session variables', { error: sessionVarError });
-        }
-      } catch (sessionError) {
-        logger.warn('Could not set session context in _current_user table', { error: sessionError });
+        await this.db.query(`
+          SELECT set_config('request.jwt.claim.role', $1, true);
+        `, [context.role]);
+
+        logger.debug('PostgreSQL session variables set for auth.uid()', {
+          role: context.role,
+          userId: context.userId,
+          hasSessionVars: true
+        });
+      } catch (sessionVarError) {
+        logger.warn('Could not set PostgreSQL session variables', { error: sessionVarError });
       }
 
       logger.debug('Session context set (with possible limitations)', {
@@ -688,6 +698,13 @@ export class DatabaseManager {
     }
 
     try {
+      // Leave the request role first; it may not update _current_user
+      try {
+        await this.db.query(`RESET role;`);
+      } catch (resetError) {
+        logger.warn('Could not reset role before clearing session context', { error: resetError });
+      }
+
       // Reset RLS to enabled (default state)
       try {
         await this.db.query(`SET LOCAL row_security = ON;`);
@@ -696,13 +713,6 @@ export class DatabaseManager {
         logger.warn('Could not reset RLS setting', { error: rlsError });
       }
 
-      // Reset to default role (anon) - handle gracefully if not supported
-      try {
-        await this.db.query(`SET LOCAL role = 'anon';`);
-      } catch (roleError) {
-        logger.warn('Could not reset role', { error: roleError });
-      }
-
       // Reset session context in _current_user table
       try {
         await this.db.query(`
@@ -716,6 +726,13 @@ export class DatabaseManager {
         logger.warn('Could not reset session context in _current_user table', { error: clearError });
       }
 
+      // Reset to default role (anon) - handle gracefully if not supported
+      try {
+        await this.db.query(`SET LOCAL role = 'anon';`);
+      } catch (roleError) {
+        logger.warn('Could not reset role', { error: roleError });
+      }
+
       this.currentSessionContext = null;
 
       logger.debug('Session context cleared (with possible limitations)');
@@ -1299,12 +1316,13 @@ export class DatabaseManager {
         }
       }
 
-      // Commit transaction
-      await this.db.exec('COMMIT');
+      // Commit transaction, or discard its effects when only the results are wanted
+      await this.db.exec(options?.rollback ? 'ROLLBACK' : 'COMMIT');
 
       const duration = performance.now() - startTime;
       logger.info('Transaction completed successfully', {
         queries: queries.length,
+        rolledBack: !!options?.rollback,
         duration
       });
 
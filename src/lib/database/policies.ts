@@ -0,0 +1,64 @@
+import type { DatabaseManager, SessionContext as DatabaseSessionContext } from './connection'
+import type { SessionContext } from '../../api/types'
+
+/**
+ * One RLS policy as listed in pg_policies
+ */
+export interface PolicyRow {
+  cmd: string
+  roles: string[]
+  permissive: string
+  qual: string | null
+  with_check: string | null
+}
+
+/**
+ * Map an API session to the database session used for RLS checks
+ */
+export function toDatabaseSession(session: SessionContext): DatabaseSessionContext {
+  return {
+    role: (session.role || 'anon') as DatabaseSessionContext['role'],
+    userId: session.userId,
+    claims: session.claims
+  }
+}
+
+/**
+ * Combine the policy expressions for one command the way Postgres does:
+ * permissive policies are OR-ed, restrictive policies are AND-ed on top
+ */
+export function combinePolicies(policies: PolicyRow[], pick: (policy: PolicyRow) => string | null): string | null {
+  const permissive = policies.filter(policy => policy.permissive === 'PERMISSIVE')
+  if (permissive.length === 0) {
+    return null
+  }
+
+  const expression = (policy: PolicyRow) => `(${pick(policy) || 'true'})`
+  const restrictive = policies.filter(policy => policy.permissive !== 'PERMISSIVE')
+
+  return [
+    `(${permissive.map(expression).join(' OR ')})`,
+    ...restrictive.map(expression)
+  ].join(' AND ')
+}
+
+/**
+ * The policies on a table that apply to a role. PGlite runs every query as
+ * a superuser, so callers evaluate them themselves.
+ */
+export async function getTablePolicies(
+  dbManager: DatabaseManager,
+  schema: string,
+  table: string,
+  role: string
+): Promise<PolicyRow[]> {
+  const result = await dbManager.query(`
+    SELECT cmd, roles::text[] AS roles, permissive, qual, with_check
+    FROM pg_policies
+    WHERE schemaname = $1 AND tablename = $2
+  `, [schema, table])
+
+  return (result.rows as PolicyRow[]).filter(policy =>
+    policy.roles.includes('public') || policy.roles.includes(role)
+  )
+}
@@ -0,0 +1,330 @@
+import { apiKeyGenerator } from '../auth/api-keys'
+import { logger } from '../infrastructure/Logger'
+import {
+  deserializeRequest,
+  deserializeResponse,
+  serializeRequest,
+  serializeResponse,
+  transferablesOf
+} from './serialization'
+import type { FunctionDeployment } from './FunctionStore'
+import type {
+  FunctionInvocation,
+  FunctionLogEntry,
+  SerializedResponse,
+  WorkerInboundMessage,
+  WorkerOutboundMessage
+} from './types'
+
+/** Wall clock limit per request, matching the hosted platform */
+const INVOCATION_TIMEOUT_MS = 150_000
+const BOOT_TIMEOUT_MS = 30_000
+const MAX_INVOCATIONS_PER_FUNCTION = 200
+
+export type FunctionInvocationErrorKind = 'boot' | 'runtime' | 'timeout'
+
+export class FunctionInvocationError extends Error {
+  readonly kind: FunctionInvocationErrorKind
+
+  constructor(kind: FunctionInvocationErrorKind, message: string) {
+    super(message)
+    this.name = 'FunctionInvocationError'
+    this.kind = kind
+  }
+}
+
+interface ActiveInvocation {
+  id: string
+  logs: FunctionLogEntry[]
+  resolve: (response: SerializedResponse) => void
+  reject: (error: FunctionInvocationError) => void
+}
+
+interface FunctionWorker {
+  projectId: string
+  name: string
+  version: number
+  worker: Worker
+  ready: Promise<void>
+  /** Tail of the invocation chain; requests to one worker run one at a time */
+  queue: Promise<unknown>
+  active: ActiveInvocation | null
+  stopped: boolean
+}
+
+type InvocationListener = (invocation: FunctionInvocation) => void
+
+function workerKey(projectId: string, name: string): string {
+  return `${projectId}:${name}`
+}
+
+/**
+ * FunctionRuntime runs deployed Edge Functions, one Web Worker per function
+ * version. Workers stay warm between requests and are replaced when a new
+ * version is deployed. Each invocation and the console output it produced is
+ * kept in a bounded in-memory log for the dashboard.
+ */
+export class FunctionRuntime {
+  private static instance: FunctionRuntime | null = null
+  private workers = new Map<string, FunctionWorker>()
+  private invocations = new Map<string, FunctionInvocation[]>()
+  private listeners = new Set<InvocationListener>()
+
+  static getInstance(): FunctionRuntime {
+    if (!FunctionRuntime.instance) {
+      FunctionRuntime.instance = new FunctionRuntime()
+    }
+    return FunctionRuntime.instance
+  }
+
+  static resetInstance(): void {
+    FunctionRuntime.instance?.stopAll()
+    FunctionRuntime.instance = null
+  }
+
+  /**
+   * Run a request through a deployed function and return its response
+   */
+  async invoke(projectId: string, deployment: FunctionDeployment, request: Request): Promise<Response> {
+    const fnWorker = await this.getWorker(projectId, deployment)
+    const serializedRequest = await serializeRequest(request)
+    const startedAt = Date.now()
+    const logs: FunctionLogEntry[] = []
+
+    const run = fnWorker.queue.catch(() => undefined).then(async () => {
+      await fnWorker.ready
+      if (fnWorker.stopped) {
+        throw new FunctionInvocationError('runtime', 'Function worker was stopped')
+      }
+      return new Promise<SerializedResponse>((resolve, reject) => {
+        const id = crypto.randomUUID()
+        const timer = setTimeout(() => {
+          reject(new FunctionInvocationError('timeout', `Function exceeded the ${INVOCATION_TIMEOUT_MS / 1000}s wall clock limit`))
+          this.stop(projectId, deployment.name)
+        }, INVOCATION_TIMEOUT_MS)
+
+        fnWorker.active = {
+          id,
+          logs,
+          resolve: (response) => {
+            clearTimeout(timer)
+            resolve(response)
+          },
+          reject: (error) => {
+            clearTimeout(timer)
+            reject(error)
+          }
+        }
+        this.post(fnWorker, { type: 'invoke', id, request: serializedRequest }, transferablesOf(serializedRequest))
+      }).finally(() => {
+        fnWorker.active = null
+      })
+    })
+    fnWorker.queue = run
+
+    const url = new URL(request.url)
+    const invocation: FunctionInvocation = {
+      id: crypto.randomUUID(),
+      functionName: deployment.name,
+      projectId,
+      method: request.method,
+      path: url.pathname + url.search,
+      status: 0,
+      durationMs: 0,
+      timestamp: new Date(startedAt).toISOString(),
+      logs
+    }
+
+    try {
+      const response = await run
+      invocation.status = response.status
+      return deserializeResponse(response)
+    } catch (error) {
+      const invocationError = error instanceof FunctionInvocationError
+        ? error
+        : new FunctionInvocationError('runtime', error instanceof Error ? error.message : String(error))
+      invocation.status = invocationError.kind === 'timeout' ? 408 : 500
+      invocation.error = invocationError.message
+      throw invocationError
+    } finally {
+      invocation.durationMs = Date.now() - startedAt
+      this.record(invocation)
+    }
+  }
+
+  /**
+   * Terminate the worker serving a function, e.g. after it was deleted
+   */
+  stop(projectId: string, name: string): void {
+    const key = workerKey(projectId, name)
+    const fnWorker = this.workers.get(key)
+    if (!fnWorker) {
+      return
+    }
+
+    this.workers.delete(key)
+    fnWorker.stopped = true
+    fnWorker.worker.terminate()
+    fnWorker.active?.reject(new FunctionInvocationError('runtime', 'Function worker was stopped'))
+    logger.debug('Edge function worker stopped', { projectId, name, version: fnWorker.version })
+  }
+
+  stopAll(): void {
+    for (const { projectId, name } of [...this.workers.values()]) {
+      this.stop(projectId, name)
+    }
+  }
+
+  getInvocations(projectId: string, name: string): FunctionInvocation[] {
+    return [...(this.invocations.get(workerKey(projectId, name)) || [])]
+  }
+
+  clearInvocations(projectId: string, name: string): void {
+    this.invocations.delete(workerKey(projectId, name))
+  }
+
+  subscribe(listener: InvocationListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private record(invocation: FunctionInvocation): void {
+    const key = workerKey(invocation.projectId, invocation.functionName)
+    const entries = this.invocations.get(key) || []
+    entries.unshift(invocation)
+    entries.length = Math.min(entries.length, MAX_INVOCATIONS_PER_FUNCTION)
+    this.invocations.set(key, entries)
+
+    this.listeners.forEach(listener => {
+      try {
+        listener(invocation)
+      } catch (error) {
+        logger.warn('Edge function invocation listener failed', { error })
+      }
+    })
+  }
+
+  private async getWorker(projectId: string, deployment: FunctionDeployment): Promise<FunctionWorker> {
+    const key = workerKey(projectId, deployment.name)
+    const existing = this.workers.get(key)
+    if (existing && existing.version === deployment.version) {
+      return existing
+    }
+    if (existing) {
+      this.stop(projectId, deployment.name)
+    }
+
+    const worker = new Worker(new URL('./function.worker.ts', import.meta.url), {
+      type: 'module',
+      name: `edge-function:${deployment.name}`
+    })
+    const fnWorker: FunctionWorker = {
+      projectId,
+      name: deployment.name,
+      version: deployment.version,
+      worker,
+      ready: Promise.resolve(),
+      queue: Promise.resolve(),
+      active: null,
+      stopped: false
+    }
+
+    fnWorker.ready = new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        reject(new FunctionInvocationError('boot', `Function did not start within ${BOOT_TIMEOUT_MS / 1000}s`))
+      }, BOOT_TIMEOUT_MS)
+
+      worker.addEventListener('message', (event: MessageEvent<WorkerOutboundMessage>) => {
+        const message = event.data
+        if (message.type === 'loaded') {
+          clearTimeout(timer)
+          resolve()
+        } else if (message.type === 'load_error') {
+          clearTimeout(timer)
+          reject(new FunctionInvocationError('boot', message.error))
+        } else {
+          this.handleWorkerMessage(fnWorker, message)
+        }
+      })
+      worker.addEventListener('error', (event: ErrorEvent) => {
+        clearTimeout(timer)
+        const error = new FunctionInvocationError('boot', event.message || 'Function worker failed')
+        reject(error)
+        fnWorker.active?.reject(error)
+      })
+    })
+    // A failed boot is reported to the invocation that awaits it; drop the worker so the next request retries
+    fnWorker.ready.catch(() => {
+      if (this.workers.get(key) === fnWorker) {
+        this.stop(projectId, deployment.name)
+      }
+    })
+
+    this.workers.set(key, fnWorker)
+    this.post(fnWorker, {
+      type: 'load',
+      code: deployment.code,
+      env: await this.buildEnv(projectId),
+      proxyOrigin: globalThis.location?.origin ?? 'http://localhost'
+    })
+
+    logger.debug('Edge function worker started', { projectId, name: deployment.name, version: deployment.version })
+    return fnWorker
+  }
+
+  private handleWorkerMessage(fnWorker: FunctionWorker, message: WorkerOutboundMessage): void {
+    const active = fnWorker.active
+
+    switch (message.type) {
+      case 'log':
+        active?.logs.push({ level: message.level, message: message.message, timestamp: new Date().toISOString() })
+        break
+      case 'response':
+        if (active?.id === message.id) {
+          active.resolve(message.response)
+        }
+        break
+      case 'invoke_error':
+        if (active?.id === message.id) {
+          active.reject(new FunctionInvocationError('runtime', message.error))
+        }
+        break
+      case 'fetch':
+        void this.proxyFetch(fnWorker, message.id, message.request)
+        break
+    }
+  }
+
+  /**
+   * Same-origin requests made by a function are replayed from the page so
+   * the API mocks intercept them
+   */
+  private async proxyFetch(
+    fnWorker: FunctionWorker,
+    id: string,
+    request: Extract<WorkerOutboundMessage, { type: 'fetch' }>['request']
+  ): Promise<void> {
+    try {
+      const response = await serializeResponse(await fetch(deserializeRequest(request)))
+      this.post(fnWorker, { type: 'fetch_result', id, response }, transferablesOf(response))
+    } catch (error) {
+      this.post(fnWorker, { type: 'fetch_result', id, error: error instanceof Error ? error.message : String(error) })
+    }
+  }
+
+  private async buildEnv(projectId: string): Promise<Record<string, string>> {
+    const origin = globalThis.location?.origin ?? 'http://localhost'
+    const keys = await apiKeyGenerator.generateApiKeys(projectId)
+    return {
+      SUPABASE_URL: `${origin}/${projectId}`,
+      SUPABASE_ANON_KEY: keys.anon,
+      SUPABASE_SERVICE_ROLE_KEY: keys.service_role
+    }
+  }
+
+  private post(fnWorker: FunctionWorker, message: WorkerInboundMessage, transfer: Transferable[] = []): void {
+    fnWorker.worker.postMessage(message, transfer)
+  }
+}
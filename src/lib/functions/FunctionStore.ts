@@ -0,0 +1,245 @@
+import { vfsManager } from '../vfs/VFSManager'
+import { logger } from '../infrastructure/Logger'
+import { transpileFunction } from './transpiler'
+import type { EdgeFunction, EdgeFunctionConfig } from './types'
+
+const FUNCTIONS_ROOT = 'functions'
+const SOURCE_FILE = 'index.ts'
+const METADATA_FILE = 'function.json'
+const BUNDLE_FILE = 'bundle.js'
+
+const FUNCTION_NAME_PATTERN = /^[A-Za-z][A-Za-z0-9_-]*$/
+
+export const DEFAULT_FUNCTION_SOURCE = `import "jsr:@supabase/functions-js/edge-runtime.d.ts"
+
+Deno.serve(async (req: Request) => {
+  const { name } = await req.json().catch(() => ({ name: 'World' }))
+
+  return new Response(
+    JSON.stringify({ message: \`Hello \${name}!\` }),
+    { headers: { 'Content-Type': 'application/json' } }
+  )
+})
+`
+
+interface FunctionMetadata extends EdgeFunctionConfig {
+  version: number
+  deployedAt?: string
+}
+
+export interface FunctionDeployment {
+  name: string
+  version: number
+  verifyJwt: boolean
+  code: string
+}
+
+/**
+ * Validate a function name; names become URL path segments and VFS directories
+ */
+export function isValidFunctionName(name: string): boolean {
+  return FUNCTION_NAME_PATTERN.test(name)
+}
+
+function functionPath(name: string, file: string): string {
+  return `${FUNCTIONS_ROOT}/${name}/${file}`
+}
+
+/**
+ * FunctionStore keeps Edge Function sources, settings and deployed bundles in
+ * the project's virtual file system under functions/<name>/
+ */
+export class FunctionStore {
+  private static instance: FunctionStore
+
+  static getInstance(): FunctionStore {
+    if (!FunctionStore.instance) {
+      FunctionStore.instance = new FunctionStore()
+    }
+    return FunctionStore.instance
+  }
+
+  async listFunctions(projectId: string): Promise<EdgeFunction[]> {
+    await vfsManager.initialize(projectId)
+
+    const files = await vfsManager.listFiles({ directory: FUNCTIONS_ROOT, recursive: true })
+    const names = new Set<string>()
+    for (const file of files) {
+      const [root, name, fileName] = file.path.split('/')
+      if (root === FUNCTIONS_ROOT && fileName === METADATA_FILE) {
+        names.add(name)
+      }
+    }
+
+    const functions = await Promise.all([...names].map(name => this.getFunction(projectId, name)))
+    return functions
+      .filter((fn): fn is EdgeFunction => fn !== null)
+      .sort((a, b) => a.name.localeCompare(b.name))
+  }
+
+  async getFunction(projectId: string, name: string): Promise<EdgeFunction | null> {
+    await vfsManager.initialize(projectId)
+
+    const metadata = await this.readMetadata(name)
+    const source = await vfsManager.readFile(functionPath(name, SOURCE_FILE))
+    if (!metadata || !source) {
+      return null
+    }
+
+    const updatedAt = new Date(source.updatedAt)
+    return {
+      name,
+      verifyJwt: metadata.verifyJwt,
+      version: metadata.version,
+      deployedAt: metadata.deployedAt,
+      createdAt: new Date(source.createdAt).toISOString(),
+      updatedAt: updatedAt.toISOString(),
+      hasUndeployedChanges: !metadata.deployedAt || updatedAt > new Date(metadata.deployedAt)
+    }
+  }
+
+  async getSource(projectId: string, name: string): Promise<string | null> {
+    await vfsManager.initialize(projectId)
+    return vfsManager.readFileContent(functionPath(name, SOURCE_FILE))
+  }
+
+  async createFunction(
+    projectId: string,
+    name: string,
+    source: string = DEFAULT_FUNCTION_SOURCE
+  ): Promise<EdgeFunction> {
+    if (!isValidFunctionName(name)) {
+      throw new Error(
+        'Function names must start with a letter and contain only letters, numbers, hyphens and underscores'
+      )
+    }
+
+    await vfsManager.initialize(projectId)
+    if (await this.readMetadata(name)) {
+      throw new Error(`Function "${name}" already exists`)
+    }
+
+    await vfsManager.createFile(functionPath(name, SOURCE_FILE), {
+      content: source,
+      mimeType: 'application/typescript',
+      createDirectories: true
+    })
+    await this.writeMetadata(name, { verifyJwt: true, version: 0 })
+
+    logger.info('Edge function created', { projectId, name })
+    return (await this.getFunction(projectId, name))!
+  }
+
+  async saveSource(projectId: string, name: string, source: string): Promise<void> {
+    await vfsManager.initialize(projectId)
+    await this.requireMetadata(name)
+    await vfsManager.updateFile(functionPath(name, SOURCE_FILE), source)
+  }
+
+  async updateConfig(projectId: string, name: string, config: Partial<EdgeFunctionConfig>): Promise<void> {
+    await vfsManager.initialize(projectId)
+    const metadata = await this.requireMetadata(name)
+    await this.writeMetadata(name, { ...metadata, ...config })
+  }
+
+  /**
+   * Transpile the saved source and make it the version served by the runtime
+   */
+  async deploy(projectId: string, name: string): Promise<EdgeFunction> {
+    await vfsManager.initialize(projectId)
+    const metadata = await this.requireMetadata(name)
+
+    const source = await vfsManager.readFileContent(functionPath(name, SOURCE_FILE))
+    if (source === null) {
+      throw new Error(`Function "${name}" has no source`)
+    }
+
+    const code = await transpileFunction(source, `${name}/${SOURCE_FILE}`)
+    await this.writeFile(functionPath(name, BUNDLE_FILE), code, 'application/javascript')
+    await this.writeMetadata(name, {
+      ...metadata,
+      version: metadata.version + 1,
+      deployedAt: new Date().toISOString()
+    })
+
+    logger.info('Edge function deployed', { projectId, name, version: metadata.version + 1 })
+    return (await this.getFunction(projectId, name))!
+  }
+
+  /**
+   * The deployed bundle served for invocations, or null when the function
+   * does not exist or was never deployed
+   */
+  async getDeployment(projectId: string, name: string): Promise<FunctionDeployment | null> {
+    if (!isValidFunctionName(name)) {
+      return null
+    }
+
+    await vfsManager.initialize(projectId)
+    const metadata = await this.readMetadata(name)
+    if (!metadata || metadata.version === 0) {
+      return null
+    }
+
+    const code = await vfsManager.readFileContent(functionPath(name, BUNDLE_FILE))
+    if (code === null) {
+      return null
+    }
+
+    return { name, version: metadata.version, verifyJwt: metadata.verifyJwt, code }
+  }
+
+  async deleteFunction(projectId: string, name: string): Promise<boolean> {
+    await vfsManager.initialize(projectId)
+    const results = await Promise.all(
+      [SOURCE_FILE, METADATA_FILE, BUNDLE_FILE].map(file => vfsManager.deleteFile(functionPath(name, file)))
+    )
+
+    if (results.some(Boolean)) {
+      logger.info('Edge function deleted', { projectId, name })
+      return true
+    }
+    return false
+  }
+
+  private async readMetadata(name: string): Promise<FunctionMetadata | null> {
+    const content = await vfsManager.readFileContent(functionPath(name, METADATA_FILE))
+    if (content === null) {
+      return null
+    }
+
+    try {
+      const parsed = JSON.parse(content) as Partial<FunctionMetadata>
+      return {
+        verifyJwt: parsed.verifyJwt !== false,
+        version: typeof parsed.version === 'number' ? parsed.version : 0,
+        deployedAt: parsed.deployedAt
+      }
+    } catch {
+      logger.warn('Ignoring malformed edge function metadata', { name })
+      return null
+    }
+  }
+
+  private async requireMetadata(name: string): Promise<FunctionMetadata> {
+    const metadata = await this.readMetadata(name)
+    if (!metadata) {
+      throw new Error(`Function "${name}" not found`)
+    }
+    return metadata
+  }
+
+  private async writeMetadata(name: string, metadata: FunctionMetadata): Promise<void> {
+    await this.writeFile(functionPath(name, METADATA_FILE), JSON.stringify(metadata, null, 2), 'application/json')
+  }
+
+  private async writeFile(path: string, content: string, mimeType: string): Promise<void> {
+    if (await vfsManager.readFile(path)) {
+      await vfsManager.updateFile(path, content)
+    } else {
+      await vfsManager.createFile(path, { content, mimeType, createDirectories: true })
+    }
+  }
+}
+
+export const functionStore = FunctionStore.getInstance()
@@ -0,0 +1,198 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import type { FunctionRuntime as FunctionRuntimeType } from '../FunctionRuntime'
+import type { FunctionDeployment } from '../FunctionStore'
+import type { WorkerInboundMessage, WorkerOutboundMessage } from '../types'
+
+vi.mock('../../auth/api-keys', () => ({
+  apiKeyGenerator: {
+    generateApiKeys: vi.fn(async () => ({ anon: 'anon-key', service_role: 'service-key' }))
+  }
+}))
+
+vi.mock('../../infrastructure/Logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    warn: vi.fn()
+  }
+}))
+
+type WorkerBehaviour = (worker: FakeWorker, message: WorkerInboundMessage) => void
+
+/**
+ * Stands in for the function worker; behaviour decides how it answers
+ */
+class FakeWorker {
+  static instances: FakeWorker[] = []
+  static behaviour: WorkerBehaviour = () => {}
+
+  received: WorkerInboundMessage[] = []
+  terminated = false
+  private listeners = new Map<string, Array<(event: { data?: unknown; message?: string }) => void>>()
+
+  constructor() {
+    FakeWorker.instances.push(this)
+  }
+
+  addEventListener(type: string, listener: (event: { data?: unknown; message?: string }) => void): void {
+    this.listeners.set(type, [...(this.listeners.get(type) || []), listener])
+  }
+
+  postMessage(message: WorkerInboundMessage): void {
+    this.received.push(message)
+    queueMicrotask(() => FakeWorker.behaviour(this, message))
+  }
+
+  emit(message: WorkerOutboundMessage): void {
+    this.listeners.get('message')?.forEach(listener => listener({ data: message }))
+  }
+
+  terminate(): void {
+    this.terminated = true
+  }
+}
+
+const encode = (text: string) => new TextEncoder().encode(text).buffer as ArrayBuffer
+const decode = (buffer: ArrayBuffer | null) => (buffer ? new TextDecoder().decode(buffer) : '')
+
+const echoBehaviour: WorkerBehaviour = (worker, message) => {
+  if (message.type === 'load') {
+    worker.emit({ type: 'loaded' })
+  } else if (message.type === 'invoke') {
+    worker.emit({ type: 'log', level: 'log', message: `handling ${message.request.method}` })
+    worker.emit({
+      type: 'response',
+      id: message.id,
+      response: {
+        status: 201,
+        statusText: 'Created',
+        headers: [['content-type', 'text/plain']],
+        body: encode(`echo:${decode(message.request.body)}`)
+      }
+    })
+  }
+}
+
+const deployment = (version: number = 1): FunctionDeployment => ({
+  name: 'hello',
+  version,
+  verifyJwt: true,
+  code: 'Deno.serve(() => new Response("hi"))'
+})
+
+describe('FunctionRuntime', () => {
+  // The test setup loads the API handlers, so import fresh modules to pick up the mocks
+  let runtime: FunctionRuntimeType
+  let FunctionInvocationError: typeof import('../FunctionRuntime').FunctionInvocationError
+
+  const post = (body: string) => new Request('http://localhost/hello', { method: 'POST', body })
+
+  beforeEach(async () => {
+    vi.resetModules()
+    FakeWorker.instances = []
+    FakeWorker.behaviour = echoBehaviour
+    vi.stubGlobal('Worker', FakeWorker)
+
+    const module = await import('../FunctionRuntime')
+    FunctionInvocationError = module.FunctionInvocationError
+    runtime = new module.FunctionRuntime()
+  })
+
+  afterEach(() => {
+    runtime.stopAll()
+    vi.unstubAllGlobals()
+    vi.useRealTimers()
+  })
+
+  it('should load the bundle with the project environment and return the function response', async () => {
+    const response = await runtime.invoke('project-1', deployment(), post('ping'))
+
+    expect(response.status).toBe(201)
+    expect(await response.text()).toBe('echo:ping')
+
+    const load = FakeWorker.instances[0].received[0]
+    expect(load).toMatchObject({
+      type: 'load',
+      code: 'Deno.serve(() => new Response("hi"))',
+      env: {
+        SUPABASE_URL: expect.stringMatching(/\/project-1$/),
+        SUPABASE_ANON_KEY: 'anon-key',
+        SUPABASE_SERVICE_ROLE_KEY: 'service-key'
+      }
+    })
+  })
+
+  it('should reuse a warm worker and replace it when a new version is deployed', async () => {
+    await runtime.invoke('project-1', deployment(1), post('a'))
+    await runtime.invoke('project-1', deployment(1), post('b'))
+    expect(FakeWorker.instances).toHaveLength(1)
+
+    await runtime.invoke('project-1', deployment(2), post('c'))
+    expect(FakeWorker.instances).toHaveLength(2)
+    expect(FakeWorker.instances[0].terminated).toBe(true)
+  })
+
+  it('should record invocations with the console output they produced', async () => {
+    const listener = vi.fn()
+    runtime.subscribe(listener)
+
+    await runtime.invoke('project-1', deployment(), post('a'))
+    await runtime.invoke('project-1', deployment(), new Request('http://localhost/hello?x=1'))
+
+    const invocations = runtime.getInvocations('project-1', 'hello')
+    expect(invocations).toHaveLength(2)
+    expect(invocations[0]).toMatchObject({ method: 'GET', path: '/hello?x=1', status: 201 })
+    expect(invocations[1].logs).toEqual([
+      expect.objectContaining({ level: 'log', message: 'handling POST' })
+    ])
+    expect(listener).toHaveBeenCalledTimes(2)
+  })
+
+  it('should surface load failures as boot errors and retry with a fresh worker', async () => {
+    FakeWorker.behaviour = (worker, message) => {
+      if (message.type === 'load') {
+        worker.emit({ type: 'load_error', error: 'Function did not register a handler with Deno.serve()' })
+      }
+    }
+
+    await expect(runtime.invoke('project-1', deployment(), post('a'))).rejects.toMatchObject({
+      kind: 'boot',
+      message: 'Function did not register a handler with Deno.serve()'
+    })
+
+    FakeWorker.behaviour = echoBehaviour
+    const response = await runtime.invoke('project-1', deployment(), post('b'))
+    expect(await response.text()).toBe('echo:b')
+    expect(FakeWorker.instances).toHaveLength(2)
+  })
+
+  it('should report errors thrown by the handler', async () => {
+    FakeWorker.behaviour = (worker, message) => {
+      if (message.type === 'load') {
+        worker.emit({ type: 'loaded' })
+      } else if (message.type === 'invoke') {
+        worker.emit({ type: 'invoke_error', id: message.id, error: 'boom' })
+      }
+    }
+
+    const error = await runtime.invoke('project-1', deployment(), post('a')).catch((e: unknown) => e)
+
+    expect(error).toBeInstanceOf(FunctionInvocationError)
+    expect(error).toMatchObject({ kind: 'runtime', message: 'boom' })
+    expect(runtime.getInvocations('project-1', 'hello')[0]).toMatchObject({ status: 500, error: 'boom' })
+  })
+
+  it('should stop functions that exceed the wall clock limit', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] })
+    FakeWorker.behaviour = (worker, message) => {
+      if (message.type === 'load') {
+        worker.emit({ type: 'loaded' })
+      }
+    }
+
+    const pending = runtime.invoke('project-1', deployment(), post('a')).catch((e: unknown) => e)
+    await vi.advanceTimersByTimeAsync(150_000)
+
+    expect(await pending).toMatchObject({ kind: 'timeout' })
+    expect(FakeWorker.instances[0].terminated).toBe(true)
+  })
+})
@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import type { FunctionStore as FunctionStoreType } from '../FunctionStore'
+
+interface StoredFile {
+  path: string
+  content: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+const files = new Map<string, StoredFile>()
+
+const mockVfs = {
+  initialize: vi.fn(async () => {}),
+  readFile: vi.fn(async (path: string) => files.get(path) || null),
+  readFileContent: vi.fn(async (path: string) => files.get(path)?.content ?? null),
+  createFile: vi.fn(async (path: string, options: { content: string }) => {
+    if (files.has(path)) {
+      throw new Error('File already exists')
+    }
+    const now = new Date()
+    files.set(path, { path, content: options.content, createdAt: now, updatedAt: now })
+  }),
+  updateFile: vi.fn(async (path: string, content: string) => {
+    const file = files.get(path)
+    if (!file) {
+      throw new Error('File not found')
+    }
+    files.set(path, { ...file, content, updatedAt: new Date() })
+  }),
+  deleteFile: vi.fn(async (path: string) => files.delete(path)),
+  listFiles: vi.fn(async ({ directory }: { directory: string }) =>
+    [...files.values()].filter(file => file.path.startsWith(`${directory}/`))
+  )
+}
+
+vi.mock('../../vfs/VFSManager', () => ({
+  vfsManager: mockVfs
+}))
+
+vi.mock('../transpiler', () => ({
+  transpileFunction: vi.fn(async (source: string) => `// compiled\n${source}`)
+}))
+
+vi.mock('../../infrastructure/Logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn()
+  }
+}))
+
+describe('FunctionStore', () => {
+  // The test setup loads the API handlers, so import fresh modules to pick up the mocks
+  let store: FunctionStoreType
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    vi.resetModules()
+    files.clear()
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date(Date.UTC(2024, 0, 1)))
+
+    const { FunctionStore } = await import('../FunctionStore')
+    store = new FunctionStore()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should create functions as undeployed drafts under functions/<name>/', async () => {
+    const fn = await store.createFunction('project-1', 'hello', 'Deno.serve(() => new Response("hi"))')
+
+    expect(mockVfs.initialize).toHaveBeenCalledWith('project-1')
+    expect(files.get('functions/hello/index.ts')?.content).toBe('Deno.serve(() => new Response("hi"))')
+    expect(fn).toMatchObject({ name: 'hello', version: 0, verifyJwt: true, hasUndeployedChanges: true })
+    expect(await store.getDeployment('project-1', 'hello')).toBeNull()
+  })
+
+  it('should reject invalid and duplicate names', async () => {
+    await expect(store.createFunction('project-1', '../escape')).rejects.toThrow('Function names must start with a letter')
+    await store.createFunction('project-1', 'hello')
+    await expect(store.createFunction('project-1', 'hello')).rejects.toThrow('Function "hello" already exists')
+  })
+
+  it('should deploy the saved source as a new version', async () => {
+    await store.createFunction('project-1', 'hello', 'v1')
+    vi.setSystemTime(new Date(Date.UTC(2024, 0, 2)))
+    await store.deploy('project-1', 'hello')
+
+    vi.setSystemTime(new Date(Date.UTC(2024, 0, 3)))
+    await store.saveSource('project-1', 'hello', 'v2')
+    vi.setSystemTime(new Date(Date.UTC(2024, 0, 4)))
+    const deployed = await store.deploy('project-1', 'hello')
+
+    expect(deployed).toMatchObject({ version: 2, hasUndeployedChanges: false })
+    expect(await store.getDeployment('project-1', 'hello')).toEqual({
+      name: 'hello',
+      version: 2,
+      verifyJwt: true,
+      code: '// compiled\nv2'
+    })
+  })
+
+  it('should report undeployed changes when the source is newer than the deployment', async () => {
+    await store.createFunction('project-1', 'hello', 'v1')
+    await store.deploy('project-1', 'hello')
+    vi.setSystemTime(new Date(Date.UTC(2024, 0, 2)))
+    await store.saveSource('project-1', 'hello', 'v2')
+
+    expect((await store.getFunction('project-1', 'hello'))?.hasUndeployedChanges).toBe(true)
+  })
+
+  it('should persist the verify JWT setting in the deployment', async () => {
+    await store.createFunction('project-1', 'webhook')
+    await store.updateConfig('project-1', 'webhook', { verifyJwt: false })
+    await store.deploy('project-1', 'webhook')
+
+    expect((await store.getDeployment('project-1', 'webhook'))?.verifyJwt).toBe(false)
+  })
+
+  it('should list functions by name and delete every file of a function', async () => {
+    await store.createFunction('project-1', 'zeta')
+    await store.createFunction('project-1', 'alpha')
+    await store.deploy('project-1', 'alpha')
+
+    expect((await store.listFunctions('project-1')).map(fn => fn.name)).toEqual(['alpha', 'zeta'])
+
+    expect(await store.deleteFunction('project-1', 'alpha')).toBe(true)
+    expect([...files.keys()].some(path => path.startsWith('functions/alpha/'))).toBe(false)
+    expect((await store.listFunctions('project-1')).map(fn => fn.name)).toEqual(['zeta'])
+  })
+})
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest'
+import { resolveImportSpecifier, rewriteImports, transpileFunction, TranspileError } from '../transpiler'
+
+describe('resolveImportSpecifier', () => {
+  it('should map npm and jsr specifiers to the ESM CDN', () => {
+    expect(resolveImportSpecifier('npm:@supabase/supabase-js@2')).toBe('https://esm.sh/@supabase/supabase-js@2')
+    expect(resolveImportSpecifier('jsr:@std/path@1')).toBe('https://esm.sh/jsr/@std/path@1')
+    expect(resolveImportSpecifier('node:buffer')).toBe('https://esm.sh/node:buffer')
+  })
+
+  it('should drop type declaration imports', () => {
+    expect(resolveImportSpecifier('jsr:@supabase/functions-js/edge-runtime.d.ts')).toBeNull()
+  })
+
+  it('should leave URL imports untouched', () => {
+    expect(resolveImportSpecifier('https://deno.land/x/cors/mod.ts')).toBe('https://deno.land/x/cors/mod.ts')
+  })
+})
+
+describe('rewriteImports', () => {
+  it('should rewrite static, re-export and dynamic imports', () => {
+    const code = [
+      'import "jsr:@supabase/functions-js/edge-runtime.d.ts";',
+      "import { createClient } from 'npm:@supabase/supabase-js@2';",
+      "export { join } from 'jsr:@std/path';",
+      "const mod = await import('npm:zod');"
+    ].join('\n')
+
+    expect(rewriteImports(code)).toBe([
+      '',
+      "import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';",
+      "export { join } from 'https://esm.sh/jsr/@std/path';",
+      "const mod = await import('https://esm.sh/zod');"
+    ].join('\n'))
+  })
+
+  it('should not touch string literals that are not imports', () => {
+    const code = "const label = 'npm:zod'"
+    expect(rewriteImports(code)).toBe(code)
+  })
+})
+
+describe('transpileFunction', () => {
+  it('should strip types and rewrite imports', async () => {
+    const source = [
+      'import "jsr:@supabase/functions-js/edge-runtime.d.ts"',
+      "import { createClient } from 'npm:@supabase/supabase-js@2'",
+      'interface Body { name: string }',
+      'Deno.serve(async (req: Request) => {',
+      '  const { name } = (await req.json()) as Body',
+      '  return new Response(name, { headers: { "x-client": String(createClient) } })',
+      '})'
+    ].join('\n')
+
+    const code = await transpileFunction(source)
+
+    expect(code).not.toContain('interface Body')
+    expect(code).not.toContain('edge-runtime.d.ts')
+    expect(code).toContain("from 'https://esm.sh/@supabase/supabase-js@2'")
+    expect(code).toContain('Deno.serve(async (req) =>')
+  })
+
+  it('should report syntax errors with their location', async () => {
+    await expect(transpileFunction('Deno.serve((req) => {', 'hello/index.ts')).rejects.toSatisfy(
+      (error: unknown) =>
+        error instanceof TranspileError && error.diagnostics.some(message => message.startsWith('hello/index.ts:1:'))
+    )
+  })
+})
@@ -0,0 +1,192 @@
+/**
+ * Edge Function worker - hosts one deployed function version in isolation.
+ *
+ * Provides a minimal Deno global (Deno.serve, Deno.env) for the function
+ * module, forwards console output to the runtime and proxies same-origin
+ * fetches back to the page so they reach the mocked Supabase APIs.
+ */
+
+import {
+  deserializeRequest,
+  deserializeResponse,
+  serializeRequest,
+  serializeResponse,
+  transferablesOf
+} from './serialization'
+import type { FunctionLogLevel, SerializedResponse, WorkerInboundMessage, WorkerOutboundMessage } from './types'
+
+type ServeHandler = (request: Request, info: { remoteAddr: { hostname: string; port: number } }) => Response | Promise<Response>
+
+interface ServeOptions {
+  handler?: ServeHandler
+  port?: number
+  hostname?: string
+  onListen?: (addr: { hostname: string; port: number }) => void
+}
+
+interface WorkerScope {
+  postMessage(message: WorkerOutboundMessage, transfer?: Transferable[]): void
+  addEventListener(type: 'message', listener: (event: MessageEvent<WorkerInboundMessage>) => void): void
+}
+
+const scope = self as unknown as WorkerScope
+const nativeFetch = globalThis.fetch.bind(globalThis)
+const pendingFetches = new Map<string, { resolve: (response: SerializedResponse) => void; reject: (error: Error) => void }>()
+const remoteAddr = { hostname: '127.0.0.1', port: 0 }
+
+let handler: ServeHandler | null = null
+
+function post(message: WorkerOutboundMessage, transfer: Transferable[] = []): void {
+  scope.postMessage(message, transfer)
+}
+
+function formatLogArgument(value: unknown): string {
+  if (typeof value === 'string') {
+    return value
+  }
+  if (value instanceof Error) {
+    return value.stack || `${value.name}: ${value.message}`
+  }
+  try {
+    return JSON.stringify(value)
+  } catch {
+    return String(value)
+  }
+}
+
+function installConsole(): void {
+  const levels: FunctionLogLevel[] = ['log', 'info', 'warn', 'error', 'debug']
+  for (const level of levels) {
+    console[level] = (...args: unknown[]) => {
+      post({ type: 'log', level, message: args.map(formatLogArgument).join(' ') })
+    }
+  }
+}
+
+function installFetchProxy(proxyOrigin: string): void {
+  globalThis.fetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const request = new Request(input, init)
+    if (new URL(request.url).origin !== proxyOrigin) {
+      return nativeFetch(request)
+    }
+
+    const id = crypto.randomUUID()
+    const serialized = await serializeRequest(request)
+    const response = await new Promise<SerializedResponse>((resolve, reject) => {
+      pendingFetches.set(id, { resolve, reject })
+      post({ type: 'fetch', id, request: serialized }, transferablesOf(serialized))
+    })
+    return deserializeResponse(response)
+  }
+}
+
+function installDeno(env: Record<string, string>): void {
+  const variables = new Map(Object.entries(env))
+
+  const serve = (optionsOrHandler: ServeOptions | ServeHandler, maybeHandler?: ServeHandler) => {
+    const options = typeof optionsOrHandler === 'function' ? {} : optionsOrHandler
+    const serveHandler = typeof optionsOrHandler === 'function' ? optionsOrHandler : maybeHandler || options.handler
+    if (typeof serveHandler !== 'function') {
+      throw new TypeError('Deno.serve requires a handler function')
+    }
+
+    handler = serveHandler
+    options.onListen?.({ hostname: remoteAddr.hostname, port: options.port ?? 8000 })
+
+    return {
+      finished: new Promise<void>(() => {}),
+      addr: { transport: 'tcp', hostname: remoteAddr.hostname, port: options.port ?? 8000 },
+      shutdown: async () => {
+        handler = null
+      },
+      ref: () => {},
+      unref: () => {}
+    }
+  }
+
+  Object.defineProperty(globalThis, 'Deno', {
+    configurable: true,
+    value: {
+      serve,
+      env: {
+        get: (key: string) => variables.get(key),
+        set: (key: string, value: string) => {
+          variables.set(key, value)
+        },
+        has: (key: string) => variables.has(key),
+        delete: (key: string) => {
+          variables.delete(key)
+        },
+        toObject: () => Object.fromEntries(variables)
+      }
+    }
+  })
+}
+
+async function load(code: string, env: Record<string, string>, proxyOrigin: string): Promise<void> {
+  installConsole()
+  installFetchProxy(proxyOrigin)
+  installDeno(env)
+
+  const moduleUrl = URL.createObjectURL(new Blob([code], { type: 'text/javascript' }))
+  try {
+    await import(/* @vite-ignore */ moduleUrl)
+  } finally {
+    URL.revokeObjectURL(moduleUrl)
+  }
+
+  if (!handler) {
+    throw new Error('Function did not register a handler with Deno.serve()')
+  }
+}
+
+async function invoke(message: Extract<WorkerInboundMessage, { type: 'invoke' }>): Promise<void> {
+  const { id } = message
+  if (!handler) {
+    post({ type: 'invoke_error', id, error: 'Function is not serving requests' })
+    return
+  }
+
+  try {
+    const response = await handler(deserializeRequest(message.request), { remoteAddr })
+    if (!(response instanceof Response)) {
+      throw new TypeError('Return value from serve handler must be a response or a promise resolving to a response')
+    }
+    const serialized = await serializeResponse(response)
+    post({ type: 'response', id, response: serialized }, transferablesOf(serialized))
+  } catch (error) {
+    const text = error instanceof Error ? error.stack || error.message : String(error)
+    post({ type: 'log', level: 'error', message: text })
+    post({ type: 'invoke_error', id, error: error instanceof Error ? error.message : String(error) })
+  }
+}
+
+scope.addEventListener('message', (event) => {
+  const message = event.data
+
+  switch (message.type) {
+    case 'load':
+      load(message.code, message.env, message.proxyOrigin)
+        .then(() => post({ type: 'loaded' }))
+        .catch((error: unknown) => {
+          post({ type: 'load_error', error: error instanceof Error ? error.message : String(error) })
+        })
+      break
+    case 'invoke':
+      void invoke(message)
+      break
+    case 'fetch_result': {
+      const pending = pendingFetches.get(message.id)
+      if (!pending) {
+        break
+      }
+      pendingFetches.delete(message.id)
+      if (message.response) {
+        pending.resolve(message.response)
+      } else {
+        pending.reject(new TypeError(message.error || 'fetch failed'))
+      }
+      break
+    }
+  }
+})
@@ -0,0 +1,4 @@
+export { FunctionStore, functionStore, isValidFunctionName, DEFAULT_FUNCTION_SOURCE, type FunctionDeployment } from './FunctionStore'
+export { FunctionRuntime, FunctionInvocationError, type FunctionInvocationErrorKind } from './FunctionRuntime'
+export { transpileFunction, rewriteImports, resolveImportSpecifier, TranspileError } from './transpiler'
+export type * from './types'
@@ -0,0 +1,52 @@
+import type { SerializedRequest, SerializedResponse } from './types'
+
+/**
+ * Helpers to move Fetch API requests and responses across the worker
+ * boundary; bodies are buffered and sent as transferable ArrayBuffers
+ */
+
+const BODYLESS_METHODS = new Set(['GET', 'HEAD'])
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304])
+
+export async function serializeRequest(request: Request): Promise<SerializedRequest> {
+  const body = BODYLESS_METHODS.has(request.method.toUpperCase()) ? null : await request.arrayBuffer()
+  return {
+    url: request.url,
+    method: request.method,
+    headers: [...request.headers.entries()],
+    body: body && body.byteLength > 0 ? body : null
+  }
+}
+
+export function deserializeRequest(request: SerializedRequest): Request {
+  return new Request(request.url, {
+    method: request.method,
+    headers: request.headers,
+    body: BODYLESS_METHODS.has(request.method.toUpperCase()) ? null : request.body
+  })
+}
+
+export async function serializeResponse(response: Response): Promise<SerializedResponse> {
+  const body = await response.arrayBuffer()
+  return {
+    status: response.status,
+    statusText: response.statusText,
+    headers: [...response.headers.entries()],
+    body: body.byteLength > 0 ? body : null
+  }
+}
+
+export function deserializeResponse(response: SerializedResponse): Response {
+  return new Response(NULL_BODY_STATUSES.has(response.status) ? null : response.body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers
+  })
+}
+
+/**
+ * Buffers that should be transferred rather than copied with a message
+ */
+export function transferablesOf(message: { body: ArrayBuffer | null }): Transferable[] {
+  return message.body ? [message.body] : []
+}
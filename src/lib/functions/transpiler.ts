@@ -0,0 +1,108 @@
+/**
+ * Transpiles Edge Function sources from TypeScript to browser-loadable
+ * JavaScript and rewrites Deno-style import specifiers to ESM CDN URLs
+ */
+
+const ESM_CDN = 'https://esm.sh'
+
+type TypeScriptModule = typeof import('typescript')
+
+let typescriptPromise: Promise<TypeScriptModule> | null = null
+
+/**
+ * The compiler is large, so it is only loaded the first time a function is deployed
+ */
+function loadTypeScript(): Promise<TypeScriptModule> {
+  if (!typescriptPromise) {
+    typescriptPromise = import('typescript').then(module =>
+      ('default' in module && module.default ? module.default : module) as TypeScriptModule
+    )
+  }
+  return typescriptPromise
+}
+
+export class TranspileError extends Error {
+  readonly diagnostics: string[]
+
+  constructor(message: string, diagnostics: string[]) {
+    super(message)
+    this.name = 'TranspileError'
+    this.diagnostics = diagnostics
+  }
+}
+
+/**
+ * Map a Deno import specifier to one the browser can load, or null when the
+ * import only carries types and should be dropped
+ */
+export function resolveImportSpecifier(specifier: string): string | null {
+  if (specifier.endsWith('.d.ts')) {
+    return null
+  }
+  if (specifier.startsWith('npm:')) {
+    return `${ESM_CDN}/${specifier.slice('npm:'.length)}`
+  }
+  if (specifier.startsWith('jsr:')) {
+    return `${ESM_CDN}/jsr/${specifier.slice('jsr:'.length)}`
+  }
+  if (specifier.startsWith('node:')) {
+    return `${ESM_CDN}/${specifier}`
+  }
+  return specifier
+}
+
+const STATIC_IMPORT_PATTERN = /^(\s*(?:import|export)\b[^'"]*?\bfrom\s*|\s*import\s*)(['"])([^'"]+)\2\s*;?/gm
+const DYNAMIC_IMPORT_PATTERN = /\bimport\(\s*(['"])([^'"]+)\1\s*\)/g
+
+/**
+ * Rewrite import and re-export specifiers in transpiled output
+ */
+export function rewriteImports(code: string): string {
+  return code
+    .replace(STATIC_IMPORT_PATTERN, (statement: string, prefix: string, quote: string, specifier: string) => {
+      const resolved = resolveImportSpecifier(specifier)
+      if (resolved === null) {
+        return ''
+      }
+      return statement.replace(`${prefix}${quote}${specifier}${quote}`, `${prefix}${quote}${resolved}${quote}`)
+    })
+    .replace(DYNAMIC_IMPORT_PATTERN, (expression: string, quote: string, specifier: string) => {
+      const resolved = resolveImportSpecifier(specifier) ?? specifier
+      return `import(${quote}${resolved}${quote})`
+    })
+}
+
+/**
+ * Transpile a function's TypeScript source into an ES module
+ */
+export async function transpileFunction(source: string, fileName: string = 'index.ts'): Promise<string> {
+  const ts = await loadTypeScript()
+
+  const result = ts.transpileModule(source, {
+    fileName,
+    reportDiagnostics: true,
+    compilerOptions: {
+      target: ts.ScriptTarget.ES2022,
+      module: ts.ModuleKind.ESNext,
+      jsx: ts.JsxEmit.React,
+      isolatedModules: true
+    }
+  })
+
+  const errors = (result.diagnostics || []).filter(
+    diagnostic => diagnostic.category === ts.DiagnosticCategory.Error
+  )
+  if (errors.length > 0) {
+    const messages = errors.map(diagnostic => {
+      const text = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n')
+      if (diagnostic.file && diagnostic.start !== undefined) {
+        const { line, character } = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start)
+        return `${fileName}:${line + 1}:${character + 1} - ${text}`
+      }
+      return text
+    })
+    throw new TranspileError(`Failed to compile ${fileName}`, messages)
+  }
+
+  return rewriteImports(result.outputText)
+}
@@ -0,0 +1,71 @@
+/**
+ * Edge Functions types - stored function metadata, invocation logs and the
+ * message protocol between the runtime and function workers
+ */
+
+export interface EdgeFunctionConfig {
+  /** Require a valid JWT in the Authorization header, like `verify_jwt` in config.toml */
+  verifyJwt: boolean
+}
+
+export interface EdgeFunction extends EdgeFunctionConfig {
+  name: string
+  createdAt: string
+  updatedAt: string
+  /** Incremented on every deploy; 0 until the function is first deployed */
+  version: number
+  deployedAt?: string
+  /** Whether the saved source differs from the deployed bundle */
+  hasUndeployedChanges: boolean
+}
+
+export type FunctionLogLevel = 'log' | 'info' | 'warn' | 'error' | 'debug'
+
+export interface FunctionLogEntry {
+  level: FunctionLogLevel
+  message: string
+  timestamp: string
+}
+
+export interface FunctionInvocation {
+  id: string
+  functionName: string
+  projectId: string
+  method: string
+  path: string
+  status: number
+  durationMs: number
+  timestamp: string
+  logs: FunctionLogEntry[]
+  error?: string
+}
+
+/**
+ * Request and response shapes that can cross the worker boundary
+ */
+export interface SerializedRequest {
+  url: string
+  method: string
+  headers: Array<[string, string]>
+  body: ArrayBuffer | null
+}
+
+export interface SerializedResponse {
+  status: number
+  statusText: string
+  headers: Array<[string, string]>
+  body: ArrayBuffer | null
+}
+
+export type WorkerInboundMessage =
+  | { type: 'load'; code: string; env: Record<string, string>; proxyOrigin: string }
+  | { type: 'invoke'; id: string; request: SerializedRequest }
+  | { type: 'fetch_result'; id: string; response?: SerializedResponse; error?: string }
+
+export type WorkerOutboundMessage =
+  | { type: 'loaded' }
+  | { type: 'load_error'; error: string }
+  | { type: 'response'; id: string; response: SerializedResponse }
+  | { type: 'invoke_error'; id: string; error: string }
+  | { type: 'log'; level: FunctionLogLevel; message: string }
+  | { type: 'fetch'; id: string; request: SerializedRequest }
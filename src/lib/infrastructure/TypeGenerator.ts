@@ -4,7 +4,8 @@ import type {
   TableMetadata, 
   ColumnMetadata, 
   FunctionMetadata,
-  ForeignKeyMetadata 
+  ForeignKeyMetadata,
+  ViewMetadata
 } from '@/types/infrastructure';
 import { DatabaseManager } from '../database/connection';
 import { logger } from './Logger';
@@ -202,8 +203,11 @@ ${table.columns.map(col => `  ${col.name}?: ${this.getTypeScriptType(col)};`).jo
       : '';
   }
 
-  private async getDatabaseSchema(): Promise<DatabaseSchema> {
+  // Introspect tables, views and functions, optionally limited to one schema
+  async getDatabaseSchema(schema?: string): Promise<DatabaseSchema> {
     try {
+      const schemaParams = schema ? [schema] : [];
+
       // Get all tables
       const tablesResult = await this.dbManager.query(`
         SELECT 
@@ -211,9 +215,9 @@ ${table.columns.map(col => `  ${col.name}?: ${this.getTypeScriptType(col)};`).jo
           tablename,
           tableowner
         FROM pg_tables 
-        WHERE schemaname NOT IN ('information_schema', 'pg_catalog', 'pg_toast')
+        WHERE ${schema ? 'schemaname = $1' : "schemaname NOT IN ('information_schema', 'pg_catalog', 'pg_toast')"}
         ORDER BY schemaname, tablename
-      `);
+      `, schemaParams);
 
       const tables: TableMetadata[] = [];
       
@@ -242,10 +246,10 @@ ${table.columns.map(col => `  ${col.name}?: ${this.getTypeScriptType(col)};`).jo
           p.prolang as language
         FROM pg_proc p
         JOIN pg_namespace n ON p.pronamespace = n.oid
-        WHERE n.nspname NOT IN ('information_schema', 'pg_catalog', 'pg_toast')
+        WHERE ${schema ? 'n.nspname = $1' : "n.nspname NOT IN ('information_schema', 'pg_catalog', 'pg_toast')"}
           AND p.prokind = 'f'
         ORDER BY n.nspname, p.proname
-      `);
+      `, schemaParams);
 
       const functions: FunctionMetadata[] = functionsResult.rows.map(row => ({
         name: row.name,
@@ -255,9 +259,31 @@ ${table.columns.map(col => `  ${col.name}?: ${this.getTypeScriptType(col)};`).jo
         language: row.language === 14 ? 'sql' : 'plpgsql', // Simplified
       }));
 
+      // Get views
+      const viewsResult = await this.dbManager.query(`
+        SELECT 
+          schemaname,
+          viewname,
+          definition
+        FROM pg_views 
+        WHERE ${schema ? 'schemaname = $1' : "schemaname NOT IN ('information_schema', 'pg_catalog', 'pg_toast')"}
+        ORDER BY schemaname, viewname
+      `, schemaParams);
+
+      const views: ViewMetadata[] = [];
+
+      for (const viewRow of viewsResult.rows as { schemaname: string; viewname: string; definition: string }[]) {
+        views.push({
+          name: viewRow.viewname,
+          schema: viewRow.schemaname,
+          definition: viewRow.definition,
+          columns: await this.getTableColumns(viewRow.viewname, viewRow.schemaname),
+        });
+      }
+
       return {
         tables,
-        views: [], // Would need additional implementation
+        views,
         functions,
         schemas: [...new Set(tables.map(t => t.schema))],
       };
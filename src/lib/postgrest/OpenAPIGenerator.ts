@@ -0,0 +1,393 @@
+import type { DatabaseManager } from '../database/connection'
+import type { ColumnMetadata, TableMetadata, ViewMetadata } from '@/types/infrastructure'
+import { InfrastructureTypeGenerator } from '../infrastructure/TypeGenerator'
+import { getFunctionListQuery, parseArgumentTypes, type DatabaseFunction } from '../utils/functionDiscovery'
+import { PostgRESTQueryError } from './PostgRESTErrorMapper'
+
+/** PostgREST release whose OpenAPI output this document follows */
+const POSTGREST_VERSION = '12.2.0'
+
+const MIME_TYPES = [
+  'application/json',
+  'application/vnd.pgrst.object+json;nulls=stripped',
+  'application/vnd.pgrst.object+json',
+  'text/csv'
+]
+
+export interface OpenAPISchema {
+  type?: string
+  format?: string
+  description?: string
+  maxLength?: number
+  items?: OpenAPISchema
+  properties?: Record<string, OpenAPISchema>
+  required?: string[]
+  $ref?: string
+}
+
+export interface OpenAPIParameter {
+  name?: string
+  in?: 'query' | 'header' | 'body'
+  description?: string
+  required?: boolean
+  type?: string
+  format?: string
+  default?: string
+  enum?: string[]
+  schema?: OpenAPISchema
+  $ref?: string
+}
+
+export interface OpenAPIOperation {
+  summary?: string
+  description?: string
+  tags: string[]
+  produces?: string[]
+  parameters?: OpenAPIParameter[]
+  responses: Record<string, { description: string, schema?: OpenAPISchema }>
+}
+
+export interface OpenAPIDocument {
+  swagger: '2.0'
+  info: { title: string, description: string, version: string }
+  host: string
+  basePath: string
+  schemes: string[]
+  consumes: string[]
+  produces: string[]
+  paths: Record<string, Partial<Record<'get' | 'post' | 'patch' | 'delete', OpenAPIOperation>>>
+  definitions: Record<string, OpenAPISchema>
+  parameters: Record<string, OpenAPIParameter>
+  externalDocs: { description: string, url: string }
+}
+
+export interface OpenAPIServerInfo {
+  host: string
+  basePath: string
+  scheme: string
+}
+
+const COMMON_PARAMETERS: Record<string, OpenAPIParameter> = {
+  preferParams: {
+    name: 'Prefer',
+    description: 'Preference',
+    required: false,
+    enum: ['params=single-object'],
+    in: 'header',
+    type: 'string'
+  },
+  preferReturn: {
+    name: 'Prefer',
+    description: 'Preference',
+    required: false,
+    enum: ['return=representation', 'return=minimal', 'return=headers-only'],
+    in: 'header',
+    type: 'string'
+  },
+  preferCount: {
+    name: 'Prefer',
+    description: 'Preference',
+    required: false,
+    enum: ['count=exact', 'count=planned', 'count=estimated'],
+    in: 'header',
+    type: 'string'
+  },
+  preferPost: {
+    name: 'Prefer',
+    description: 'Preference',
+    required: false,
+    enum: [
+      'return=representation',
+      'return=minimal',
+      'return=headers-only',
+      'resolution=ignore-duplicates',
+      'resolution=merge-duplicates',
+      'missing=default'
+    ],
+    in: 'header',
+    type: 'string'
+  },
+  select: { name: 'select', description: 'Filtering Columns', required: false, in: 'query', type: 'string' },
+  on_conflict: { name: 'on_conflict', description: 'On Conflict', required: false, in: 'query', type: 'string' },
+  columns: { name: 'columns', description: 'Inserted Columns', required: false, in: 'query', type: 'string' },
+  order: { name: 'order', description: 'Ordering', required: false, in: 'query', type: 'string' },
+  range: { name: 'Range', description: 'Limiting and Pagination', required: false, in: 'header', type: 'string' },
+  rangeUnit: {
+    name: 'Range-Unit',
+    description: 'Limiting and Pagination',
+    required: false,
+    default: 'items',
+    in: 'header',
+    type: 'string'
+  },
+  offset: { name: 'offset', description: 'Limiting and Pagination', required: false, in: 'query', type: 'string' },
+  limit: { name: 'limit', description: 'Limiting and Pagination', required: false, in: 'query', type: 'string' }
+}
+
+const ref = (name: string): OpenAPIParameter => ({ $ref: `#/parameters/${name}` })
+
+/**
+ * Builds the OpenAPI 2.0 description PostgREST serves at the API root from
+ * the live catalog of one schema: a path per table, view and function, a
+ * definition per table and view, and the shared query/header parameters.
+ * Views are described as read-only. Only the exposed schemas can be described.
+ */
+export class OpenAPIGenerator {
+  private dbManager: DatabaseManager
+  private typeGenerator: InfrastructureTypeGenerator
+  private exposedSchemas: string[]
+
+  constructor(dbManager: DatabaseManager, exposedSchemas: string[] = ['public']) {
+    this.dbManager = dbManager
+    this.typeGenerator = new InfrastructureTypeGenerator(dbManager)
+    this.exposedSchemas = exposedSchemas
+  }
+
+  async generate(schema: string, server: OpenAPIServerInfo): Promise<OpenAPIDocument> {
+    await this.assertSchemaExposed(schema)
+
+    const { tables, views } = await this.typeGenerator.getDatabaseSchema(schema)
+    const functionQuery = getFunctionListQuery(schema)
+    const functionsResult = await this.dbManager.query(functionQuery.sql, functionQuery.params)
+    const functions = (functionsResult.rows as DatabaseFunction[])
+      .filter(fn => fn.return_type !== 'trigger' && fn.return_type !== 'event_trigger')
+
+    const document: OpenAPIDocument = {
+      swagger: '2.0',
+      info: {
+        title: 'PostgREST API',
+        description: 'This is a dynamic API generated by PostgREST',
+        version: POSTGREST_VERSION
+      },
+      host: server.host,
+      basePath: server.basePath || '/',
+      schemes: [server.scheme],
+      consumes: MIME_TYPES,
+      produces: MIME_TYPES,
+      paths: {
+        '/': {
+          get: {
+            summary: 'OpenAPI description (this document)',
+            tags: ['Introspection'],
+            produces: ['application/openapi+json', 'application/json'],
+            responses: { 200: { description: 'OK' } }
+          }
+        }
+      },
+      definitions: {},
+      parameters: { ...COMMON_PARAMETERS },
+      externalDocs: {
+        description: 'PostgREST Documentation',
+        url: 'https://postgrest.org/en/v12/references/api.html'
+      }
+    }
+
+    for (const table of tables) {
+      this.addRelation(document, table, table)
+    }
+    for (const view of views) {
+      this.addRelation(document, view, null)
+    }
+    for (const fn of functions) {
+      this.addFunction(document, fn)
+    }
+
+    return document
+  }
+
+  private async assertSchemaExposed(schema: string): Promise<void> {
+    const result = await this.dbManager.query(`
+      SELECT nspname
+      FROM pg_namespace
+      WHERE nspname NOT IN ('information_schema', 'pg_catalog', 'pg_toast')
+        AND nspname NOT LIKE 'pg_temp_%'
+        AND nspname NOT LIKE 'pg_toast_temp_%'
+      ORDER BY nspname
+    `)
+    const schemas: string[] = result.rows
+      .map((row: { nspname: string }) => row.nspname)
+      .filter((nspname: string) => this.exposedSchemas.includes(nspname))
+
+    if (!schemas.includes(schema)) {
+      throw new PostgRESTQueryError('PGRST106', `The schema must be one of the following: ${schemas.join(', ')}`)
+    }
+  }
+
+  /**
+   * Add the definition, row filters and operations of a table or view;
+   * only tables (table is set) get the write operations
+   */
+  private addRelation(document: OpenAPIDocument, relation: TableMetadata | ViewMetadata, table: TableMetadata | null): void {
+    const name = relation.name
+    const rowFilters = relation.columns.map(column => {
+      document.parameters[`rowFilter.${name}.${column.name}`] = {
+        name: column.name,
+        required: false,
+        format: column.type,
+        in: 'query',
+        type: 'string'
+      }
+      return ref(`rowFilter.${name}.${column.name}`)
+    })
+
+    document.definitions[name] = this.buildDefinition(relation, table)
+    document.parameters[`body.${name}`] = {
+      name,
+      description: name,
+      required: false,
+      in: 'body',
+      schema: { $ref: `#/definitions/${name}` }
+    }
+
+    const path: OpenAPIDocument['paths'][string] = {
+      get: {
+        tags: [name],
+        parameters: [
+          ...rowFilters,
+          ref('select'),
+          ref('order'),
+          ref('range'),
+          ref('rangeUnit'),
+          ref('offset'),
+          ref('limit'),
+          ref('preferCount')
+        ],
+        responses: {
+          200: { description: 'OK', schema: { type: 'array', items: { $ref: `#/definitions/${name}` } } },
+          206: { description: 'Partial Content' }
+        }
+      }
+    }
+
+    if (table) {
+      path.post = {
+        tags: [name],
+        parameters: [ref(`body.${name}`), ref('select'), ref('columns'), ref('on_conflict'), ref('preferPost')],
+        responses: { 201: { description: 'Created' } }
+      }
+      path.patch = {
+        tags: [name],
+        parameters: [...rowFilters, ref(`body.${name}`), ref('preferReturn')],
+        responses: { 204: { description: 'No Content' } }
+      }
+      path.delete = {
+        tags: [name],
+        parameters: [...rowFilters, ref('preferReturn')],
+        responses: { 204: { description: 'No Content' } }
+      }
+    }
+
+    document.paths[`/${name}`] = path
+  }
+
+  private buildDefinition(relation: TableMetadata | ViewMetadata, table: TableMetadata | null): OpenAPISchema {
+    const properties: Record<string, OpenAPISchema> = {}
+    const required: string[] = []
+
+    for (const column of relation.columns) {
+      const property = this.columnSchema(column)
+      const notes: string[] = []
+      if (column.isPrimaryKey) {
+        notes.push('This is a Primary Key.<pk/>')
+      }
+      const foreignKey = table?.foreignKeys.find(fk => fk.column === column.name)
+      if (foreignKey) {
+        notes.push(
+          `This is a Foreign Key to \`${foreignKey.referencedTable}.${foreignKey.referencedColumn}\`.` +
+          `<fk table='${foreignKey.referencedTable}' column='${foreignKey.referencedColumn}'/>`
+        )
+      }
+      if (notes.length > 0) {
+        property.description = `Note:\n${notes.join('\n')}`
+      }
+
+      properties[column.name] = property
+      if (!column.nullable && !column.defaultValue) {
+        required.push(column.name)
+      }
+    }
+
+    return required.length > 0
+      ? { type: 'object', required, properties }
+      : { type: 'object', properties }
+  }
+
+  private columnSchema(column: ColumnMetadata): OpenAPISchema {
+    const schema: OpenAPISchema = { format: column.type, ...this.typeFor(column.type) }
+    if (column.maxLength) {
+      schema.maxLength = column.maxLength
+    }
+    return schema
+  }
+
+  /**
+   * Map a PostgreSQL type name onto a JSON schema type. JSON columns are
+   * left untyped since they may hold any value.
+   */
+  private typeFor(pgType: string): Pick<OpenAPISchema, 'type' | 'items'> {
+    const type = pgType.toLowerCase()
+
+    if (type === 'array' || type.endsWith('[]')) {
+      return { type: 'array', items: { type: 'string' } }
+    }
+    if (type === 'json' || type === 'jsonb') {
+      return {}
+    }
+    if (['smallint', 'integer', 'bigint'].includes(type)) {
+      return { type: 'integer' }
+    }
+    if (['numeric', 'real', 'double precision'].includes(type)) {
+      return { type: 'number' }
+    }
+    if (type === 'boolean') {
+      return { type: 'boolean' }
+    }
+    return { type: 'string' }
+  }
+
+  /**
+   * Add the POST and GET operations of /rpc/<function>
+   */
+  private addFunction(document: OpenAPIDocument, fn: DatabaseFunction): void {
+    const args = parseArgumentTypes(fn.argument_types).filter(arg => arg.name)
+    const required = args.filter(arg => !arg.hasDefault).map(arg => arg.name as string)
+    const properties = Object.fromEntries(
+      args.map(arg => [arg.name as string, { format: arg.type, ...this.typeFor(arg.type) }])
+    )
+    const tags = [`(rpc) ${fn.name}`]
+    const summary = fn.description?.split('\n')[0]
+
+    document.paths[`/rpc/${fn.name}`] = {
+      get: {
+        ...(summary ? { summary } : {}),
+        tags,
+        parameters: args.map(arg => ({
+          name: arg.name,
+          required: !arg.hasDefault,
+          format: arg.type,
+          in: 'query' as const,
+          type: 'string'
+        })),
+        produces: ['application/json', 'application/vnd.pgrst.object+json;nulls=stripped', 'application/vnd.pgrst.object+json'],
+        responses: { 200: { description: 'OK' } }
+      },
+      post: {
+        ...(summary ? { summary } : {}),
+        tags,
+        parameters: [
+          {
+            name: 'args',
+            required: true,
+            in: 'body',
+            schema: required.length > 0
+              ? { type: 'object', required, properties }
+              : { type: 'object', properties }
+          },
+          ref('preferParams')
+        ],
+        produces: ['application/json', 'application/vnd.pgrst.object+json;nulls=stripped', 'application/vnd.pgrst.object+json'],
+        responses: { 200: { description: 'OK' } }
+      }
+    }
+  }
+}
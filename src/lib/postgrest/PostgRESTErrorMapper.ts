@@ -13,6 +13,25 @@ export interface PostgRESTErrorResponse {
   headers: Record<string, string>
 }
 
+/**
+ * Error raised while translating a request, carrying a PostgREST error code.
+ * It has the same code/detail/hint shape as PostgreSQL errors so it is
+ * reported to clients unchanged.
+ */
+export class PostgRESTQueryError extends Error {
+  readonly code: string
+  readonly detail: string | null
+  readonly hint: string | null
+
+  constructor(code: string, message: string, detail: string | null = null, hint: string | null = null) {
+    super(message)
+    this.name = 'PostgRESTQueryError'
+    this.code = code
+    this.detail = detail
+    this.hint = hint
+  }
+}
+
 /**
  * Maps PostgreSQL and database errors to PostgREST-compatible error responses
  * following the exact format used by PostgREST
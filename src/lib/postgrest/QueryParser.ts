@@ -1,4 +1,5 @@
 import { POSTGREST_OPERATORS, parseOperatorValue } from './operators'
+import { PostgRESTQueryError } from './PostgRESTErrorMapper'
 
 export interface ParsedFilter {
   column: string
@@ -21,11 +22,26 @@ export interface ParsedOrder {
   applyToEmbeddedOnly?: boolean  // True when the order should not affect the parent table ordering
 }
 
+export type AggregateFunction = 'count' | 'sum' | 'avg' | 'min' | 'max'
+
+export interface SelectAggregate {
+  function: AggregateFunction
+  column?: string  // Omitted for count() over whole rows
+  alias?: string
+  columnCast?: string  // Cast applied before aggregating (amount::int.sum())
+  cast?: string  // Cast applied to the result (amount.avg()::int)
+}
+
+export type EmbedJoinType = 'inner' | 'left'
+
 export interface EmbeddedResource {
   table: string
   alias?: string
   fkHint?: string  // Foreign key constraint hint for disambiguation
+  joinType?: EmbedJoinType  // !inner drops parent rows without a match, !left (the default) keeps them
+  spread?: boolean  // ...table(cols) merges a to-one embed into the parent row
   select?: string[]
+  aggregates?: SelectAggregate[]  // Aggregates computed over the embedded rows
   embedded?: EmbeddedResource[]  // Support for nested embedded resources
   filters?: ParsedFilter[]
   order?: ParsedOrder[]
@@ -33,9 +49,20 @@ export interface EmbeddedResource {
   offset?: number
 }
 
+export type ExplainOption = 'analyze' | 'verbose' | 'settings' | 'buffers' | 'wal'
+
+const EXPLAIN_OPTIONS: ExplainOption[] = ['analyze', 'verbose', 'settings', 'buffers', 'wal']
+
+export interface ExplainOptions {
+  format: 'json' | 'text'
+  options: ExplainOption[]
+  for?: string  // Media type the plan is for, e.g. application/json
+}
+
 export interface ParsedQuery {
   select?: string[]
   columnAliases?: Record<string, string>  // Maps actual column names to aliases
+  aggregates?: SelectAggregate[]  // Aggregates in select; the other selected columns become the GROUP BY
   filters: ParsedFilter[]
   order?: ParsedOrder[]
   limit?: number
@@ -45,10 +72,38 @@ export interface ParsedQuery {
   count?: 'exact' | 'planned' | 'estimated'
   preferReturn?: 'representation' | 'minimal' | 'headers-only'
   preferResolution?: 'merge-duplicates' | 'ignore-duplicates'
+  preferMissing?: 'default' | 'null'  // missing=default fills keys absent from inserted rows with column defaults
+  preferTx?: 'commit' | 'rollback'  // tx=rollback discards the changes but still returns the response
+  preferHandling?: 'strict' | 'lenient'
+  preferMaxAffected?: number  // Only enforced with handling=strict
   returnSingle?: boolean  // For .single() method support
   onConflict?: string  // Column(s) to use for ON CONFLICT resolution
+  columns?: string[]  // ?columns= for INSERT/upsert: the only keys read from the body
   schema?: string  // Schema name for PostgREST schema switching
   csvFormat?: boolean  // For .csv() method support - returns data as CSV string
+  explain?: ExplainOptions  // For .explain() support - returns the query plan instead of rows
+}
+
+// The preferences PostgREST understands and the values each accepts; anything
+// else is reported with handling=strict
+const PREFERENCE_VALUES: Record<string, readonly string[] | RegExp> = {
+  return: ['minimal', 'headers-only', 'representation'],
+  count: ['exact', 'planned', 'estimated'],
+  resolution: ['merge-duplicates', 'ignore-duplicates'],
+  missing: ['default', 'null'],
+  handling: ['strict', 'lenient'],
+  tx: ['commit', 'rollback'],
+  'max-affected': /^\d+$/,
+  timezone: /^[^\s]+$/,
+  params: ['single-object']
+}
+
+/**
+ * Split an `alias:column` select item into its output name and source column
+ */
+export function parseSelectAlias(item: string): { name: string; column: string } {
+  const match = item.match(/^([A-Za-z_]\w*):([^:].*)$/)
+  return match ? { name: match[1], column: match[2] } : { name: item, column: item }
 }
 
 export class QueryParser {
@@ -71,10 +126,16 @@ export class QueryParser {
     // Parse select parameter
     const select = params.get('select')
     if (select) {
-      const { columns, aliases, embedded } = this.parseSelectWithAliases(select)
-      query.select = columns
-      query.columnAliases = aliases
-      query.embedded = embedded
+      const { remaining, aggregates } = this.extractAggregates(select)
+      if (aggregates.length > 0) {
+        query.aggregates = aggregates
+      }
+      if (remaining) {
+        const { columns, aliases, embedded } = this.parseSelectWithAliases(remaining)
+        query.select = columns
+        query.columnAliases = aliases
+        query.embedded = embedded
+      }
     }
 
     // Parse filters and table-prefixed logical operators
@@ -211,6 +272,12 @@ export class QueryParser {
       query.onConflict = onConflict
     }
 
+    // Parse columns parameter for inserts
+    const columns = params.get('columns')
+    if (columns) {
+      query.columns = columns.split(',').map(column => column.trim()).filter(Boolean)
+    }
+
     // Parse pagination with validation
     const limit = params.get('limit')
     if (limit) {
@@ -244,14 +311,17 @@ export class QueryParser {
 
     // Parse Accept header for single object response
     const accept = headers['accept'] || headers['Accept']
-    if (accept && accept.includes('application/vnd.pgrst.object+json')) {
+    if (accept && accept.trim().startsWith('application/vnd.pgrst.plan')) {
+      query.explain = this.parsePlanMediaType(accept)
+    } else if (accept && accept.includes('application/vnd.pgrst.object+json')) {
       query.returnSingle = true
     }
 
-    // Parse Accept-Profile header for schema switching
-    const acceptProfile = headers['accept-profile'] || headers['Accept-Profile']
-    if (acceptProfile) {
-      query.schema = acceptProfile.trim()
+    // Parse Accept-Profile (reads) or Content-Profile (writes) header for schema switching
+    const profile = headers['content-profile'] || headers['Content-Profile'] ||
+      headers['accept-profile'] || headers['Accept-Profile']
+    if (profile) {
+      query.schema = profile.trim()
     }
 
     // Transfer order items with referencedTable to their corresponding embedded resources
@@ -298,6 +368,18 @@ export class QueryParser {
       query.order = mainOrderItems.length > 0 ? mainOrderItems : undefined
     }
 
+    // Aggregate embeds limit their groups in SQL rather than after formatting
+    if (query.embeddedLimits && query.embedded) {
+      for (const [referencedTable, { limit, offset }] of query.embeddedLimits) {
+        const embeddedResource = this.findEmbeddedResource(query.embedded, referencedTable)
+        if (embeddedResource?.aggregates?.length) {
+          embeddedResource.limit = limit
+          embeddedResource.offset = offset
+          query.embeddedLimits.delete(referencedTable)
+        }
+      }
+    }
+
     return query
   }
 
@@ -499,6 +581,75 @@ export class QueryParser {
     return result
   }
 
+  /**
+   * Split aggregate items (count(), amount.sum(), total:amount::int.avg()::int)
+   * out of a select list. The remaining items are returned as a select string
+   * for the regular column and embed parsing.
+   */
+  private static extractAggregates(select: string): { remaining: string, aggregates: SelectAggregate[] } {
+    const items: string[] = []
+    let depth = 0
+    let current = ''
+
+    for (const char of select) {
+      if (char === ',' && depth === 0) {
+        items.push(current.trim())
+        current = ''
+        continue
+      }
+      if (char === '(') {
+        depth++
+      } else if (char === ')') {
+        depth--
+      }
+      current += char
+    }
+    items.push(current.trim())
+
+    const aggregates: SelectAggregate[] = []
+    const remaining: string[] = []
+    for (const item of items.filter(Boolean)) {
+      const aggregate = this.parseAggregate(item)
+      if (aggregate) {
+        aggregates.push(aggregate)
+      } else {
+        remaining.push(item)
+      }
+    }
+
+    return { remaining: remaining.join(','), aggregates }
+  }
+
+  /**
+   * Parse a single aggregate select item, or return null when it is not one
+   */
+  private static parseAggregate(item: string): SelectAggregate | null {
+    const match = item.match(/^(?:([^:.(),]+):(?!:))?(?:([^:.(),]+)(?:::(\w+))?\.)?(count|sum|avg|min|max)\(\)(?:::(\w+))?$/)
+    if (!match) {
+      return null
+    }
+
+    const [, alias, column, columnCast, fn, cast] = match
+    if (!column && fn !== 'count') {
+      throw new Error(`Invalid aggregate "${item}": ${fn}() requires a column, e.g. amount.${fn}()`)
+    }
+
+    const aggregate: SelectAggregate = { function: fn as AggregateFunction }
+    if (column) {
+      aggregate.column = column.trim()
+    }
+    if (alias) {
+      aggregate.alias = alias.trim()
+    }
+    if (columnCast) {
+      aggregate.columnCast = columnCast
+    }
+    if (cast) {
+      aggregate.cast = cast
+    }
+    return aggregate
+  }
+
   /**
    * Parse embedded resources from select parameter
    */
@@ -536,19 +687,32 @@ export class QueryParser {
           let tableName = currentTable
           let alias: string | undefined
           let fkHint: string | undefined
+          let joinType: EmbedJoinType | undefined
+
+          // Handle spread embeds (...table(cols))
+          const spread = tableName.startsWith('...')
+          if (spread) {
+            tableName = tableName.slice(3).trim()
+          }
           
           // Handle alias:table!fkey_hint syntax
-          if (currentTable.includes(':')) {
-            const parts = currentTable.split(':')
+          if (tableName.includes(':')) {
+            const parts = tableName.split(':')
             alias = parts[0].trim()
             tableName = parts[1].trim()
           }
           
-          // Handle foreign key hints (table!fkey_constraint)
+          // Handle foreign key hints and join modifiers (table!fkey_constraint!inner)
           if (tableName.includes('!')) {
-            const parts = tableName.split('!')
-            tableName = parts[0].trim()
-            fkHint = parts[1].trim()
+            const [name, ...modifiers] = tableName.split('!').map(part => part.trim())
+            tableName = name
+            for (const modifier of modifiers) {
+              if (modifier === 'inner' || modifier === 'left') {
+                joinType = modifier
+              } else if (modifier) {
+                fkHint = modifier
+              }
+            }
           }
           
           const resource: EmbeddedResource = {
@@ -563,6 +727,21 @@ export class QueryParser {
             resource.fkHint = fkHint
           }
 
+          if (joinType) {
+            resource.joinType = joinType
+          }
+
+          if (spread) {
+            resource.spread = true
+          }
+
+          // Aggregates inside the embed are computed per parent row
+          const { remaining, aggregates } = this.extractAggregates(embeddedContent)
+          if (aggregates.length > 0) {
+            resource.aggregates = aggregates
+            embeddedContent = remaining
+          }
+
           if (embeddedContent.trim()) {
             // Check if the embedded content contains nested resources (parentheses)
             if (embeddedContent.includes('(')) {
@@ -929,19 +1108,75 @@ export class QueryParser {
    * Parse Prefer header
    */
   private static parsePreferHeader(prefer: string, query: ParsedQuery): void {
-    const preferences = prefer.toLowerCase().split(',').map(p => p.trim())
-    
+    const preferences = prefer.split(',').map(p => p.trim()).filter(Boolean)
+    const invalid: string[] = []
+
     for (const pref of preferences) {
-      if (pref.startsWith('return=')) {
-        query.preferReturn = pref.split('=')[1] as any
-      } else if (pref.startsWith('resolution=')) {
-        query.preferResolution = pref.split('=')[1] as any
-      } else if (pref.startsWith('count=')) {
-        query.count = pref.split('=')[1] as any
+      const separator = pref.indexOf('=')
+      const key = (separator === -1 ? pref : pref.slice(0, separator)).toLowerCase()
+      const rawValue = separator === -1 ? '' : pref.slice(separator + 1)
+      // Time zone names are case sensitive, the other values are keywords
+      const value = key === 'timezone' ? rawValue : rawValue.toLowerCase()
+      const accepted = PREFERENCE_VALUES[key]
+      const isValid = accepted instanceof RegExp ? accepted.test(value) : !!accepted?.includes(value)
+      if (!isValid) {
+        invalid.push(pref.toLowerCase())
+        continue
+      }
+
+      if (key === 'return') {
+        query.preferReturn = value as ParsedQuery['preferReturn']
+      } else if (key === 'resolution') {
+        query.preferResolution = value as ParsedQuery['preferResolution']
+      } else if (key === 'count') {
+        query.count = value as ParsedQuery['count']
+      } else if (key === 'missing') {
+        query.preferMissing = value as ParsedQuery['preferMissing']
+      } else if (key === 'tx') {
+        query.preferTx = value as ParsedQuery['preferTx']
+      } else if (key === 'handling') {
+        query.preferHandling = value as ParsedQuery['preferHandling']
+      } else if (key === 'max-affected') {
+        query.preferMaxAffected = parseInt(value, 10)
       }
+      // timezone and params=single-object are valid but have no effect here
+    }
+
+    // Unknown preferences are ignored unless the client asked for strict handling
+    if (query.preferHandling === 'strict' && invalid.length > 0) {
+      throw new PostgRESTQueryError(
+        'PGRST122',
+        'Invalid preferences given with handling=strict',
+        `Invalid preferences: ${invalid.join(', ')}`
+      )
     }
   }
 
+  /**
+   * Parse the plan media type sent by .explain(), e.g.
+   * application/vnd.pgrst.plan+json; for="application/json"; options=analyze|verbose;
+   */
+  private static parsePlanMediaType(accept: string): ExplainOptions {
+    const [mediaType, ...parameters] = accept.split(';').map(part => part.trim())
+    const explain: ExplainOptions = {
+      format: mediaType.endsWith('+json') ? 'json' : 'text',
+      options: []
+    }
+
+    for (const parameter of parameters) {
+      const [key, value = ''] = parameter.split('=').map(part => part.trim())
+      if (key === 'for') {
+        explain.for = value.replace(/"/g, '')
+      } else if (key === 'options') {
+        explain.options = value.split('|').filter((option): option is ExplainOption =>
+          EXPLAIN_OPTIONS.includes(option as ExplainOption)
+        )
+      }
+    }
+
+    return explain
+  }
+
   /**
    * Parse Range header
    */
@@ -1158,7 +1393,7 @@ export class QueryParser {
    * Check if parameter is a filter (not select, limit, offset, order, or, and, not)
    */
   private static isFilterParam(key: string): boolean {
-    const reservedParams = ['select', 'limit', 'offset', 'order', 'or', 'and', 'not']
+    const reservedParams = ['select', 'limit', 'offset', 'order', 'or', 'and', 'not', 'columns']
     return !reservedParams.includes(key)
   }
 
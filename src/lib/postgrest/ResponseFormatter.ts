@@ -1,4 +1,5 @@
-import type { ParsedQuery } from './QueryParser'
+import { parseSelectAlias } from './QueryParser'
+import type { EmbeddedResource, ExplainOptions, ParsedQuery } from './QueryParser'
 import { PostgRESTErrorMapper } from './PostgRESTErrorMapper'
 
 export interface FormattedResponse {
@@ -18,7 +19,7 @@ export class ResponseFormatter {
    */
   private static getCorsHeaders(includeContentType: boolean = true, contentType: string = 'application/json'): Record<string, string> {
     const headers: Record<string, string> = {
-      'Access-Control-Expose-Headers': 'Content-Range'
+      'Access-Control-Expose-Headers': 'Content-Range, Preference-Applied'
     }
     
     if (includeContentType) {
@@ -483,6 +484,57 @@ export class ResponseFormatter {
     }
   }
 
+  /**
+   * Format the output of EXPLAIN: the JSON plan document, or the text plan
+   * with one line per row
+   */
+  static formatPlanResponse(results: unknown[], explain: ExplainOptions): FormattedResponse {
+    const lines = results.map(row => (row as Record<string, unknown>)['QUERY PLAN'])
+    const contentType = `application/vnd.pgrst.plan+${explain.format}; for="${explain.for || 'application/json'}"; charset=utf-8`
+
+    return {
+      data: explain.format === 'json' ? lines[0] : lines.join('\n'),
+      status: 200,
+      headers: this.getCorsHeaders(true, contentType)
+    }
+  }
+
+  /**
+   * Echo the Prefer header preferences that were honored in Preference-Applied
+   */
+  static withPreferenceApplied(response: FormattedResponse, query: ParsedQuery): FormattedResponse {
+    const applied: string[] = []
+    if (query.preferResolution) {
+      applied.push(`resolution=${query.preferResolution}`)
+    }
+    if (query.preferMissing) {
+      applied.push(`missing=${query.preferMissing}`)
+    }
+    if (query.preferReturn) {
+      applied.push(`return=${query.preferReturn}`)
+    }
+    if (query.count) {
+      applied.push(`count=${query.count}`)
+    }
+    if (query.preferTx) {
+      applied.push(`tx=${query.preferTx}`)
+    }
+    if (query.preferHandling) {
+      applied.push(`handling=${query.preferHandling}`)
+    }
+    if (query.preferHandling === 'strict' && query.preferMaxAffected !== undefined) {
+      applied.push(`max-affected=${query.preferMaxAffected}`)
+    }
+
+    if (applied.length === 0) {
+      return response
+    }
+    return {
+      ...response,
+      headers: { ...response.headers, 'Preference-Applied': applied.join(', ') }
+    }
+  }
+
   /**
    * Format error response in PostgREST format
    */
@@ -641,10 +693,48 @@ export class ResponseFormatter {
         }
       }
 
-      return formattedRow
+      return this.flattenSpreadEmbeds(formattedRow, query.embedded || [])
     })
   }
 
+  /**
+   * Merge spread embeds (...profiles(name)) into the object that embeds them.
+   * Spreads only apply to to-one relationships, so the embedded value is a single
+   * object, or null when there is no related row. Nested spreads are merged first.
+   */
+  private static flattenSpreadEmbeds(row: Record<string, unknown>, embedded: EmbeddedResource[]): Record<string, unknown> {
+    for (const resource of embedded) {
+      const fieldName = resource.alias || resource.table.replace(/^"(.*)"$/, '$1')
+      let value = row[fieldName]
+
+      if (resource.embedded?.length && value && typeof value === 'object') {
+        const nested = resource.embedded
+        value = Array.isArray(value)
+          ? value.map(item => (item && typeof item === 'object' ? this.flattenSpreadEmbeds(item as Record<string, unknown>, nested) : item))
+          : this.flattenSpreadEmbeds(value as Record<string, unknown>, nested)
+        row[fieldName] = value
+      }
+
+      if (!resource.spread) {
+        continue
+      }
+
+      delete row[fieldName]
+      if (value && typeof value === 'object' && !Array.isArray(value)) {
+        Object.assign(row, value)
+      } else {
+        // No related row: the spread columns are still present, as nulls
+        for (const column of resource.select || []) {
+          if (column !== '*') {
+            row[parseSelectAlias(column).name] = null
+          }
+        }
+      }
+    }
+
+    return row
+  }
+
 
   /**
    * Calculate total count for pagination
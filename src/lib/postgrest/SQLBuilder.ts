@@ -1,11 +1,18 @@
-import type { ParsedQuery, ParsedFilter, ParsedOrder, EmbeddedResource } from './QueryParser'
+import { parseSelectAlias } from './QueryParser'
+import type { ParsedQuery, ParsedFilter, ParsedOrder, EmbeddedResource, SelectAggregate, ExplainOptions } from './QueryParser'
 import { POSTGREST_OPERATORS } from './operators'
+import { PostgRESTQueryError } from './PostgRESTErrorMapper'
 
 export interface SQLQuery {
   sql: string
   parameters: any[]
 }
 
+export interface InsertOptions {
+  columns?: string[]  // ?columns= restricts the inserted columns; other keys in the body are ignored
+  missing?: 'default' | 'null'  // Prefer: missing=default uses the column default for absent keys
+}
+
 export interface JoinInfo {
   table: string
   alias: string
@@ -13,6 +20,26 @@ export interface JoinInfo {
   type: 'LEFT' | 'INNER'
 }
 
+/**
+ * A function taking a row of a table as its only required argument. PostgREST
+ * exposes it as a computed column, or as a computed relationship when it
+ * returns rows of another table.
+ */
+interface ComputedField {
+  name: string
+  returnsSet: boolean
+  returnsTable: string | null  // Table whose rows the function returns, null for scalar results
+}
+
+/**
+ * Computed columns of a request's main table that its filters or ordering
+ * use, resolved once per build and passed down to the clause builders
+ */
+interface ComputedColumns {
+  table: string
+  names: Set<string>
+}
+
 export class SQLBuilder {
   private paramIndex = 1
   private parameters: any[] = []
@@ -147,8 +174,9 @@ export class SQLBuilder {
     const actualTableName = await this.getActualTableName(decodedTable, query.schema)
     // For now, disable schema qualification entirely to fix JOIN issues
     const quotedTable = this.quoteIdentifier(actualTableName)
+    const computed = await this.resolveComputedColumns(quotedTable, query.filters, query.order, query.schema)
     
-    const { sql } = await this.buildSelectQuery(quotedTable, query)
+    const { sql } = await this.buildSelectQuery(quotedTable, query, computed)
     
     console.log('🎯 Final generated SQL:', sql)
     console.log('🎯 Parameters:', this.parameters)
@@ -244,6 +272,33 @@ export class SQLBuilder {
     return null
   }
 
+  /**
+   * Whether a column is unique on its own, so that a foreign key on it forms a
+   * one-to-one relationship
+   */
+  private async isUniqueColumn(table: string, column: string, schema?: string): Promise<boolean> {
+    try {
+      const result = await this.dbManager.query(`
+        SELECT 1
+        FROM pg_index i
+        JOIN pg_class c ON c.oid = i.indrelid
+        JOIN pg_namespace n ON n.oid = c.relnamespace
+        JOIN pg_attribute a ON a.attrelid = i.indrelid AND a.attnum = i.indkey[0]
+        WHERE i.indisunique
+          AND i.indnkeyatts = 1
+          AND i.indpred IS NULL
+          AND c.relname = $1
+          AND a.attname = $2
+          AND n.nspname = $3
+        LIMIT 1
+      `, [table, column, schema || 'public'])
+      return result.rows.length > 0
+    } catch (error) {
+      console.error(`💥 Failed to check whether ${table}.${column} is unique:`, error)
+      return false
+    }
+  }
+
   /**
    * Discover many-to-many relationship through a join table
    */
@@ -311,10 +366,101 @@ export class SQLBuilder {
     return null
   }
 
+  /**
+   * Discover the functions of a table's row type, i.e. f(tbl), that act as its
+   * computed columns and computed relationships
+   */
+  private async discoverComputedFields(table: string, schema?: string): Promise<ComputedField[]> {
+    if (!this.dbManager || !this.dbManager.isConnected()) {
+      return []
+    }
+
+    try {
+      const result = await this.dbManager.query(`
+        SELECT
+          p.proname AS function_name,
+          p.proretset AS returns_set,
+          ret.relname AS returns_table
+        FROM pg_proc p
+        JOIN pg_class c ON c.reltype = p.proargtypes[0]
+        JOIN pg_namespace n ON n.oid = c.relnamespace
+        LEFT JOIN pg_class ret ON ret.reltype = p.prorettype
+        WHERE p.pronargs - p.pronargdefaults <= 1
+          AND p.pronargs >= 1
+          AND c.relname = $1
+          AND n.nspname = $2
+      `, [this.extractTableNameFromQualified(table), schema || 'public'])
+
+      return result.rows.map((row: { function_name: string, returns_set: boolean, returns_table: string | null }) => ({
+        name: row.function_name,
+        returnsSet: row.returns_set,
+        returnsTable: row.returns_table
+      }))
+    } catch (error) {
+      console.error(`💥 Failed to discover computed fields of ${table}:`, error)
+    }
+
+    return []
+  }
+
+  /**
+   * Look up the computed columns referenced by the main table's filters and
+   * ordering, which have to be qualified with the table to resolve
+   */
+  private async resolveComputedColumns(
+    table: string,
+    filters: ParsedFilter[] = [],
+    order: ParsedOrder[] = [],
+    schema?: string
+  ): Promise<ComputedColumns> {
+    const computed: ComputedColumns = { table, names: new Set() }
+
+    const candidates = new Set<string>()
+    const collect = (filters: ParsedFilter[]) => {
+      for (const filter of filters) {
+        if (filter.column === '__logical__') {
+          if (!filter.referencedTable) {
+            collect(filter.value?.conditions || [])
+          }
+        } else if (!filter.referencedTable && !filter.jsonPath && !filter.column.includes('.')) {
+          candidates.add(filter.column)
+        }
+      }
+    }
+    collect(filters)
+    for (const item of order) {
+      if (!item.referencedTable) {
+        candidates.add(item.column)
+      }
+    }
+    if (candidates.size === 0) {
+      return computed
+    }
+
+    const fields = await this.discoverComputedFields(table, schema)
+    for (const field of fields) {
+      if (!field.returnsTable && !field.returnsSet && candidates.has(field.name)) {
+        computed.names.add(field.name)
+      }
+    }
+    return computed
+  }
+
+  /**
+   * Main table reference for a computed column, e.g. people.full_name, which
+   * PostgreSQL resolves to full_name(people)
+   */
+  private computedColumnRef(column: string, computed?: ComputedColumns): string | null {
+    if (!computed?.names.has(column)) {
+      return null
+    }
+    return `${computed.table}.${this.quoteIdentifier(column)}`
+  }
+
   /**
    * Build main SELECT query
    */
-  private async buildSelectQuery(table: string, query: ParsedQuery): Promise<{ sql: string, joins: JoinInfo[] }> {
+  private async buildSelectQuery(table: string, query: ParsedQuery, computed: ComputedColumns): Promise<{ sql: string, joins: JoinInfo[] }> {
     console.log(`🔍 Building SELECT query for table: ${table}`)
     console.log(`🔍 Query object:`, JSON.stringify(query, null, 2))
     console.log(`🚀 INNER JOIN FIX DEBUG: Code is loaded and running!`)
@@ -345,31 +491,35 @@ export class SQLBuilder {
       )
       
       // Check if any embedded resources use !inner hint - these MUST use JOIN approach for proper filtering
-      const hasInnerJoinEmbedded = (query.embedded || []).some(embedded => embedded.fkHint === 'inner')
+      const hasInnerJoinEmbedded = (query.embedded || []).some(embedded => embedded.joinType === 'inner')
       
       if (hasInnerJoinEmbedded) {
         console.log(`🔧 Using specialized INNER JOIN approach for !inner embedded resources`)
-        return await this.buildSelectWithInnerJoins(table, query)
+        return await this.buildSelectWithInnerJoins(table, query, computed)
+      } else if (query.aggregates?.length && !hasOrderingRequiringJoins) {
+        // Aggregates group the parent rows, so filters on embedded tables stay inside
+        // the correlated embed subqueries instead of joining rows into the groups
+        return await this.buildSelectWithJoinAggregation(table, query, computed)
       } else if (hasFiltersOnEmbeddedTables || hasOrderingRequiringJoins) {
         console.log(`🔧 Using JOIN approach for filters or ordering on embedded/referenced tables`)
         
         // For PostgREST compatibility: when filtering OR ordering on embedded/referenced table fields,
         // we need to use JOINs to ensure proper SQL generation
-        return await this.buildSelectWithJoins(table, query)
+        return await this.buildSelectWithJoins(table, query, computed)
       } else {
         console.log(`🔧 No filters or ordering on embedded tables - using correlated subquery approach`)
         
         // No filters or ordering on embedded tables, use standard subquery approach
-        return await this.buildSelectWithJoinAggregation(table, query)
+        return await this.buildSelectWithJoinAggregation(table, query, computed)
       }
     } else {
       // Simple query without embedded resources, but check for filters on referenced tables
       if (hasEmbeddedTableFilters) {
         // For filters on referenced tables without embedding, we need to create 
         // implicit embedding to maintain PostgREST behavior
-        return await this.buildSelectWithImplicitEmbedding(table, query)
+        return await this.buildSelectWithImplicitEmbedding(table, query, computed)
       } else {
-        return await this.buildSimpleSelectQuery(table, query)
+        return await this.buildSimpleSelectQuery(table, query, computed)
       }
     }
   }
@@ -471,7 +621,7 @@ export class SQLBuilder {
    * This method handles cases like .eq('orchestral_sections.name', 'percussion')
    * where the referenced table is filtered but not explicitly embedded
    */
-  private async buildSelectWithImplicitEmbedding(table: string, query: ParsedQuery): Promise<{ sql: string, joins: JoinInfo[] }> {
+  private async buildSelectWithImplicitEmbedding(table: string, query: ParsedQuery, computed: ComputedColumns): Promise<{ sql: string, joins: JoinInfo[] }> {
     console.log(`🔍 Building SELECT with implicit embedding for: ${table}`)
     
     // Get tables referenced in filters
@@ -507,7 +657,7 @@ export class SQLBuilder {
     )
     
     // Check if any embedded resources use !inner hint - these MUST use JOIN approach for proper filtering
-    const hasInnerJoinEmbedded = (query.embedded || []).some(embedded => embedded.fkHint === 'inner')
+    const hasInnerJoinEmbedded = (query.embedded || []).some(embedded => embedded.joinType === 'inner')
     
     // FORCE JOIN approach if there's any ORDER BY with referencedTable or !inner embedded resources
     const shouldUseJoins = hasFiltersOnEmbeddedTables || hasOrderingOnEmbeddedTables || hasOrderingOnReferencedTables || hasOrderingRequiringJoins || hasInnerJoinEmbedded
@@ -528,10 +678,10 @@ export class SQLBuilder {
     if (shouldUseJoins) {
       // For PostgREST compatibility: when filtering or ordering on embedded table fields,
       // we need to JOIN the embedded table and apply the operations in the appropriate clauses
-      return await this.buildSelectWithJoins(table, query)
+      return await this.buildSelectWithJoins(table, query, computed)
     } else {
       // No filters or ordering on embedded tables, use standard subquery approach
-      return await this.buildSelectWithJoinAggregation(table, query)
+      return await this.buildSelectWithJoinAggregation(table, query, computed)
     }
   }
 
@@ -539,7 +689,7 @@ export class SQLBuilder {
    * Specialized method for INNER JOIN embedded resources (!inner hint)
    * Uses subqueries with EXISTS conditions to ensure only parent rows with matching children are returned
    */
-  private async buildSelectWithInnerJoins(table: string, query: ParsedQuery): Promise<{ sql: string, joins: JoinInfo[] }> {
+  private async buildSelectWithInnerJoins(table: string, query: ParsedQuery, computed: ComputedColumns): Promise<{ sql: string, joins: JoinInfo[] }> {
     console.log(`🔍 Building SELECT with INNER JOIN approach for: ${table}`)
     
     const joins: JoinInfo[] = []
@@ -564,84 +714,46 @@ export class SQLBuilder {
           selectColumns.push(`${quotedMainTable}.${this.quoteIdentifier(col)}`)
         }
       }
-    } else {
+    } else if (!query.aggregates?.length) {
       selectColumns.push(`${quotedMainTable}.*`)
     }
+
+    const groupedColumns = [...selectColumns]
+    for (const aggregate of query.aggregates || []) {
+      selectColumns.push(this.buildAggregateColumn(aggregate, quotedMainTable))
+    }
     
-    // Add embedded resources using subqueries with EXISTS filters for INNER JOIN behavior
+    // Add embedded resources as correlated subqueries. An !inner embed evaluates to
+    // NULL when no related row matches its filters, which drops the parent row below.
+    const correlationColumns: string[] = []
+    const innerJoinConditions: string[] = []
     for (const embedded of query.embedded || []) {
-      if (embedded.fkHint === 'inner') {
-        const subquery = await this.buildEmbeddedSubquery(table, embedded, query.filters, query.schema)
-        if (subquery) {
-          const aliasName = embedded.alias || embedded.table
-          selectColumns.push(`(${subquery}) AS ${this.quoteIdentifier(aliasName)}`)
-        }
+      const subquery = await this.buildEmbeddedSubquery(table, embedded, query.filters, query.schema)
+      if (!subquery) {
+        continue
+      }
+
+      const aliasName = embedded.alias || embedded.table
+      selectColumns.push(`(${subquery}) AS ${this.quoteIdentifier(aliasName)}`)
+      if (embedded.joinType === 'inner') {
+        innerJoinConditions.push(`(${subquery}) IS NOT NULL`)
+      }
+      if (query.aggregates?.length) {
+        correlationColumns.push(...await this.getEmbedCorrelationColumns(table, embedded, quotedMainTable))
       }
     }
     
-    // Build WHERE clause with EXISTS conditions for INNER JOIN behavior
+    // Filters on embedded tables (or their aliases) are applied inside the embed subqueries
+    const embeddedNames = new Set((query.embedded || []).flatMap(embedded => [embedded.table, embedded.alias].filter(Boolean) as string[]))
     const whereConditions: string[] = []
-    
-    // Add regular filters
-    const mainTableFilters = query.filters.filter(filter => !filter.referencedTable || filter.referencedTable === table)
+    const mainTableFilters = query.filters.filter(filter => !filter.referencedTable || !embeddedNames.has(filter.referencedTable))
     for (const filter of mainTableFilters) {
-      const condition = this.buildFilterCondition(filter, quotedMainTable)
+      const condition = this.buildFilterCondition(filter, computed)
       if (condition) {
         whereConditions.push(condition)
       }
     }
-    
-    // Add EXISTS conditions for INNER JOIN embedded resources
-    for (const embedded of query.embedded || []) {
-      if (embedded.fkHint === 'inner') {
-        // Find filters for this embedded table
-        const embeddedFilters = query.filters.filter(filter => 
-          filter.referencedTable === embedded.table || 
-          filter.column.startsWith(`${embedded.table}.`)
-        )
-        
-        if (embeddedFilters.length > 0) {
-          // Discover FK relationship
-          const fkRelationship = await this.discoverForeignKeyRelationship(table, embedded.table)
-          if (fkRelationship) {
-            // Build EXISTS condition
-            const embeddedFilterConditions = embeddedFilters.map(filter => {
-              const cleanColumn = filter.column.replace(`${embedded.table}.`, '')
-              return this.buildFilterCondition({
-                ...filter,
-                column: cleanColumn
-              }, this.quoteIdentifier(embedded.table))
-            }).filter(Boolean)
-            
-            if (embeddedFilterConditions.length > 0) {
-              let joinCondition: string
-              if (fkRelationship.fromTable === table && fkRelationship.toTable === embedded.table) {
-                joinCondition = `${quotedMainTable}.${this.quoteIdentifier(fkRelationship.fromColumn)} = ${this.quoteIdentifier(embedded.table)}.${this.quoteIdentifier(fkRelationship.toColumn)}`
-              } else {
-                joinCondition = `${this.quoteIdentifier(embedded.table)}.${this.quoteIdentifier(fkRelationship.fromColumn)} = ${quotedMainTable}.${this.quoteIdentifier(fkRelationship.toColumn)}`
-              }
-              
-              const existsCondition = `EXISTS (SELECT 1 FROM ${this.quoteIdentifier(embedded.table)} WHERE ${joinCondition} AND ${embeddedFilterConditions.join(' AND ')})`
-              whereConditions.push(existsCondition)
-            }
-          }
-        } else {
-          // No filters, but still need to ensure the relationship exists for INNER JOIN behavior
-          const fkRelationship = await this.discoverForeignKeyRelationship(table, embedded.table)
-          if (fkRelationship) {
-            let joinCondition: string
-            if (fkRelationship.fromTable === table && fkRelationship.toTable === embedded.table) {
-              joinCondition = `${quotedMainTable}.${this.quoteIdentifier(fkRelationship.fromColumn)} = ${this.quoteIdentifier(embedded.table)}.${this.quoteIdentifier(fkRelationship.toColumn)}`
-            } else {
-              joinCondition = `${this.quoteIdentifier(embedded.table)}.${this.quoteIdentifier(fkRelationship.fromColumn)} = ${quotedMainTable}.${this.quoteIdentifier(fkRelationship.toColumn)}`
-            }
-            
-            const existsCondition = `EXISTS (SELECT 1 FROM ${this.quoteIdentifier(embedded.table)} WHERE ${joinCondition})`
-            whereConditions.push(existsCondition)
-          }
-        }
-      }
-    }
+    whereConditions.push(...innerJoinConditions)
     
     // Build final SQL
     let sql = `SELECT ${selectColumns.join(', ')} FROM ${quotedMainTable}`
@@ -649,10 +761,17 @@ export class SQLBuilder {
     if (whereConditions.length > 0) {
       sql += ` WHERE ${whereConditions.join(' AND ')}`
     }
+
+    if (query.aggregates?.length) {
+      const groupByClause = this.buildAggregateGroupByClause(groupedColumns, correlationColumns)
+      if (groupByClause) {
+        sql += ` ${groupByClause}`
+      }
+    }
     
     // Add ORDER BY if specified
     if (query.order && query.order.length > 0) {
-      const orderClause = await this.buildOrderClause(query.order, query, quotedMainTable)
+      const orderClause = await this.buildOrderClause(query.order, query, quotedMainTable, computed)
       if (orderClause) {
         sql += ` ${orderClause}`
       }
@@ -675,8 +794,17 @@ export class SQLBuilder {
   /**
    * Build SELECT query with JOINs for filtering on embedded tables
    */
-  private async buildSelectWithJoins(table: string, query: ParsedQuery): Promise<{ sql: string, joins: JoinInfo[] }> {
+  private async buildSelectWithJoins(table: string, query: ParsedQuery, computed: ComputedColumns): Promise<{ sql: string, joins: JoinInfo[] }> {
     console.log(`🔍 Building SELECT with JOINs for: ${table}`)
+
+    // Joined rows would be counted into the aggregates of their parent row
+    if (query.aggregates?.length) {
+      throw new PostgRESTQueryError(
+        'PGRST127',
+        'Feature not implemented',
+        'Aggregate functions cannot be combined with ordering or filtering on tables that are not embedded'
+      )
+    }
     
     const joins: JoinInfo[] = []
     const selectColumns: string[] = []
@@ -913,7 +1041,7 @@ export class SQLBuilder {
     
     // Add embedded table filters to main query WHERE clause for INNER JOIN behavior
     for (const embedded of query.embedded || []) {
-      if (embedded.fkHint === 'inner') {
+      if (embedded.joinType === 'inner') {
         // Find filters for this embedded table
         const embeddedFilters = embeddedTableFilters.filter(filter => 
           filter.column.startsWith(`${embedded.table}.`) || filter.referencedTable === embedded.table
@@ -922,11 +1050,11 @@ export class SQLBuilder {
       }
     }
     
-    const whereClause = this.buildWhereClause(allMainFilters)
+    const whereClause = this.buildWhereClause(allMainFilters, computed)
     
     // For INNER JOIN embedded resources, add HAVING clause to filter out rows with NULL embedded data
     let havingClause = ''
-    const innerJoinEmbedded = (query.embedded || []).filter(embedded => embedded.fkHint === 'inner')
+    const innerJoinEmbedded = (query.embedded || []).filter(embedded => embedded.joinType === 'inner')
     if (innerJoinEmbedded.length > 0) {
       const havingConditions = innerJoinEmbedded.map(embedded => {
         const aliasName = embedded.alias || embedded.table
@@ -955,7 +1083,7 @@ export class SQLBuilder {
     const groupByClause = groupByColumns ? `GROUP BY ${groupByColumns}` : ''
 
     // Build ORDER BY clause
-    const orderClause = await this.buildOrderClause(query.order, query, quotedMainTable)
+    const orderClause = await this.buildOrderClause(query.order, query, quotedMainTable, computed)
 
     // Build LIMIT and OFFSET
     const limitClause = query.limit ? `LIMIT ${query.limit}` : ''
@@ -985,20 +1113,29 @@ export class SQLBuilder {
   /**
    * Build simple SELECT query without embedded resources
    */
-  private async buildSimpleSelectQuery(table: string, query: ParsedQuery): Promise<{ sql: string, joins: JoinInfo[] }> {
+  private async buildSimpleSelectQuery(table: string, query: ParsedQuery, computed: ComputedColumns): Promise<{ sql: string, joins: JoinInfo[] }> {
     const joins: JoinInfo[] = []
     
     // Build SELECT clause
-    const selectClause = this.buildSimpleSelectClause(table, query)
+    const plainColumns = this.buildSimpleSelectColumns(table, query)
+    const selectClause = [
+      ...plainColumns,
+      ...(query.aggregates || []).map(aggregate => this.buildAggregateColumn(aggregate, table))
+    ].join(', ')
     
     // Build FROM clause
     let fromClause = `FROM ${table}`
 
     // Build WHERE clause
-    const whereClause = this.buildWhereClause(query.filters)
+    const whereClause = this.buildWhereClause(query.filters, computed)
+
+    // Aggregates group by every plain column in the select list
+    const groupByClause = query.aggregates?.length
+      ? this.buildAggregateGroupByClause(plainColumns)
+      : ''
 
     // Build ORDER BY clause
-    const orderClause = await this.buildOrderClause(query.order, query, table)
+    const orderClause = await this.buildOrderClause(query.order, query, table, computed)
 
     // Build LIMIT and OFFSET
     const limitClause = query.limit ? `LIMIT ${query.limit}` : ''
@@ -1009,6 +1146,7 @@ export class SQLBuilder {
       `SELECT ${selectClause}`,
       fromClause,
       whereClause,
+      groupByClause,
       orderClause,
       limitClause,
       offsetClause
@@ -1024,9 +1162,10 @@ export class SQLBuilder {
   }
 
   /**
-   * Build simple SELECT clause without embedded resources
+   * Build the plain column items of a SELECT without embedded resources;
+   * aggregates are added by the caller
    */
-  private buildSimpleSelectClause(table: string, query: ParsedQuery): string {
+  private buildSimpleSelectColumns(table: string, query: ParsedQuery): string[] {
     const columns: string[] = []
 
     if (query.select && query.select.length > 0) {
@@ -1057,17 +1196,17 @@ export class SQLBuilder {
           }
         }
       }
-    } else {
+    } else if (!query.aggregates?.length) {
       columns.push(`${table}.*`)
     }
 
-    return columns.join(', ')
+    return columns
   }
 
   /**
    * Build SELECT query with embedded resources using correlated subqueries
    */
-  private async buildSelectWithJoinAggregation(table: string, query: ParsedQuery): Promise<{ sql: string, joins: JoinInfo[] }> {
+  private async buildSelectWithJoinAggregation(table: string, query: ParsedQuery, computed: ComputedColumns): Promise<{ sql: string, joins: JoinInfo[] }> {
     console.log(`🔍 Building SELECT with correlated subqueries for: ${table}`)
     
     const joins: JoinInfo[] = []
@@ -1116,9 +1255,14 @@ export class SQLBuilder {
           }
         }
       }
-    } else {
+    } else if (!query.aggregates?.length) {
       selectColumns.push(`${quotedMainTableAlias}.*`)
     }
+
+    const groupedColumns = [...selectColumns]
+    for (const aggregate of query.aggregates || []) {
+      selectColumns.push(this.buildAggregateColumn(aggregate, quotedMainTableAlias))
+    }
     
     // Add embedded resources as correlated subqueries
     // Filter out embedded resources without aliases if there are others with aliases for the same table
@@ -1141,6 +1285,8 @@ export class SQLBuilder {
     
     // Inner join tracking removed - now handled by proper SQL INNER JOINs
     
+    // Embeds stay correlated to the parent rows, so their join columns are grouped too
+    const correlationColumns: string[] = []
     for (const embedded of filteredEmbedded) {
       console.log(`🔍 DEBUG: Processing embedded resource for subquery:`, embedded)
       const subquery = await this.buildEmbeddedSubquery(table, embedded, query.filters)
@@ -1152,6 +1298,9 @@ export class SQLBuilder {
         console.log(`🔍 DEBUG: Creating subquery column: aliasName="${aliasName}", quotedAlias="${quotedAlias}"`)
         console.log(`🔍 DEBUG: Subquery SQL: ${subquery}`)
         selectColumns.push(`(${subquery}) AS ${quotedAlias}`)
+        if (query.aggregates?.length) {
+          correlationColumns.push(...await this.getEmbedCorrelationColumns(table, embedded, quotedMainTableAlias))
+        }
       }
     }
     
@@ -1162,12 +1311,16 @@ export class SQLBuilder {
     // For PostgREST compatibility, embedded table filters should not filter out parent rows
     const embeddedTables = new Set((query.embedded || []).map(e => e.table))
     const { mainTableFilters } = this.separateMainAndEmbeddedFilters(query, embeddedTables)
-    const whereClause = this.buildWhereClause(mainTableFilters)
+    const whereClause = this.buildWhereClause(mainTableFilters, computed)
 
     // HAVING clause removed - inner join filtering now handled by proper SQL INNER JOINs
 
+    const groupByClause = query.aggregates?.length
+      ? this.buildAggregateGroupByClause(groupedColumns, correlationColumns)
+      : ''
+
     // Build ORDER BY clause (using clean alias)
-    const orderClause = await this.buildOrderClause(query.order, query, quotedMainTableAlias)
+    const orderClause = await this.buildOrderClause(query.order, query, quotedMainTableAlias, computed)
 
     // Build LIMIT and OFFSET
     const limitClause = query.limit ? `LIMIT ${query.limit}` : ''
@@ -1178,6 +1331,7 @@ export class SQLBuilder {
       `SELECT ${selectColumns.join(', ')}`,
       fromClause,
       whereClause,
+      groupByClause,
       orderClause,
       limitClause,
       offsetClause
@@ -1205,7 +1359,8 @@ export class SQLBuilder {
     
     const embeddedTableFilters = (queryFilters || []).filter(filter => {
       const startsWithTable = filter.column.startsWith(`${embedded.table}.`)
-      const hasReferencedTable = filter.referencedTable === embedded.table
+      const hasReferencedTable = filter.referencedTable === embedded.table ||
+        (embedded.alias !== undefined && filter.referencedTable === embedded.alias)
       console.log(`🔍 Filter check - column: "${filter.column}", starts with "${embedded.table}.": ${startsWithTable}, referencedTable: "${filter.referencedTable}", matches: ${hasReferencedTable}`)
       return startsWithTable || hasReferencedTable
     })
@@ -1218,11 +1373,18 @@ export class SQLBuilder {
     }
     
     // Discover the foreign key relationship
-    // Don't pass join type hints (like "inner") as constraint names
-    const constraintHint = embedded.fkHint === 'inner' ? undefined : embedded.fkHint
-    let fkRelationship = await this.discoverForeignKeyRelationship(table, embedded.table, constraintHint)
+    let fkRelationship = await this.discoverForeignKeyRelationship(table, embedded.table, embedded.fkHint)
     console.log(`🔗 Foreign key relationship found:`, fkRelationship)
-    
+
+    // Without a foreign key the embed may name a computed relationship, f(table) returning rows
+    if (!fkRelationship && !embedded.fkHint) {
+      const computedRelationship = (await this.discoverComputedFields(table, schema))
+        .find(field => field.name === this.extractTableNameFromQualified(embedded.table) && field.returnsTable)
+      if (computedRelationship) {
+        return this.buildComputedRelationshipSubquery(table, embedded, computedRelationship, embeddedTableFilters, schema)
+      }
+    }
+
     // If FK discovery failed, return null - no hardcoded fallbacks allowed
     if (!fkRelationship) {
       console.log(`❌ No foreign key relationship found between ${table} and ${embedded.table} in database schema`)
@@ -1230,6 +1392,26 @@ export class SQLBuilder {
       console.log(`❌ No foreign key relationship found between ${table} and ${embedded.table}`)
       return null
     }
+
+    // Spreads merge a single related row into the parent, so only to-one relationships
+    // qualify: the parent references the embed, or the embed references the parent
+    // through a unique column (one-to-one)
+    const parentTableName = this.extractTableNameFromQualified(table)
+    const embeddedTableName = this.extractTableNameFromQualified(embedded.table)
+    const isManyToOne = !fkRelationship.joinTable &&
+      fkRelationship.fromTable === parentTableName &&
+      fkRelationship.toTable === embeddedTableName
+    const isOneToOne = !isManyToOne && !fkRelationship.joinTable && !!embedded.spread &&
+      fkRelationship.fromTable === embeddedTableName &&
+      fkRelationship.toTable === parentTableName &&
+      await this.isUniqueColumn(embeddedTableName, fkRelationship.fromColumn, schema)
+    if (embedded.spread && !isManyToOne && !isOneToOne) {
+      throw new PostgRESTQueryError(
+        'PGRST119',
+        `A spread operation on '${embeddedTableName}' is not possible`,
+        `'${parentTableName}' and '${embeddedTableName}' do not form a many-to-one or one-to-one relationship`
+      )
+    }
     
     // Helper function to properly quote table names if they contain spaces
     const quoteTableName = (tableName: string): string => {
@@ -1277,8 +1459,9 @@ export class SQLBuilder {
       )`
       
       // Build additional WHERE conditions for embedded filters
-      if (embedded.filters && embedded.filters.length > 0) {
-        const embeddedFilterConditions = embedded.filters
+      const filtersToUse = embeddedTableFilters.length > 0 ? embeddedTableFilters : (embedded.filters || [])
+      if (filtersToUse.length > 0) {
+        const embeddedFilterConditions = filtersToUse
           .map(filter => {
             // Strip table name from filter column since we're already in the embedded table context
             const columnName = filter.column.includes('.') ? 
@@ -1292,6 +1475,10 @@ export class SQLBuilder {
         }
       }
       
+      if (embedded.aggregates?.length) {
+        return this.buildEmbeddedAggregateSubquery(embedded, quotedEmbeddedTable, quotedEmbeddedAlias, whereCondition, false)
+      }
+      
       if (isCountOnly) {
         // For count-only requests, return a simple count without json_agg nesting
         subquery = `SELECT json_build_array(json_build_object('count', (SELECT COUNT(*) FROM ${quotedEmbeddedTable} AS ${quotedEmbeddedAlias} WHERE ${whereCondition})))`
@@ -1350,6 +1537,16 @@ export class SQLBuilder {
         
         whereCondition += additionalWhere
         console.log(`🔧 One-to-many relationship with embedded filters: ${whereCondition}`)
+
+        if (embedded.aggregates?.length) {
+          return this.buildEmbeddedAggregateSubquery(embedded, quotedEmbeddedTable, quotedEmbeddedAlias, whereCondition, isOneToOne)
+        }
+
+        // A spread one-to-one embed is a single related row, like a many-to-one embed
+        if (isOneToOne) {
+          const selectClause = await this.buildEmbeddedSelectClause(embedded, quotedEmbeddedTable, table, schema)
+          return `SELECT ${selectClause} FROM ${quotedEmbeddedTable} AS ${quotedEmbeddedAlias} WHERE ${whereCondition} LIMIT 1`
+        }
         
         // Continue with one-to-many subquery building
         if (isCountOnly) {
@@ -1426,6 +1623,10 @@ export class SQLBuilder {
         }
         
         const fullWhereCondition = `${whereCondition}${additionalWhere}`
+
+        if (embedded.aggregates?.length) {
+          return this.buildEmbeddedAggregateSubquery(embedded, quotedEmbeddedTable, quotedEmbeddedAlias, fullWhereCondition, true)
+        }
         
         if (isCountOnly) {
           // For count-only many-to-one, return 1 if relationship exists and matches filters, 0 otherwise
@@ -1507,7 +1708,7 @@ export class SQLBuilder {
             console.log(`🎯 Added ORDER BY for embedded resource ${embedded.table} (embedded filters):`, orderByClause)
           }
 
-          if (embedded.fkHint === 'inner') {
+          if (embedded.joinType === 'inner') {
             // For inner joins, keep array semantics but still null out parents when filters remove matches
             subquery = `SELECT CASE WHEN EXISTS(SELECT 1 FROM ${quotedEmbeddedTable} AS ${quotedEmbeddedAlias} WHERE ${combinedCondition})
                                THEN COALESCE(${jsonAggClause}, '[]'::json)
@@ -1535,7 +1736,7 @@ export class SQLBuilder {
             console.log(`🎯 Added ORDER BY for embedded resource ${embedded.table} (no embedded filters):`, orderByClause)
           }
 
-          if (embedded.fkHint === 'inner') {
+          if (embedded.joinType === 'inner') {
             // For inner joins, keep array semantics but still null out parents when no children remain
             subquery = `SELECT CASE WHEN EXISTS(SELECT 1 FROM ${quotedEmbeddedTable} AS ${quotedEmbeddedAlias} WHERE ${fullWhereCondition})
                                THEN COALESCE(${jsonAggClause}, '[]'::json)
@@ -1555,6 +1756,84 @@ export class SQLBuilder {
     return subquery
   }
 
+  /**
+   * Build the correlated subquery of a computed relationship by calling its
+   * function on the parent row. SETOF functions embed an array, others a
+   * single object, or null when the function returns no row.
+   */
+  private async buildComputedRelationshipSubquery(
+    table: string,
+    embedded: EmbeddedResource,
+    relationship: ComputedField,
+    queryFilters: ParsedFilter[],
+    schema?: string
+  ): Promise<string> {
+    const parentTableName = this.extractTableNameFromQualified(table)
+    const functionName = this.extractTableNameFromQualified(embedded.table)
+    if (embedded.spread && relationship.returnsSet) {
+      throw new PostgRESTQueryError(
+        'PGRST119',
+        `A spread operation on '${functionName}' is not possible`,
+        `'${parentTableName}' and '${functionName}' do not form a many-to-one or one-to-one relationship`
+      )
+    }
+
+    const quotedAlias = this.quoteIdentifier(functionName)
+    const source = `${quotedAlias}(${this.quoteIdentifier(parentTableName)})`
+    console.log(`🔗 Building computed relationship subquery: ${source} -> ${relationship.returnsTable}`)
+
+    // A function returning a single row yields a row of nulls when it finds nothing
+    const conditions = relationship.returnsSet ? [] : [`NOT (${quotedAlias} IS NULL)`]
+    const filtersToUse = queryFilters.length > 0 ? queryFilters : (embedded.filters || [])
+    for (const filter of filtersToUse) {
+      // Strip the embed name from the filter column since we're already in its context
+      const columnName = filter.column.includes('.') ?
+        filter.column.split('.').slice(1).join('.') : filter.column
+      const condition = this.buildFilterConditionLiteral({ ...filter, column: columnName })
+      if (condition) {
+        conditions.push(condition)
+      }
+    }
+    const whereCondition = conditions.length > 0 ? conditions.join(' AND ') : 'TRUE'
+
+    if (embedded.aggregates?.length) {
+      return this.buildEmbeddedAggregateSubquery(embedded, source, quotedAlias, whereCondition, !relationship.returnsSet)
+    }
+
+    const isCountOnly = embedded.select?.length === 1 && embedded.select[0] === 'count'
+    if (isCountOnly) {
+      return relationship.returnsSet
+        ? `SELECT json_build_array(json_build_object('count', (SELECT COUNT(*) FROM ${source} AS ${quotedAlias} WHERE ${whereCondition})))`
+        : `SELECT json_build_object('count', CASE WHEN EXISTS(SELECT 1 FROM ${source} AS ${quotedAlias} WHERE ${whereCondition}) THEN 1 ELSE 0 END)`
+    }
+
+    const selectClause = await this.buildEmbeddedSelectClause(embedded, quotedAlias, table, schema)
+    if (!relationship.returnsSet) {
+      return `SELECT ${selectClause} FROM ${source} AS ${quotedAlias} WHERE ${whereCondition} LIMIT 1`
+    }
+
+    const orderItems = (embedded.order || []).map(item => {
+      let orderItem = `${quotedAlias}.${this.quoteIdentifier(item.column)} ${item.ascending ? 'ASC' : 'DESC'}`
+      if (item.nullsFirst !== undefined) {
+        orderItem += ` NULLS ${item.nullsFirst ? 'FIRST' : 'LAST'}`
+      }
+      return orderItem
+    })
+    const jsonAggClause = orderItems.length > 0
+      ? `json_agg(${selectClause} ORDER BY ${orderItems.join(', ')})`
+      : `json_agg(${selectClause})`
+
+    // Like foreign key embeds, a filtered embed is null when none of its rows match
+    if (queryFilters.length > 0) {
+      return `SELECT CASE WHEN EXISTS(SELECT 1 FROM ${source} AS ${quotedAlias} WHERE ${whereCondition})
+                     THEN COALESCE(${jsonAggClause}, '[]'::json)
+                     ELSE NULL
+                     END
+              FROM ${source} AS ${quotedAlias} WHERE ${whereCondition}`
+    }
+    return `SELECT COALESCE(${jsonAggClause}, '[]'::json) FROM ${source} AS ${quotedAlias} WHERE ${whereCondition}`
+  }
+
   /**
    * Build SELECT clause for embedded resource that may contain nested embedded resources
    */
@@ -1587,7 +1866,8 @@ export class SQLBuilder {
           // This will be handled in the subquery builder
           columnPairs.push(`'count', COUNT(*)`)
         } else {
-          columnPairs.push(`'${col}', ${quotedEmbeddedAlias}.${this.quoteIdentifier(col)}`)
+          const { name, column } = parseSelectAlias(col)
+          columnPairs.push(`'${name.replace(/'/g, "''")}', ${quotedEmbeddedAlias}.${this.quoteIdentifier(column)}`)
         }
       }
     }
@@ -1695,6 +1975,124 @@ export class SQLBuilder {
     return subquery.trim()
   }
 
+  /**
+   * Build an aggregate select item, e.g. sum("orders"."amount") AS "sum"
+   */
+  private buildAggregateColumn(aggregate: SelectAggregate, tableRef: string): string {
+    let argument = '*'
+    if (aggregate.column) {
+      argument = `${tableRef}.${this.quoteIdentifier(aggregate.column)}`
+      if (aggregate.columnCast) {
+        argument += `::${aggregate.columnCast}`
+      }
+    }
+
+    let expression = `${aggregate.function}(${argument})`
+    if (aggregate.cast) {
+      expression += `::${aggregate.cast}`
+    }
+
+    return `${expression} AS ${this.quoteIdentifier(aggregate.alias || aggregate.function)}`
+  }
+
+  /**
+   * Build the implicit GROUP BY for a select list that mixes aggregates with plain
+   * columns. Every plain select item is grouped by its expression, without its
+   * alias; extra expressions cover columns that embed subqueries are correlated on.
+   */
+  private buildAggregateGroupByClause(groupedColumns: string[], extraColumns: string[] = []): string {
+    const columns = new Set<string>()
+    for (const column of groupedColumns) {
+      // A whole-row item has no expression to group by
+      if (!column.endsWith('.*')) {
+        columns.add(column.replace(/\s+AS\s+(?:"(?:[^"]|"")*"|[^\s"]+)$/i, ''))
+      }
+    }
+    for (const extraColumn of extraColumns) {
+      columns.add(extraColumn)
+    }
+
+    return columns.size > 0 ? `GROUP BY ${Array.from(columns).join(', ')}` : ''
+  }
+
+  /**
+   * Parent table columns an embed subquery is correlated on
+   */
+  private async getEmbedCorrelationColumns(table: string, embedded: EmbeddedResource, mainTableRef: string): Promise<string[]> {
+    const fkRelationship = await this.discoverForeignKeyRelationship(table, embedded.table, embedded.fkHint)
+    if (!fkRelationship) {
+      return []
+    }
+
+    // Many-to-many and many-to-one embeds join on the parent's referencing column,
+    // one-to-many embeds on the referenced one
+    const parentColumn = fkRelationship.fromTable === table.replace(/^"(.*)"$/, '$1')
+      ? fkRelationship.fromColumn
+      : fkRelationship.toColumn
+    return [`${mainTableRef}.${this.quoteIdentifier(parentColumn)}`]
+  }
+
+  /**
+   * Build the subquery for an embed that selects aggregates. The embedded rows are
+   * grouped by the plain columns selected next to the aggregates, and each group
+   * becomes one JSON object. The embed's order and limit apply to the groups; their
+   * columns are the grouped columns and the aggregate aliases.
+   */
+  private buildEmbeddedAggregateSubquery(
+    embedded: EmbeddedResource,
+    quotedEmbeddedTable: string,
+    quotedEmbeddedAlias: string,
+    whereCondition: string,
+    toOne: boolean
+  ): string {
+    if (embedded.embedded?.length) {
+      throw new PostgRESTQueryError(
+        'PGRST127',
+        'Feature not implemented',
+        `Embedding resources inside '${embedded.alias || embedded.table}' is not supported when it selects aggregate functions`
+      )
+    }
+
+    const columns = (embedded.select || [])
+      .filter(col => col !== '*')
+      .map(col => {
+        const { name, column } = parseSelectAlias(col)
+        const expression = `${quotedEmbeddedAlias}.${this.quoteIdentifier(column)}`
+        return name === column ? expression : `${expression} AS ${this.quoteIdentifier(name)}`
+      })
+    const selectItems = [
+      ...columns,
+      ...(embedded.aggregates || []).map(aggregate => this.buildAggregateColumn(aggregate, quotedEmbeddedAlias))
+    ]
+
+    const groupAlias = this.quoteIdentifier(`${embedded.alias || embedded.table}_groups`)
+    const orderItems = (embedded.order || []).map(item => {
+      let orderItem = `${this.quoteIdentifier(item.column)} ${item.ascending ? 'ASC' : 'DESC'}`
+      if (item.nullsFirst !== undefined) {
+        orderItem += ` NULLS ${item.nullsFirst ? 'FIRST' : 'LAST'}`
+      }
+      return orderItem
+    })
+
+    const groupedQuery = [
+      `SELECT ${selectItems.join(', ')}`,
+      `FROM ${quotedEmbeddedTable} AS ${quotedEmbeddedAlias}`,
+      `WHERE ${whereCondition}`,
+      this.buildAggregateGroupByClause(columns),
+      orderItems.length > 0 ? `ORDER BY ${orderItems.join(', ')}` : '',
+      embedded.limit !== undefined ? `LIMIT ${embedded.limit}` : '',
+      embedded.offset ? `OFFSET ${embedded.offset}` : ''
+    ].filter(Boolean).join(' ')
+
+    if (toOne) {
+      return `SELECT to_json(${groupAlias}) FROM (${groupedQuery}) AS ${groupAlias}`
+    }
+    const aggOrder = orderItems.length > 0
+      ? ` ORDER BY ${orderItems.map(item => `${groupAlias}.${item}`).join(', ')}`
+      : ''
+    return `SELECT COALESCE(json_agg(to_json(${groupAlias})${aggOrder}), '[]'::json) FROM (${groupedQuery}) AS ${groupAlias}`
+  }
+
   /**
    * Build GROUP BY columns for main table when using embedded resources
    */
@@ -1734,7 +2132,7 @@ export class SQLBuilder {
   /**
    * Build WHERE clause from filters
    */
-  private buildWhereClause(filters: ParsedFilter[]): string {
+  private buildWhereClause(filters: ParsedFilter[], computed?: ComputedColumns): string {
     console.log(`🔍 DEBUG buildWhereClause called with ${filters.length} filters:`, filters.map(f => ({
       column: f.column, 
       operator: f.operator, 
@@ -1753,7 +2151,7 @@ export class SQLBuilder {
           operator: filter.operator, 
           referencedTable: filter.referencedTable 
         })
-        const condition = this.buildFilterCondition(filter)
+        const condition = this.buildFilterCondition(filter, computed)
         console.log(`🔍 DEBUG Generated condition ${index}:`, condition)
         return condition
       })
@@ -1818,12 +2216,12 @@ export class SQLBuilder {
   /**
    * Build single filter condition
    */
-  private buildFilterCondition(filter: ParsedFilter): string {
+  private buildFilterCondition(filter: ParsedFilter, computed?: ComputedColumns): string {
     console.log(`🔍 Building filter condition for:`, { column: filter.column, operator: filter.operator, value: filter.value, negated: filter.negated, hasJsonPath: !!filter.jsonPath })
     
     if (filter.column === '__logical__') {
       // Handle logical operators (complex case) - but not 'not' since that's handled as negated flag
-      return this.buildLogicalCondition(filter)
+      return this.buildLogicalCondition(filter, computed)
     }
 
     const operator = POSTGREST_OPERATORS[filter.operator]
@@ -1854,6 +2252,10 @@ export class SQLBuilder {
         console.log(`🔧 Resolved table-qualified column: ${filter.column} -> ${columnExpression}`)
       }
     }
+    // Computed columns only resolve when qualified with their table
+    else if (!filter.jsonPath) {
+      columnExpression = this.computedColumnRef(filter.column, computed) ?? columnExpression
+    }
 
     // If this is a JSON path expression, convert it to proper PostgreSQL syntax
     if (filter.jsonPath) {
@@ -2080,7 +2482,7 @@ export class SQLBuilder {
   /**
    * Build logical condition (and, or, not)
    */
-  private buildLogicalCondition(filter: ParsedFilter): string {
+  private buildLogicalCondition(filter: ParsedFilter, computed?: ComputedColumns): string {
     console.log(`🔍 Building logical condition:`, filter)
     
     // Browser compatibility: add null checks and error handling
@@ -2094,7 +2496,7 @@ export class SQLBuilder {
             if (filter.referencedTable && !condition.referencedTable) {
               condition = { ...condition, referencedTable: filter.referencedTable }
             }
-            return this.buildFilterCondition(condition)
+            return this.buildFilterCondition(condition, computed)
           })
           .filter(Boolean)
         
@@ -2115,7 +2517,7 @@ export class SQLBuilder {
             if (filter.referencedTable && !condition.referencedTable) {
               condition = { ...condition, referencedTable: filter.referencedTable }
             }
-            return this.buildFilterCondition(condition)
+            return this.buildFilterCondition(condition, computed)
           })
           .filter(Boolean)
         
@@ -2137,7 +2539,7 @@ export class SQLBuilder {
       if (conditions) {
         // New format with structured conditions
         const conditionStrings = conditions
-          .map((condition: ParsedFilter) => this.buildFilterCondition(condition))
+          .map((condition: ParsedFilter) => this.buildFilterCondition(condition, computed))
           .filter(Boolean)
         
         if (conditionStrings.length > 0) {
@@ -2276,7 +2678,12 @@ export class SQLBuilder {
   /**
    * Build ORDER BY clause with implicit ordering for deterministic results
    */
-  private async buildOrderClause(order?: ParsedOrder[], query?: ParsedQuery, table?: string): Promise<string> {
+  private async buildOrderClause(
+    order?: ParsedOrder[],
+    query?: ParsedQuery,
+    table?: string,
+    computed?: ComputedColumns
+  ): Promise<string> {
     if (!order || order.length === 0) {
       // For LIMIT queries without explicit ORDER BY, add implicit ordering for deterministic results
       // This ensures test consistency while maintaining PostgREST compatibility
@@ -2293,8 +2700,8 @@ export class SQLBuilder {
         // Handle referenced table columns (e.g., section(name) -> orchestral_sections.name)
         columnRef = await this.resolveReferencedTableColumn(item.referencedTable, item.column, query, table)
       } else {
-        // Regular column reference
-        columnRef = item.column
+        // Regular column reference, qualified when it is a computed column
+        columnRef = this.computedColumnRef(item.column, computed) ?? item.column
       }
       
       let orderItem = `${columnRef} ${item.ascending ? 'ASC' : 'DESC'}`
@@ -2594,27 +3001,34 @@ export class SQLBuilder {
   }
 
   /**
-   * Build INSERT query
+   * Wrap a built statement in EXPLAIN, keeping its parameters
    */
-  buildInsertQuery(table: string, data: Record<string, any>[], schema?: string): SQLQuery {
-    this.paramIndex = 1
-    this.parameters = []
+  buildExplainQuery(query: SQLQuery, explain: ExplainOptions): SQLQuery {
+    const options = [
+      ...explain.options.map(option => option.toUpperCase()),
+      `FORMAT ${explain.format.toUpperCase()}`
+    ]
+
+    return {
+      sql: `EXPLAIN (${options.join(', ')}) ${query.sql}`,
+      parameters: query.parameters
+    }
+  }
 
+  /**
+   * Build INSERT query
+   */
+  async buildInsertQuery(table: string, data: Record<string, any>[], schema?: string, options: InsertOptions = {}): Promise<SQLQuery> {
     // URL decode and quote the table name for PostgreSQL compatibility
     const decodedTable = decodeURIComponent(table)
     const quotedTable = this.buildQuotedQualifiedTableName(decodedTable, schema)
 
-    const firstRow = data[0]
-    const columns = Object.keys(firstRow)
-    const columnsList = columns.join(', ')
+    const columns = await this.getInsertColumns(decodedTable, data, schema, options)
+    const columnsList = columns.map(col => this.quoteIdentifier(col)).join(', ')
 
-    const valueRows = data.map(row => {
-      const valuePlaceholders = columns.map(col => {
-        this.parameters.push(row[col])
-        return `$${this.paramIndex++}`
-      })
-      return `(${valuePlaceholders.join(', ')})`
-    })
+    this.paramIndex = 1
+    this.parameters = []
+    const valueRows = this.buildInsertValueRows(data, columns, options)
 
     const sql = `INSERT INTO ${quotedTable} (${columnsList}) VALUES ${valueRows.join(', ')} RETURNING *`
 
@@ -2628,26 +3042,25 @@ export class SQLBuilder {
    * Build UPSERT query (INSERT with ON CONFLICT DO UPDATE)
    * Supports custom conflict resolution columns via onConflictColumn parameter
    */
-  async buildUpsertQuery(table: string, data: Record<string, any>[], onConflictColumn?: string, schema?: string): Promise<SQLQuery> {
-    this.paramIndex = 1
-    this.parameters = []
-
+  async buildUpsertQuery(
+    table: string,
+    data: Record<string, any>[],
+    onConflictColumn?: string,
+    schema?: string,
+    options: InsertOptions = {}
+  ): Promise<SQLQuery> {
     // URL decode and quote the table name for PostgreSQL compatibility
     const decodedTable = decodeURIComponent(table)
     const quotedTable = this.buildQuotedQualifiedTableName(decodedTable, schema)
 
     const firstRow = data[0]
-    const columns = Object.keys(firstRow)
-    const columnsList = columns.join(', ')
+    const columns = await this.getInsertColumns(decodedTable, data, schema, options)
+    const columnsList = columns.map(col => this.quoteIdentifier(col)).join(', ')
 
     // Build VALUES clause
-    const valueRows = data.map(row => {
-      const valuePlaceholders = columns.map(col => {
-        this.parameters.push(row[col])
-        return `$${this.paramIndex++}`
-      })
-      return `(${valuePlaceholders.join(', ')})`
-    })
+    this.paramIndex = 1
+    this.parameters = []
+    const valueRows = this.buildInsertValueRows(data, columns, options)
 
     // Determine conflict target columns
     let conflictTargetColumns: string[]
@@ -2692,11 +3105,13 @@ export class SQLBuilder {
     }
 
     // Build ON CONFLICT clause
-    const conflictTarget = conflictTargetColumns.join(', ')
+    const conflictTarget = conflictTargetColumns.map(col => this.quoteIdentifier(col)).join(', ')
     
     // Build UPDATE clause for all non-conflict target columns
     const updateColumns = columns.filter(col => !conflictTargetColumns.includes(col))
-    const updateClause = updateColumns.map(col => `${col} = EXCLUDED.${col}`).join(', ')
+    const updateClause = updateColumns
+      .map(col => `${this.quoteIdentifier(col)} = EXCLUDED.${this.quoteIdentifier(col)}`)
+      .join(', ')
 
     let sql: string
     if (updateColumns.length > 0) {
@@ -2713,6 +3128,76 @@ export class SQLBuilder {
     }
   }
 
+  /**
+   * Columns written by an INSERT: the ?columns= list, or every key that
+   * appears in any of the rows so bulk inserts may mix shapes. Names in
+   * ?columns= must be columns of the table (PGRST204).
+   */
+  private async getInsertColumns(
+    table: string,
+    data: Record<string, unknown>[],
+    schema: string | undefined,
+    options: InsertOptions
+  ): Promise<string[]> {
+    if (!options.columns || options.columns.length === 0) {
+      return [...new Set(data.flatMap(row => Object.keys(row)))]
+    }
+
+    const tableColumns = await this.discoverTableColumns(table, schema)
+    if (tableColumns.length > 0) {
+      const unknown = options.columns.find(col => !tableColumns.includes(col))
+      if (unknown !== undefined) {
+        throw new PostgRESTQueryError(
+          'PGRST204',
+          `Could not find the '${unknown}' column of '${table}' in the schema cache`
+        )
+      }
+    }
+    return options.columns
+  }
+
+  /**
+   * Column names of a table, or none when they cannot be discovered
+   */
+  private async discoverTableColumns(table: string, schema?: string): Promise<string[]> {
+    if (!this.dbManager || !this.dbManager.isConnected()) {
+      return []
+    }
+
+    try {
+      const result = await this.dbManager.query(`
+        SELECT column_name
+        FROM information_schema.columns
+        WHERE table_schema = $1 AND table_name = $2
+      `, [schema || 'public', this.extractTableNameFromQualified(table)])
+      return result.rows.map((row: { column_name: string }) => row.column_name)
+    } catch (error) {
+      console.error(`💥 Failed to discover columns of ${table}:`, error)
+      return []
+    }
+  }
+
+  /**
+   * Build the VALUES rows of an INSERT. Keys absent from a row become NULL,
+   * or DEFAULT with Prefer: missing=default.
+   */
+  private buildInsertValueRows(data: Record<string, unknown>[], columns: string[], options: InsertOptions): string[] {
+    return data.map(row => {
+      const valuePlaceholders = columns.map(col => {
+        if (!(col in row)) {
+          if (options.missing === 'default') {
+            return 'DEFAULT'
+          }
+          this.parameters.push(null)
+          return `$${this.paramIndex++}`
+        }
+        this.parameters.push(row[col])
+        return `$${this.paramIndex++}`
+      })
+      return `(${valuePlaceholders.join(', ')})`
+    })
+  }
+
   /**
    * Dynamically discover primary key columns for a table
    * Uses PostgreSQL system catalogs, no hardcoded table/column names
@@ -2757,13 +3242,14 @@ export class SQLBuilder {
   /**
    * Build UPDATE query
    */
-  buildUpdateQuery(table: string, data: Record<string, any>, filters: ParsedFilter[], schema?: string): SQLQuery {
-    this.paramIndex = 1
-    this.parameters = []
-
+  async buildUpdateQuery(table: string, data: Record<string, any>, filters: ParsedFilter[], schema?: string): Promise<SQLQuery> {
     // URL decode and quote the table name for PostgreSQL compatibility
     const decodedTable = decodeURIComponent(table)
     const quotedTable = this.buildQuotedQualifiedTableName(decodedTable, schema)
+    const computed = await this.resolveComputedColumns(quotedTable, filters, [], schema)
+
+    this.paramIndex = 1
+    this.parameters = []
 
     const columns = Object.keys(data)
     const setClause = columns.map(col => {
@@ -2771,7 +3257,7 @@ export class SQLBuilder {
       return `${col} = $${this.paramIndex++}`
     }).join(', ')
 
-    const whereClause = this.buildWhereClause(filters)
+    const whereClause = this.buildWhereClause(filters, computed)
 
     const sql = `UPDATE ${quotedTable} SET ${setClause} ${whereClause} RETURNING *`
 
@@ -2844,15 +3330,15 @@ export class SQLBuilder {
   /**
    * Build DELETE query
    */
-  buildDeleteQuery(table: string, filters: ParsedFilter[], schema?: string): SQLQuery {
-    this.paramIndex = 1
-    this.parameters = []
-
+  async buildDeleteQuery(table: string, filters: ParsedFilter[], schema?: string): Promise<SQLQuery> {
     // URL decode and quote the table name for PostgreSQL compatibility
     const decodedTable = decodeURIComponent(table)
     const quotedTable = this.buildQuotedQualifiedTableName(decodedTable, schema)
+    const computed = await this.resolveComputedColumns(quotedTable, filters, [], schema)
 
-    const whereClause = this.buildWhereClause(filters)
+    this.paramIndex = 1
+    this.parameters = []
+    const whereClause = this.buildWhereClause(filters, computed)
 
     if (!whereClause) {
       throw new Error('DELETE requires WHERE conditions')
@@ -2870,15 +3356,15 @@ export class SQLBuilder {
    * Build COUNT query for total record counting
    */
   async buildCountQuery(table: string, query: ParsedQuery, schema?: string): Promise<SQLQuery> {
-    this.paramIndex = 1
-    this.parameters = []
-
     // URL decode and quote the table name for PostgreSQL compatibility
     const decodedTable = decodeURIComponent(table)
     const quotedTable = this.buildQuotedQualifiedTableName(decodedTable, schema)
+    const computed = await this.resolveComputedColumns(quotedTable, query.filters, query.order, schema)
 
     // Build WHERE clause from filters
-    const whereClause = this.buildWhereClause(query.filters || [])
+    this.paramIndex = 1
+    this.parameters = []
+    const whereClause = this.buildWhereClause(query.filters || [], computed)
 
     // Simple COUNT query - we just need the total count
     const sql = `SELECT COUNT(*) as count FROM ${quotedTable}${whereClause ? ' ' + whereClause : ''}`
@@ -2899,7 +3385,7 @@ export class SQLBuilder {
     tablesInFilters: Set<string>
   ): 'LEFT' | 'INNER' {
     // Check for explicit inner join hint (!inner)
-    if (embeddedResource?.fkHint === 'inner') {
+    if (embeddedResource?.joinType === 'inner') {
       return 'INNER'
     }
     
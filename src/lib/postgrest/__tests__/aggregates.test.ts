@@ -0,0 +1,162 @@
+import { describe, it, expect } from 'vitest'
+import { SQLBuilder } from '../SQLBuilder'
+import { createDbManager, normalize, parseQuery } from '../../../test/helpers'
+
+const parse = (search: string) => parseQuery('orders', search)
+
+/**
+ * orders.customer_id references customers.id
+ */
+const foreignKeys = (sql: string) =>
+  sql.includes("constraint_type = 'FOREIGN KEY'")
+    ? [{
+        referencing_table: 'orders',
+        foreign_key_column: 'customer_id',
+        referenced_table: 'customers',
+        referenced_column: 'id',
+        constraint_name: 'orders_customer_id_fkey'
+      }]
+    : []
+
+describe('QueryParser aggregates', () => {
+  it('should separate aggregates from the plain columns they are grouped by', () => {
+    const query = parse('select=amount.sum(),category')
+
+    expect(query.select).toEqual(['category'])
+    expect(query.aggregates).toEqual([{ function: 'sum', column: 'amount' }])
+    expect(query.embedded).toEqual([])
+  })
+
+  it('should parse count() without a column as the only select item', () => {
+    const query = parse('select=count()')
+
+    expect(query.select).toBeUndefined()
+    expect(query.aggregates).toEqual([{ function: 'count' }])
+  })
+
+  it('should parse aliases and casts on both sides of the aggregate', () => {
+    const query = parse('select=total:amount::int.sum()::text,avg_amount:amount.avg()::int')
+
+    expect(query.aggregates).toEqual([
+      { function: 'sum', column: 'amount', alias: 'total', columnCast: 'int', cast: 'text' },
+      { function: 'avg', column: 'amount', alias: 'avg_amount', cast: 'int' }
+    ])
+  })
+
+  it('should keep aggregates inside embedded resources on the embed', () => {
+    const query = parse('select=name,orders(status,amount.max(),count())')
+
+    expect(query.select).toEqual(['name'])
+    expect(query.aggregates).toBeUndefined()
+    expect(query.embedded).toEqual([
+      {
+        table: 'orders',
+        select: ['status'],
+        aggregates: [{ function: 'max', column: 'amount' }, { function: 'count' }]
+      }
+    ])
+  })
+
+  it('should leave the legacy count column of embeds alone', () => {
+    const query = parse('select=name,orders(count)')
+
+    expect(query.embedded).toEqual([{ table: 'orders', select: ['count'] }])
+  })
+
+  it('should reject column aggregates without a column', () => {
+    expect(() => parse('select=sum()')).toThrow('sum() requires a column')
+  })
+})
+
+describe('SQLBuilder aggregates', () => {
+  it('should group by the plain columns next to the aggregates', async () => {
+    const builder = new SQLBuilder(createDbManager(foreignKeys))
+    const { sql, parameters } = await builder.buildQuery('orders', parse('select=amount.sum(),category&status=eq.paid'))
+
+    expect(normalize(sql)).toBe('SELECT orders.category, sum(orders.amount) AS sum FROM orders WHERE status = $1 GROUP BY orders.category')
+    expect(parameters).toEqual(['paid'])
+  })
+
+  it('should group aliased columns by their expression', async () => {
+    const builder = new SQLBuilder(createDbManager(foreignKeys))
+    const { sql } = await builder.buildQuery('orders', parse('select=total:amount.sum(),kind:category'))
+
+    expect(normalize(sql)).toBe('SELECT orders.category AS kind, sum(orders.amount) AS total FROM orders GROUP BY orders.category')
+  })
+
+  it('should aggregate the whole table when only aggregates are selected', async () => {
+    const builder = new SQLBuilder(createDbManager(foreignKeys))
+    const { sql } = await builder.buildQuery('orders', parse('select=count(),total:amount.sum()::int'))
+
+    expect(normalize(sql)).toBe('SELECT count(*) AS count, sum(orders.amount)::int AS total FROM orders')
+  })
+
+  it('should group by the columns embedded resources are correlated on', async () => {
+    const builder = new SQLBuilder(createDbManager(foreignKeys))
+    const { sql } = await builder.buildQuery('orders', parse('select=amount.sum(),customers(name)'))
+
+    expect(normalize(sql)).toContain('SELECT sum(orders.amount) AS sum, (SELECT')
+    expect(normalize(sql)).toMatch(/FROM orders AS orders GROUP BY orders\.customer_id$/)
+  })
+
+  it('should aggregate the rows of to-many embeds per parent row', async () => {
+    const builder = new SQLBuilder(createDbManager(foreignKeys))
+    const { sql } = await builder.buildQuery('customers', parse('select=name,orders(status,amount.sum())'))
+
+    expect(normalize(sql)).toContain(
+      "(SELECT COALESCE(json_agg(to_json(orders_groups)), '[]'::json) FROM (" +
+        'SELECT orders.status, sum(orders.amount) AS sum FROM orders AS orders ' +
+        'WHERE orders.customer_id = customers.id GROUP BY orders.status' +
+      ') AS orders_groups) AS orders'
+    )
+    expect(normalize(sql)).not.toContain('GROUP BY customers')
+  })
+
+  it('should order and limit the groups of aggregate embeds', async () => {
+    const builder = new SQLBuilder(createDbManager(foreignKeys))
+    const { sql } = await builder.buildQuery(
+      'customers',
+      parse('select=name,orders(status,amount.sum())&orders.order=sum.desc&orders.limit=2')
+    )
+
+    expect(normalize(sql)).toContain(
+      "(SELECT COALESCE(json_agg(to_json(orders_groups) ORDER BY orders_groups.sum DESC), '[]'::json) FROM (" +
+        'SELECT orders.status, sum(orders.amount) AS sum FROM orders AS orders ' +
+        'WHERE orders.customer_id = customers.id GROUP BY orders.status ORDER BY sum DESC LIMIT 2' +
+      ') AS orders_groups) AS orders'
+    )
+  })
+
+  it('should reject embeds inside aggregate embeds', async () => {
+    const builder = new SQLBuilder(createDbManager(foreignKeys))
+
+    await expect(
+      builder.buildQuery('customers', parse('select=name,orders(amount.sum(),customers(name))'))
+    ).rejects.toMatchObject({ code: 'PGRST127' })
+  })
+
+  it('should keep aggregates when an embedded table is filtered', async () => {
+    const builder = new SQLBuilder(createDbManager(foreignKeys))
+    const { sql } = await builder.buildQuery('orders', parse('select=category,amount.sum(),customers(name)&customers.name=eq.Acme'))
+
+    expect(normalize(sql)).toMatch(/^SELECT orders\.category, sum\(orders\.amount\) AS sum, \(SELECT .+customers\.name = 'Acme'.+\) AS customers FROM orders AS orders GROUP BY orders\.category, orders\.customer_id$/)
+  })
+
+  it('should reject aggregates ordered by an embedded table with PGRST127', async () => {
+    const builder = new SQLBuilder(createDbManager(foreignKeys))
+
+    await expect(
+      builder.buildQuery('orders', parse('select=category,amount.sum(),customers(name)&order=customers(name)'))
+    ).rejects.toMatchObject({ code: 'PGRST127' })
+  })
+
+  it('should return a single object for aggregates over to-one embeds', async () => {
+    const builder = new SQLBuilder(createDbManager(foreignKeys))
+    const { sql } = await builder.buildQuery('orders', parse('select=id,buyer:customers(count())'))
+
+    expect(normalize(sql)).toContain(
+      'SELECT to_json(buyer_groups) FROM (SELECT count(*) AS count FROM customers AS customers ' +
+        'WHERE orders.customer_id = customers.id) AS buyer_groups'
+    )
+  })
+})
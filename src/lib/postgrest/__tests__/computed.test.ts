@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest'
+import { SQLBuilder } from '../SQLBuilder'
+import { PostgRESTQueryError } from '../PostgRESTErrorMapper'
+import { createDbManager, normalize, parseQuery } from '../../../test/helpers'
+
+const parse = (search: string) => parseQuery('authors', search)
+
+const computedFields = [
+  { function_name: 'full_name', returns_set: false, returns_table: null },
+  { function_name: 'top_posts', returns_set: true, returns_table: 'posts' },
+  { function_name: 'latest_post', returns_set: false, returns_table: 'posts' }
+]
+
+/**
+ * Answers the pg_proc lookup for authors with full_name(authors),
+ * top_posts(authors) and latest_post(authors); there are no foreign keys
+ */
+const functions = (sql: string, params: unknown[]) =>
+  sql.includes('FROM pg_proc') && params[0] === 'authors' ? computedFields : []
+
+describe('SQLBuilder computed columns', () => {
+  it('should qualify computed columns in filters and ordering', async () => {
+    const builder = new SQLBuilder(createDbManager(functions))
+    const { sql, parameters } = await builder.buildQuery('authors', parse('select=id,full_name&full_name=eq.Ada Lovelace&order=full_name.desc'))
+
+    expect(sql).toBe('SELECT authors.id, authors.full_name FROM authors WHERE authors.full_name = $1 ORDER BY authors.full_name DESC')
+    expect(parameters).toEqual(['Ada Lovelace'])
+  })
+
+  it('should resolve computed columns inside logical filters and count queries', async () => {
+    const builder = new SQLBuilder(createDbManager(functions))
+    const query = parse('or=(full_name.eq.Ada Lovelace,id.eq.2)')
+    const { sql } = await builder.buildCountQuery('authors', query)
+
+    expect(sql).toBe('SELECT COUNT(*) as count FROM authors WHERE (authors.full_name = $1 OR id = $2)')
+  })
+
+  it('should resolve computed columns in update and delete filters', async () => {
+    const builder = new SQLBuilder(createDbManager(functions))
+    const update = await builder.buildUpdateQuery('authors', { name: 'Ada' }, parse('full_name=eq.Ada Lovelace').filters)
+    const remove = await builder.buildDeleteQuery('authors', parse('full_name=eq.Ada Lovelace').filters)
+
+    expect(update.sql).toBe('UPDATE authors SET name = $1 WHERE authors.full_name = $2 RETURNING *')
+    expect(update.parameters).toEqual(['Ada', 'Ada Lovelace'])
+    expect(remove.sql).toBe('DELETE FROM authors WHERE authors.full_name = $1 RETURNING *')
+  })
+
+  it('should keep the computed columns of concurrent builds apart', async () => {
+    const builder = new SQLBuilder(createDbManager(functions))
+    const [computed, plain] = await Promise.all([
+      builder.buildQuery('authors', parse('select=id&full_name=eq.Ada')),
+      builder.buildQuery('books', parse('select=id&full_name=eq.Ada'))
+    ])
+
+    expect(computed.sql).toContain('WHERE authors.full_name = ')
+    expect(plain.sql).toContain('WHERE full_name = ')
+  })
+
+  it('should skip the lookup when nothing filters or orders the main table', async () => {
+    const dbManager = createDbManager(functions)
+    await new SQLBuilder(dbManager).buildQuery('authors', parse('select=id,full_name'))
+
+    expect(dbManager.query).not.toHaveBeenCalled()
+  })
+})
+
+describe('SQLBuilder computed relationships', () => {
+  it('should embed a SETOF function as an array', async () => {
+    const builder = new SQLBuilder(createDbManager(functions))
+    const { sql } = await builder.buildQuery('authors', parse('select=id,top_posts(id,title)&top_posts.order=id.desc'))
+
+    expect(normalize(sql)).toContain(
+      "(SELECT COALESCE(json_agg(json_build_object('id', top_posts.id, 'title', top_posts.title) ORDER BY top_posts.id DESC), '[]'::json) " +
+        'FROM top_posts(authors) AS top_posts WHERE TRUE) AS top_posts'
+    )
+  })
+
+  it('should embed a function returning one row as an object', async () => {
+    const builder = new SQLBuilder(createDbManager(functions))
+    const { sql } = await builder.buildQuery('authors', parse('select=id,latest_post(title)'))
+
+    expect(normalize(sql)).toContain(
+      "(SELECT json_build_object('title', latest_post.title) FROM latest_post(authors) AS latest_post " +
+        'WHERE NOT (latest_post IS NULL) LIMIT 1) AS latest_post'
+    )
+  })
+
+  it('should reject spreads over SETOF functions with PGRST119', async () => {
+    const builder = new SQLBuilder(createDbManager(functions))
+    const error = await builder.buildQuery('authors', parse('select=id,...top_posts(title)')).catch((e: unknown) => e)
+
+    expect(error).toBeInstanceOf(PostgRESTQueryError)
+    expect(error).toMatchObject({ code: 'PGRST119', message: "A spread operation on 'top_posts' is not possible" })
+  })
+})
@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest'
+import { SQLBuilder } from '../SQLBuilder'
+import { ResponseFormatter } from '../ResponseFormatter'
+import { PostgRESTQueryError } from '../PostgRESTErrorMapper'
+import { createDbManager, normalize, parseQuery as parse } from '../../../test/helpers'
+
+const foreignKeys = [
+  { referencing_table: 'orders', foreign_key_column: 'customer_id', referenced_table: 'customers', referenced_column: 'id', constraint_name: 'orders_customer_id_fkey' },
+  { referencing_table: 'notes', foreign_key_column: 'customer_id', referenced_table: 'customers', referenced_column: 'id', constraint_name: 'notes_customer_id_fkey' }
+]
+
+// notes.customer_id is unique, so notes is one-to-one with customers
+const uniqueColumns = [['notes', 'customer_id']]
+
+const relationships = (sql: string, params: unknown[]) => {
+  if (sql.includes('pg_index')) {
+    return uniqueColumns.some(([table, column]) => params[0] === table && params[1] === column) ? [{}] : []
+  }
+  return sql.includes("constraint_type = 'FOREIGN KEY'")
+    ? foreignKeys.filter(fk => sql.includes(`'${fk.referencing_table}'`) && sql.includes(`'${fk.referenced_table}'`))
+    : []
+}
+
+describe('QueryParser embed modifiers', () => {
+  it('should parse spread embeds', () => {
+    const query = parse('orders', 'select=id,...customers(name,email)')
+
+    expect(query.select).toEqual(['id'])
+    expect(query.embedded).toEqual([{ table: 'customers', spread: true, select: ['name', 'email'] }])
+  })
+
+  it('should separate join modifiers from foreign key hints', () => {
+    const query = parse('customers', 'select=name,orders!orders_customer_id_fkey!inner(id),buyer:customers!left(name)')
+
+    expect(query.embedded).toEqual([
+      { table: 'orders', fkHint: 'orders_customer_id_fkey', joinType: 'inner', select: ['id'] },
+      { table: 'customers', alias: 'buyer', joinType: 'left', select: ['name'] }
+    ])
+  })
+})
+
+describe('SQLBuilder embed modifiers', () => {
+  it('should drop parent rows without a matching !inner embed and keep other embeds', async () => {
+    const dbManager = createDbManager(relationships)
+    const builder = new SQLBuilder(dbManager)
+    const query = parse('customers', 'select=name,orders!orders_customer_id_fkey!inner(id),notes(body)&orders.status=eq.paid')
+    const { sql } = await builder.buildQuery('customers', query)
+
+    expect(normalize(sql)).toMatch(/ AS orders, .* AS notes FROM customers WHERE \(SELECT CASE WHEN EXISTS/)
+    expect(normalize(sql)).toMatch(/ IS NOT NULL$/)
+    expect(normalize(sql)).toContain("orders.status = 'paid'")
+    expect(dbManager.query).toHaveBeenCalledWith(expect.stringContaining("tc.constraint_name = 'orders_customer_id_fkey'"))
+  })
+
+  it('should treat !left embeds like plain embeds', async () => {
+    const builder = new SQLBuilder(createDbManager(relationships))
+    const { sql } = await builder.buildQuery('orders', parse('orders', 'select=id,customers!left(name)'))
+
+    expect(normalize(sql)).not.toContain('IS NOT NULL')
+    expect(normalize(sql)).toContain('LIMIT 1) AS customers FROM orders AS orders')
+  })
+
+  it('should reject spreads over to-many relationships with PGRST119', async () => {
+    const builder = new SQLBuilder(createDbManager(relationships))
+    const error = await builder.buildQuery('customers', parse('customers', 'select=name,...orders(id)')).catch((e: unknown) => e)
+
+    expect(error).toBeInstanceOf(PostgRESTQueryError)
+    expect(error).toMatchObject({
+      code: 'PGRST119',
+      message: "A spread operation on 'orders' is not possible",
+      detail: "'customers' and 'orders' do not form a many-to-one or one-to-one relationship"
+    })
+  })
+
+  it('should spread one-to-one embeds whose foreign key is on the embedded table', async () => {
+    const builder = new SQLBuilder(createDbManager(relationships))
+    const { sql } = await builder.buildQuery('customers', parse('customers', 'select=name,...notes(body)'))
+
+    expect(normalize(sql)).toContain("(SELECT json_build_object('body', notes.body) FROM notes AS notes WHERE notes.customer_id = customers.id LIMIT 1) AS notes")
+  })
+
+  it('should name embedded columns by their alias', async () => {
+    const builder = new SQLBuilder(createDbManager(relationships))
+    const { sql } = await builder.buildQuery('orders', parse('orders', 'select=id,customers(label:name)'))
+
+    expect(normalize(sql)).toContain("json_build_object('label', customers.name)")
+  })
+
+  it('should report PGRST119 in the PostgREST error format', () => {
+    const response = ResponseFormatter.formatErrorResponse(
+      new PostgRESTQueryError('PGRST119', "A spread operation on 'orders' is not possible", 'details')
+    )
+
+    expect(response.status).toBe(400)
+    expect(response.data).toEqual({
+      code: 'PGRST119',
+      message: "A spread operation on 'orders' is not possible",
+      details: 'details',
+      hint: null
+    })
+  })
+})
+
+describe('ResponseFormatter spreads', () => {
+  it('should merge spread embeds into the parent row', () => {
+    const query = parse('orders', 'select=id,...customers(name,email)')
+    const { data } = ResponseFormatter.formatSelectResponse([
+      { id: 1, customers: { name: 'Ada', email: 'ada@example.com' } },
+      { id: 2, customers: null }
+    ], query)
+
+    expect(data).toEqual([
+      { id: 1, name: 'Ada', email: 'ada@example.com' },
+      { id: 2, name: null, email: null }
+    ])
+  })
+
+  it('should fill missing spread columns under their alias', () => {
+    const query = parse('orders', 'select=id,...customers(label:name)')
+    const { data } = ResponseFormatter.formatSelectResponse([{ id: 2, customers: null }], query)
+
+    expect(data).toEqual([{ id: 2, label: null }])
+  })
+
+  it('should merge nested spreads into the embed that holds them', () => {
+    const query = parse('customers', 'select=name,orders(id,...products(title))')
+    const { data } = ResponseFormatter.formatSelectResponse([
+      { name: 'Ada', orders: [{ id: 1, products: { title: 'Lamp' } }] }
+    ], query)
+
+    expect(data).toEqual([{ name: 'Ada', orders: [{ id: 1, title: 'Lamp' }] }])
+  })
+})
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest'
+import { SQLBuilder } from '../SQLBuilder'
+import { ResponseFormatter } from '../ResponseFormatter'
+import { parseQuery } from '../../../test/helpers'
+
+const parse = (accept: string) => parseQuery('orders', 'status=eq.paid', { accept })
+
+describe('QueryParser plan media type', () => {
+  it('should parse the Accept header sent by .explain()', () => {
+    const query = parse('application/vnd.pgrst.plan+json; for="application/vnd.pgrst.object+json"; options=analyze|verbose|bogus;')
+
+    expect(query.explain).toEqual({
+      format: 'json',
+      for: 'application/vnd.pgrst.object+json',
+      options: ['analyze', 'verbose']
+    })
+    expect(query.returnSingle).toBeUndefined()
+  })
+
+  it('should default to a text plan without options', () => {
+    expect(parse('application/vnd.pgrst.plan').explain).toEqual({ format: 'text', options: [] })
+  })
+})
+
+describe('SQLBuilder explain', () => {
+  it('should wrap the statement in EXPLAIN and keep its parameters', async () => {
+    const builder = new SQLBuilder()
+    const query = parse('application/vnd.pgrst.plan+json; options=analyze|buffers;')
+    const { sql, parameters } = builder.buildExplainQuery(await builder.buildQuery('orders', query), query.explain!)
+
+    expect(sql).toBe('EXPLAIN (ANALYZE, BUFFERS, FORMAT JSON) SELECT orders.* FROM orders WHERE status = $1')
+    expect(parameters).toEqual(['paid'])
+  })
+})
+
+describe('ResponseFormatter plans', () => {
+  it('should return the JSON plan document', () => {
+    const plan = [{ Plan: { 'Node Type': 'Seq Scan' } }]
+    const response = ResponseFormatter.formatPlanResponse([{ 'QUERY PLAN': plan }], { format: 'json', options: [] })
+
+    expect(response.data).toEqual(plan)
+    expect(response.headers['Content-Type']).toBe('application/vnd.pgrst.plan+json; for="application/json"; charset=utf-8')
+  })
+
+  it('should join text plans into one document', () => {
+    const response = ResponseFormatter.formatPlanResponse(
+      [{ 'QUERY PLAN': 'Seq Scan on orders' }, { 'QUERY PLAN': '  Filter: (status = \'paid\'::text)' }],
+      { format: 'text', options: [], for: 'text/csv' }
+    )
+
+    expect(response.data).toBe('Seq Scan on orders\n  Filter: (status = \'paid\'::text)')
+    expect(response.headers['Content-Type']).toBe('application/vnd.pgrst.plan+text; for="text/csv"; charset=utf-8')
+  })
+})
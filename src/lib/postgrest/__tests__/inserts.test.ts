@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest'
+import { SQLBuilder } from '../SQLBuilder'
+import { createDbManager, parseQuery } from '../../../test/helpers'
+
+const parse = (search: string, prefer?: string) => parseQuery('posts', search, prefer ? { Prefer: prefer } : {})
+
+const rows = [
+  { title: 'First', body: 'Hello' },
+  { title: 'Second', author_id: 7 }
+]
+
+describe('QueryParser insert options', () => {
+  it('should parse columns and missing=default without treating columns as a filter', () => {
+    const query = parse('columns=title, body&select=id', 'missing=default, return=representation')
+
+    expect(query.columns).toEqual(['title', 'body'])
+    expect(query.preferMissing).toBe('default')
+    expect(query.filters).toEqual([])
+  })
+})
+
+describe('SQLBuilder inserts', () => {
+  it('should insert every key used by any row, with NULL for absent keys', async () => {
+    const { sql, parameters } = await new SQLBuilder().buildInsertQuery('posts', rows)
+
+    expect(sql).toBe('INSERT INTO posts (title, body, author_id) VALUES ($1, $2, $3), ($4, $5, $6) RETURNING *')
+    expect(parameters).toEqual(['First', 'Hello', null, 'Second', null, 7])
+  })
+
+  it('should use column defaults for absent keys with missing=default', async () => {
+    const { sql, parameters } = await new SQLBuilder().buildInsertQuery('posts', rows, undefined, { missing: 'default' })
+
+    expect(sql).toBe('INSERT INTO posts (title, body, author_id) VALUES ($1, $2, DEFAULT), ($3, DEFAULT, $4) RETURNING *')
+    expect(parameters).toEqual(['First', 'Hello', 'Second', 7])
+  })
+
+  it('should only read the keys listed in columns', async () => {
+    const { sql, parameters } = await new SQLBuilder().buildInsertQuery('posts', rows, undefined, {
+      columns: ['title', 'body'],
+      missing: 'default'
+    })
+
+    expect(sql).toBe('INSERT INTO posts (title, body) VALUES ($1, $2), ($3, DEFAULT) RETURNING *')
+    expect(parameters).toEqual(['First', 'Hello', 'Second'])
+  })
+
+  it('should quote column names that are not plain identifiers', async () => {
+    const { sql } = await new SQLBuilder().buildInsertQuery('posts', [{ 'title) VALUES (1); --': 'x', body: 'y' }])
+
+    expect(sql).toBe('INSERT INTO posts ("title) VALUES (1); --", body) VALUES ($1, $2) RETURNING *')
+  })
+
+  it('should reject columns that the table does not have with PGRST204', async () => {
+    const dbManager = createDbManager(() => [{ column_name: 'title' }, { column_name: 'body' }])
+    const error = await new SQLBuilder(dbManager)
+      .buildInsertQuery('posts', rows, undefined, { columns: ['title', 'id) VALUES (1); --'] })
+      .catch((e: unknown) => e)
+
+    expect(error).toMatchObject({
+      code: 'PGRST204',
+      message: "Could not find the 'id) VALUES (1); --' column of 'posts' in the schema cache"
+    })
+    expect(dbManager.query).toHaveBeenCalledWith(expect.stringContaining('information_schema.columns'), ['public', 'posts'])
+  })
+
+  it('should apply the same options to upserts', async () => {
+    const builder = new SQLBuilder(createDbManager(() => [{ column_name: 'id' }]))
+    const { sql, parameters } = await builder.buildUpsertQuery(
+      'posts',
+      [{ id: 1, title: 'First' }, { id: 2 }],
+      undefined,
+      undefined,
+      { missing: 'default' }
+    )
+
+    expect(sql).toBe(
+      'INSERT INTO posts (id, title) VALUES ($1, $2), ($3, DEFAULT) ' +
+        'ON CONFLICT (id) DO UPDATE SET title = EXCLUDED.title RETURNING *'
+    )
+    expect(parameters).toEqual([1, 'First', 2])
+  })
+})
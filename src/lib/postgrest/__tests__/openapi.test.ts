@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest'
+import { OpenAPIGenerator } from '../OpenAPIGenerator'
+import type { DatabaseManager } from '../../database/connection'
+import { createDbManager } from '../../../test/helpers'
+
+const column = (column_name: string, data_type: string, extra: Record<string, unknown> = {}) => ({
+  column_name,
+  data_type,
+  is_nullable: 'YES',
+  column_default: null,
+  character_maximum_length: null,
+  is_primary_key: false,
+  is_foreign_key: false,
+  ...extra
+})
+
+const columns: Record<string, ReturnType<typeof column>[]> = {
+  todos: [
+    column('id', 'bigint', { is_nullable: 'NO', column_default: 'nextval(\'todos_id_seq\'::regclass)', is_primary_key: true }),
+    column('title', 'character varying', { is_nullable: 'NO', character_maximum_length: 200 }),
+    column('owner_id', 'uuid', { is_foreign_key: true }),
+    column('meta', 'jsonb')
+  ],
+  open_todos: [column('id', 'bigint'), column('title', 'character varying')]
+}
+
+/**
+ * Answers the catalog queries for a public schema with a todos table, an
+ * open_todos view and a search_todos function
+ */
+const catalog = (sql: string, params: unknown[]) => {
+  if (sql.includes('FROM pg_namespace')) {
+    return [{ nspname: 'api' }, { nspname: 'public' }]
+  }
+  if (sql.includes('FROM pg_tables')) {
+    return params[0] === 'public' ? [{ schemaname: 'public', tablename: 'todos' }] : []
+  }
+  if (sql.includes('FROM pg_views')) {
+    return params[0] === 'public' ? [{ schemaname: 'public', viewname: 'open_todos', definition: 'SELECT 1' }] : []
+  }
+  if (sql.includes('information_schema.columns')) {
+    return columns[params[0] as string] || []
+  }
+  if (sql.includes('referential_constraints')) {
+    return [{ constraint_name: 'todos_owner_id_fkey', column_name: 'owner_id', foreign_table_name: 'users', foreign_column_name: 'id' }]
+  }
+  if (sql.includes('pg_description')) {
+    return params[0] !== 'public' ? [] : [
+      { name: 'search_todos', schema: 'public', return_type: 'SETOF todos', argument_types: 'term text, max integer DEFAULT 10', description: 'Full text search\nover titles' },
+      { name: 'touch_updated_at', schema: 'public', return_type: 'trigger', argument_types: '', description: null }
+    ]
+  }
+  return []
+}
+
+const generate = (schema: string = 'public', exposedSchemas = ['api', 'public']) =>
+  new OpenAPIGenerator(createDbManager(catalog) as unknown as DatabaseManager, exposedSchemas).generate(schema, {
+    host: 'localhost:5173',
+    basePath: '/rest/v1',
+    scheme: 'http'
+  })
+
+describe('OpenAPIGenerator', () => {
+  it('should describe the server and the root path', async () => {
+    const document = await generate()
+
+    expect(document).toMatchObject({
+      swagger: '2.0',
+      host: 'localhost:5173',
+      basePath: '/rest/v1',
+      schemes: ['http']
+    })
+    expect(document.paths['/'].get?.tags).toEqual(['Introspection'])
+  })
+
+  it('should add a definition with primary and foreign key notes for each table', async () => {
+    const { definitions } = await generate()
+
+    expect(definitions.todos).toEqual({
+      type: 'object',
+      required: ['title'],
+      properties: {
+        id: { format: 'bigint', type: 'integer', description: 'Note:\nThis is a Primary Key.<pk/>' },
+        title: { format: 'character varying', type: 'string', maxLength: 200 },
+        owner_id: {
+          format: 'uuid',
+          type: 'string',
+          description: "Note:\nThis is a Foreign Key to `users.id`.<fk table='users' column='id'/>"
+        },
+        meta: { format: 'jsonb' }
+      }
+    })
+  })
+
+  it('should expose CRUD on tables and only reads on views', async () => {
+    const { paths, parameters } = await generate()
+
+    expect(Object.keys(paths['/todos'])).toEqual(['get', 'post', 'patch', 'delete'])
+    expect(Object.keys(paths['/open_todos'])).toEqual(['get'])
+    expect(paths['/todos'].get?.parameters).toContainEqual({ $ref: '#/parameters/rowFilter.todos.title' })
+    expect(parameters['rowFilter.todos.title']).toEqual({
+      name: 'title',
+      required: false,
+      format: 'character varying',
+      in: 'query',
+      type: 'string'
+    })
+  })
+
+  it('should describe callable functions under /rpc and skip trigger functions', async () => {
+    const { paths } = await generate()
+
+    expect(paths['/rpc/touch_updated_at']).toBeUndefined()
+    expect(paths['/rpc/search_todos'].post).toMatchObject({
+      summary: 'Full text search',
+      tags: ['(rpc) search_todos'],
+      parameters: [
+        {
+          name: 'args',
+          in: 'body',
+          schema: {
+            type: 'object',
+            required: ['term'],
+            properties: {
+              term: { format: 'text', type: 'string' },
+              max: { format: 'integer', type: 'integer' }
+            }
+          }
+        },
+        { $ref: '#/parameters/preferParams' }
+      ]
+    })
+  })
+
+  it('should only include the requested schema', async () => {
+    const document = await generate('api')
+
+    expect(Object.keys(document.paths)).toEqual(['/'])
+  })
+
+  it('should reject schemas that do not exist with PGRST106', async () => {
+    await expect(generate('missing')).rejects.toMatchObject({
+      code: 'PGRST106',
+      message: 'The schema must be one of the following: api, public'
+    })
+  })
+
+  it('should reject schemas that are not exposed with PGRST106', async () => {
+    await expect(generate('api', ['public'])).rejects.toMatchObject({
+      code: 'PGRST106',
+      message: 'The schema must be one of the following: public'
+    })
+  })
+})
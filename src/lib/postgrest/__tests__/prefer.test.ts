@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest'
+import { ResponseFormatter } from '../ResponseFormatter'
+import { PostgRESTQueryError } from '../PostgRESTErrorMapper'
+import { parseQuery } from '../../../test/helpers'
+
+const parse = (prefer: string) => parseQuery('orders', 'id=eq.1', { Prefer: prefer })
+
+describe('QueryParser Prefer header', () => {
+  it('should parse tx, handling and max-affected', () => {
+    const query = parse('return=representation, tx=rollback, handling=strict, max-affected=5')
+
+    expect(query).toMatchObject({
+      preferReturn: 'representation',
+      preferTx: 'rollback',
+      preferHandling: 'strict',
+      preferMaxAffected: 5
+    })
+  })
+
+  it('should ignore unknown preferences with lenient handling', () => {
+    const query = parse('tx=maybe, max-affected=many, handling=lenient')
+
+    expect(query.preferTx).toBeUndefined()
+    expect(query.preferMaxAffected).toBeUndefined()
+    expect(query.preferHandling).toBe('lenient')
+  })
+
+  it('should accept every PostgREST preference with strict handling', () => {
+    const query = parse('handling=strict, count=planned, timezone=America/Los_Angeles, params=single-object, missing=null, resolution=ignore-duplicates')
+
+    expect(query).toMatchObject({ count: 'planned', preferMissing: 'null', preferResolution: 'ignore-duplicates' })
+  })
+
+  it('should reject unknown preference values with strict handling', () => {
+    expect(() => parse('handling=strict, return=everything, count=roughly')).toThrow(expect.objectContaining({
+      code: 'PGRST122',
+      detail: 'Invalid preferences: return=everything, count=roughly'
+    }))
+  })
+
+  it('should reject unknown preferences with strict handling', () => {
+    expect(() => parse('handling=strict, tx=maybe, frobnicate')).toThrow(expect.objectContaining({
+      code: 'PGRST122',
+      detail: 'Invalid preferences: tx=maybe, frobnicate'
+    }))
+  })
+})
+
+describe('ResponseFormatter Preference-Applied', () => {
+  it('should echo the applied preferences', () => {
+    const query = parse('return=representation, count=exact, tx=rollback, handling=strict, max-affected=2')
+    const response = ResponseFormatter.withPreferenceApplied(
+      ResponseFormatter.formatUpdateResponse([{ id: 1 }], { ...query, select: ['*'] }),
+      query
+    )
+
+    expect(response.headers['Preference-Applied']).toBe(
+      'return=representation, count=exact, tx=rollback, handling=strict, max-affected=2'
+    )
+    expect(response.data).toEqual([{ id: 1 }])
+  })
+
+  it('should leave max-affected out unless handling is strict', () => {
+    const query = parse('max-affected=2')
+    const response = ResponseFormatter.withPreferenceApplied(ResponseFormatter.formatDeleteResponse([], query), query)
+
+    expect(response.headers).not.toHaveProperty('Preference-Applied')
+  })
+
+  it('should report PGRST124 in the PostgREST error format', () => {
+    const response = ResponseFormatter.formatErrorResponse(
+      new PostgRESTQueryError('PGRST124', 'Query result exceeds max-affected preference constraint', 'The query affects 3 rows')
+    )
+
+    expect(response.status).toBe(400)
+    expect(response.data).toMatchObject({ code: 'PGRST124', details: 'The query affects 3 rows' })
+  })
+})
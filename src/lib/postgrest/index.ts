@@ -1,12 +1,14 @@
-export { QueryParser, type ParsedQuery, type ParsedFilter, type ParsedOrder, type EmbeddedResource } from './QueryParser'
-export { SQLBuilder, type SQLQuery, type JoinInfo } from './SQLBuilder'
+export { QueryParser, type ParsedQuery, type ParsedFilter, type ParsedOrder, type EmbeddedResource, type SelectAggregate, type AggregateFunction, type EmbedJoinType, type ExplainOptions, type ExplainOption } from './QueryParser'
+export { SQLBuilder, type SQLQuery, type JoinInfo, type InsertOptions } from './SQLBuilder'
 export { ResponseFormatter, type FormattedResponse, type CountResult } from './ResponseFormatter'
-export { PostgRESTErrorMapper, type PostgRESTError, type PostgRESTErrorResponse } from './PostgRESTErrorMapper'
+export { OpenAPIGenerator, type OpenAPIDocument, type OpenAPIServerInfo } from './OpenAPIGenerator'
+export { PostgRESTErrorMapper, PostgRESTQueryError, type PostgRESTError, type PostgRESTErrorResponse } from './PostgRESTErrorMapper'
 export { POSTGREST_OPERATORS, parseOperatorValue, isLogicalOperator, getOperatorPrecedence, type OperatorDefinition } from './operators'
 
 // Re-export everything for easy importing
 export * from './QueryParser'
 export * from './SQLBuilder' 
 export * from './ResponseFormatter'
+export * from './OpenAPIGenerator'
 export * from './PostgRESTErrorMapper'
 export * from './operators'
\ No newline at end of file
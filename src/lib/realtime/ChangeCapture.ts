@@ -0,0 +1,243 @@
+import { DatabaseManager } from '../database/connection'
+import { logger } from '../infrastructure/Logger'
+import type { RealtimeChange, RealtimeColumn } from './types'
+
+export const REALTIME_PUBLICATION = 'supabase_realtime'
+const CHANGE_LOG_TABLE = 'realtime.lite_changes'
+const CAPTURE_FUNCTION = 'realtime.lite_capture_change'
+const CAPTURE_TRIGGER = 'supabase_lite_realtime_capture'
+
+export interface RealtimeTableMetadata {
+  columns: RealtimeColumn[]
+  primaryKeys: string[]
+  replicaIdentityFull: boolean
+  rlsEnabled: boolean
+}
+
+export interface PublishedTable {
+  schema: string
+  table: string
+}
+
+interface ChangeLogRow {
+  id: string | number
+  schema_name: string
+  table_name: string
+  action: RealtimeChange['type']
+  record: Record<string, unknown> | null
+  old_record: Record<string, unknown> | null
+  commit_timestamp: string | Date
+}
+
+interface ColumnRow {
+  name: string
+  type: string
+  is_primary: boolean
+}
+
+/**
+ * Quote a SQL identifier
+ */
+export function quoteIdent(identifier: string): string {
+  return `"${identifier.replace(/"/g, '""')}"`
+}
+
+/**
+ * ChangeCapture emulates logical replication for PGlite.
+ * Every table in the supabase_realtime publication gets a row-level trigger
+ * that appends INSERT/UPDATE/DELETE events to a change log table, which the
+ * realtime server drains and fans out to postgres_changes subscribers.
+ */
+export class ChangeCapture {
+  private dbManager: DatabaseManager
+  private installedConnectionId: string | null = null
+
+  constructor(dbManager: DatabaseManager = DatabaseManager.getInstance()) {
+    this.dbManager = dbManager
+  }
+
+  /**
+   * Create the change log and capture function for the active database (idempotent)
+   */
+  async install(): Promise<void> {
+    const connectionId = this.dbManager.getConnectionInfo()?.id || null
+    if (connectionId && this.installedConnectionId === connectionId) {
+      return
+    }
+
+    await this.dbManager.exec(`
+      CREATE SCHEMA IF NOT EXISTS realtime;
+
+      CREATE TABLE IF NOT EXISTS ${CHANGE_LOG_TABLE} (
+        id BIGSERIAL PRIMARY KEY,
+        schema_name TEXT NOT NULL,
+        table_name TEXT NOT NULL,
+        action TEXT NOT NULL,
+        record JSONB,
+        old_record JSONB,
+        commit_timestamp TIMESTAMPTZ NOT NULL DEFAULT now()
+      );
+
+      CREATE OR REPLACE FUNCTION ${CAPTURE_FUNCTION}()
+      RETURNS trigger
+      LANGUAGE plpgsql
+      SECURITY DEFINER
+      AS $$
+      BEGIN
+        INSERT INTO ${CHANGE_LOG_TABLE} (schema_name, table_name, action, record, old_record)
+        VALUES (
+          TG_TABLE_SCHEMA,
+          TG_TABLE_NAME,
+          TG_OP,
+          CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE to_jsonb(NEW) END,
+          CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE to_jsonb(OLD) END
+        );
+        RETURN NULL;
+      END;
+      $$;
+    `)
+
+    this.installedConnectionId = connectionId
+    logger.debug('Realtime change capture installed', { connectionId })
+  }
+
+  /**
+   * Attach capture triggers to every published table and detach them from
+   * tables that were removed from the publication
+   */
+  async syncTriggers(): Promise<void> {
+    await this.install()
+
+    const published = await this.getPublishedTables()
+    const triggered = await this.dbManager.query(`
+      SELECT n.nspname AS schema, c.relname AS table
+      FROM pg_trigger t
+      JOIN pg_class c ON c.oid = t.tgrelid
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      WHERE t.tgname = $1 AND NOT t.tgisinternal
+    `, [CAPTURE_TRIGGER])
+
+    const key = (schema: string, table: string) => `${schema}.${table}`
+    const publishedKeys = new Set(published.map(t => key(t.schema, t.table)))
+    const triggeredTables = triggered.rows as PublishedTable[]
+    const triggeredKeys = new Set(triggeredTables.map(row => key(row.schema, row.table)))
+
+    for (const { schema, table } of published) {
+      if (!triggeredKeys.has(key(schema, table))) {
+        await this.dbManager.exec(`
+          CREATE OR REPLACE TRIGGER ${CAPTURE_TRIGGER}
+          AFTER INSERT OR UPDATE OR DELETE ON ${quoteIdent(schema)}.${quoteIdent(table)}
+          FOR EACH ROW EXECUTE FUNCTION ${CAPTURE_FUNCTION}();
+        `)
+        logger.debug('Realtime capture trigger attached', { schema, table })
+      }
+    }
+
+    for (const row of triggeredTables) {
+      if (!publishedKeys.has(key(row.schema, row.table))) {
+        await this.dbManager.exec(
+          `DROP TRIGGER IF EXISTS ${CAPTURE_TRIGGER} ON ${quoteIdent(row.schema)}.${quoteIdent(row.table)};`
+        )
+        logger.debug('Realtime capture trigger detached', { schema: row.schema, table: row.table })
+      }
+    }
+  }
+
+  /**
+   * List tables that are part of the supabase_realtime publication
+   */
+  async getPublishedTables(): Promise<PublishedTable[]> {
+    const result = await this.dbManager.query(`
+      SELECT schemaname AS schema, tablename AS table
+      FROM pg_publication_tables
+      WHERE pubname = $1
+      ORDER BY schemaname, tablename
+    `, [REALTIME_PUBLICATION])
+
+    return (result.rows as PublishedTable[]).map(row => ({ schema: row.schema, table: row.table }))
+  }
+
+  /**
+   * Add a table to or remove it from the supabase_realtime publication
+   */
+  async setTablePublished(schema: string, table: string, published: boolean): Promise<void> {
+    const action = published ? 'ADD' : 'DROP'
+    await this.dbManager.exec(
+      `ALTER PUBLICATION ${REALTIME_PUBLICATION} ${action} TABLE ${quoteIdent(schema)}.${quoteIdent(table)};`
+    )
+    await this.syncTriggers()
+  }
+
+  /**
+   * Highest change id currently in the log, used as the starting cursor
+   */
+  async getLatestChangeId(): Promise<number> {
+    await this.install()
+    const result = await this.dbManager.query(`SELECT COALESCE(MAX(id), 0) AS id FROM ${CHANGE_LOG_TABLE}`)
+    return Number((result.rows[0] as { id?: string | number } | undefined)?.id || 0)
+  }
+
+  /**
+   * Read captured changes after the given cursor, oldest first
+   */
+  async readChanges(afterId: number, limit: number = 500): Promise<RealtimeChange[]> {
+    const result = await this.dbManager.query(`
+      SELECT id, schema_name, table_name, action, record, old_record, commit_timestamp
+      FROM ${CHANGE_LOG_TABLE}
+      WHERE id > $1
+      ORDER BY id ASC
+      LIMIT $2
+    `, [afterId, limit])
+
+    return (result.rows as ChangeLogRow[]).map(row => ({
+      id: Number(row.id),
+      schema: row.schema_name,
+      table: row.table_name,
+      type: row.action,
+      record: row.record,
+      old_record: row.old_record,
+      commit_timestamp: new Date(row.commit_timestamp).toISOString()
+    }))
+  }
+
+  /**
+   * Remove delivered changes that are older than the retention window
+   */
+  async pruneChanges(retentionSeconds: number): Promise<void> {
+    await this.dbManager.query(
+      `DELETE FROM ${CHANGE_LOG_TABLE} WHERE commit_timestamp < now() - ($1 || ' seconds')::interval`,
+      [String(retentionSeconds)]
+    )
+  }
+
+  /**
+   * Column types, primary keys, replica identity and RLS status for a table
+   */
+  async getTableMetadata(schema: string, table: string): Promise<RealtimeTableMetadata> {
+    const relation = `${quoteIdent(schema)}.${quoteIdent(table)}`
+
+    const [columnsResult, relationResult] = await Promise.all([
+      this.dbManager.query(`
+        SELECT a.attname AS name, t.typname AS type,
+               COALESCE(a.attnum = ANY(i.indkey), false) AS is_primary
+        FROM pg_attribute a
+        JOIN pg_type t ON t.oid = a.atttypid
+        LEFT JOIN pg_index i ON i.indrelid = a.attrelid AND i.indisprimary
+        WHERE a.attrelid = $1::regclass AND a.attnum > 0 AND NOT a.attisdropped
+        ORDER BY a.attnum
+      `, [relation]),
+      this.dbManager.query(`
+        SELECT relreplident, relrowsecurity FROM pg_class WHERE oid = $1::regclass
+      `, [relation])
+    ])
+
+    const columnRows = columnsResult.rows as ColumnRow[]
+    const relationRow = relationResult.rows[0] as { relreplident: string, relrowsecurity: boolean } | undefined
+    return {
+      columns: columnRows.map(row => ({ name: row.name, type: row.type })),
+      primaryKeys: columnRows.filter(row => row.is_primary).map(row => row.name),
+      replicaIdentityFull: relationRow?.relreplident === 'f',
+      rlsEnabled: !!relationRow?.relrowsecurity
+    }
+  }
+}
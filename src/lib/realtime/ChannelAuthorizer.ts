@@ -0,0 +1,105 @@
+import { DatabaseManager } from '../database/connection'
+import { combinePolicies, getTablePolicies, toDatabaseSession } from '../database/policies'
+import { logger } from '../infrastructure/Logger'
+import type { SessionContext } from '../../api/types'
+import type { RealtimeExtension } from './types'
+
+export interface ChannelPermissions {
+  broadcast: { read: boolean; write: boolean }
+  presence: { read: boolean; write: boolean }
+}
+
+const ALLOW_ALL: ChannelPermissions = {
+  broadcast: { read: true, write: true },
+  presence: { read: true, write: true }
+}
+
+const DENY_ALL: ChannelPermissions = {
+  broadcast: { read: false, write: false },
+  presence: { read: false, write: false }
+}
+
+/**
+ * Whether the permissions allow joining the channel at all
+ */
+export function canJoinChannel(permissions: ChannelPermissions): boolean {
+  return permissions.broadcast.read || permissions.presence.read
+}
+
+/**
+ * ChannelAuthorizer decides what a subscriber may do on a private channel by
+ * evaluating the RLS policies on realtime.messages, like Supabase Realtime
+ * Authorization. Public channels are open to any valid API key.
+ */
+export class ChannelAuthorizer {
+  private dbManager: DatabaseManager
+
+  constructor(dbManager: DatabaseManager = DatabaseManager.getInstance()) {
+    this.dbManager = dbManager
+  }
+
+  /**
+   * Resolve broadcast and presence permissions for a channel topic
+   * (without the `realtime:` prefix)
+   */
+  async authorize(subTopic: string, session: SessionContext, isPrivate: boolean): Promise<ChannelPermissions> {
+    if (!isPrivate || session.role === 'service_role') {
+      return ALLOW_ALL
+    }
+
+    try {
+      const policies = await getTablePolicies(this.dbManager, 'realtime', 'messages', session.role || 'anon')
+      const readPolicies = policies.filter(policy => policy.cmd === 'SELECT' || policy.cmd === 'ALL')
+      const writePolicies = policies.filter(policy => policy.cmd === 'INSERT' || policy.cmd === 'ALL')
+
+      const readExpression = combinePolicies(readPolicies, policy => policy.qual)
+      const writeExpression = combinePolicies(writePolicies, policy => policy.with_check || policy.qual)
+
+      return {
+        broadcast: await this.evaluate(subTopic, 'broadcast', session, readExpression, writeExpression),
+        presence: await this.evaluate(subTopic, 'presence', session, readExpression, writeExpression)
+      }
+    } catch (error) {
+      logger.warn('Realtime channel authorization failed', {
+        topic: subTopic,
+        role: session.role,
+        error: error instanceof Error ? error.message : String(error)
+      })
+      return DENY_ALL
+    }
+  }
+
+  /**
+   * Evaluate policy expressions against a candidate realtime.messages row
+   * with realtime.topic() set to the channel topic
+   */
+  private async evaluate(
+    subTopic: string,
+    extension: RealtimeExtension,
+    session: SessionContext,
+    readExpression: string | null,
+    writeExpression: string | null
+  ): Promise<{ read: boolean; write: boolean }> {
+    if (!readExpression && !writeExpression) {
+      return { read: false, write: false }
+    }
+
+    await this.dbManager.query(`SELECT set_config('realtime.topic', $1, false)`, [subTopic])
+    try {
+      const result = await this.dbManager.queryWithContext(`
+        SELECT ${readExpression || 'false'} AS can_read, ${writeExpression || 'false'} AS can_write
+        FROM (
+          SELECT $1::text AS topic, $2::text AS extension, true AS private,
+                 NULL::text AS event, NULL::jsonb AS payload,
+                 now()::timestamp AS inserted_at, now()::timestamp AS updated_at,
+                 gen_random_uuid() AS id
+        ) AS messages
+      `, toDatabaseSession(session), [subTopic, extension])
+
+      const row = result.rows[0] as { can_read: boolean | null; can_write: boolean | null } | undefined
+      return { read: row?.can_read === true, write: row?.can_write === true }
+    } finally {
+      await this.dbManager.query(`SELECT set_config('realtime.topic', '', false)`)
+    }
+  }
+}
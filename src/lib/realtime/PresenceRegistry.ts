@@ -0,0 +1,165 @@
+import type { PresenceDiff, PresenceMeta, PresenceState } from './types'
+
+interface PresenceEntry {
+  key: string
+  meta: PresenceMeta
+  origin: string
+  ownerId?: string
+}
+
+/**
+ * Add a meta under its presence key
+ */
+function addToState(state: PresenceState, key: string, meta: PresenceMeta): void {
+  if (!state[key]) {
+    state[key] = { metas: [] }
+  }
+  state[key].metas.push(meta)
+}
+
+/**
+ * Check whether a diff carries any joins or leaves
+ */
+export function isEmptyPresenceDiff(diff: PresenceDiff): boolean {
+  return Object.keys(diff.joins).length === 0 && Object.keys(diff.leaves).length === 0
+}
+
+/**
+ * PresenceRegistry holds tracked presences per channel scope, both those
+ * tracked by local sockets (which carry an owner id) and those mirrored from
+ * other tabs. Every mutation returns the presence_diff to fan out.
+ */
+export class PresenceRegistry {
+  private scopes = new Map<string, PresenceEntry[]>()
+  private nextRef = 1
+  private readonly origin: string
+
+  constructor(origin: string) {
+    this.origin = origin
+  }
+
+  /**
+   * Track (or replace) the presence owned by a local channel
+   */
+  track(scope: string, key: string, ownerId: string, payload: Record<string, unknown>): PresenceDiff {
+    const entries = this.getEntries(scope)
+    const diff: PresenceDiff = { joins: {}, leaves: {} }
+
+    const existing = entries.find(entry => entry.ownerId === ownerId)
+    const meta: PresenceMeta = { ...payload, phx_ref: `${this.origin}-${this.nextRef++}` }
+
+    if (existing) {
+      addToState(diff.leaves, existing.key, existing.meta)
+      meta.phx_ref_prev = existing.meta.phx_ref
+      entries.splice(entries.indexOf(existing), 1)
+    }
+
+    entries.push({ key, meta, origin: this.origin, ownerId })
+    addToState(diff.joins, key, meta)
+    return diff
+  }
+
+  /**
+   * Remove the presence owned by a local channel
+   */
+  untrack(scope: string, ownerId: string): PresenceDiff {
+    const diff: PresenceDiff = { joins: {}, leaves: {} }
+    const entries = this.scopes.get(scope)
+    const existing = entries?.find(entry => entry.ownerId === ownerId)
+
+    if (entries && existing) {
+      entries.splice(entries.indexOf(existing), 1)
+      addToState(diff.leaves, existing.key, existing.meta)
+      this.cleanup(scope)
+    }
+    return diff
+  }
+
+  /**
+   * Apply a diff received from another tab
+   */
+  applyRemoteDiff(scope: string, diff: PresenceDiff, origin: string): void {
+    const entries = this.getEntries(scope)
+
+    for (const { metas } of Object.values(diff.leaves)) {
+      for (const meta of metas) {
+        const index = entries.findIndex(entry => entry.meta.phx_ref === meta.phx_ref)
+        if (index !== -1) {
+          entries.splice(index, 1)
+        }
+      }
+    }
+
+    for (const [key, { metas }] of Object.entries(diff.joins)) {
+      for (const meta of metas) {
+        if (!entries.some(entry => entry.meta.phx_ref === meta.phx_ref)) {
+          entries.push({ key, meta, origin })
+        }
+      }
+    }
+
+    this.cleanup(scope)
+  }
+
+  /**
+   * Drop everything mirrored from a tab that went away
+   */
+  removeOrigin(origin: string): Array<{ scope: string; diff: PresenceDiff }> {
+    const result: Array<{ scope: string; diff: PresenceDiff }> = []
+
+    for (const [scope, entries] of this.scopes) {
+      const removed = entries.filter(entry => entry.origin === origin)
+      if (removed.length === 0) {
+        continue
+      }
+
+      const diff: PresenceDiff = { joins: {}, leaves: {} }
+      removed.forEach(entry => addToState(diff.leaves, entry.key, entry.meta))
+      this.scopes.set(scope, entries.filter(entry => entry.origin !== origin))
+      this.cleanup(scope)
+      result.push({ scope, diff })
+    }
+    return result
+  }
+
+  /**
+   * Full presence state for a scope, sent as presence_state on join
+   */
+  getState(scope: string): PresenceState {
+    const state: PresenceState = {}
+    this.scopes.get(scope)?.forEach(entry => addToState(state, entry.key, entry.meta))
+    return state
+  }
+
+  /**
+   * Presences tracked by this tab, grouped by scope, for syncing new tabs
+   */
+  getLocalStates(): Array<{ scope: string; state: PresenceState }> {
+    const result: Array<{ scope: string; state: PresenceState }> = []
+    for (const [scope, entries] of this.scopes) {
+      const state: PresenceState = {}
+      entries
+        .filter(entry => entry.origin === this.origin)
+        .forEach(entry => addToState(state, entry.key, entry.meta))
+      if (Object.keys(state).length > 0) {
+        result.push({ scope, state })
+      }
+    }
+    return result
+  }
+
+  private getEntries(scope: string): PresenceEntry[] {
+    let entries = this.scopes.get(scope)
+    if (!entries) {
+      entries = []
+      this.scopes.set(scope, entries)
+    }
+    return entries
+  }
+
+  private cleanup(scope: string): void {
+    if (this.scopes.get(scope)?.length === 0) {
+      this.scopes.delete(scope)
+    }
+  }
+}
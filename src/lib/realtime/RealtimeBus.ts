@@ -0,0 +1,65 @@
+import type { PresenceDiff, PresenceState } from './types'
+
+/**
+ * Messages exchanged between tabs so sockets served by different tabs share
+ * broadcast and presence. Scopes identify project, privacy and channel topic.
+ */
+export type RealtimeBusMessage =
+  | { type: 'broadcast'; scope: string; topic: string; payload: Record<string, unknown> }
+  | { type: 'presence_diff'; scope: string; topic: string; diff: PresenceDiff }
+  | { type: 'presence_sync_request' }
+  | { type: 'presence_sync'; states: Array<{ scope: string; state: PresenceState }> }
+  | { type: 'tab_closed' }
+
+export type RealtimeBusEnvelope = RealtimeBusMessage & { origin: string }
+
+/**
+ * RealtimeBus fans realtime traffic out to the other tabs of this origin
+ * over a BroadcastChannel. Each tab runs its own realtime server, so messages
+ * are tagged with the sending tab and ignored by it.
+ */
+export class RealtimeBus {
+  readonly origin: string
+  private channel: BroadcastChannel | null
+  private listeners: Set<(message: RealtimeBusEnvelope) => void> = new Set()
+
+  constructor(channelName: string = 'supabase-lite-realtime') {
+    this.origin = crypto.randomUUID()
+
+    // Only create BroadcastChannel in browser environments
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(channelName)
+      this.channel.addEventListener('message', this.handleMessage.bind(this))
+    } else {
+      this.channel = null
+    }
+  }
+
+  private handleMessage(event: MessageEvent): void {
+    const message = event.data as RealtimeBusEnvelope
+    if (!message || message.origin === this.origin) {
+      return
+    }
+    this.listeners.forEach(listener => listener(message))
+  }
+
+  subscribe(listener: (message: RealtimeBusEnvelope) => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  publish(message: RealtimeBusMessage): void {
+    if (this.channel) {
+      this.channel.postMessage({ ...message, origin: this.origin })
+    }
+  }
+
+  close(): void {
+    if (this.channel) {
+      this.channel.close()
+      this.channel = null
+    }
+  }
+}
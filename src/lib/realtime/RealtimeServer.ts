@@ -0,0 +1,881 @@
+import { DatabaseManager } from '../database/connection'
+import { combinePolicies, getTablePolicies, toDatabaseSession } from '../database/policies'
+import { projectManager } from '../projects/ProjectManager'
+import { logger } from '../infrastructure/Logger'
+import { resolveSessionContext } from '../../api/middleware/authentication'
+import type { SessionContext } from '../../api/types'
+import { ChangeCapture, quoteIdent, type RealtimeTableMetadata } from './ChangeCapture'
+import {
+  ChannelAuthorizer,
+  canJoinChannel,
+  type ChannelPermissions
+} from './ChannelAuthorizer'
+import { PresenceRegistry, isEmptyPresenceDiff } from './PresenceRegistry'
+import { RealtimeBus, type RealtimeBusEnvelope } from './RealtimeBus'
+import { changeMatchesBinding, parseChangeFilter } from './filters'
+import type {
+  BroadcastConfig,
+  PhoenixMessage,
+  PostgresChangesBinding,
+  PostgresChangesFilter,
+  PresenceDiff,
+  RealtimeChange,
+  RealtimeSocket
+} from './types'
+
+interface RealtimeChannelState {
+  topic: string
+  joinRef: string | null
+  session: SessionContext
+  // Project, privacy and topic; broadcast and presence only reach channels with the same scope
+  scope: string
+  private: boolean
+  permissions: ChannelPermissions
+  broadcast: BroadcastConfig
+  presence: { enabled: boolean; key: string }
+  postgresBindings: PostgresChangesBinding[]
+}
+
+interface JoinConfig {
+  broadcast?: Partial<BroadcastConfig>
+  presence?: { key?: string; enabled?: boolean }
+  postgres_changes?: PostgresChangesFilter[]
+  private?: boolean
+}
+
+interface RealtimeConnection {
+  id: string
+  socket: RealtimeSocket
+  apiKey?: string
+  projectId?: string
+  ready: Promise<void>
+  channels: Map<string, RealtimeChannelState>
+}
+
+export interface OpenConnectionOptions {
+  apiKey?: string
+  projectId: Promise<string | undefined> | string | undefined
+}
+
+export interface RealtimeActivity {
+  timestamp: string
+  topic: string
+  event: string
+  direction: 'in' | 'out'
+  payload: Record<string, unknown>
+}
+
+export interface RealtimeStats {
+  connections: number
+  channels: Array<{
+    connectionId: string
+    topic: string
+    role: string
+    userId?: string
+    private: boolean
+    presence: number
+    postgresChanges: PostgresChangesFilter[]
+  }>
+}
+
+/**
+ * Whether a parsed frame has the shape of a Phoenix channel message
+ */
+function isPhoenixMessage(value: unknown): value is PhoenixMessage {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return false
+  }
+
+  const { topic, event, payload } = value as Record<string, unknown>
+  return typeof topic === 'string' &&
+    typeof event === 'string' &&
+    (payload === undefined || payload === null || (typeof payload === 'object' && !Array.isArray(payload)))
+}
+
+/**
+ * Access token sent with phx_join or access_token messages
+ */
+function getAccessToken(message: PhoenixMessage): string | undefined {
+  const token = message.payload?.access_token
+  return typeof token === 'string' && token ? token : undefined
+}
+
+/**
+ * Scope key shared by every tab for the same project, privacy and topic
+ */
+function channelScope(projectId: string | undefined, isPrivate: boolean, topic: string): string {
+  return `${projectId || 'default'}|${isPrivate ? 'private' : 'public'}|${topic}`
+}
+
+function topicOfScope(scope: string): string {
+  return scope.split('|').slice(2).join('|')
+}
+
+/**
+ * Channel topic without the `realtime:` prefix, as seen by realtime.topic()
+ */
+function subTopicOf(topic: string): string {
+  return topic.replace(/^realtime:/, '')
+}
+
+/**
+ * RealtimeServer speaks the Phoenix channel protocol used by @supabase/realtime-js
+ * over intercepted WebSocket connections. It delivers Postgres Changes captured
+ * by ChangeCapture to subscribed channels, filtered by each subscriber's RLS context,
+ * and relays Broadcast and Presence between sockets of this tab and, through
+ * RealtimeBus, of other tabs.
+ */
+export class RealtimeServer {
+  private static instance: RealtimeServer | null = null
+  private dbManager: DatabaseManager
+  private changeCapture: ChangeCapture
+  private authorizer: ChannelAuthorizer
+  private bus: RealtimeBus
+  private presence: PresenceRegistry
+  private unsubscribeBus: () => void
+  private connections = new Map<string, RealtimeConnection>()
+  private cursors = new Map<string, number>()
+  private activity: RealtimeActivity[] = []
+  private listeners: Set<() => void> = new Set()
+  private pollTimer: ReturnType<typeof setInterval> | null = null
+  private isPolling = false
+  private pollCount = 0
+  private nextConnectionId = 1
+  private nextBindingId = 1
+  private readonly POLL_INTERVAL = 250 // ms between change log reads
+  private readonly SYNC_EVERY_POLLS = 20 // re-sync publication triggers every ~5s
+  private readonly PRUNE_EVERY_POLLS = 240 // prune the change log every ~60s
+  private readonly CHANGE_RETENTION_SECONDS = 300
+  private readonly MAX_ACTIVITY = 100
+
+  private constructor() {
+    this.dbManager = DatabaseManager.getInstance()
+    this.changeCapture = new ChangeCapture(this.dbManager)
+    this.authorizer = new ChannelAuthorizer(this.dbManager)
+    this.bus = new RealtimeBus()
+    this.presence = new PresenceRegistry(this.bus.origin)
+    this.unsubscribeBus = this.bus.subscribe(message => this.handleBusMessage(message))
+
+    // Ask other tabs for the presences they track, and retract ours when this tab goes away
+    this.bus.publish({ type: 'presence_sync_request' })
+    if (typeof window !== 'undefined') {
+      window.addEventListener('pagehide', this.handlePageHide)
+    }
+  }
+
+  static getInstance(): RealtimeServer {
+    if (!RealtimeServer.instance) {
+      RealtimeServer.instance = new RealtimeServer()
+    }
+    return RealtimeServer.instance
+  }
+
+  // Test utility method to reset the singleton instance
+  static resetInstance(): void {
+    RealtimeServer.instance?.dispose()
+    RealtimeServer.instance = null
+  }
+
+  getChangeCapture(): ChangeCapture {
+    return this.changeCapture
+  }
+
+  /**
+   * Register a new socket connection. Messages received before the project
+   * is resolved are processed once it is.
+   */
+  openConnection(socket: RealtimeSocket, options: OpenConnectionOptions): string {
+    const id = String(this.nextConnectionId++)
+    const connection: RealtimeConnection = {
+      id,
+      socket,
+      apiKey: options.apiKey,
+      channels: new Map(),
+      ready: Promise.resolve()
+    }
+
+    connection.ready = Promise.resolve(options.projectId)
+      .then(projectId => {
+        connection.projectId = projectId
+      })
+      .catch(error => {
+        logger.warn('Realtime connection rejected', {
+          connectionId: id,
+          error: error instanceof Error ? error.message : String(error)
+        })
+        this.connections.delete(id)
+        socket.close(4004, 'Project not found')
+      })
+
+    this.connections.set(id, connection)
+    this.notify()
+    logger.debug('Realtime connection opened', { connectionId: id })
+    return id
+  }
+
+  /**
+   * Remove a connection and all of its channels
+   */
+  closeConnection(connectionId: string): void {
+    const connection = this.connections.get(connectionId)
+    if (connection) {
+      this.connections.delete(connectionId)
+      for (const channel of connection.channels.values()) {
+        this.untrackChannelPresence(connection, channel)
+      }
+      logger.debug('Realtime connection closed', { connectionId })
+      this.updatePolling()
+      this.notify()
+    }
+  }
+
+  /**
+   * Handle a raw frame received from a client socket
+   */
+  async handleMessage(connectionId: string, data: string | ArrayBufferLike | ArrayBufferView | Blob): Promise<void> {
+    const connection = this.connections.get(connectionId)
+    if (!connection) {
+      return
+    }
+
+    await connection.ready
+    if (!this.connections.has(connectionId)) {
+      return
+    }
+
+    let parsed: unknown
+    try {
+      const text = typeof data === 'string'
+        ? data
+        : data instanceof Blob
+          ? await data.text()
+          : new TextDecoder().decode(data)
+      parsed = JSON.parse(text)
+    } catch (error) {
+      logger.warn('Realtime received malformed frame', {
+        connectionId,
+        error: error instanceof Error ? error.message : String(error)
+      })
+      return
+    }
+
+    if (!isPhoenixMessage(parsed)) {
+      logger.warn('Realtime received a frame that is not a channel message', { connectionId })
+      this.push(connection, 'phoenix', 'phx_error', { reason: 'invalid message' })
+      return
+    }
+
+    const message: PhoenixMessage = { ...parsed, payload: parsed.payload ?? {} }
+    this.recordActivity('in', message)
+
+    switch (message.event) {
+      case 'heartbeat':
+        this.reply(connection, message, 'ok', {})
+        break
+      case 'phx_join':
+        await this.handleJoin(connection, message)
+        break
+      case 'phx_leave':
+        this.handleLeave(connection, message)
+        break
+      case 'access_token':
+        await this.handleAccessToken(connection, message)
+        break
+      case 'broadcast':
+        this.handleBroadcast(connection, message)
+        break
+      case 'presence':
+        this.handlePresence(connection, message)
+        break
+      default:
+        this.reply(connection, message, 'error', { reason: `unsupported event: ${message.event}` })
+    }
+  }
+
+  /**
+   * Current connections and channels, for the Realtime inspector
+   */
+  getStats(): RealtimeStats {
+    const channels: RealtimeStats['channels'] = []
+    for (const connection of this.connections.values()) {
+      for (const channel of connection.channels.values()) {
+        channels.push({
+          connectionId: connection.id,
+          topic: channel.topic,
+          role: channel.session.role || 'anon',
+          userId: channel.session.userId,
+          private: channel.private,
+          presence: Object.keys(this.presence.getState(channel.scope)).length,
+          postgresChanges: channel.postgresBindings.map(({ event, schema, table, filter }) => ({ event, schema, table, filter }))
+        })
+      }
+    }
+    return { connections: this.connections.size, channels }
+  }
+
+  /**
+   * Most recent protocol messages, newest last
+   */
+  getActivity(): RealtimeActivity[] {
+    return [...this.activity]
+  }
+
+  /**
+   * Subscribe to connection, channel and activity changes
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Read and deliver pending changes for the active project database
+   */
+  async pollChanges(): Promise<void> {
+    if (this.isPolling || !this.dbManager.isConnected()) {
+      return
+    }
+
+    this.isPolling = true
+    try {
+      const projectId = this.getActiveProjectId()
+      if (!projectId) {
+        return
+      }
+
+      const channels = this.getPostgresChannels(projectId)
+      if (channels.length === 0) {
+        return
+      }
+
+      this.pollCount++
+      if (this.pollCount % this.SYNC_EVERY_POLLS === 0) {
+        await this.changeCapture.syncTriggers()
+      }
+
+      let cursor = this.cursors.get(projectId)
+      if (cursor === undefined) {
+        cursor = await this.changeCapture.getLatestChangeId()
+      }
+
+      const changes = await this.changeCapture.readChanges(cursor)
+      const metadataCache = new Map<string, RealtimeTableMetadata>()
+
+      for (const change of changes) {
+        await this.dispatchChange(change, channels, metadataCache)
+        cursor = change.id
+      }
+      this.cursors.set(projectId, cursor)
+
+      if (this.pollCount % this.PRUNE_EVERY_POLLS === 0) {
+        await this.changeCapture.pruneChanges(this.CHANGE_RETENTION_SECONDS)
+      }
+    } catch (error) {
+      logger.warn('Realtime change polling failed', {
+        error: error instanceof Error ? error.message : String(error)
+      })
+    } finally {
+      this.isPolling = false
+    }
+  }
+
+  private async handleJoin(connection: RealtimeConnection, message: PhoenixMessage): Promise<void> {
+    const config = (message.payload?.config || {}) as JoinConfig
+    const filters = config.postgres_changes || []
+    const isPrivate = config.private === true
+    const subTopic = subTopicOf(message.topic)
+
+    try {
+      for (const filter of filters) {
+        if (!filter.schema) {
+          throw new Error('Postgres changes subscription requires a schema')
+        }
+        if (filter.filter) {
+          parseChangeFilter(filter.filter)
+        }
+      }
+    } catch (error) {
+      this.reply(connection, message, 'error', {
+        reason: error instanceof Error ? error.message : String(error)
+      })
+      return
+    }
+
+    const session = await resolveSessionContext(getAccessToken(message) || connection.apiKey)
+    const permissions = await this.authorizer.authorize(subTopic, session, isPrivate)
+    if (!canJoinChannel(permissions)) {
+      this.reply(connection, message, 'error', {
+        reason: `Unauthorized: You do not have permissions to read from this Channel topic: ${subTopic}`
+      })
+      return
+    }
+
+    const postgresBindings: PostgresChangesBinding[] = filters.map(filter => ({
+      id: this.nextBindingId++,
+      event: filter.event,
+      schema: filter.schema,
+      table: filter.table,
+      filter: filter.filter
+    }))
+
+    if (postgresBindings.length > 0) {
+      try {
+        await this.changeCapture.syncTriggers()
+        if (connection.projectId && !this.cursors.has(connection.projectId)) {
+          this.cursors.set(connection.projectId, await this.changeCapture.getLatestChangeId())
+        }
+      } catch (error) {
+        logger.error('Realtime failed to prepare change capture', error as Error)
+        this.reply(connection, message, 'error', { reason: 'Unable to subscribe to changes' })
+        return
+      }
+    }
+
+    // Rejoining replaces the previous channel state, including its presence
+    const previous = connection.channels.get(message.topic)
+    if (previous) {
+      this.untrackChannelPresence(connection, previous)
+    }
+
+    const channel: RealtimeChannelState = {
+      topic: message.topic,
+      joinRef: message.join_ref ?? message.ref,
+      session,
+      scope: channelScope(connection.projectId, isPrivate, message.topic),
+      private: isPrivate,
+      permissions,
+      broadcast: {
+        self: config.broadcast?.self === true,
+        ack: config.broadcast?.ack === true
+      },
+      presence: {
+        enabled: config.presence?.enabled === true,
+        key: config.presence?.key || crypto.randomUUID()
+      },
+      postgresBindings
+    }
+    connection.channels.set(message.topic, channel)
+
+    this.reply(connection, message, 'ok', {
+      postgres_changes: postgresBindings.map(({ id, event, schema, table, filter }) => ({ id, event, schema, table, filter }))
+    })
+
+    if (postgresBindings.length > 0) {
+      this.push(connection, message.topic, 'system', {
+        channel: subTopic,
+        extension: 'postgres_changes',
+        message: 'Subscribed to PostgreSQL',
+        status: 'ok'
+      })
+    }
+
+    if (channel.presence.enabled && channel.permissions.presence.read) {
+      this.push(connection, message.topic, 'presence_state', this.presence.getState(channel.scope), channel.joinRef)
+    }
+
+    this.updatePolling()
+    this.notify()
+  }
+
+  private handleLeave(connection: RealtimeConnection, message: PhoenixMessage): void {
+    const channel = connection.channels.get(message.topic)
+    if (channel) {
+      this.untrackChannelPresence(connection, channel)
+    }
+    connection.channels.delete(message.topic)
+    this.reply(connection, message, 'ok', {})
+    this.updatePolling()
+    this.notify()
+  }
+
+  private async handleAccessToken(connection: RealtimeConnection, message: PhoenixMessage): Promise<void> {
+    const channel = connection.channels.get(message.topic)
+    const token = getAccessToken(message)
+    if (!channel || !token) {
+      return
+    }
+
+    channel.session = await resolveSessionContext(token)
+    if (channel.private) {
+      channel.permissions = await this.authorizer.authorize(subTopicOf(channel.topic), channel.session, true)
+    }
+    this.notify()
+  }
+
+  /**
+   * Relay a broadcast message to the other subscribers of the topic
+   */
+  private handleBroadcast(connection: RealtimeConnection, message: PhoenixMessage): void {
+    const channel = connection.channels.get(message.topic)
+    if (!channel) {
+      this.reply(connection, message, 'error', { reason: 'unmatched topic' })
+      return
+    }
+
+    if (!channel.permissions.broadcast.write) {
+      this.reply(connection, message, 'error', {
+        reason: `Unauthorized: You do not have permissions to write to this Channel topic: ${subTopicOf(channel.topic)}`
+      })
+      return
+    }
+
+    this.deliverBroadcast(channel.scope, channel.topic, message.payload, channel.broadcast.self ? null : channel)
+    this.bus.publish({ type: 'broadcast', scope: channel.scope, topic: channel.topic, payload: message.payload })
+
+    if (channel.broadcast.ack) {
+      this.reply(connection, message, 'ok', {})
+    }
+  }
+
+  /**
+   * Track or untrack the channel's presence and fan out the resulting diff
+   */
+  private handlePresence(connection: RealtimeConnection, message: PhoenixMessage): void {
+    const channel = connection.channels.get(message.topic)
+    if (!channel) {
+      this.reply(connection, message, 'error', { reason: 'unmatched topic' })
+      return
+    }
+
+    const event = message.payload?.event
+    if (event !== 'track' && event !== 'untrack') {
+      this.reply(connection, message, 'error', { reason: `unsupported presence event: ${String(event)}` })
+      return
+    }
+
+    if (!channel.permissions.presence.write) {
+      this.reply(connection, message, 'error', {
+        reason: `Unauthorized: You do not have permissions to track presence on this Channel topic: ${subTopicOf(channel.topic)}`
+      })
+      return
+    }
+
+    const diff = event === 'track'
+      ? this.presence.track(
+        channel.scope,
+        channel.presence.key,
+        `${connection.id}:${channel.topic}`,
+        (message.payload?.payload || {}) as Record<string, unknown>
+      )
+      : this.presence.untrack(channel.scope, `${connection.id}:${channel.topic}`)
+
+    this.publishPresenceDiff(channel.scope, channel.topic, diff)
+    this.reply(connection, message, 'ok', {})
+  }
+
+  /**
+   * Broadcast a message to a topic on behalf of the REST broadcast endpoint
+   */
+  async broadcastFromApi(
+    projectId: string | undefined,
+    message: { topic: string; event: string; payload?: unknown; private?: boolean },
+    session: SessionContext
+  ): Promise<boolean> {
+    const isPrivate = message.private === true
+    const permissions = await this.authorizer.authorize(message.topic, session, isPrivate)
+    if (!permissions.broadcast.write) {
+      return false
+    }
+
+    const topic = `realtime:${message.topic}`
+    const scope = channelScope(projectId, isPrivate, topic)
+    const payload = { type: 'broadcast', event: message.event, payload: message.payload ?? {} }
+
+    this.deliverBroadcast(scope, topic, payload, null)
+    this.bus.publish({ type: 'broadcast', scope, topic, payload })
+    return true
+  }
+
+  private deliverBroadcast(
+    scope: string,
+    topic: string,
+    payload: Record<string, unknown>,
+    sender: RealtimeChannelState | null
+  ): void {
+    for (const connection of this.connections.values()) {
+      const channel = connection.channels.get(topic)
+      if (!channel || channel === sender || channel.scope !== scope || !channel.permissions.broadcast.read) {
+        continue
+      }
+      this.push(connection, topic, 'broadcast', payload, channel.joinRef)
+    }
+  }
+
+  private deliverPresenceDiff(scope: string, topic: string, diff: PresenceDiff): void {
+    if (isEmptyPresenceDiff(diff)) {
+      return
+    }
+
+    for (const connection of this.connections.values()) {
+      const channel = connection.channels.get(topic)
+      if (!channel || channel.scope !== scope || !channel.presence.enabled || !channel.permissions.presence.read) {
+        continue
+      }
+      this.push(connection, topic, 'presence_diff', { ...diff }, channel.joinRef)
+    }
+    this.notify()
+  }
+
+  private publishPresenceDiff(scope: string, topic: string, diff: PresenceDiff): void {
+    if (isEmptyPresenceDiff(diff)) {
+      return
+    }
+    this.deliverPresenceDiff(scope, topic, diff)
+    this.bus.publish({ type: 'presence_diff', scope, topic, diff })
+  }
+
+  private untrackChannelPresence(connection: RealtimeConnection, channel: RealtimeChannelState): void {
+    const diff = this.presence.untrack(channel.scope, `${connection.id}:${channel.topic}`)
+    this.publishPresenceDiff(channel.scope, channel.topic, diff)
+  }
+
+  /**
+   * Apply broadcast and presence traffic from other tabs to local sockets
+   */
+  private handleBusMessage(message: RealtimeBusEnvelope): void {
+    switch (message.type) {
+      case 'broadcast':
+        this.deliverBroadcast(message.scope, message.topic, message.payload, null)
+        break
+      case 'presence_diff':
+        this.presence.applyRemoteDiff(message.scope, message.diff, message.origin)
+        this.deliverPresenceDiff(message.scope, message.topic, message.diff)
+        break
+      case 'presence_sync_request':
+        this.bus.publish({
+          type: 'presence_sync',
+          states: this.presence.getLocalStates()
+        })
+        break
+      case 'presence_sync':
+        for (const { scope, state } of message.states) {
+          const diff: PresenceDiff = { joins: state, leaves: {} }
+          this.presence.applyRemoteDiff(scope, diff, message.origin)
+          this.deliverPresenceDiff(scope, topicOfScope(scope), diff)
+        }
+        break
+      case 'tab_closed':
+        for (const { scope, diff } of this.presence.removeOrigin(message.origin)) {
+          this.deliverPresenceDiff(scope, topicOfScope(scope), diff)
+        }
+        break
+    }
+  }
+
+  private handlePageHide = (): void => {
+    this.bus.publish({ type: 'tab_closed' })
+  }
+
+  private dispose(): void {
+    this.stopPolling()
+    this.unsubscribeBus()
+    this.bus.close()
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('pagehide', this.handlePageHide)
+    }
+  }
+
+  private async dispatchChange(
+    change: RealtimeChange,
+    channels: Array<{ connection: RealtimeConnection; channel: RealtimeChannelState }>,
+    metadataCache: Map<string, RealtimeTableMetadata>
+  ): Promise<void> {
+    const recipients = channels
+      .map(({ connection, channel }) => ({
+        connection,
+        channel,
+        ids: channel.postgresBindings.filter(binding => changeMatchesBinding(change, binding)).map(binding => binding.id)
+      }))
+      .filter(recipient => recipient.ids.length > 0)
+
+    if (recipients.length === 0) {
+      return
+    }
+
+    const cacheKey = `${change.schema}.${change.table}`
+    let metadata = metadataCache.get(cacheKey)
+    if (!metadata) {
+      metadata = await this.changeCapture.getTableMetadata(change.schema, change.table)
+      metadataCache.set(cacheKey, metadata)
+    }
+
+    const data: Record<string, unknown> = {
+      schema: change.schema,
+      table: change.table,
+      commit_timestamp: change.commit_timestamp,
+      type: change.type,
+      columns: metadata.columns,
+      errors: null
+    }
+    if (change.type !== 'DELETE') {
+      data.record = change.record || {}
+    }
+    if (change.type !== 'INSERT') {
+      data.old_record = this.getOldRecord(change, metadata)
+    }
+
+    for (const { connection, channel, ids } of recipients) {
+      if (await this.isVisible(change, metadata, channel.session)) {
+        this.push(connection, channel.topic, 'postgres_changes', { ids, data }, channel.joinRef)
+      }
+    }
+  }
+
+  /**
+   * Without REPLICA IDENTITY FULL only primary key values of the old row are published
+   */
+  private getOldRecord(change: RealtimeChange, metadata: RealtimeTableMetadata): Record<string, unknown> {
+    const oldRecord = change.old_record || {}
+    if (metadata.replicaIdentityFull) {
+      return oldRecord
+    }
+
+    return Object.fromEntries(
+      metadata.primaryKeys.filter(key => key in oldRecord).map(key => [key, oldRecord[key]])
+    )
+  }
+
+  /**
+   * Check that the subscriber may read the changed row under its RLS context.
+   * The SELECT policies are evaluated against the captured record, since the
+   * row may have changed again by the time the change is delivered.
+   * Deletes cannot be checked against RLS and are always delivered, as in Supabase.
+   */
+  private async isVisible(
+    change: RealtimeChange,
+    metadata: RealtimeTableMetadata,
+    session: SessionContext
+  ): Promise<boolean> {
+    if (session.role === 'service_role' || change.type === 'DELETE' || !metadata.rlsEnabled) {
+      return true
+    }
+
+    try {
+      const policies = await getTablePolicies(this.dbManager, change.schema, change.table, session.role || 'anon')
+      const expression = combinePolicies(
+        policies.filter(policy => policy.cmd === 'SELECT' || policy.cmd === 'ALL'),
+        policy => policy.qual
+      )
+      if (!expression) {
+        return false
+      }
+
+      // Alias the record as the table, so qualified column references resolve
+      const relation = `${quoteIdent(change.schema)}.${quoteIdent(change.table)}`
+      const result = await this.dbManager.queryWithContext(
+        `SELECT ${expression} AS allowed FROM jsonb_populate_record(NULL::${relation}, $1::jsonb) AS ${quoteIdent(change.table)}`,
+        toDatabaseSession(session),
+        [JSON.stringify(change.record || {})]
+      )
+      return (result.rows[0] as { allowed?: boolean } | undefined)?.allowed === true
+    } catch (error) {
+      logger.debug('Realtime RLS check denied change', {
+        table: change.table,
+        role: session.role,
+        error: error instanceof Error ? error.message : String(error)
+      })
+      return false
+    }
+  }
+
+  private getActiveProjectId(): string | undefined {
+    const connectionId = this.dbManager.getConnectionInfo()?.id
+    return projectManager.getProjects().find(project => project.databasePath === connectionId)?.id
+  }
+
+  private getPostgresChannels(projectId?: string): Array<{ connection: RealtimeConnection; channel: RealtimeChannelState }> {
+    const result: Array<{ connection: RealtimeConnection; channel: RealtimeChannelState }> = []
+    for (const connection of this.connections.values()) {
+      if (projectId && connection.projectId !== projectId) {
+        continue
+      }
+      for (const channel of connection.channels.values()) {
+        if (channel.postgresBindings.length > 0) {
+          result.push({ connection, channel })
+        }
+      }
+    }
+    return result
+  }
+
+  private updatePolling(): void {
+    if (this.getPostgresChannels().length > 0) {
+      if (!this.pollTimer) {
+        this.pollTimer = setInterval(() => {
+          void this.pollChanges()
+        }, this.POLL_INTERVAL)
+      }
+    } else {
+      this.stopPolling()
+    }
+  }
+
+  private stopPolling(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer)
+      this.pollTimer = null
+    }
+  }
+
+  private reply(
+    connection: RealtimeConnection,
+    message: PhoenixMessage,
+    status: 'ok' | 'error',
+    response: Record<string, unknown>
+  ): void {
+    this.send(connection, {
+      topic: message.topic,
+      event: 'phx_reply',
+      payload: { status, response },
+      ref: message.ref,
+      join_ref: message.join_ref ?? null
+    })
+  }
+
+  private push(
+    connection: RealtimeConnection,
+    topic: string,
+    event: string,
+    payload: Record<string, unknown>,
+    joinRef: string | null = null
+  ): void {
+    this.send(connection, { topic, event, payload, ref: null, join_ref: joinRef })
+  }
+
+  private send(connection: RealtimeConnection, message: PhoenixMessage): void {
+    try {
+      connection.socket.send(JSON.stringify(message))
+      this.recordActivity('out', message)
+    } catch (error) {
+      logger.warn('Realtime failed to send frame, dropping connection', {
+        connectionId: connection.id,
+        error: error instanceof Error ? error.message : String(error)
+      })
+      this.closeConnection(connection.id)
+    }
+  }
+
+  private recordActivity(direction: 'in' | 'out', message: PhoenixMessage): void {
+    if (message.event === 'heartbeat' || (message.topic === 'phoenix' && message.event === 'phx_reply')) {
+      return
+    }
+
+    this.activity.push({
+      timestamp: new Date().toISOString(),
+      topic: message.topic,
+      event: message.event,
+      direction,
+      payload: message.payload
+    })
+    if (this.activity.length > this.MAX_ACTIVITY) {
+      this.activity.splice(0, this.activity.length - this.MAX_ACTIVITY)
+    }
+    this.notify()
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener())
+  }
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { ChannelAuthorizer, canJoinChannel } from '../ChannelAuthorizer'
+import type { DatabaseManager } from '../../database/connection'
+
+vi.mock('../../infrastructure/Logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn()
+  }
+}))
+
+describe('ChannelAuthorizer', () => {
+  const mockDbManager = {
+    query: vi.fn(),
+    queryWithContext: vi.fn()
+  }
+  let authorizer: ChannelAuthorizer
+
+  const policies = (...rows: Array<Record<string, unknown>>) => {
+    mockDbManager.query.mockImplementation(async (sql: string) =>
+      sql.includes('pg_policies') ? { rows } : { rows: [] }
+    )
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    authorizer = new ChannelAuthorizer(mockDbManager as unknown as DatabaseManager)
+  })
+
+  it('should allow everything on public channels without querying', async () => {
+    const permissions = await authorizer.authorize('room', { role: 'anon' }, false)
+
+    expect(canJoinChannel(permissions)).toBe(true)
+    expect(permissions.broadcast.write).toBe(true)
+    expect(mockDbManager.query).not.toHaveBeenCalled()
+  })
+
+  it('should allow everything for the service role', async () => {
+    const permissions = await authorizer.authorize('room', { role: 'service_role' }, true)
+
+    expect(permissions.presence).toEqual({ read: true, write: true })
+    expect(mockDbManager.query).not.toHaveBeenCalled()
+  })
+
+  it('should deny private channels without realtime.messages policies', async () => {
+    policies()
+
+    const permissions = await authorizer.authorize('room', { role: 'authenticated', userId: 'user-1' }, true)
+
+    expect(canJoinChannel(permissions)).toBe(false)
+    expect(mockDbManager.queryWithContext).not.toHaveBeenCalled()
+  })
+
+  it('should evaluate applicable policies against the channel topic', async () => {
+    policies(
+      { cmd: 'SELECT', roles: ['authenticated'], permissive: 'PERMISSIVE', qual: "(realtime.topic() = 'room'::text)", with_check: null },
+      { cmd: 'INSERT', roles: ['authenticated'], permissive: 'PERMISSIVE', qual: null, with_check: "(extension = 'broadcast'::text)" },
+      { cmd: 'SELECT', roles: ['anon'], permissive: 'PERMISSIVE', qual: 'true', with_check: null }
+    )
+    mockDbManager.queryWithContext
+      .mockResolvedValueOnce({ rows: [{ can_read: true, can_write: true }] })
+      .mockResolvedValueOnce({ rows: [{ can_read: true, can_write: false }] })
+
+    const session = { role: 'authenticated', userId: 'user-1' }
+    const permissions = await authorizer.authorize('room', session, true)
+
+    expect(permissions).toEqual({
+      broadcast: { read: true, write: true },
+      presence: { read: true, write: false }
+    })
+
+    const [sql, context, params] = mockDbManager.queryWithContext.mock.calls[0]
+    expect(sql).toContain("(((realtime.topic() = 'room'::text))) AS can_read")
+    expect(sql).toContain("(((extension = 'broadcast'::text))) AS can_write")
+    expect(sql).not.toContain('true) AS can_read')
+    expect(context).toEqual({ role: 'authenticated', userId: 'user-1', claims: undefined })
+    expect(params).toEqual(['room', 'broadcast'])
+    expect(mockDbManager.query).toHaveBeenCalledWith(expect.stringContaining("set_config('realtime.topic', $1, false)"), ['room'])
+    expect(mockDbManager.query).toHaveBeenLastCalledWith(expect.stringContaining("set_config('realtime.topic', '', false)"))
+  })
+
+  it('should apply restrictive policies on top of permissive ones', async () => {
+    policies(
+      { cmd: 'ALL', roles: ['public'], permissive: 'PERMISSIVE', qual: 'true', with_check: null },
+      { cmd: 'SELECT', roles: ['public'], permissive: 'RESTRICTIVE', qual: "(extension = 'presence'::text)", with_check: null }
+    )
+    mockDbManager.queryWithContext.mockResolvedValue({ rows: [{ can_read: false, can_write: true }] })
+
+    await authorizer.authorize('room', { role: 'authenticated' }, true)
+
+    expect(mockDbManager.queryWithContext.mock.calls[0][0]).toContain(
+      "((true)) AND ((extension = 'presence'::text)) AS can_read"
+    )
+  })
+
+  it('should deny when policy evaluation fails', async () => {
+    policies({ cmd: 'SELECT', roles: ['public'], permissive: 'PERMISSIVE', qual: '(missing_column = 1)', with_check: null })
+    mockDbManager.queryWithContext.mockRejectedValue(new Error('column "missing_column" does not exist'))
+
+    const permissions = await authorizer.authorize('room', { role: 'authenticated' }, true)
+
+    expect(canJoinChannel(permissions)).toBe(false)
+  })
+})
@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { PresenceRegistry, isEmptyPresenceDiff } from '../PresenceRegistry'
+
+describe('PresenceRegistry', () => {
+  const scope = 'project-1|public|realtime:room'
+  let registry: PresenceRegistry
+
+  beforeEach(() => {
+    registry = new PresenceRegistry('tab-a')
+  })
+
+  it('should report joins when tracking', () => {
+    const diff = registry.track(scope, 'user-1', 'conn-1', { status: 'online' })
+
+    expect(diff.leaves).toEqual({})
+    expect(diff.joins).toEqual({
+      'user-1': { metas: [{ status: 'online', phx_ref: expect.any(String) }] }
+    })
+    expect(registry.getState(scope)).toEqual(diff.joins)
+  })
+
+  it('should replace the previous presence of the same owner', () => {
+    const first = registry.track(scope, 'user-1', 'conn-1', { status: 'online' })
+    const second = registry.track(scope, 'user-1', 'conn-1', { status: 'away' })
+    const firstRef = first.joins['user-1'].metas[0].phx_ref
+
+    expect(second.leaves['user-1'].metas[0].phx_ref).toBe(firstRef)
+    expect(second.joins['user-1'].metas[0]).toMatchObject({ status: 'away', phx_ref_prev: firstRef })
+    expect(registry.getState(scope)['user-1'].metas).toHaveLength(1)
+  })
+
+  it('should keep presences of different owners under the same key', () => {
+    registry.track(scope, 'user-1', 'conn-1', { device: 'laptop' })
+    registry.track(scope, 'user-1', 'conn-2', { device: 'phone' })
+
+    expect(registry.getState(scope)['user-1'].metas.map(meta => meta.device)).toEqual(['laptop', 'phone'])
+  })
+
+  it('should report leaves when untracking', () => {
+    registry.track(scope, 'user-1', 'conn-1', { status: 'online' })
+
+    const diff = registry.untrack(scope, 'conn-1')
+
+    expect(Object.keys(diff.leaves)).toEqual(['user-1'])
+    expect(registry.getState(scope)).toEqual({})
+    expect(isEmptyPresenceDiff(registry.untrack(scope, 'conn-1'))).toBe(true)
+  })
+
+  it('should mirror remote diffs and drop them when the remote tab closes', () => {
+    const remote = new PresenceRegistry('tab-b')
+    const joined = remote.track(scope, 'user-2', 'conn-9', { status: 'online' })
+
+    registry.applyRemoteDiff(scope, joined, 'tab-b')
+    expect(Object.keys(registry.getState(scope))).toEqual(['user-2'])
+    expect(registry.getLocalStates()).toEqual([])
+
+    const removed = registry.removeOrigin('tab-b')
+    expect(removed).toEqual([{ scope, diff: { joins: {}, leaves: joined.joins } }])
+    expect(registry.getState(scope)).toEqual({})
+  })
+
+  it('should only share locally tracked presences when syncing', () => {
+    registry.track(scope, 'user-1', 'conn-1', { status: 'online' })
+    registry.applyRemoteDiff(scope, new PresenceRegistry('tab-b').track(scope, 'user-2', 'conn-9', {}), 'tab-b')
+
+    const states = registry.getLocalStates()
+
+    expect(states).toHaveLength(1)
+    expect(Object.keys(states[0].state)).toEqual(['user-1'])
+  })
+})
@@ -0,0 +1,460 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import type { RealtimeServer as RealtimeServerType } from '../RealtimeServer'
+import type { RealtimeBusEnvelope } from '../RealtimeBus'
+import type { PhoenixMessage, RealtimeChange } from '../types'
+
+const mockCapture = {
+  syncTriggers: vi.fn(),
+  getLatestChangeId: vi.fn(),
+  readChanges: vi.fn(),
+  pruneChanges: vi.fn(),
+  getTableMetadata: vi.fn()
+}
+
+const mockDbManager = {
+  isConnected: vi.fn(() => true),
+  getConnectionInfo: vi.fn(() => ({ id: 'project-db' })),
+  query: vi.fn(),
+  queryWithContext: vi.fn()
+}
+
+const allowAll = {
+  broadcast: { read: true, write: true },
+  presence: { read: true, write: true }
+}
+
+const mockAuthorizer = {
+  authorize: vi.fn()
+}
+
+let busListener: ((message: RealtimeBusEnvelope) => void) | null = null
+const mockBus = {
+  origin: 'tab-a',
+  publish: vi.fn(),
+  subscribe: vi.fn((listener: (message: RealtimeBusEnvelope) => void) => {
+    busListener = listener
+    return vi.fn()
+  }),
+  close: vi.fn()
+}
+
+vi.mock('../ChannelAuthorizer', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../ChannelAuthorizer')>()),
+  ChannelAuthorizer: vi.fn(() => mockAuthorizer)
+}))
+
+vi.mock('../RealtimeBus', () => ({
+  RealtimeBus: vi.fn(() => mockBus)
+}))
+
+vi.mock('../ChangeCapture', () => ({
+  ChangeCapture: vi.fn(() => mockCapture),
+  quoteIdent: (identifier: string) => `"${identifier}"`
+}))
+
+vi.mock('../../database/connection', () => ({
+  DatabaseManager: {
+    getInstance: () => mockDbManager
+  }
+}))
+
+vi.mock('../../projects/ProjectManager', () => ({
+  projectManager: {
+    getProjects: () => [{ id: 'project-1', databasePath: 'project-db' }]
+  }
+}))
+
+vi.mock('../../../api/middleware/authentication', () => ({
+  resolveSessionContext: vi.fn()
+}))
+
+vi.mock('../../infrastructure/Logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn()
+  }
+}))
+
+const insertChange: RealtimeChange = {
+  id: 8,
+  schema: 'public',
+  table: 'messages',
+  type: 'INSERT',
+  record: { id: 1, room_id: 2, body: 'hi' },
+  old_record: null,
+  commit_timestamp: '2024-01-01T00:00:00.000Z'
+}
+
+describe('RealtimeServer', () => {
+  // The test setup loads the API handlers, so import fresh modules to pick up the mocks
+  let RealtimeServer: typeof RealtimeServerType
+  let resolveSessionContext: typeof import('../../../api/middleware/authentication').resolveSessionContext
+  let server: RealtimeServerType
+  let sent: PhoenixMessage[]
+  let connectionId: string
+
+  const send = (message: Partial<PhoenixMessage>) =>
+    server.handleMessage(connectionId, JSON.stringify({ ref: '1', join_ref: '1', payload: {}, ...message }))
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    vi.resetModules()
+    ;({ RealtimeServer } = await import('../RealtimeServer'))
+    ;({ resolveSessionContext } = await import('../../../api/middleware/authentication'))
+    server = RealtimeServer.getInstance()
+    sent = []
+
+    mockCapture.getLatestChangeId.mockResolvedValue(7)
+    mockCapture.readChanges.mockResolvedValue([])
+    mockCapture.getTableMetadata.mockResolvedValue({
+      columns: [{ name: 'id', type: 'int4' }, { name: 'room_id', type: 'int4' }, { name: 'body', type: 'text' }],
+      primaryKeys: ['id'],
+      replicaIdentityFull: false,
+      rlsEnabled: false
+    })
+    vi.mocked(resolveSessionContext).mockResolvedValue({ role: 'anon' })
+    mockAuthorizer.authorize.mockResolvedValue(allowAll)
+
+    connectionId = server.openConnection(
+      { send: (data: string) => sent.push(JSON.parse(data)), close: vi.fn() },
+      { apiKey: 'anon-key', projectId: 'project-1' }
+    )
+  })
+
+  afterEach(() => {
+    RealtimeServer.resetInstance()
+  })
+
+  it('should reply to heartbeats', async () => {
+    await send({ topic: 'phoenix', event: 'heartbeat', ref: '9', join_ref: null })
+
+    expect(sent).toEqual([
+      { topic: 'phoenix', event: 'phx_reply', payload: { status: 'ok', response: {} }, ref: '9', join_ref: null }
+    ])
+  })
+
+  it('should acknowledge postgres_changes joins with server binding ids', async () => {
+    await send({
+      topic: 'realtime:room',
+      event: 'phx_join',
+      payload: {
+        config: { postgres_changes: [{ event: 'INSERT', schema: 'public', table: 'messages', filter: 'room_id=eq.2' }] },
+        access_token: 'user-token'
+      }
+    })
+
+    expect(resolveSessionContext).toHaveBeenCalledWith('user-token')
+    expect(mockCapture.syncTriggers).toHaveBeenCalled()
+    expect(sent[0].event).toBe('phx_reply')
+    expect(sent[0].payload).toEqual({
+      status: 'ok',
+      response: {
+        postgres_changes: [{ id: expect.any(Number), event: 'INSERT', schema: 'public', table: 'messages', filter: 'room_id=eq.2' }]
+      }
+    })
+    expect(sent[1]).toMatchObject({ event: 'system', payload: { extension: 'postgres_changes', status: 'ok' } })
+    expect(server.getStats().channels).toHaveLength(1)
+  })
+
+  it('should reject joins with invalid filters', async () => {
+    await send({
+      topic: 'realtime:room',
+      event: 'phx_join',
+      payload: { config: { postgres_changes: [{ event: '*', schema: 'public', table: 'messages', filter: 'room_id' }] } }
+    })
+
+    expect(sent[0].payload.status).toBe('error')
+    expect(server.getStats().channels).toHaveLength(0)
+  })
+
+  it('should deliver matching changes after the join cursor', async () => {
+    await send({
+      topic: 'realtime:room',
+      event: 'phx_join',
+      payload: { config: { postgres_changes: [{ event: '*', schema: 'public', table: 'messages', filter: 'room_id=eq.2' }] } }
+    })
+    const bindingId = (sent[0].payload.response as { postgres_changes: Array<{ id: number }> }).postgres_changes[0].id
+    sent = []
+    mockCapture.readChanges.mockResolvedValue([
+      insertChange,
+      { ...insertChange, id: 9, record: { id: 2, room_id: 3, body: 'elsewhere' } }
+    ])
+
+    await server.pollChanges()
+
+    expect(mockCapture.readChanges).toHaveBeenCalledWith(7)
+    expect(sent).toHaveLength(1)
+    expect(sent[0]).toMatchObject({
+      topic: 'realtime:room',
+      event: 'postgres_changes',
+      payload: {
+        ids: [bindingId],
+        data: {
+          schema: 'public',
+          table: 'messages',
+          type: 'INSERT',
+          record: { id: 1, room_id: 2, body: 'hi' },
+          errors: null
+        }
+      }
+    })
+    expect(sent[0].payload.data).not.toHaveProperty('old_record')
+  })
+
+  it('should only publish primary keys of old records without replica identity full', async () => {
+    await send({
+      topic: 'realtime:room',
+      event: 'phx_join',
+      payload: { config: { postgres_changes: [{ event: 'DELETE', schema: 'public', table: 'messages' }] } }
+    })
+    sent = []
+    mockCapture.readChanges.mockResolvedValue([
+      { ...insertChange, type: 'DELETE', record: null, old_record: { id: 1, room_id: 2, body: 'hi' } }
+    ])
+
+    await server.pollChanges()
+
+    expect(sent[0].payload.data).toHaveProperty('old_record', { id: 1 })
+    expect(sent[0].payload.data).not.toHaveProperty('record')
+  })
+
+  it('should skip changes the subscriber cannot read under RLS', async () => {
+    mockCapture.getTableMetadata.mockResolvedValue({
+      columns: [{ name: 'id', type: 'int4' }],
+      primaryKeys: ['id'],
+      replicaIdentityFull: false,
+      rlsEnabled: true
+    })
+    mockDbManager.query.mockResolvedValue({
+      rows: [{ cmd: 'SELECT', roles: ['anon'], permissive: 'PERMISSIVE', qual: '(room_id = 3)', with_check: null }]
+    })
+    mockDbManager.queryWithContext.mockResolvedValue({ rows: [{ allowed: false }] })
+
+    await send({
+      topic: 'realtime:room',
+      event: 'phx_join',
+      payload: { config: { postgres_changes: [{ event: 'INSERT', schema: 'public', table: 'messages' }] } }
+    })
+    sent = []
+    mockCapture.readChanges.mockResolvedValue([insertChange])
+
+    await server.pollChanges()
+
+    // The policies are evaluated against the captured record, not the current row
+    expect(mockDbManager.queryWithContext).toHaveBeenCalledWith(
+      'SELECT (((room_id = 3))) AS allowed FROM jsonb_populate_record(NULL::"public"."messages", $1::jsonb) AS "messages"',
+      { role: 'anon', userId: undefined, claims: undefined },
+      [JSON.stringify(insertChange.record)]
+    )
+    expect(sent).toHaveLength(0)
+  })
+
+  it('should reply with phx_error to frames that are not channel messages', async () => {
+    for (const frame of ['null', '1', '"x"', '[]', '{"event":"heartbeat"}']) {
+      await expect(server.handleMessage(connectionId, frame)).resolves.toBeUndefined()
+    }
+
+    expect(sent).toHaveLength(5)
+    expect(sent[0]).toMatchObject({ topic: 'phoenix', event: 'phx_error', payload: { reason: 'invalid message' } })
+  })
+
+  it('should stop delivering after the channel is left', async () => {
+    await send({
+      topic: 'realtime:room',
+      event: 'phx_join',
+      payload: { config: { postgres_changes: [{ event: '*', schema: 'public' }] } }
+    })
+    await send({ topic: 'realtime:room', event: 'phx_leave', ref: '2' })
+    sent = []
+    mockCapture.readChanges.mockResolvedValue([insertChange])
+
+    await server.pollChanges()
+
+    expect(sent).toHaveLength(0)
+    expect(server.getStats().channels).toHaveLength(0)
+  })
+
+  describe('broadcast and presence', () => {
+    let otherSent: PhoenixMessage[]
+    let otherConnectionId: string
+
+    const sendFrom = (id: string, message: Partial<PhoenixMessage>) =>
+      server.handleMessage(id, JSON.stringify({ ref: '1', join_ref: '1', payload: {}, ...message }))
+
+    const join = (id: string, config: Record<string, unknown>, topic: string = 'realtime:room') =>
+      sendFrom(id, { topic, event: 'phx_join', payload: { config: { postgres_changes: [], ...config } } })
+
+    beforeEach(() => {
+      otherSent = []
+      otherConnectionId = server.openConnection(
+        { send: (data: string) => otherSent.push(JSON.parse(data)), close: vi.fn() },
+        { apiKey: 'anon-key', projectId: 'project-1' }
+      )
+    })
+
+    it('should ask other tabs for their presence state on startup', () => {
+      expect(mockBus.publish).toHaveBeenCalledWith({ type: 'presence_sync_request' })
+    })
+
+    it('should relay broadcasts to other subscribers and across tabs', async () => {
+      await join(connectionId, { broadcast: { self: false, ack: true } })
+      await join(otherConnectionId, {})
+      sent = []
+      otherSent = []
+
+      const payload = { type: 'broadcast', event: 'cursor', payload: { x: 1 } }
+      await sendFrom(connectionId, { topic: 'realtime:room', event: 'broadcast', ref: '5', payload })
+
+      expect(otherSent).toEqual([
+        { topic: 'realtime:room', event: 'broadcast', payload, ref: null, join_ref: '1' }
+      ])
+      expect(sent).toEqual([
+        { topic: 'realtime:room', event: 'phx_reply', payload: { status: 'ok', response: {} }, ref: '5', join_ref: '1' }
+      ])
+      expect(mockBus.publish).toHaveBeenCalledWith({
+        type: 'broadcast',
+        scope: 'project-1|public|realtime:room',
+        topic: 'realtime:room',
+        payload
+      })
+    })
+
+    it('should echo broadcasts to the sender when self is enabled', async () => {
+      await join(connectionId, { broadcast: { self: true } })
+      sent = []
+
+      await sendFrom(connectionId, {
+        topic: 'realtime:room',
+        event: 'broadcast',
+        payload: { type: 'broadcast', event: 'ping', payload: {} }
+      })
+
+      expect(sent.map(message => message.event)).toEqual(['broadcast'])
+    })
+
+    it('should deliver broadcasts received from other tabs', async () => {
+      await join(connectionId, {})
+      sent = []
+
+      busListener?.({
+        type: 'broadcast',
+        origin: 'tab-b',
+        scope: 'project-1|public|realtime:room',
+        topic: 'realtime:room',
+        payload: { type: 'broadcast', event: 'ping', payload: {} }
+      })
+      busListener?.({
+        type: 'broadcast',
+        origin: 'tab-b',
+        scope: 'project-2|public|realtime:room',
+        topic: 'realtime:room',
+        payload: { type: 'broadcast', event: 'other-project', payload: {} }
+      })
+
+      expect(sent).toHaveLength(1)
+      expect(sent[0].payload).toMatchObject({ event: 'ping' })
+    })
+
+    it('should send presence state on join and diffs on track and leave', async () => {
+      await join(connectionId, { presence: { key: 'alice', enabled: true } })
+      expect(sent.find(message => message.event === 'presence_state')?.payload).toEqual({})
+
+      await join(otherConnectionId, { presence: { key: 'bob', enabled: true } })
+      sent = []
+      otherSent = []
+
+      await sendFrom(connectionId, {
+        topic: 'realtime:room',
+        event: 'presence',
+        ref: '6',
+        payload: { type: 'presence', event: 'track', payload: { status: 'online' } }
+      })
+
+      const diff = otherSent.find(message => message.event === 'presence_diff')
+      expect(diff?.payload).toEqual({
+        joins: { alice: { metas: [{ status: 'online', phx_ref: expect.any(String) }] } },
+        leaves: {}
+      })
+      expect(sent.map(message => message.event)).toEqual(['presence_diff', 'phx_reply'])
+      expect(mockBus.publish).toHaveBeenCalledWith(expect.objectContaining({ type: 'presence_diff' }))
+      expect(server.getStats().channels[0].presence).toBe(1)
+
+      otherSent = []
+      await sendFrom(connectionId, { topic: 'realtime:room', event: 'phx_leave', ref: '7' })
+
+      expect(otherSent[0]).toMatchObject({
+        event: 'presence_diff',
+        payload: { joins: {}, leaves: { alice: { metas: [{ status: 'online' }] } } }
+      })
+    })
+
+    it('should include presences of other tabs in the join state', async () => {
+      busListener?.({
+        type: 'presence_sync',
+        origin: 'tab-b',
+        states: [{
+          scope: 'project-1|public|realtime:room',
+          state: { carol: { metas: [{ phx_ref: 'tab-b-1', status: 'online' }] } }
+        }]
+      })
+
+      await join(connectionId, { presence: { enabled: true } })
+
+      expect(sent.find(message => message.event === 'presence_state')?.payload).toEqual({
+        carol: { metas: [{ phx_ref: 'tab-b-1', status: 'online' }] }
+      })
+    })
+
+    it('should reject private channels the subscriber cannot read', async () => {
+      mockAuthorizer.authorize.mockResolvedValueOnce({
+        broadcast: { read: false, write: false },
+        presence: { read: false, write: false }
+      })
+
+      await join(connectionId, { private: true }, 'realtime:secret')
+
+      expect(mockAuthorizer.authorize).toHaveBeenCalledWith('secret', { role: 'anon' }, true)
+      expect(sent[0].payload).toEqual({
+        status: 'error',
+        response: { reason: 'Unauthorized: You do not have permissions to read from this Channel topic: secret' }
+      })
+      expect(server.getStats().channels).toHaveLength(0)
+    })
+
+    it('should reject broadcasts without write permission on private channels', async () => {
+      mockAuthorizer.authorize.mockResolvedValueOnce({
+        broadcast: { read: true, write: false },
+        presence: { read: true, write: false }
+      })
+      await join(connectionId, { private: true })
+      await join(otherConnectionId, {})
+      sent = []
+      otherSent = []
+
+      await sendFrom(connectionId, {
+        topic: 'realtime:room',
+        event: 'broadcast',
+        payload: { type: 'broadcast', event: 'ping', payload: {} }
+      })
+
+      expect(sent[0].payload.status).toBe('error')
+      expect(otherSent).toHaveLength(0)
+      expect(mockBus.publish).not.toHaveBeenCalledWith(expect.objectContaining({ type: 'broadcast' }))
+    })
+
+    it('should keep private and public channels with the same topic apart', async () => {
+      await join(connectionId, { private: true })
+      await join(otherConnectionId, {})
+      otherSent = []
+
+      await sendFrom(connectionId, {
+        topic: 'realtime:room',
+        event: 'broadcast',
+        payload: { type: 'broadcast', event: 'ping', payload: {} }
+      })
+
+      expect(otherSent).toHaveLength(0)
+    })
+  })
+})
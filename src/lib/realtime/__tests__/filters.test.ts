@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest'
+import { parseChangeFilter, matchesChangeFilter, changeMatchesBinding } from '../filters'
+import type { RealtimeChange } from '../types'
+
+const change = (overrides: Partial<RealtimeChange> = {}): RealtimeChange => ({
+  id: 1,
+  schema: 'public',
+  table: 'messages',
+  type: 'INSERT',
+  record: { id: 5, room_id: 2, body: 'hello' },
+  old_record: null,
+  commit_timestamp: '2024-01-01T00:00:00.000Z',
+  ...overrides
+})
+
+describe('realtime filters', () => {
+  describe('parseChangeFilter', () => {
+    it('should parse comparison filters', () => {
+      expect(parseChangeFilter('room_id=eq.2')).toEqual({ column: 'room_id', operator: 'eq', value: '2' })
+      expect(parseChangeFilter('created_at=gte.2024-01-01')).toEqual({
+        column: 'created_at',
+        operator: 'gte',
+        value: '2024-01-01'
+      })
+    })
+
+    it('should parse in filters into a value list', () => {
+      expect(parseChangeFilter('status=in.(open,"in progress")')).toEqual({
+        column: 'status',
+        operator: 'in',
+        value: ['open', 'in progress']
+      })
+    })
+
+    it('should reject malformed filters and unsupported operators', () => {
+      expect(() => parseChangeFilter('room_id')).toThrow('Invalid filter format')
+      expect(() => parseChangeFilter('body=like.hello')).toThrow('Unsupported filter operator')
+      expect(() => parseChangeFilter('id=in.1,2')).toThrow('Invalid "in" filter value')
+    })
+  })
+
+  describe('matchesChangeFilter', () => {
+    const record = { id: 10, name: 'beta' }
+
+    it('should compare numbers numerically', () => {
+      expect(matchesChangeFilter(parseChangeFilter('id=eq.10'), record)).toBe(true)
+      expect(matchesChangeFilter(parseChangeFilter('id=gt.9'), record)).toBe(true)
+      expect(matchesChangeFilter(parseChangeFilter('id=lt.9'), record)).toBe(false)
+      expect(matchesChangeFilter(parseChangeFilter('id=neq.10'), record)).toBe(false)
+    })
+
+    it('should compare strings lexically', () => {
+      expect(matchesChangeFilter(parseChangeFilter('name=eq.beta'), record)).toBe(true)
+      expect(matchesChangeFilter(parseChangeFilter('name=gte.alpha'), record)).toBe(true)
+      expect(matchesChangeFilter(parseChangeFilter('name=in.(alpha,beta)'), record)).toBe(true)
+    })
+
+    it('should not match missing columns or null values', () => {
+      expect(matchesChangeFilter(parseChangeFilter('other=eq.1'), record)).toBe(false)
+      expect(matchesChangeFilter(parseChangeFilter('name=neq.x'), { name: null })).toBe(false)
+      expect(matchesChangeFilter(parseChangeFilter('id=eq.1'), null)).toBe(false)
+    })
+  })
+
+  describe('changeMatchesBinding', () => {
+    it('should match on event, schema and table', () => {
+      expect(changeMatchesBinding(change(), { event: '*', schema: 'public' })).toBe(true)
+      expect(changeMatchesBinding(change(), { event: 'INSERT', schema: 'public', table: 'messages' })).toBe(true)
+      expect(changeMatchesBinding(change(), { event: 'UPDATE', schema: 'public', table: 'messages' })).toBe(false)
+      expect(changeMatchesBinding(change(), { event: '*', schema: 'private' })).toBe(false)
+      expect(changeMatchesBinding(change(), { event: '*', schema: 'public', table: 'rooms' })).toBe(false)
+    })
+
+    it('should evaluate filters against the old record for deletes', () => {
+      const deleted = change({ type: 'DELETE', record: null, old_record: { id: 5, room_id: 2 } })
+
+      expect(changeMatchesBinding(deleted, { event: 'DELETE', schema: 'public', table: 'messages', filter: 'room_id=eq.2' })).toBe(true)
+      expect(changeMatchesBinding(deleted, { event: 'DELETE', schema: 'public', table: 'messages', filter: 'room_id=eq.3' })).toBe(false)
+    })
+  })
+})
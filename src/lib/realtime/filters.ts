@@ -0,0 +1,125 @@
+import type { PostgresChangesFilter, RealtimeChange } from './types'
+
+/**
+ * Operators supported in Postgres Changes filters (`column=op.value`)
+ */
+export const REALTIME_FILTER_OPERATORS = ['eq', 'neq', 'lt', 'lte', 'gt', 'gte', 'in'] as const
+
+export type RealtimeFilterOperator = typeof REALTIME_FILTER_OPERATORS[number]
+
+export interface ParsedChangeFilter {
+  column: string
+  operator: RealtimeFilterOperator
+  value: string | string[]
+}
+
+/**
+ * Parse a realtime-js filter string such as `id=eq.1` or `status=in.(open,closed)`.
+ * Throws when the filter is malformed, mirroring the join error Supabase Realtime returns.
+ */
+export function parseChangeFilter(filter: string): ParsedChangeFilter {
+  const match = filter.match(/^([^=]+)=([a-z]+)\.(.*)$/s)
+  if (!match) {
+    throw new Error(`Invalid filter format: ${filter}`)
+  }
+
+  const [, column, operator, rawValue] = match
+  if (!(REALTIME_FILTER_OPERATORS as readonly string[]).includes(operator)) {
+    throw new Error(`Unsupported filter operator: ${operator}`)
+  }
+
+  if (operator === 'in') {
+    const listMatch = rawValue.match(/^\((.*)\)$/s)
+    if (!listMatch) {
+      throw new Error(`Invalid "in" filter value: ${rawValue}`)
+    }
+    const values = listMatch[1]
+      .split(',')
+      .map(value => value.trim().replace(/^"(.*)"$/, '$1'))
+      .filter(value => value.length > 0)
+    return { column: column.trim(), operator, value: values }
+  }
+
+  return { column: column.trim(), operator: operator as RealtimeFilterOperator, value: rawValue }
+}
+
+/**
+ * Compare a record value with a filter value, numerically when both sides are numeric
+ */
+function compareValues(recordValue: unknown, filterValue: string): number {
+  if (recordValue === null || recordValue === undefined) {
+    return NaN
+  }
+
+  const left = typeof recordValue === 'object' ? JSON.stringify(recordValue) : String(recordValue)
+  const leftNumber = Number(left)
+  const rightNumber = Number(filterValue)
+
+  if (left.trim() !== '' && filterValue.trim() !== '' && !isNaN(leftNumber) && !isNaN(rightNumber)) {
+    return leftNumber - rightNumber
+  }
+
+  return left < filterValue ? -1 : left > filterValue ? 1 : 0
+}
+
+/**
+ * Check whether a record satisfies a parsed filter
+ */
+export function matchesChangeFilter(filter: ParsedChangeFilter, record: Record<string, unknown> | null): boolean {
+  if (!record || !(filter.column in record)) {
+    return false
+  }
+
+  const recordValue = record[filter.column]
+
+  if (filter.operator === 'in') {
+    return (filter.value as string[]).some(value => compareValues(recordValue, value) === 0)
+  }
+
+  const comparison = compareValues(recordValue, filter.value as string)
+  if (isNaN(comparison)) {
+    return false
+  }
+
+  switch (filter.operator) {
+    case 'eq':
+      return comparison === 0
+    case 'neq':
+      return comparison !== 0
+    case 'lt':
+      return comparison < 0
+    case 'lte':
+      return comparison <= 0
+    case 'gt':
+      return comparison > 0
+    case 'gte':
+      return comparison >= 0
+    default:
+      return false
+  }
+}
+
+/**
+ * Check whether a captured change should be delivered to a postgres_changes binding.
+ * Filters are evaluated against the new record, or the old record for deletes.
+ */
+export function changeMatchesBinding(change: RealtimeChange, binding: PostgresChangesFilter): boolean {
+  if (binding.event !== '*' && binding.event !== change.type) {
+    return false
+  }
+
+  if (binding.schema !== '*' && binding.schema !== change.schema) {
+    return false
+  }
+
+  if (binding.table && binding.table !== '*' && binding.table !== change.table) {
+    return false
+  }
+
+  if (binding.filter) {
+    const record = change.type === 'DELETE' ? change.old_record : change.record
+    return matchesChangeFilter(parseChangeFilter(binding.filter), record)
+  }
+
+  return true
+}
@@ -0,0 +1,7 @@
+export { RealtimeServer, type RealtimeStats, type RealtimeActivity, type OpenConnectionOptions } from './RealtimeServer'
+export { ChangeCapture, REALTIME_PUBLICATION, type PublishedTable, type RealtimeTableMetadata } from './ChangeCapture'
+export { ChannelAuthorizer, canJoinChannel, type ChannelPermissions } from './ChannelAuthorizer'
+export { PresenceRegistry } from './PresenceRegistry'
+export { RealtimeBus, type RealtimeBusMessage } from './RealtimeBus'
+export { parseChangeFilter, matchesChangeFilter, changeMatchesBinding, REALTIME_FILTER_OPERATORS } from './filters'
+export type * from './types'
@@ -0,0 +1,75 @@
+/**
+ * Realtime types - Phoenix channel protocol frames and Postgres Changes payloads
+ * as exchanged with @supabase/realtime-js (serializer vsn 1.0.0)
+ */
+
+export interface PhoenixMessage {
+  topic: string
+  event: string
+  payload: Record<string, unknown>
+  ref: string | null
+  join_ref?: string | null
+}
+
+export type PostgresChangeEvent = 'INSERT' | 'UPDATE' | 'DELETE'
+
+export interface PostgresChangesFilter {
+  event: PostgresChangeEvent | '*'
+  schema: string
+  table?: string
+  filter?: string
+}
+
+export interface PostgresChangesBinding extends PostgresChangesFilter {
+  id: number
+}
+
+export interface RealtimeColumn {
+  name: string
+  type: string
+}
+
+/**
+ * A captured row change read from the change log
+ */
+export interface RealtimeChange {
+  id: number
+  schema: string
+  table: string
+  type: PostgresChangeEvent
+  record: Record<string, unknown> | null
+  old_record: Record<string, unknown> | null
+  commit_timestamp: string
+}
+
+/**
+ * Minimal transport used by the realtime server so it can be driven by
+ * an intercepted WebSocket or a test double
+ */
+export interface RealtimeSocket {
+  send(data: string): void
+  close(code?: number, reason?: string): void
+}
+
+export type RealtimeExtension = 'broadcast' | 'presence'
+
+export interface BroadcastConfig {
+  self: boolean
+  ack: boolean
+}
+
+/**
+ * Phoenix presence metadata; `phx_ref` identifies a single tracked presence
+ */
+export interface PresenceMeta {
+  phx_ref: string
+  phx_ref_prev?: string
+  [key: string]: unknown
+}
+
+export type PresenceState = Record<string, { metas: PresenceMeta[] }>
+
+export interface PresenceDiff {
+  joins: PresenceState
+  leaves: PresenceState
+}
@@ -6,8 +6,10 @@ export const ROUTES = {
   AUTH: '/auth',
   STORAGE: '/storage',
   REALTIME: '/realtime',
+  EDGE_FUNCTIONS: '/edge-functions',
   APP_HOSTING: '/app-hosting',
   API: '/api',
+  OAUTH_CONSENT: '/oauth/consent',
 } as const;
 
 export const ROUTE_TO_PAGE: Record<string, string> = {
@@ -18,8 +20,10 @@ export const ROUTE_TO_PAGE: Record<string, string> = {
   [ROUTES.AUTH]: 'auth',
   [ROUTES.STORAGE]: 'storage',
   [ROUTES.REALTIME]: 'realtime',
+  [ROUTES.EDGE_FUNCTIONS]: 'edge-functions',
   [ROUTES.APP_HOSTING]: 'app-hosting',
   [ROUTES.API]: 'api',
+  [ROUTES.OAUTH_CONSENT]: 'oauth-consent',
 };
 
 export const PAGE_TO_ROUTE: Record<string, string> = {
@@ -30,8 +34,10 @@ export const PAGE_TO_ROUTE: Record<string, string> = {
   'auth': ROUTES.AUTH,
   'storage': ROUTES.STORAGE,
   'realtime': ROUTES.REALTIME,
+  'edge-functions': ROUTES.EDGE_FUNCTIONS,
   'app-hosting': ROUTES.APP_HOSTING,
   'api': ROUTES.API,
+  'oauth-consent': ROUTES.OAUTH_CONSENT,
 };
 
 export function getPageFromPath(path: string): string {
@@ -40,6 +46,12 @@ export function getPageFromPath(path: string): string {
     return ROUTE_TO_PAGE[path];
   }
 
+  // A browser navigating to /authorize outside of the mock service worker
+  // is served the app, which answers it with the consent page
+  if (/^(\/[^/]+)?\/auth\/v1\/authorize$/.test(path)) {
+    return 'oauth-consent';
+  }
+
   return 'dashboard';
 }
 
@@ -9,6 +9,8 @@ import type {
   UploadOptions,
   UploadResponse,
   DownloadResponse,
+  InfoResponse,
+  ExistsResponse,
   ListOptions,
   ListResponse,
   // SignedUrlOptions,
@@ -69,26 +71,26 @@ export class StorageBucket {
       
       formData.append('file', fileBlob)
 
-      const headers = { ...this.headers }
-      // Let browser set Content-Type with boundary for multipart
-      delete headers['Content-Type']
-
-      // Add optional headers
+      // Object attributes travel as form fields next to the file
       if (options.cacheControl) {
-        headers['cache-control'] = options.cacheControl
+        formData.append('cacheControl', options.cacheControl)
       }
-      
+
       if (options.contentType) {
-        headers['content-type'] = options.contentType
+        formData.append('contentType', options.contentType)
       }
-      
+
+      if (options.metadata) {
+        formData.append('metadata', JSON.stringify(options.metadata))
+      }
+
+      const headers = { ...this.headers }
+      // Let browser set Content-Type with boundary for multipart
+      delete headers['Content-Type']
+
       if (options.upsert) {
         headers['x-upsert'] = 'true'
       }
-      
-      if (options.metadata) {
-        headers['x-metadata'] = JSON.stringify(options.metadata)
-      }
 
       if (options.duplex) {
         headers['duplex'] = options.duplex
@@ -112,9 +114,12 @@ export class StorageBucket {
   /**
    * Downloads a file from the bucket
    */
-  async download(path: string): Promise<DownloadResponse> {
+  async download(path: string, options?: { transform?: ImageTransformOptions }): Promise<DownloadResponse> {
     try {
-      const response = await fetch(`${this.apiUrl}/storage/v1/object/${this.bucketId}/${path}`, {
+      const url = options?.transform
+        ? `${this.apiUrl}/storage/v1/render/image/authenticated/${this.bucketId}/${path}${this.toTransformQuery(options.transform)}`
+        : `${this.apiUrl}/storage/v1/object/${this.bucketId}/${path}`
+      const response = await fetch(url, {
         method: 'GET',
         headers: this.headers
       })
@@ -134,6 +139,53 @@ export class StorageBucket {
     }
   }
 
+  /**
+   * Retrieves the stored attributes of a file without its content
+   */
+  async info(path: string): Promise<InfoResponse> {
+    try {
+      const response = await fetch(`${this.apiUrl}/storage/v1/object/info/${this.bucketId}/${path}`, {
+        method: 'GET',
+        headers: this.headers
+      })
+
+      return this.handleResponse<InfoResponse['data']>(response)
+    } catch (error) {
+      return { 
+        data: null, 
+        error: StorageError.fromError(error instanceof Error ? error : new Error(String(error)))
+      }
+    }
+  }
+
+  /**
+   * Checks whether a file exists
+   */
+  async exists(path: string): Promise<ExistsResponse> {
+    try {
+      const response = await fetch(`${this.apiUrl}/storage/v1/object/${this.bucketId}/${path}`, {
+        method: 'HEAD',
+        headers: this.headers
+      })
+
+      if (response.status === 404) {
+        return { data: false, error: null }
+      }
+
+      if (!response.ok) {
+        const error = StorageError.fromResponse(response, 'Failed to check file')
+        return { data: null, error }
+      }
+
+      return { data: true, error: null }
+    } catch (error) {
+      return { 
+        data: null, 
+        error: StorageError.fromError(error instanceof Error ? error : new Error(String(error)))
+      }
+    }
+  }
+
   /**
    * Lists files in the bucket
    */
@@ -305,19 +357,9 @@ export class StorageBucket {
    * Gets a public URL for a file (no authentication required)
    */
   getPublicUrl(path: string, options?: { transform?: ImageTransformOptions }): PublicUrlResponse {
-    let url = `${this.apiUrl}/storage/v1/object/public/${this.bucketId}/${path}`
-    
-    if (options?.transform) {
-      const params = new URLSearchParams()
-      Object.entries(options.transform).forEach(([key, value]) => {
-        if (value !== undefined) {
-          params.append(key, value.toString())
-        }
-      })
-      if (params.toString()) {
-        url += `?${params.toString()}`
-      }
-    }
+    const url = options?.transform
+      ? `${this.apiUrl}/storage/v1/render/image/public/${this.bucketId}/${path}${this.toTransformQuery(options.transform)}`
+      : `${this.apiUrl}/storage/v1/object/public/${this.bucketId}/${path}`
 
     return {
       data: { publicUrl: url }
@@ -344,6 +386,19 @@ export class StorageBucket {
     }
   }
 
+  /**
+   * Query string of the render/image endpoints for transform options
+   */
+  private toTransformQuery(transform: ImageTransformOptions): string {
+    const params = new URLSearchParams()
+    Object.entries(transform).forEach(([key, value]) => {
+      if (value !== undefined) {
+        params.append(key, value.toString())
+      }
+    })
+    return params.toString() ? `?${params.toString()}` : ''
+  }
+
   /**
    * Helper method to handle API responses
    */
@@ -4,7 +4,7 @@
  * Tests the StorageBucket class functionality and API compatibility
  */
 
-import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import { StorageBucket } from '../StorageBucket'
 // import { StorageError } from '../StorageError'
 
@@ -68,6 +68,91 @@ describe('StorageBucket', () => {
     })
   })
 
+  describe('info()', () => {
+    const objectInfo = {
+      id: 'object-1',
+      name: 'docs/test.txt',
+      bucket_id: 'test-bucket',
+      version: null,
+      size: 12,
+      content_type: 'text/plain',
+      cache_control: 'max-age=3600',
+      etag: '"5d41402abc4b2a76b9719d911017c592"',
+      last_modified: '2024-01-01T00:00:00.000Z',
+      created_at: '2024-01-01T00:00:00.000Z',
+      updated_at: '2024-01-01T00:00:00.000Z',
+      metadata: { owner: 'ada' }
+    }
+
+    afterEach(() => {
+      vi.restoreAllMocks()
+    })
+
+    it('should get the info of a file', async () => {
+      const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValueOnce(Response.json(objectInfo))
+
+      const result = await bucket.info('docs/test.txt')
+
+      expect(fetchSpy).toHaveBeenCalledWith(
+        `${mockApiUrl}/storage/v1/object/info/test-bucket/docs/test.txt`,
+        expect.objectContaining({ method: 'GET', headers: mockHeaders })
+      )
+      expect(result.error).toBeNull()
+      expect(result.data).toEqual(objectInfo)
+      expect(result.data).toMatchObject({
+        etag: '"5d41402abc4b2a76b9719d911017c592"',
+        cache_control: 'max-age=3600',
+        metadata: { owner: 'ada' }
+      })
+    })
+
+    it('should return an error for a missing file', async () => {
+      vi.spyOn(globalThis, 'fetch').mockResolvedValueOnce(
+        Response.json({ statusCode: '404', error: 'not_found', message: 'Object not found' }, { status: 404 })
+      )
+
+      const result = await bucket.info('missing.txt')
+
+      expect(result.data).toBeNull()
+      expect(result.error).toMatchObject({ message: 'Object not found', statusCode: 404 })
+    })
+  })
+
+  describe('exists()', () => {
+    afterEach(() => {
+      vi.restoreAllMocks()
+    })
+
+    it('should send a HEAD request and return true for an existing file', async () => {
+      const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValueOnce(new Response(null, { status: 200 }))
+
+      const result = await bucket.exists('docs/test.txt')
+
+      expect(fetchSpy).toHaveBeenCalledWith(
+        `${mockApiUrl}/storage/v1/object/test-bucket/docs/test.txt`,
+        expect.objectContaining({ method: 'HEAD', headers: mockHeaders })
+      )
+      expect(result).toEqual({ data: true, error: null })
+    })
+
+    it('should return false for a missing file', async () => {
+      vi.spyOn(globalThis, 'fetch').mockResolvedValueOnce(new Response(null, { status: 404 }))
+
+      const result = await bucket.exists('missing.txt')
+
+      expect(result).toEqual({ data: false, error: null })
+    })
+
+    it('should return an error when the check fails', async () => {
+      vi.spyOn(globalThis, 'fetch').mockResolvedValueOnce(new Response(null, { status: 500 }))
+
+      const result = await bucket.exists('test.txt')
+
+      expect(result.data).toBeNull()
+      expect(result.error).toMatchObject({ message: 'Failed to check file', statusCode: 500 })
+    })
+  })
+
   describe('list()', () => {
     it('should list files in bucket', async () => {
       const result = await bucket.list()
@@ -175,6 +260,7 @@ describe('StorageBucket', () => {
       })
 
       expect(result.data).toHaveProperty('publicUrl')
+      expect(result.data.publicUrl).toContain('/storage/v1/render/image/public/test-bucket/image.jpg')
       expect(result.data.publicUrl).toContain('width=200')
       expect(result.data.publicUrl).toContain('height=200')
       expect(result.data.publicUrl).toContain('resize=cover')
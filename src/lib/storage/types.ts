@@ -49,6 +49,21 @@ export interface FileObject {
   version?: string
 }
 
+export interface ObjectInfo {
+  id: string
+  name: string
+  bucket_id: string
+  version: string | null
+  size: number
+  content_type: string
+  cache_control: string
+  etag: string | null
+  last_modified: string
+  created_at: string
+  updated_at: string
+  metadata: Record<string, unknown> | null
+}
+
 export interface UploadOptions {
   cacheControl?: string
   contentType?: string
@@ -97,6 +112,10 @@ export interface UploadResponse extends StorageResponse<{
 
 export interface DownloadResponse extends StorageResponse<Blob> {}
 
+export type InfoResponse = StorageResponse<ObjectInfo>
+
+export type ExistsResponse = StorageResponse<boolean>
+
 export interface ListResponse extends StorageResponse<FileObject[]> {}
 
 export interface SignedUrlResponse extends StorageResponse<{
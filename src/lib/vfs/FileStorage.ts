@@ -429,6 +429,70 @@ export class FileStorage {
     }
   }
 
+  /**
+   * Load the chunks saved for a file, in sequence order
+   */
+  async loadChunks(fileId: string): Promise<VFSFileChunk[]> {
+    if (!this.isInitialized) {
+      throw this.createError('VFS_STORAGE_ERROR', 'FileStorage not initialized');
+    }
+
+    try {
+      const db = await this.getDatabase();
+      const chunks: VFSFileChunk[] = await db.getAllFromIndex(OBJECT_STORES.CHUNKS, INDEXES.CHUNKS.BY_FILE_ID, fileId);
+      return chunks.sort((a, b) => a.sequence - b.sequence);
+    } catch (error) {
+      logger.error('Failed to load chunks', error as Error, { fileId });
+      throw createDatabaseError('Failed to load chunks', error as Error, 'chunk load operation');
+    }
+  }
+
+  /**
+   * Delete all chunks saved for a file
+   */
+  async deleteChunks(fileId: string): Promise<void> {
+    if (!this.isInitialized) {
+      throw this.createError('VFS_STORAGE_ERROR', 'FileStorage not initialized');
+    }
+
+    try {
+      const db = await this.getDatabase();
+      const tx = db.transaction(OBJECT_STORES.CHUNKS, 'readwrite');
+      const keys = await tx.store.index(INDEXES.CHUNKS.BY_FILE_ID).getAllKeys(fileId);
+      for (const key of keys) {
+        await tx.store.delete(key);
+      }
+      await tx.done;
+    } catch (error) {
+      logger.error('Failed to delete chunks', error as Error, { fileId });
+      throw createDatabaseError('Failed to delete chunks', error as Error, 'chunk delete operation');
+    }
+  }
+
+  /**
+   * The IDs of the files starting with prefix that have chunks saved
+   */
+  async listChunkFileIds(prefix: string): Promise<string[]> {
+    if (!this.isInitialized) {
+      throw this.createError('VFS_STORAGE_ERROR', 'FileStorage not initialized');
+    }
+
+    try {
+      const db = await this.getDatabase();
+      const index = db.transaction(OBJECT_STORES.CHUNKS).store.index(INDEXES.CHUNKS.BY_FILE_ID);
+      const fileIds: string[] = [];
+      let cursor = await index.openKeyCursor(IDBKeyRange.bound(prefix, `${prefix}\uffff`), 'nextunique');
+      while (cursor) {
+        fileIds.push(String(cursor.key));
+        cursor = await cursor.continue();
+      }
+      return fileIds;
+    } catch (error) {
+      logger.error('Failed to list chunk file IDs', error as Error, { prefix });
+      throw createDatabaseError('Failed to list chunk file IDs', error as Error, 'chunk listing');
+    }
+  }
+
   /**
    * Get total chunk count across all files
    */
@@ -0,0 +1,228 @@
+import { VFS_CONFIG } from './constants';
+import { createValidationError } from '../infrastructure/ErrorHandler';
+import { logger } from '../infrastructure/Logger';
+import type { TransformOptions } from '../../types/signed-url';
+
+type ResizeMode = NonNullable<TransformOptions['resize']>;
+
+const RESIZE_MODES: ResizeMode[] = ['cover', 'contain', 'fill', 'inside', 'outside'];
+const OUTPUT_FORMATS = ['origin', 'webp', 'jpeg', 'png'];
+
+/**
+ * Formats a canvas can encode. Other images are re-encoded as PNG.
+ */
+const ENCODABLE_TYPES = ['image/webp', 'image/jpeg', 'image/png'];
+
+export interface ImageSource {
+  content: ArrayBuffer;
+  mimeType: string;
+  /** Content hash of the stored file, keys the derived-image cache */
+  hash?: string;
+}
+
+export interface TransformedImage {
+  body: ArrayBuffer;
+  mimeType: string;
+}
+
+/**
+ * Where to draw the source image on the output canvas: the part of the
+ * source that is kept and the size of the output
+ */
+export interface ImageGeometry {
+  width: number;
+  height: number;
+  sx: number;
+  sy: number;
+  sw: number;
+  sh: number;
+}
+
+/**
+ * Read the width, height, resize, quality and format query parameters of
+ * a render/image request
+ */
+export function parseTransformOptions(params: URLSearchParams): TransformOptions {
+  const options: TransformOptions = {};
+
+  const parseNumber = (name: string, min: number, max: number): number | undefined => {
+    const value = params.get(name);
+    if (value === null || value === '') {
+      return undefined;
+    }
+
+    const number = Number(value);
+    if (!Number.isInteger(number) || number < min || number > max) {
+      throw createValidationError(`${name} must be an integer between ${min} and ${max}`);
+    }
+    return number;
+  };
+
+  options.width = parseNumber('width', 1, VFS_CONFIG.IMAGE_MAX_DIMENSION);
+  options.height = parseNumber('height', 1, VFS_CONFIG.IMAGE_MAX_DIMENSION);
+  options.quality = parseNumber('quality', VFS_CONFIG.IMAGE_MIN_QUALITY, 100);
+
+  const resize = params.get('resize');
+  if (resize) {
+    if (!RESIZE_MODES.includes(resize as ResizeMode)) {
+      throw createValidationError(`resize must be one of ${RESIZE_MODES.join(', ')}`);
+    }
+    options.resize = resize as ResizeMode;
+  }
+
+  const format = params.get('format');
+  if (format) {
+    if (!OUTPUT_FORMATS.includes(format)) {
+      throw createValidationError(`format must be one of ${OUTPUT_FORMATS.join(', ')}`);
+    }
+    options.format = format as TransformOptions['format'];
+  }
+
+  return options;
+}
+
+/**
+ * Compute the output size and source crop for a resize. With only a width
+ * or a height the aspect ratio is kept. cover fills the box and crops the
+ * overflow, contain and inside fit the image in the box, outside makes it
+ * cover the box without cropping and fill stretches it.
+ */
+export function getImageGeometry(sourceWidth: number, sourceHeight: number, options: TransformOptions): ImageGeometry {
+  const full = { sx: 0, sy: 0, sw: sourceWidth, sh: sourceHeight };
+  const { width, height, resize = 'cover' } = options;
+
+  if (!width && !height) {
+    return { width: sourceWidth, height: sourceHeight, ...full };
+  }
+  if (!width || !height) {
+    const scale = width ? width / sourceWidth : height! / sourceHeight;
+    return {
+      width: Math.max(1, Math.round(sourceWidth * scale)),
+      height: Math.max(1, Math.round(sourceHeight * scale)),
+      ...full
+    };
+  }
+
+  switch (resize) {
+    case 'fill':
+      return { width, height, ...full };
+    case 'contain':
+    case 'inside':
+    case 'outside': {
+      const scale = resize === 'outside'
+        ? Math.max(width / sourceWidth, height / sourceHeight)
+        : Math.min(width / sourceWidth, height / sourceHeight);
+      return {
+        width: Math.max(1, Math.round(sourceWidth * scale)),
+        height: Math.max(1, Math.round(sourceHeight * scale)),
+        ...full
+      };
+    }
+    default: {
+      // cover: keep the centered part of the source with the box's aspect ratio
+      const scale = Math.max(width / sourceWidth, height / sourceHeight);
+      const sw = width / scale;
+      const sh = height / scale;
+      return { width, height, sx: (sourceWidth - sw) / 2, sy: (sourceHeight - sh) / 2, sw, sh };
+    }
+  }
+}
+
+/**
+ * ImageTransformer renders resized and re-encoded images for the Storage
+ * render/image endpoints with OffscreenCanvas, in the page or a worker.
+ * Derived images are cached in memory, keyed on the source file's hash
+ * and the transformation.
+ */
+export class ImageTransformer {
+  private static instance: ImageTransformer;
+  private cache = new Map<string, TransformedImage>();
+
+  static getInstance(): ImageTransformer {
+    if (!ImageTransformer.instance) {
+      ImageTransformer.instance = new ImageTransformer();
+    }
+    return ImageTransformer.instance;
+  }
+
+  /**
+   * Transform an image. Without an explicit format the image is served as
+   * WebP when the client accepts it, like Supabase's automatic detection.
+   */
+  async transform(source: ImageSource, options: TransformOptions, accept?: string): Promise<TransformedImage> {
+    if (!source.mimeType.startsWith('image/') || source.mimeType === 'image/svg+xml') {
+      throw createValidationError(`Images of type ${source.mimeType} cannot be transformed`);
+    }
+
+    const mimeType = this.getOutputType(source.mimeType, options.format, accept);
+    const quality = options.quality ?? VFS_CONFIG.IMAGE_DEFAULT_QUALITY;
+    const cacheKey = source.hash &&
+      [source.hash, source.content.byteLength, options.width, options.height, options.resize, quality, mimeType].join(':');
+
+    const cached = cacheKey ? this.cache.get(cacheKey) : undefined;
+    if (cached) {
+      // Move to the end so the least recently used image is evicted first
+      this.cache.delete(cacheKey!);
+      this.cache.set(cacheKey!, cached);
+      return cached;
+    }
+
+    if (typeof OffscreenCanvas === 'undefined' || typeof createImageBitmap === 'undefined') {
+      logger.warn('OffscreenCanvas is not available, serving the original image');
+      return { body: source.content, mimeType: source.mimeType };
+    }
+
+    const image = await this.render(source, options, mimeType, quality);
+
+    if (cacheKey) {
+      this.cache.set(cacheKey, image);
+      if (this.cache.size > VFS_CONFIG.IMAGE_CACHE_MAX_ENTRIES) {
+        this.cache.delete(this.cache.keys().next().value!);
+      }
+    }
+    return image;
+  }
+
+  /**
+   * Drop all derived images
+   */
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  private async render(
+    source: ImageSource,
+    options: TransformOptions,
+    mimeType: string,
+    quality: number
+  ): Promise<TransformedImage> {
+    const bitmap = await createImageBitmap(new Blob([source.content], { type: source.mimeType }));
+    try {
+      const geometry = getImageGeometry(bitmap.width, bitmap.height, options);
+      const canvas = new OffscreenCanvas(geometry.width, geometry.height);
+      const context = canvas.getContext('2d');
+      if (!context) {
+        throw new Error('Could not create a 2D canvas context');
+      }
+
+      context.imageSmoothingQuality = 'high';
+      context.drawImage(bitmap, geometry.sx, geometry.sy, geometry.sw, geometry.sh, 0, 0, geometry.width, geometry.height);
+
+      const blob = await canvas.convertToBlob({ type: mimeType, quality: quality / 100 });
+      // Browsers fall back to PNG for formats they cannot encode
+      return { body: await blob.arrayBuffer(), mimeType: blob.type || mimeType };
+    } finally {
+      bitmap.close();
+    }
+  }
+
+  private getOutputType(sourceType: string, format: TransformOptions['format'], accept?: string): string {
+    if (format && format !== 'origin') {
+      return `image/${format}`;
+    }
+    if (!format && accept?.includes('image/webp')) {
+      return 'image/webp';
+    }
+    return ENCODABLE_TYPES.includes(sourceType) ? sourceType : 'image/png';
+  }
+}
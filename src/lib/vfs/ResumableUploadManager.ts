@@ -0,0 +1,294 @@
+import { VFSManager } from './VFSManager';
+import { VFS_CONFIG } from './constants';
+import type { SessionContext } from '../../api/types';
+import type { VFSFileChunk } from '../../types/vfs';
+
+export const TUS_VERSION = '1.0.0';
+
+const CHUNK_FILE_PREFIX = 'tus_';
+const RECORD_FILE_SUFFIX = '_upload';
+
+/**
+ * Content type of the bodies that carry upload data
+ */
+export const TUS_CONTENT_TYPE = 'application/offset+octet-stream';
+
+/**
+ * An upload created through the TUS endpoint. Its bytes are kept as VFS
+ * chunks until the last part arrives.
+ */
+export interface ResumableUpload {
+  id: string;
+  projectId: string | null;
+  bucket: string;
+  objectName: string;
+  contentType?: string;
+  cacheControl?: string;
+  /** User metadata to store with the object */
+  metadata?: Record<string, unknown>;
+  /** Total size declared in Upload-Length */
+  length: number;
+  /** Bytes received so far */
+  offset: number;
+  chunkCount: number;
+  upsert: boolean;
+  /** The caller who created the upload, owner of the object */
+  session?: SessionContext;
+  expiresAt: Date;
+}
+
+export interface CreateResumableUploadOptions {
+  bucket: string;
+  objectName: string;
+  length: number;
+  contentType?: string;
+  cacheControl?: string;
+  metadata?: Record<string, unknown>;
+  upsert?: boolean;
+  session?: SessionContext;
+}
+
+/**
+ * Parse a TUS Upload-Metadata header: comma separated pairs of a key and
+ * an optional base64 encoded value
+ */
+export function parseUploadMetadata(header: string | null): Record<string, string> {
+  const metadata: Record<string, string> = {};
+  if (!header) {
+    return metadata;
+  }
+
+  for (const pair of header.split(',')) {
+    const [key, value] = pair.trim().split(' ');
+    if (!key) {
+      continue;
+    }
+    metadata[key] = value ? new TextDecoder().decode(decodeBase64(value)) : '';
+  }
+  return metadata;
+}
+
+export function encodeBase64(bytes: Uint8Array): string {
+  let binary = '';
+  // Convert in slices, spreading a large array overflows the call stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export function decodeBase64(content: string): Uint8Array {
+  const binary = atob(content);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * ResumableUploadManager tracks the uploads of the Storage TUS endpoint.
+ * Each part is stored base64 encoded in the VFS chunk store, so pausing
+ * and resuming an upload does not keep its bytes in memory. The upload
+ * itself is stored as JSON next to its parts, so it can be resumed after
+ * a reload. Uploads expire after a day, like on supabase.com.
+ */
+export class ResumableUploadManager {
+  private static instance: ResumableUploadManager;
+  private vfsManager: VFSManager;
+  private uploads = new Map<string, ResumableUpload>();
+  private sweptProjects = new Set<string | null>();
+
+  constructor(vfsManager: VFSManager = VFSManager.getInstance()) {
+    this.vfsManager = vfsManager;
+  }
+
+  static getInstance(): ResumableUploadManager {
+    if (!ResumableUploadManager.instance) {
+      ResumableUploadManager.instance = new ResumableUploadManager();
+    }
+    return ResumableUploadManager.instance;
+  }
+
+  async create(options: CreateResumableUploadOptions): Promise<ResumableUpload> {
+    await this.removeExpired();
+
+    const upload: ResumableUpload = {
+      id: crypto.randomUUID(),
+      projectId: this.vfsManager.getCurrentProjectId(),
+      bucket: options.bucket,
+      objectName: options.objectName,
+      contentType: options.contentType,
+      cacheControl: options.cacheControl,
+      metadata: options.metadata,
+      length: options.length,
+      offset: 0,
+      chunkCount: 0,
+      upsert: options.upsert ?? false,
+      session: options.session,
+      expiresAt: new Date(Date.now() + VFS_CONFIG.RESUMABLE_UPLOAD_EXPIRY),
+    };
+    await this.save(upload);
+    this.uploads.set(upload.id, upload);
+    return upload;
+  }
+
+  /**
+   * Get an upload of the current project, including expired ones
+   */
+  async get(id: string): Promise<ResumableUpload | null> {
+    await this.removeOrphanedChunks();
+
+    const upload = this.uploads.get(id) ?? (await this.load(id));
+    if (!upload || upload.projectId !== this.vfsManager.getCurrentProjectId()) {
+      return null;
+    }
+    this.uploads.set(id, upload);
+    return upload;
+  }
+
+  isExpired(upload: ResumableUpload): boolean {
+    return upload.expiresAt.getTime() <= Date.now();
+  }
+
+  /**
+   * Store the next part of an upload and advance its offset
+   */
+  async append(upload: ResumableUpload, bytes: Uint8Array): Promise<void> {
+    if (bytes.length === 0) {
+      return;
+    }
+
+    // CHUNK_SIZE is a multiple of 4, so every chunk decodes on its own
+    const content = encodeBase64(bytes);
+    const chunks: VFSFileChunk[] = [];
+    for (let i = 0; i < content.length; i += VFS_CONFIG.CHUNK_SIZE) {
+      const sequence = upload.chunkCount + chunks.length;
+      const chunkContent = content.slice(i, i + VFS_CONFIG.CHUNK_SIZE);
+      chunks.push({
+        id: `${this.getChunkFileId(upload)}_chunk_${sequence}`,
+        fileId: this.getChunkFileId(upload),
+        sequence,
+        content: chunkContent,
+        size: chunkContent.length,
+        createdAt: new Date(),
+      });
+    }
+
+    await this.vfsManager.saveChunks(chunks);
+    upload.chunkCount += chunks.length;
+    upload.offset += bytes.length;
+    await this.save(upload);
+  }
+
+  /**
+   * The bytes received for an upload
+   */
+  async read(upload: ResumableUpload): Promise<Uint8Array> {
+    const chunks = await this.vfsManager.loadChunks(this.getChunkFileId(upload));
+    const bytes = new Uint8Array(upload.offset);
+    let position = 0;
+    // Parts saved by an append whose upload was never updated are not received
+    for (const chunk of chunks.filter(chunk => chunk.sequence < upload.chunkCount)) {
+      const part = decodeBase64(chunk.content);
+      bytes.set(part, position);
+      position += part.length;
+    }
+    return bytes;
+  }
+
+  /**
+   * Drop the stored parts of a finished upload. The upload itself is kept
+   * until it expires, so clients resuming it learn that it is complete.
+   */
+  async complete(upload: ResumableUpload): Promise<void> {
+    await this.vfsManager.deleteChunks(this.getChunkFileId(upload));
+  }
+
+  async remove(upload: ResumableUpload): Promise<void> {
+    this.uploads.delete(upload.id);
+    await this.vfsManager.deleteChunks(this.getChunkFileId(upload));
+    await this.vfsManager.deleteChunks(this.getRecordFileId(upload.id));
+  }
+
+  /**
+   * Remove the expired uploads of the current project, and the parts of
+   * uploads that are gone
+   */
+  async removeExpired(): Promise<void> {
+    await this.sweep(true);
+  }
+
+  /**
+   * Remove the parts left without an upload once per project, such as those
+   * of uploads that were only kept in memory before a reload
+   */
+  private async removeOrphanedChunks(): Promise<void> {
+    const projectId = this.vfsManager.getCurrentProjectId();
+    if (this.sweptProjects.has(projectId)) {
+      return;
+    }
+    this.sweptProjects.add(projectId);
+    await this.sweep(false);
+  }
+
+  private async sweep(removeExpired: boolean): Promise<void> {
+    const fileIds = await this.vfsManager.listChunkFileIds(CHUNK_FILE_PREFIX);
+    const kept = new Set<string>();
+
+    for (const fileId of fileIds.filter(fileId => fileId.endsWith(RECORD_FILE_SUFFIX))) {
+      const upload = await this.load(fileId.slice(CHUNK_FILE_PREFIX.length, -RECORD_FILE_SUFFIX.length));
+      if (!upload) {
+        await this.vfsManager.deleteChunks(fileId);
+      } else if (removeExpired && this.isExpired(upload)) {
+        await this.remove(upload);
+      } else {
+        kept.add(this.getChunkFileId(upload));
+      }
+    }
+
+    for (const fileId of fileIds) {
+      if (!fileId.endsWith(RECORD_FILE_SUFFIX) && !kept.has(fileId)) {
+        await this.vfsManager.deleteChunks(fileId);
+      }
+    }
+  }
+
+  private async save(upload: ResumableUpload): Promise<void> {
+    const fileId = this.getRecordFileId(upload.id);
+    const content = JSON.stringify(upload);
+    await this.vfsManager.saveChunks([{
+      id: `${fileId}_chunk_0`,
+      fileId,
+      sequence: 0,
+      content,
+      size: content.length,
+      createdAt: new Date(),
+    }]);
+  }
+
+  /**
+   * Read a stored upload, or null if it is missing or unreadable
+   */
+  private async load(id: string): Promise<ResumableUpload | null> {
+    const [chunk] = await this.vfsManager.loadChunks(this.getRecordFileId(id));
+    if (!chunk) {
+      return null;
+    }
+
+    try {
+      const upload = JSON.parse(chunk.content) as ResumableUpload;
+      return { ...upload, expiresAt: new Date(upload.expiresAt) };
+    } catch {
+      return null;
+    }
+  }
+
+  private getChunkFileId(upload: ResumableUpload): string {
+    return `${CHUNK_FILE_PREFIX}${upload.id}`;
+  }
+
+  private getRecordFileId(id: string): string {
+    return `${CHUNK_FILE_PREFIX}${id}${RECORD_FILE_SUFFIX}`;
+  }
+}
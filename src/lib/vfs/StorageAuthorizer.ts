@@ -0,0 +1,185 @@
+import { DatabaseManager } from '../database/connection';
+import { combinePolicies, getTablePolicies, toDatabaseSession } from '../database/policies';
+import type { PolicyRow } from '../database/policies';
+import { logger } from '../infrastructure/Logger';
+import type { SessionContext } from '../../api/types';
+
+type Row = Record<string, unknown>;
+
+export type StorageCommand = 'SELECT' | 'INSERT' | 'UPDATE' | 'DELETE';
+
+/**
+ * The storage.objects row of an existing object
+ */
+const EXISTING_OBJECT_SQL = 'SELECT * FROM storage.objects WHERE bucket_id = $1 AND name = $2';
+
+/**
+ * StorageAuthorizer decides what a caller may do with storage objects by
+ * evaluating the RLS policies on storage.objects under the caller's role
+ * and JWT claims, like Supabase Storage does. Policies can use auth.uid(),
+ * auth.jwt(), auth.role() and the storage.foldername(), storage.filename()
+ * and storage.extension() helpers.
+ */
+export class StorageAuthorizer {
+  private dbManager: DatabaseManager;
+
+  constructor(dbManager: DatabaseManager = DatabaseManager.getInstance()) {
+    this.dbManager = dbManager;
+  }
+
+  /**
+   * Whether the caller may read or delete an existing object
+   */
+  async canAccess(
+    bucketId: string,
+    name: string,
+    command: 'SELECT' | 'DELETE',
+    session: SessionContext
+  ): Promise<boolean> {
+    return this.authorize(command, session, async policies => {
+      const expression = combinePolicies(policies, policy => policy.qual);
+      if (!expression) {
+        return false;
+      }
+
+      return this.evaluate(expression, EXISTING_OBJECT_SQL, session, [bucketId, name]);
+    });
+  }
+
+  /**
+   * The names among the given objects the caller may read, checked in one
+   * query for listings
+   */
+  async filterReadable(bucketId: string, names: string[], session: SessionContext): Promise<Set<string>> {
+    if (session.role === 'service_role' || names.length === 0) {
+      return new Set(names);
+    }
+
+    const readable = new Set<string>();
+    await this.authorize('SELECT', session, async policies => {
+      const expression = combinePolicies(policies, policy => policy.qual);
+      if (!expression) {
+        return false;
+      }
+
+      const rows = await this.queryAsCaller(`
+        SELECT objects.name
+        FROM (SELECT * FROM storage.objects WHERE bucket_id = $1 AND name = ANY($2::text[])) AS objects
+        WHERE ${expression}
+      `, session, [bucketId, names]);
+      rows.forEach(row => readable.add(String(row.name)));
+      return true;
+    });
+    return readable;
+  }
+
+  /**
+   * Whether the caller may create an object, checked against the row the
+   * upload would insert
+   */
+  async canInsert(
+    bucketId: string,
+    name: string,
+    session: SessionContext,
+    metadata: Record<string, unknown> = {}
+  ): Promise<boolean> {
+    return this.authorize('INSERT', session, async policies => {
+      const expression = combinePolicies(policies, policy => policy.with_check || policy.qual);
+      if (!expression) {
+        return false;
+      }
+
+      const ownerId = session.role === 'authenticated' ? session.userId ?? null : null;
+      return this.evaluate(expression, `
+        SELECT gen_random_uuid() AS id, $1::text AS bucket_id, $2::text AS name,
+               $3::uuid AS owner, $4::text AS owner_id,
+               now() AS created_at, now() AS updated_at, now() AS last_accessed_at,
+               $5::jsonb AS metadata, string_to_array($2::text, '/') AS path_tokens,
+               NULL::text AS version, NULL::jsonb AS user_metadata
+      `, session, [bucketId, name, ownerId, ownerId, JSON.stringify(metadata)]);
+    });
+  }
+
+  /**
+   * Whether the caller may update an object, optionally renaming it: the
+   * USING expressions must pass for the existing row and the WITH CHECK
+   * expressions for the updated one
+   */
+  async canUpdate(bucketId: string, name: string, newName: string, session: SessionContext): Promise<boolean> {
+    return this.authorize('UPDATE', session, async policies => {
+      const using = combinePolicies(policies, policy => policy.qual);
+      const check = combinePolicies(policies, policy => policy.with_check || policy.qual);
+      if (!using || !check) {
+        return false;
+      }
+
+      return await this.evaluate(using, EXISTING_OBJECT_SQL, session, [bucketId, name]) &&
+        await this.evaluate(check, `
+          SELECT objects.id, objects.bucket_id, $3::text AS name, objects.owner, objects.owner_id,
+                 objects.created_at, now() AS updated_at, objects.last_accessed_at, objects.metadata,
+                 string_to_array($3::text, '/') AS path_tokens, objects.version, objects.user_metadata
+          FROM storage.objects AS objects
+          WHERE objects.bucket_id = $1 AND objects.name = $2
+        `, session, [bucketId, name, newName]);
+    });
+  }
+
+  /**
+   * Load the policies for a command and run a check with them. The service
+   * role bypasses RLS, and a check that fails to run denies access.
+   */
+  private async authorize(
+    command: StorageCommand,
+    session: SessionContext,
+    check: (policies: PolicyRow[]) => Promise<boolean>
+  ): Promise<boolean> {
+    if (session.role === 'service_role') {
+      return true;
+    }
+
+    try {
+      const policies = await getTablePolicies(this.dbManager, 'storage', 'objects', session.role || 'anon');
+      return await check(policies.filter(policy => policy.cmd === command || policy.cmd === 'ALL'));
+    } catch (error) {
+      logger.warn('Storage authorization failed', {
+        command,
+        role: session.role,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Evaluate a policy expression against the storage.objects row a query
+   * returns
+   */
+  private async evaluate(expression: string, rowSql: string, session: SessionContext, params: unknown[]): Promise<boolean> {
+    const rows = await this.queryAsCaller(
+      `SELECT ${expression} AS allowed FROM (${rowSql}) AS objects`,
+      session,
+      params
+    );
+    return rows[0]?.allowed === true;
+  }
+
+  /**
+   * Run a query under the caller's role, with auth.jwt() and auth.role()
+   * reading the caller's claims
+   */
+  private async queryAsCaller(sql: string, session: SessionContext, params: unknown[]): Promise<Row[]> {
+    const claims = session.claims || { role: session.role || 'anon', sub: session.userId };
+
+    await this.dbManager.query(`
+      SELECT set_config('request.jwt.claims', $1, false), set_config('request.jwt.claim.role', $2, false)
+    `, [JSON.stringify(claims), session.role || 'anon']);
+    try {
+      const result = await this.dbManager.queryWithContext(sql, toDatabaseSession(session), params);
+      return result.rows as Row[];
+    } finally {
+      await this.dbManager.query(`
+        SELECT set_config('request.jwt.claims', '', false), set_config('request.jwt.claim.role', '', false)
+      `);
+    }
+  }
+}
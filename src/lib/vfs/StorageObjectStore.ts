@@ -0,0 +1,150 @@
+import { DatabaseManager } from '../database/connection';
+import { VFS_CONFIG } from './constants';
+import type { VFSBucket, VFSFile } from '../../types/vfs';
+
+/**
+ * The ETag of a file, from the hash of its content
+ */
+export function toETag(file: VFSFile): string | undefined {
+  return file.hash ? `"${file.hash}"` : undefined;
+}
+
+/**
+ * Object metadata in the shape Supabase Storage keeps in storage.objects
+ */
+export function toObjectMetadata(file: VFSFile): Record<string, unknown> {
+  return {
+    eTag: toETag(file),
+    size: file.size,
+    mimetype: file.mimeType,
+    cacheControl: file.cacheControl || VFS_CONFIG.DEFAULT_CACHE_CONTROL,
+    lastModified: file.updatedAt.toISOString(),
+    contentLength: file.size,
+    httpStatusCode: 200,
+  };
+}
+
+/**
+ * The object name of a VFS file: its path inside the bucket
+ */
+export function toObjectName(bucketId: string, file: VFSFile): string {
+  return file.path.startsWith(`${bucketId}/`) ? file.path.substring(bucketId.length + 1) : file.path;
+}
+
+/**
+ * The bucket settings stored in storage.buckets
+ */
+export type StorageBucketRecord = Pick<VFSBucket, 'id' | 'name' | 'isPublic' | 'maxFileSize' | 'allowedMimeTypes'>;
+
+/**
+ * StorageObjectStore mirrors the buckets and files kept in the VFS into
+ * the project's storage.buckets and storage.objects tables, so storage
+ * policies and SQL see the same objects the Storage API serves.
+ */
+export class StorageObjectStore {
+  private dbManager: DatabaseManager;
+
+  constructor(dbManager: DatabaseManager = DatabaseManager.getInstance()) {
+    this.dbManager = dbManager;
+  }
+
+  /**
+   * Create or update the storage.buckets row of a bucket
+   */
+  async upsertBucket(bucket: StorageBucketRecord): Promise<void> {
+    await this.insertBucket(bucket, `
+      ON CONFLICT (id) DO UPDATE SET
+        public = EXCLUDED.public,
+        file_size_limit = EXCLUDED.file_size_limit,
+        allowed_mime_types = EXCLUDED.allowed_mime_types,
+        updated_at = now()
+    `);
+  }
+
+  async deleteBucket(bucketId: string): Promise<void> {
+    await this.emptyBucket(bucketId);
+    await this.dbManager.query('DELETE FROM storage.buckets WHERE id = $1', [bucketId]);
+  }
+
+  async emptyBucket(bucketId: string): Promise<void> {
+    await this.dbManager.query('DELETE FROM storage.objects WHERE bucket_id = $1', [bucketId]);
+  }
+
+  /**
+   * Add rows for files that were written to the VFS directly, without an
+   * owner. Files that already have a row keep it.
+   */
+  async ensureObjects(bucket: StorageBucketRecord, files: VFSFile[]): Promise<void> {
+    await this.insertBucket(bucket, 'ON CONFLICT (id) DO NOTHING');
+
+    for (const file of files) {
+      await this.dbManager.query(`
+        INSERT INTO storage.objects (bucket_id, name, metadata, created_at, updated_at)
+        VALUES ($1, $2, $3, $4, $5)
+        ON CONFLICT (bucket_id, name) DO NOTHING
+      `, [
+        bucket.id,
+        toObjectName(bucket.id, file),
+        JSON.stringify(toObjectMetadata(file)),
+        file.createdAt.toISOString(),
+        file.updatedAt.toISOString(),
+      ]);
+    }
+  }
+
+  /**
+   * Record an uploaded or copied file with its user metadata, owned by the
+   * user who wrote it
+   */
+  async upsertObject(bucketId: string, file: VFSFile, ownerId?: string): Promise<void> {
+    await this.dbManager.query(`
+      INSERT INTO storage.objects (bucket_id, name, owner, owner_id, metadata, user_metadata)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      ON CONFLICT (bucket_id, name) DO UPDATE SET
+        owner = EXCLUDED.owner,
+        owner_id = EXCLUDED.owner_id,
+        metadata = EXCLUDED.metadata,
+        user_metadata = EXCLUDED.user_metadata,
+        updated_at = now()
+    `, [
+      bucketId,
+      toObjectName(bucketId, file),
+      ownerId ?? null,
+      ownerId ?? null,
+      JSON.stringify(toObjectMetadata(file)),
+      file.metadata ? JSON.stringify(file.metadata) : null,
+    ]);
+  }
+
+  /**
+   * Rename an object, replacing a leftover row under the new name
+   */
+  async moveObject(bucketId: string, name: string, newName: string): Promise<void> {
+    await this.deleteObject(bucketId, newName);
+    await this.dbManager.query(
+      'UPDATE storage.objects SET name = $3, updated_at = now() WHERE bucket_id = $1 AND name = $2',
+      [bucketId, name, newName]
+    );
+  }
+
+  async deleteObject(bucketId: string, name: string): Promise<void> {
+    await this.dbManager.query(
+      'DELETE FROM storage.objects WHERE bucket_id = $1 AND name = $2',
+      [bucketId, name]
+    );
+  }
+
+  private async insertBucket(bucket: StorageBucketRecord, onConflict: string): Promise<void> {
+    await this.dbManager.query(`
+      INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+      VALUES ($1, $2, $3, $4, $5)
+      ${onConflict}
+    `, [
+      bucket.id,
+      bucket.name || bucket.id,
+      bucket.isPublic,
+      bucket.maxFileSize ?? null,
+      bucket.allowedMimeTypes.length > 0 ? bucket.allowedMimeTypes : null,
+    ]);
+  }
+}
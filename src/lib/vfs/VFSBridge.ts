@@ -1,13 +1,24 @@
 import { VFSManager } from './VFSManager';
 import { SignedUrlManager } from './SignedUrlManager';
-import { UTILS } from './constants';
+import { StorageObjectStore, toETag, toObjectMetadata, toObjectName } from './StorageObjectStore';
+import type { StorageBucketRecord } from './StorageObjectStore';
+import { StorageAuthorizer } from './StorageAuthorizer';
+import { ImageTransformer } from './ImageTransformer';
+import { ResumableUploadManager, TUS_CONTENT_TYPE, TUS_VERSION, encodeBase64, parseUploadMetadata } from './ResumableUploadManager';
+import type { ResumableUpload } from './ResumableUploadManager';
+import { UTILS, VFS_CONFIG } from './constants';
 import { logger } from '../infrastructure/Logger';
+import { ERROR_CODES } from '../infrastructure/ErrorHandler';
+import type { InfrastructureError } from '../../types/infrastructure';
 import type { VFSFile, VFSCreateFileOptions, VFSListOptions } from '../../types/vfs';
 import type {
   SignedUrlOptions,
   SignedUploadUrlOptions,
   PublicUrlOptions,
+  SignedUrlMetadata,
+  TransformOptions,
 } from '../../types/signed-url';
+import type { SessionContext } from '../../api/types';
 
 /**
  * VFS Bridge for MSW Handler Integration
@@ -15,14 +26,27 @@ import type {
  * Provides a bridge between MSW request handlers and the VFS system,
  * following the same patterns as SupabaseAPIBridge and AuthBridge.
  * Handles file serving, upload, and management operations.
+ *
+ * Object requests that carry the caller's session keep a storage.objects
+ * row per file and are authorized by the storage policies on that table.
+ * Requests without a session come from trusted callers (app hosting,
+ * public buckets, signed URLs) and skip the policies.
  */
 export class VFSBridge {
   private vfsManager: VFSManager;
   private signedUrlManager: SignedUrlManager;
+  private objectStore: StorageObjectStore;
+  private authorizer: StorageAuthorizer;
+  private imageTransformer: ImageTransformer;
+  private resumableUploads: ResumableUploadManager;
 
   constructor(vfsManager?: VFSManager) {
     this.vfsManager = vfsManager || VFSManager.getInstance();
     this.signedUrlManager = SignedUrlManager.getInstance();
+    this.objectStore = new StorageObjectStore();
+    this.authorizer = new StorageAuthorizer();
+    this.imageTransformer = ImageTransformer.getInstance();
+    this.resumableUploads = ResumableUploadManager.getInstance();
   }
 
   /**
@@ -34,22 +58,26 @@ export class VFSBridge {
   }
 
   /**
-   * Handle file serving requests
+   * Handle file serving requests. Conditional requests for an unchanged
+   * file are answered with a 304.
    */
   async handleFileRequest(options: {
     bucket: string;
     path: string;
     range?: string;
-    userContext?: any;
+    ifNoneMatch?: string;
+    ifModifiedSince?: string;
+    session?: SessionContext;
   }): Promise<Response> {
     try {
-      const { bucket, path, range } = options;
+      const { bucket, path, range, ifNoneMatch, ifModifiedSince, session } = options;
       const fullPath = `${bucket}/${path}`;
 
       // Get the file from VFS
       const file = await this.vfsManager.readFile(fullPath);
       
-      if (!file) {
+      // Objects the caller may not read look missing, as in Supabase Storage
+      if (!file || !(await this.canReadObject(bucket, file, session))) {
         return new Response(null, { 
           status: 404,
           headers: {
@@ -59,6 +87,17 @@ export class VFSBridge {
         });
       }
 
+      const cacheHeaders = this.getCacheHeaders(file);
+      if (this.isNotModified(file, ifNoneMatch, ifModifiedSince)) {
+        return new Response(null, {
+          status: 304,
+          headers: {
+            ...cacheHeaders,
+            'Access-Control-Allow-Origin': '*'
+          }
+        });
+      }
+
       // Debug: Log file metadata
       console.log('🔍 File download debug:', {
         name: file.name,
@@ -127,8 +166,6 @@ export class VFSBridge {
         throw new Error('File content not available');
       }
 
-      // Note: Cache headers would be applied here in a more complete implementation
-
       console.log('🔍 Final response debug:', {
         mimeType: file.mimeType,
         fileSize: file.size,
@@ -147,6 +184,7 @@ export class VFSBridge {
           const response = new Response(content, {
             status: 200,
             headers: new Headers({
+              ...cacheHeaders,
               'Content-Type': file.mimeType,
               'Content-Length': content.byteLength.toString(),
               'Accept-Ranges': 'bytes',
@@ -223,6 +261,7 @@ export class VFSBridge {
             const response = new Response(bytes.buffer, {
               status: 200,
               headers: new Headers({
+                ...cacheHeaders,
                 'Content-Type': file.mimeType,
                 'Content-Length': bytes.length.toString(),
                 'Accept-Ranges': 'bytes',
@@ -246,6 +285,7 @@ export class VFSBridge {
             const response = new Response(bytes, {
               status: 200,
               headers: new Headers({
+                ...cacheHeaders,
                 'Content-Type': file.mimeType,
                 'Content-Length': bytes.length.toString(),
               })
@@ -259,6 +299,7 @@ export class VFSBridge {
         const response = new Response(content, {
           status: 200,
           headers: new Headers({
+            ...cacheHeaders,
             'Content-Type': file.mimeType,
             'Content-Length': content.byteLength.toString(),
           })
@@ -309,10 +350,10 @@ export class VFSBridge {
     bucket: string;
     path: string;
     formData: FormData;
-    userContext?: any;
+    session?: SessionContext;
   }): Promise<Response> {
     try {
-      const { bucket, path, formData } = options;
+      const { bucket, path, formData, session } = options;
       const fullPath = `${bucket}/${path}`;
 
       // Get the uploaded file
@@ -337,12 +378,44 @@ export class VFSBridge {
       let content: string;
       let encoding: 'utf-8' | 'base64' = 'utf-8';
       
-      const mimeType = file.type || UTILS.getMimeType(file.name);
-      const isTextFile = mimeType.startsWith('text/') || 
-                        mimeType === 'application/json' || 
-                        mimeType === 'application/xml' ||
-                        mimeType === 'application/javascript' ||
-                        mimeType === 'application/x-javascript';
+      // Object attributes sent along with the file, as storage-js sends them
+      const contentType = formData.get('contentType');
+      const mimeType = (typeof contentType === 'string' && contentType) || file.type || UTILS.getMimeType(file.name);
+      const cacheControl = this.parseCacheControl(formData.get('cacheControl'));
+
+      const metadataField = formData.get('metadata');
+      const metadata = typeof metadataField === 'string' && metadataField
+        ? this.parseUserMetadata(metadataField)
+        : undefined;
+      if (metadata === null) {
+        return new Response(
+          JSON.stringify({
+            error: 'invalid_metadata',
+            message: 'metadata must be a JSON object'
+          }),
+          {
+            status: 400,
+            headers: {
+              'Content-Type': 'application/json',
+              'Access-Control-Allow-Origin': '*'
+            }
+          }
+        );
+      }
+
+      const restrictionError = await this.checkBucketRestrictions(bucket, file.size, mimeType);
+      if (restrictionError) {
+        return restrictionError;
+      }
+
+      if (session) {
+        await this.syncBucket(bucket);
+        const metadata = { size: file.size, mimetype: mimeType, contentLength: file.size };
+        if (!(await this.authorizer.canInsert(bucket, path, session, metadata))) {
+          return this.createPolicyViolationResponse();
+        }
+      }
+      const isTextFile = this.isTextMimeType(mimeType);
 
       if (isTextFile) {
         // Text files can be stored as UTF-8
@@ -378,9 +451,12 @@ export class VFSBridge {
         mimeType,
         encoding,
         originalSize: file.size, // Preserve actual file size for proper display
+        cacheControl,
+        metadata,
       };
 
       const vfsFile = await this.vfsManager.createFile(fullPath, createOptions);
+      await this.recordObject(bucket, vfsFile, session);
 
       return new Response(
         JSON.stringify({
@@ -443,13 +519,23 @@ export class VFSBridge {
   async handleDeleteRequest(options: {
     bucket: string;
     path: string;
-    userContext?: any;
+    session?: SessionContext;
   }): Promise<Response> {
     try {
-      const { bucket, path } = options;
+      const { bucket, path, session } = options;
       const fullPath = `${bucket}/${path}`;
 
+      if (!(await this.canDeleteObject(bucket, path, session))) {
+        return new Response(null, {
+          status: 404,
+          headers: {
+            'Access-Control-Allow-Origin': '*'
+          }
+        });
+      }
+
       const success = await this.vfsManager.deleteFile(fullPath);
+      await this.objectStore.deleteObject(bucket, path);
       
       if (!success) {
         return new Response(null, {
@@ -493,10 +579,10 @@ export class VFSBridge {
     prefix?: string;
     limit?: number;
     offset?: number;
-    userContext?: any;
+    session?: SessionContext;
   }): Promise<Response> {
     try {
-      const { bucket, prefix = '', limit = 100, offset = 0 } = options;
+      const { bucket, prefix = '', limit = 100, offset = 0, session } = options;
       const directory = prefix ? `${bucket}/${prefix}` : bucket;
 
       const listOptions: VFSListOptions = {
@@ -505,7 +591,13 @@ export class VFSBridge {
         offset,
       };
 
-      const files = await this.vfsManager.listFiles(listOptions);
+      let files = await this.vfsManager.listFiles(listOptions);
+
+      if (session) {
+        await this.syncBucket(bucket, files);
+        const readable = await this.authorizer.filterReadable(bucket, files.map(file => toObjectName(bucket, file)), session);
+        files = files.filter(file => readable.has(toObjectName(bucket, file)));
+      }
 
       // Transform to storage API format
       const objects = files.map(file => ({
@@ -516,6 +608,8 @@ export class VFSBridge {
         mime_type: file.mimeType,
         created_at: file.createdAt.toISOString(),
         updated_at: file.updatedAt.toISOString(),
+        metadata: toObjectMetadata(file),
+        user_metadata: file.metadata ?? null,
       }));
 
       return new Response(
@@ -547,6 +641,79 @@ export class VFSBridge {
     }
   }
 
+  /**
+   * Handle object info requests: the stored attributes of an object
+   * without its content
+   */
+  async handleObjectInfoRequest(options: {
+    bucket: string;
+    path: string;
+    session?: SessionContext;
+  }): Promise<Response> {
+    try {
+      const { bucket, path, session } = options;
+      const file = await this.vfsManager.readFile(`${bucket}/${path}`);
+
+      if (!file || !(await this.canReadObject(bucket, file, session))) {
+        return new Response(
+          JSON.stringify({
+            error: 'not_found',
+            message: 'Object not found'
+          }),
+          {
+            status: 404,
+            headers: {
+              'Content-Type': 'application/json',
+              'Access-Control-Allow-Origin': '*'
+            }
+          }
+        );
+      }
+
+      const info = {
+        id: file.id,
+        name: toObjectName(bucket, file),
+        bucket_id: bucket,
+        version: null,
+        size: file.size,
+        content_type: file.mimeType,
+        cache_control: file.cacheControl || VFS_CONFIG.DEFAULT_CACHE_CONTROL,
+        etag: toETag(file) ?? null,
+        last_modified: file.updatedAt.toISOString(),
+        created_at: file.createdAt.toISOString(),
+        updated_at: file.updatedAt.toISOString(),
+        metadata: file.metadata ?? null,
+      };
+
+      return new Response(
+        JSON.stringify(info),
+        {
+          status: 200,
+          headers: {
+            'Content-Type': 'application/json',
+            'Access-Control-Allow-Origin': '*'
+          }
+        }
+      );
+
+    } catch (error) {
+      logger.error('VFS object info request failed', error as Error, { bucket: options.bucket, path: options.path });
+      return new Response(
+        JSON.stringify({
+          error: 'info_failed',
+          message: 'Failed to get object info'
+        }),
+        {
+          status: 500,
+          headers: {
+            'Content-Type': 'application/json',
+            'Access-Control-Allow-Origin': '*'
+          }
+        }
+      );
+    }
+  }
+
   /**
    * Handle SPA (Single Page Application) routing
    * Serves index.html for unmatched routes with multi-app support
@@ -715,7 +882,6 @@ export class VFSBridge {
         return this.handleFileRequest({
           bucket: 'app',
           path: `${appName}${appPath ? '/' + appPath : '/index.html'}`,
-          userContext: options.userContext,
         });
       }
 
@@ -906,6 +1072,7 @@ export class VFSBridge {
     return new Response(contentBuffer, {
       status: 206,
       headers: {
+        ...this.getCacheHeaders(file),
         'Content-Type': file.mimeType,
         'Content-Range': `bytes ${start}-${end}/${file.size}`,
         'Content-Length': String(contentLength),
@@ -988,15 +1155,15 @@ export class VFSBridge {
     path: string;
     signedUrlOptions: SignedUrlOptions;
     projectId: string;
-    userContext?: any;
+    session?: SessionContext;
   }): Promise<Response> {
     try {
-      const { bucket, path, signedUrlOptions, projectId } = options;
+      const { bucket, path, signedUrlOptions, projectId, session } = options;
       const fullPath = `${bucket}/${path}`;
 
-      // Check if file exists
+      // Check if file exists and the caller may read it
       const file = await this.vfsManager.readFile(fullPath);
-      if (!file) {
+      if (!file || !(await this.canReadObject(bucket, file, session))) {
         return new Response(
           JSON.stringify({
             error: 'file_not_found',
@@ -1078,10 +1245,10 @@ export class VFSBridge {
     path: string;
     signedUploadUrlOptions: SignedUploadUrlOptions;
     projectId: string;
-    userContext?: any;
+    session?: SessionContext;
   }): Promise<Response> {
     try {
-      const { bucket, path, signedUploadUrlOptions, projectId } = options;
+      const { bucket, path, signedUploadUrlOptions, projectId, session } = options;
 
       // Check bucket permissions
       const bucketInfo = await this.vfsManager.getBucket(bucket);
@@ -1101,6 +1268,14 @@ export class VFSBridge {
         );
       }
 
+      // The signed URL lets anyone upload, so the caller must be allowed to
+      if (session) {
+        await this.syncBucket(bucket);
+        if (!(await this.authorizer.canInsert(bucket, path, session))) {
+          return this.createPolicyViolationResponse();
+        }
+      }
+
       // Create signed upload URL
       const signedUploadResponse = await this.signedUrlManager.createSignedUploadUrl(
         projectId,
@@ -1141,6 +1316,54 @@ export class VFSBridge {
     }
   }
 
+  /**
+   * Handle uploads to a signed upload URL. The token stands in for the
+   * caller's session, and the upload is checked like any other.
+   */
+  async handleSignedUploadRequest(options: {
+    bucket: string;
+    path: string;
+    token: string;
+    formData: FormData;
+  }): Promise<Response> {
+    const { bucket, path, token, formData } = options;
+
+    const validation = await this.signedUrlManager.validateSignedUrl(token, 'upload');
+    if (!validation.isValid) {
+      return new Response(
+        JSON.stringify({
+          error: 'invalid_token',
+          message: validation.error || 'Invalid or expired token'
+        }),
+        {
+          status: 403,
+          headers: {
+            'Content-Type': 'application/json',
+            'Access-Control-Allow-Origin': '*'
+          }
+        }
+      );
+    }
+
+    if (validation.metadata?.bucket !== bucket || validation.metadata?.path !== path) {
+      return new Response(
+        JSON.stringify({
+          error: 'token_mismatch',
+          message: 'Token not valid for this file'
+        }),
+        {
+          status: 403,
+          headers: {
+            'Content-Type': 'application/json',
+            'Access-Control-Allow-Origin': '*'
+          }
+        }
+      );
+    }
+
+    return this.handleUploadRequest({ bucket, path, formData });
+  }
+
   /**
    * Handle public URL requests
    */
@@ -1148,10 +1371,12 @@ export class VFSBridge {
     bucket: string;
     path: string;
     publicUrlOptions?: PublicUrlOptions;
+    ifNoneMatch?: string;
+    ifModifiedSince?: string;
     userContext?: any;
   }): Promise<Response> {
     try {
-      const { bucket, path } = options;
+      const { bucket, path, ifNoneMatch, ifModifiedSince } = options;
       // const publicUrlOptions = options.publicUrlOptions || {};
 
       // Check if bucket is public
@@ -1176,7 +1401,8 @@ export class VFSBridge {
       return await this.handleFileRequest({
         bucket,
         path,
-        userContext: options.userContext
+        ifNoneMatch,
+        ifModifiedSince
       });
 
     } catch (error) {
@@ -1207,10 +1433,17 @@ export class VFSBridge {
     bucket: string;
     path: string;
     token?: string;
-    userContext?: any;
+    ifNoneMatch?: string;
+    ifModifiedSince?: string;
+    session?: SessionContext;
   }): Promise<Response> {
     try {
-      const { bucket, path, token } = options;
+      const { bucket, path, token, ifNoneMatch, ifModifiedSince, session } = options;
+
+      // Without a signed URL token, the caller's storage policies decide
+      if (!token && session) {
+        return await this.handleFileRequest({ bucket, path, ifNoneMatch, ifModifiedSince, session });
+      }
 
       // If no token, deny access
       if (!token) {
@@ -1248,7 +1481,7 @@ export class VFSBridge {
       }
 
       // Check if token is for this specific file
-      const metadata = validation.metadata!;
+      const metadata = validation.metadata as SignedUrlMetadata;
       if (metadata.bucket !== bucket || metadata.path !== path) {
         return new Response(
           JSON.stringify({
@@ -1266,11 +1499,13 @@ export class VFSBridge {
       }
 
       // Serve the file with any transform options
-      return await this.handleFileRequest({
+      const response = await this.handleFileRequest({
         bucket,
         path,
-        userContext: options.userContext
+        ifNoneMatch,
+        ifModifiedSince
       });
+      return metadata.transform ? await this.transformImageResponse(bucket, path, response, metadata.transform) : response;
 
     } catch (error) {
       logger.error('Failed to handle authenticated file request', error as Error, { 
@@ -1293,6 +1528,48 @@ export class VFSBridge {
     }
   }
 
+  /**
+   * Handle image transformation requests on the render/image endpoints.
+   * Access is checked as for downloads: public renders need a public
+   * bucket, authenticated ones the caller's storage policies.
+   */
+  async handleImageRenderRequest(options: {
+    bucket: string;
+    path: string;
+    access: 'public' | 'authenticated';
+    transform: TransformOptions;
+    accept?: string;
+    session?: SessionContext;
+  }): Promise<Response> {
+    try {
+      const { bucket, path, access, transform, accept, session } = options;
+
+      const response = access === 'public'
+        ? await this.handlePublicUrlRequest({ bucket, path })
+        : await this.handleAuthenticatedFileRequest({ bucket, path, session });
+
+      return await this.transformImageResponse(bucket, path, response, transform, accept);
+    } catch (error) {
+      logger.error('Failed to handle image render request', error as Error, {
+        bucket: options.bucket,
+        path: options.path
+      });
+      return new Response(
+        JSON.stringify({
+          error: 'image_render_failed',
+          message: 'Failed to transform image'
+        }),
+        {
+          status: 500,
+          headers: {
+            'Content-Type': 'application/json',
+            'Access-Control-Allow-Origin': '*'
+          }
+        }
+      );
+    }
+  }
+
   /**
    * Handle bucket creation requests
    */
@@ -1314,6 +1591,7 @@ export class VFSBridge {
         maxFileSize: file_size_limit,
         allowedMimeTypes: allowed_mime_types || []
       });
+      await this.objectStore.upsertBucket(bucket);
 
       const bucketData = {
         id: bucket.id,
@@ -1487,6 +1765,7 @@ export class VFSBridge {
       if (updates.allowed_mime_types !== undefined) updateOptions.allowedMimeTypes = updates.allowed_mime_types;
 
       const bucket = await this.vfsManager.updateBucket(bucketId, updateOptions);
+      await this.objectStore.upsertBucket(bucket);
 
       const bucketData = {
         id: bucket.id,
@@ -1548,6 +1827,7 @@ export class VFSBridge {
       logger.info('Deleting bucket', { bucketId });
       
       const success = await this.vfsManager.deleteBucket(bucketId, true); // force delete
+      await this.objectStore.deleteBucket(bucketId);
       
       if (!success) {
         return new Response(JSON.stringify({
@@ -1633,6 +1913,7 @@ export class VFSBridge {
       );
       
       await Promise.all(deletePromises);
+      await this.objectStore.emptyBucket(bucketId);
       
       // Update bucket stats
       await this.vfsManager.updateBucketStats(bucketId);
@@ -1668,17 +1949,18 @@ export class VFSBridge {
     bucket: string;
     sourceKey: string;
     destinationKey: string;
+    session?: SessionContext;
   }): Promise<Response> {
     try {
-      const { bucket, sourceKey, destinationKey } = options;
+      const { bucket, sourceKey, destinationKey, session } = options;
       const sourcePath = `${bucket}/${sourceKey}`;
       const destinationPath = `${bucket}/${destinationKey}`;
 
       logger.info('Moving file', { sourcePath, destinationPath });
 
-      // Check if source file exists
+      // Check if source file exists and the caller may rename it
       const sourceFile = await this.vfsManager.readFile(sourcePath);
-      if (!sourceFile) {
+      if (!sourceFile || !(await this.canMoveObject(bucket, sourceFile, destinationKey, session))) {
         return new Response(JSON.stringify({
           error: 'file_not_found',
           message: `Source file ${sourceKey} not found`
@@ -1728,8 +2010,11 @@ export class VFSBridge {
         content: rawContent,
         mimeType: sourceFile.mimeType,
         encoding: sourceFile.encoding, // Preserve original encoding to prevent double-encoding
-        originalSize: sourceFile.size // Preserve actual file size for proper display
+        originalSize: sourceFile.size, // Preserve actual file size for proper display
+        cacheControl: sourceFile.cacheControl,
+        metadata: sourceFile.metadata
       });
+      await this.objectStore.moveObject(bucket, sourceKey, destinationKey);
 
       // Update bucket stats
       await this.vfsManager.updateBucketStats(bucket);
@@ -1765,17 +2050,18 @@ export class VFSBridge {
     bucket: string;
     sourceKey: string;
     destinationKey: string;
+    session?: SessionContext;
   }): Promise<Response> {
     try {
-      const { bucket, sourceKey, destinationKey } = options;
+      const { bucket, sourceKey, destinationKey, session } = options;
       const sourcePath = `${bucket}/${sourceKey}`;
       const destinationPath = `${bucket}/${destinationKey}`;
 
       logger.info('Copying file', { sourcePath, destinationPath });
 
-      // Check if source file exists
+      // Check if source file exists and the caller may read it
       const sourceFile = await this.vfsManager.readFile(sourcePath);
-      if (!sourceFile) {
+      if (!sourceFile || !(await this.canReadObject(bucket, sourceFile, session))) {
         return new Response(JSON.stringify({
           error: 'file_not_found',
           message: `Source file ${sourceKey} not found`
@@ -1788,6 +2074,10 @@ export class VFSBridge {
         });
       }
 
+      if (session && !(await this.authorizer.canInsert(bucket, destinationKey, session, toObjectMetadata(sourceFile)))) {
+        return this.createPolicyViolationResponse();
+      }
+
       // For copy operations, use VFS methods to preserve exact content
       console.log('🔍 Copying file - preserving exact content:', {
         originalSize: sourceFile.size,
@@ -1815,13 +2105,18 @@ export class VFSBridge {
         content: rawContent,
         mimeType: sourceFile.mimeType,
         encoding: sourceFile.encoding, // Preserve original encoding to prevent double-encoding
-        originalSize: sourceFile.size // Preserve actual file size for proper display
+        originalSize: sourceFile.size, // Preserve actual file size for proper display
+        cacheControl: sourceFile.cacheControl,
+        metadata: sourceFile.metadata
       });
 
       // Update bucket stats
       await this.vfsManager.updateBucketStats(bucket);
 
       const destinationFile = await this.vfsManager.readFile(destinationPath);
+      if (destinationFile) {
+        await this.recordObject(bucket, destinationFile, session);
+      }
 
       return new Response(JSON.stringify({
         path: destinationKey,
@@ -1855,9 +2150,10 @@ export class VFSBridge {
   async handleBatchDeleteRequest(options: {
     bucket: string;
     prefixes: string[];
+    session?: SessionContext;
   }): Promise<Response> {
     try {
-      const { bucket, prefixes } = options;
+      const { bucket, prefixes, session } = options;
 
       logger.info('Batch deleting files', { bucket, prefixCount: prefixes.length });
 
@@ -1869,8 +2165,10 @@ export class VFSBridge {
           const filePath = `${bucket}/${prefix}`;
           const file = await this.vfsManager.readFile(filePath);
           
-          if (file) {
+          // Objects the caller may not delete are left out, like missing ones
+          if (file && await this.canDeleteObject(bucket, prefix, session)) {
             await this.vfsManager.deleteFile(filePath);
+            await this.objectStore.deleteObject(bucket, prefix);
             deletedFiles.push({
               name: prefix,
               id: file.id,
@@ -1924,30 +2222,553 @@ export class VFSBridge {
   }
 
   /**
-   * Get cache headers for file responses
+   * Create a resumable upload through the TUS endpoint. The bucket, object
+   * name and content type come from the Upload-Metadata header, and a body
+   * sent with the request is stored as the first part.
    */
-  // private getCacheHeaders(file: VFSFile): Record<string, string> {
-  //   const headers: Record<string, string> = {};
-
-  //   // ETag based on file hash
-  //   if (file.hash) {
-  //     headers['ETag'] = `"${file.hash}"`;
-  //   }
-
-  //   // Last-Modified
-  //   headers['Last-Modified'] = file.updatedAt.toUTCString();
-
-  //   // Cache-Control based on file type
-  //   if (UTILS.shouldCompress(file.mimeType)) {
-  //     // Text files: cache for 1 hour
-  //     headers['Cache-Control'] = 'public, max-age=3600';
-  //   } else {
-  //     // Binary files: cache for 1 day
-  //     headers['Cache-Control'] = 'public, max-age=86400';
-  //   }
-
-  //   return headers;
-  // }
+  async handleCreateResumableUploadRequest(options: {
+    url: string;
+    headers: Headers;
+    body: ArrayBuffer;
+    session?: SessionContext;
+  }): Promise<Response> {
+    const { url, headers, body, session } = options;
+
+    const versionError = this.checkTusVersion(headers);
+    if (versionError) {
+      return versionError;
+    }
+
+    try {
+      const lengthHeader = headers.get('Upload-Length');
+      const length = Number(lengthHeader);
+      if (!lengthHeader || !Number.isInteger(length) || length < 0) {
+        return this.createTusErrorResponse(400, 'invalid_upload_length', 'Upload-Length must be a non-negative integer');
+      }
+      if (length > VFS_CONFIG.MAX_FILE_SIZE) {
+        return this.createTusErrorResponse(413, 'payload_too_large', 'The object exceeded the maximum allowed size');
+      }
+
+      const { bucketName, objectName, contentType, cacheControl, metadata: userMetadata } =
+        parseUploadMetadata(headers.get('Upload-Metadata'));
+      if (!bucketName || !objectName) {
+        return this.createTusErrorResponse(400, 'invalid_metadata', 'Upload-Metadata must include bucketName and objectName');
+      }
+
+      const metadata = userMetadata ? this.parseUserMetadata(userMetadata) : undefined;
+      if (metadata === null) {
+        return this.createTusErrorResponse(400, 'invalid_metadata', 'metadata must be a JSON object');
+      }
+      if (!(await this.vfsManager.getBucket(bucketName))) {
+        return this.createTusErrorResponse(404, 'bucket_not_found', 'Bucket not found');
+      }
+
+      const restrictionError = await this.checkBucketRestrictions(
+        bucketName,
+        length,
+        contentType || UTILS.getMimeType(objectName)
+      );
+      if (restrictionError) {
+        return restrictionError;
+      }
+
+      const upsert = headers.get('x-upsert') === 'true';
+      if (!upsert && await this.vfsManager.readFile(`${bucketName}/${objectName}`)) {
+        return this.createTusErrorResponse(409, 'duplicate_file', 'The resource already exists');
+      }
+
+      if (session) {
+        await this.syncBucket(bucketName);
+        const metadata = { size: length, mimetype: contentType, contentLength: length };
+        if (!(await this.authorizer.canInsert(bucketName, objectName, session, metadata))) {
+          return this.createPolicyViolationResponse();
+        }
+      }
+
+      const upload = await this.resumableUploads.create({
+        bucket: bucketName,
+        objectName,
+        length,
+        contentType: contentType || undefined,
+        cacheControl: this.parseCacheControl(cacheControl),
+        metadata,
+        upsert,
+        session,
+      });
+
+      const part = headers.get('Content-Type') === TUS_CONTENT_TYPE ? body : new ArrayBuffer(0);
+      const partError = await this.writeResumableUploadPart(upload, part);
+      if (partError) {
+        return partError;
+      }
+
+      logger.info('Resumable upload created', { id: upload.id, bucket: bucketName, objectName, length });
+
+      return new Response(null, {
+        status: 201,
+        headers: this.getTusHeaders({
+          'Location': `${url.split('?')[0].replace(/\/$/, '')}/${upload.id}`,
+          'Upload-Offset': upload.offset.toString(),
+          'Upload-Expires': upload.expiresAt.toUTCString()
+        })
+      });
+    } catch (error) {
+      logger.error('Resumable upload creation failed', error as Error);
+      return this.createTusErrorResponse(500, 'upload_failed', 'Failed to create upload');
+    }
+  }
+
+  /**
+   * Report how many bytes of a resumable upload have been received, so a
+   * client can resume it
+   */
+  async handleResumableUploadHeadRequest(options: { uploadId: string; headers: Headers }): Promise<Response> {
+    const versionError = this.checkTusVersion(options.headers);
+    if (versionError) {
+      return versionError;
+    }
+
+    try {
+      const upload = await this.findResumableUpload(options.uploadId);
+      if (upload instanceof Response) {
+        return upload;
+      }
+
+      return new Response(null, {
+        status: 200,
+        headers: this.getTusHeaders({
+          'Upload-Offset': upload.offset.toString(),
+          'Upload-Length': upload.length.toString(),
+          'Upload-Expires': upload.expiresAt.toUTCString(),
+          'Cache-Control': 'no-store'
+        })
+      });
+    } catch (error) {
+      logger.error('Resumable upload lookup failed', error as Error, { uploadId: options.uploadId });
+      return this.createTusErrorResponse(500, 'upload_failed', 'Failed to read upload');
+    }
+  }
+
+  /**
+   * Append a part to a resumable upload. The part must start at the
+   * upload's current offset, and the object is written once the last part
+   * arrives.
+   */
+  async handleResumableUploadPatchRequest(options: {
+    uploadId: string;
+    headers: Headers;
+    body: ArrayBuffer;
+  }): Promise<Response> {
+    const { uploadId, headers, body } = options;
+
+    const versionError = this.checkTusVersion(headers);
+    if (versionError) {
+      return versionError;
+    }
+    if (headers.get('Content-Type') !== TUS_CONTENT_TYPE) {
+      return this.createTusErrorResponse(415, 'invalid_content_type', `Content-Type must be ${TUS_CONTENT_TYPE}`);
+    }
+
+    try {
+      const upload = await this.findResumableUpload(uploadId);
+      if (upload instanceof Response) {
+        return upload;
+      }
+
+      if (headers.get('Upload-Offset') !== upload.offset.toString()) {
+        return this.createTusErrorResponse(409, 'offset_mismatch', `Upload-Offset must be ${upload.offset}`);
+      }
+
+      // Parts sent again after the upload completed are ignored
+      if (upload.offset < upload.length) {
+        const partError = await this.writeResumableUploadPart(upload, body);
+        if (partError) {
+          return partError;
+        }
+      }
+
+      return new Response(null, {
+        status: 204,
+        headers: this.getTusHeaders({
+          'Upload-Offset': upload.offset.toString(),
+          'Upload-Expires': upload.expiresAt.toUTCString()
+        })
+      });
+    } catch (error) {
+      logger.error('Resumable upload part failed', error as Error, { uploadId });
+      return this.createTusErrorResponse(500, 'upload_failed', 'Failed to store upload part');
+    }
+  }
+
+  /**
+   * Cancel a resumable upload and drop the parts received so far
+   */
+  async handleResumableUploadDeleteRequest(options: { uploadId: string; headers: Headers }): Promise<Response> {
+    const versionError = this.checkTusVersion(options.headers);
+    if (versionError) {
+      return versionError;
+    }
+
+    try {
+      const upload = await this.findResumableUpload(options.uploadId);
+      if (upload instanceof Response) {
+        return upload;
+      }
+
+      await this.resumableUploads.remove(upload);
+      logger.info('Resumable upload terminated', { id: upload.id });
+
+      return new Response(null, { status: 204, headers: this.getTusHeaders() });
+    } catch (error) {
+      logger.error('Resumable upload termination failed', error as Error, { uploadId: options.uploadId });
+      return this.createTusErrorResponse(500, 'upload_failed', 'Failed to terminate upload');
+    }
+  }
+
+  /**
+   * Replace a successful download response with the transformed image
+   */
+  private async transformImageResponse(
+    bucket: string,
+    path: string,
+    response: Response,
+    transform: TransformOptions,
+    accept?: string
+  ): Promise<Response> {
+    const file = response.ok ? await this.vfsManager.readFile(`${bucket}/${path}`) : null;
+    if (!file) {
+      return response;
+    }
+
+    try {
+      const image = await this.imageTransformer.transform(
+        { content: await response.arrayBuffer(), mimeType: file.mimeType, hash: file.hash },
+        transform,
+        accept
+      );
+
+      return new Response(image.body, {
+        status: 200,
+        headers: {
+          'Content-Type': image.mimeType,
+          'Content-Length': image.body.byteLength.toString(),
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    } catch (error) {
+      if ((error as InfrastructureError).code !== ERROR_CODES.VALIDATION_ERROR) {
+        throw error;
+      }
+
+      return new Response(
+        JSON.stringify({
+          error: 'invalid_transformation',
+          message: (error as InfrastructureError).message
+        }),
+        {
+          status: 400,
+          headers: {
+            'Content-Type': 'application/json',
+            'Access-Control-Allow-Origin': '*'
+          }
+        }
+      );
+    }
+  }
+
+  /**
+   * Make sure a bucket and the given files have their storage.buckets and
+   * storage.objects rows, so policies also see files written to the VFS
+   * directly
+   */
+  private async syncBucket(bucket: string, files: VFSFile[] = []): Promise<void> {
+    const bucketInfo: StorageBucketRecord = await this.vfsManager.getBucket(bucket) ??
+      { id: bucket, name: bucket, isPublic: false, allowedMimeTypes: [] };
+    await this.objectStore.ensureObjects(bucketInfo, files);
+  }
+
+  /**
+   * Record a written file in storage.objects, owned by the authenticated
+   * user who wrote it
+   */
+  private async recordObject(bucket: string, file: VFSFile, session?: SessionContext): Promise<void> {
+    await this.syncBucket(bucket);
+    await this.objectStore.upsertObject(bucket, file, session?.role === 'authenticated' ? session.userId : undefined);
+  }
+
+  private async canReadObject(bucket: string, file: VFSFile, session?: SessionContext): Promise<boolean> {
+    if (!session) {
+      return true;
+    }
+
+    await this.syncBucket(bucket, [file]);
+    return this.authorizer.canAccess(bucket, toObjectName(bucket, file), 'SELECT', session);
+  }
+
+  private async canMoveObject(bucket: string, file: VFSFile, newName: string, session?: SessionContext): Promise<boolean> {
+    if (!session) {
+      return true;
+    }
+
+    await this.syncBucket(bucket, [file]);
+    return this.authorizer.canUpdate(bucket, toObjectName(bucket, file), newName, session);
+  }
+
+  private async canDeleteObject(bucket: string, path: string, session?: SessionContext): Promise<boolean> {
+    if (!session) {
+      return true;
+    }
+
+    const file = await this.vfsManager.readFile(`${bucket}/${path}`);
+    if (!file) {
+      return true;
+    }
+
+    await this.syncBucket(bucket, [file]);
+    return this.authorizer.canAccess(bucket, path, 'DELETE', session);
+  }
+
+  /**
+   * Store a part of a resumable upload and write the object once all of
+   * its bytes have arrived. Returns an error response when the part or the
+   * object is rejected.
+   */
+  private async writeResumableUploadPart(upload: ResumableUpload, body: ArrayBuffer): Promise<Response | null> {
+    if (upload.offset + body.byteLength > upload.length) {
+      return this.createTusErrorResponse(413, 'payload_too_large', 'The part exceeds the Upload-Length of the upload');
+    }
+
+    await this.resumableUploads.append(upload, new Uint8Array(body));
+    if (upload.offset < upload.length) {
+      return null;
+    }
+
+    const fullPath = `${upload.bucket}/${upload.objectName}`;
+    try {
+      const bytes = await this.resumableUploads.read(upload);
+      const mimeType = upload.contentType || UTILS.getMimeType(upload.objectName);
+      const isTextFile = this.isTextMimeType(mimeType);
+
+      if (upload.upsert && await this.vfsManager.readFile(fullPath)) {
+        await this.vfsManager.deleteFile(fullPath);
+      }
+
+      const vfsFile = await this.vfsManager.createFile(fullPath, {
+        content: isTextFile ? new TextDecoder().decode(bytes) : encodeBase64(bytes),
+        mimeType,
+        encoding: isTextFile ? 'utf-8' : 'base64',
+        originalSize: bytes.length,
+        cacheControl: upload.cacheControl,
+        metadata: upload.metadata,
+      });
+      await this.recordObject(upload.bucket, vfsFile, upload.session);
+      await this.resumableUploads.complete(upload);
+
+      logger.info('Resumable upload completed', { id: upload.id, path: fullPath, size: bytes.length });
+      return null;
+    } catch (error) {
+      // An upload whose object cannot be written cannot be resumed either
+      await this.resumableUploads.remove(upload);
+
+      if ((error as InfrastructureError).code !== ERROR_CODES.VALIDATION_ERROR) {
+        throw error;
+      }
+
+      const message = (error as InfrastructureError).message;
+      return message.includes('already exists')
+        ? this.createTusErrorResponse(409, 'duplicate_file', 'The resource already exists')
+        : this.createTusErrorResponse(413, 'payload_too_large', message);
+    }
+  }
+
+  /**
+   * Look up a resumable upload, or the response for a missing or expired one
+   */
+  private async findResumableUpload(uploadId: string): Promise<ResumableUpload | Response> {
+    const upload = await this.resumableUploads.get(uploadId);
+    if (!upload) {
+      return this.createTusErrorResponse(404, 'upload_not_found', 'Upload not found');
+    }
+
+    if (this.resumableUploads.isExpired(upload)) {
+      await this.resumableUploads.remove(upload);
+      return this.createTusErrorResponse(410, 'upload_expired', 'Upload has expired');
+    }
+    return upload;
+  }
+
+  /**
+   * TUS requests must use the protocol version the endpoint speaks
+   */
+  private checkTusVersion(headers: Headers): Response | null {
+    if (headers.get('Tus-Resumable') === TUS_VERSION) {
+      return null;
+    }
+
+    return this.createTusErrorResponse(412, 'unsupported_version', `Tus-Resumable must be ${TUS_VERSION}`, {
+      'Tus-Version': TUS_VERSION
+    });
+  }
+
+  private getTusHeaders(headers: Record<string, string> = {}): Record<string, string> {
+    return {
+      'Tus-Resumable': TUS_VERSION,
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Expose-Headers': 'Location, Upload-Offset, Upload-Length, Upload-Expires, Tus-Resumable, Tus-Version',
+      ...headers
+    };
+  }
+
+  private createTusErrorResponse(
+    status: number,
+    error: string,
+    message: string,
+    headers: Record<string, string> = {}
+  ): Response {
+    return new Response(JSON.stringify({ error, message }), {
+      status,
+      headers: this.getTusHeaders({ 'Content-Type': 'application/json', ...headers })
+    });
+  }
+
+  /**
+   * storage-js sends cacheControl as a number of seconds, which Supabase
+   * stores as max-age
+   */
+  private parseCacheControl(value: FormDataEntryValue | string | null | undefined): string | undefined {
+    if (typeof value !== 'string' || !value.trim()) {
+      return undefined;
+    }
+    return /^\d+$/.test(value.trim()) ? `max-age=${value.trim()}` : value.trim();
+  }
+
+  /**
+   * Parse the user metadata of an upload, null when it is not a JSON object
+   */
+  private parseUserMetadata(value: string): Record<string, unknown> | null {
+    try {
+      const metadata = JSON.parse(value);
+      return metadata && typeof metadata === 'object' && !Array.isArray(metadata) ? metadata : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Content types stored as UTF-8 text, other files are stored base64 encoded
+   */
+  private isTextMimeType(mimeType: string): boolean {
+    return mimeType.startsWith('text/') ||
+      mimeType === 'application/json' ||
+      mimeType === 'application/xml' ||
+      mimeType === 'application/javascript' ||
+      mimeType === 'application/x-javascript';
+  }
+
+  /**
+   * Check an upload against its bucket's file size limit and allowed MIME
+   * types, returning Storage's error response for a violation
+   */
+  private async checkBucketRestrictions(bucket: string, size: number, mimeType: string): Promise<Response | null> {
+    const bucketInfo = await this.vfsManager.getBucket(bucket);
+    if (!bucketInfo) {
+      return null;
+    }
+
+    if (bucketInfo.maxFileSize && size > bucketInfo.maxFileSize) {
+      return new Response(
+        JSON.stringify({
+          statusCode: '413',
+          error: 'Payload too large',
+          message: 'The object exceeded the maximum allowed size'
+        }),
+        {
+          status: 413,
+          headers: {
+            'Content-Type': 'application/json',
+            'Access-Control-Allow-Origin': '*'
+          }
+        }
+      );
+    }
+
+    if (!UTILS.isMimeTypeAllowed(mimeType, bucketInfo.allowedMimeTypes)) {
+      return new Response(
+        JSON.stringify({
+          statusCode: '415',
+          error: 'invalid_mime_type',
+          message: `mime type ${mimeType} is not supported`
+        }),
+        {
+          status: 415,
+          headers: {
+            'Content-Type': 'application/json',
+            'Access-Control-Allow-Origin': '*'
+          }
+        }
+      );
+    }
+
+    return null;
+  }
+
+  /**
+   * Response for writes the storage policies reject, as Supabase Storage sends it
+   */
+  private createPolicyViolationResponse(): Response {
+    return new Response(
+      JSON.stringify({
+        error: 'unauthorized',
+        message: 'new row violates row-level security policy'
+      }),
+      {
+        status: 403,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*'
+        }
+      }
+    );
+  }
+
+  /**
+   * Cache headers for file responses: the object's Cache-Control, an ETag
+   * from its content hash and its modification time
+   */
+  private getCacheHeaders(file: VFSFile): Record<string, string> {
+    const headers: Record<string, string> = {
+      'Cache-Control': file.cacheControl || VFS_CONFIG.DEFAULT_CACHE_CONTROL,
+      'Last-Modified': file.updatedAt.toUTCString()
+    };
+
+    const eTag = toETag(file);
+    if (eTag) {
+      headers['ETag'] = eTag;
+    }
+    return headers;
+  }
+
+  /**
+   * Whether a conditional GET can be answered with a 304. If-None-Match
+   * takes precedence over If-Modified-Since, as in RFC 9110.
+   */
+  private isNotModified(file: VFSFile, ifNoneMatch?: string, ifModifiedSince?: string): boolean {
+    if (ifNoneMatch) {
+      const eTag = toETag(file);
+      return ifNoneMatch.split(',').some(tag => {
+        const value = tag.trim();
+        return value === '*' || (!!eTag && value.replace(/^W\//, '') === eTag);
+      });
+    }
+
+    if (ifModifiedSince) {
+      const since = Date.parse(ifModifiedSince);
+      // HTTP dates have a resolution of one second
+      return !Number.isNaN(since) && Math.floor(file.updatedAt.getTime() / 1000) * 1000 <= since;
+    }
+
+    return false;
+  }
 }
 
 // Export singleton instance
@@ -4,6 +4,7 @@ import { logger } from '../infrastructure/Logger';
 import { createDatabaseError, createValidationError } from '../infrastructure/ErrorHandler';
 import type {
   VFSFile,
+  VFSFileChunk,
   VFSCreateFileOptions,
   VFSUpdateFileOptions,
   VFSListOptions,
@@ -128,7 +129,7 @@ export class VFSManager {
     }
 
     const normalizedPath = this.normalizePath(path);
-    const { content = '', mimeType: providedMimeType, compress, originalSize, encoding, metadata: _metadata } = options;
+    const { content = '', mimeType: providedMimeType, compress, originalSize, encoding, cacheControl, metadata } = options;
 
     // Validate file size
     if (content.length > VFS_CONFIG.MAX_FILE_SIZE) {
@@ -172,6 +173,8 @@ export class VFSManager {
       createdAt: new Date(),
       updatedAt: new Date(),
       hash: this.calculateChecksum(content),
+      cacheControl,
+      metadata,
     };
 
     // Handle chunking for large files
@@ -392,6 +395,35 @@ export class VFSManager {
     };
   }
 
+  // Upload Chunk Methods
+
+  /**
+   * Save chunks that do not belong to a file yet, such as the parts of a
+   * resumable upload in progress
+   */
+  public async saveChunks(chunks: VFSFileChunk[]): Promise<void> {
+    await this.ensureInitialized();
+
+    for (const chunk of chunks) {
+      await this.fileStorage.saveChunk(chunk);
+    }
+  }
+
+  public async loadChunks(fileId: string): Promise<VFSFileChunk[]> {
+    await this.ensureInitialized();
+    return this.fileStorage.loadChunks(fileId);
+  }
+
+  public async deleteChunks(fileId: string): Promise<void> {
+    await this.ensureInitialized();
+    await this.fileStorage.deleteChunks(fileId);
+  }
+
+  public async listChunkFileIds(prefix: string): Promise<string[]> {
+    await this.ensureInitialized();
+    return this.fileStorage.listChunkFileIds(prefix);
+  }
+
   public async cleanup(): Promise<void> {
     if (this.currentProjectId) {
       await this.fileStorage.cleanup();
@@ -227,6 +227,31 @@ describe('FileStorage', () => {
       // Verify old chunks are cleaned up
       expect(await fileStorage.getChunkCount(fileId)).toBe(newChunks.length);
     });
+
+    it('should load and delete chunks saved without a file', async () => {
+      const chunks = fileStorage.createChunks('abcdef', 2, 'upload-1');
+      for (const chunk of [...chunks].reverse()) {
+        await fileStorage.saveChunk(chunk);
+      }
+      await fileStorage.saveChunk(fileStorage.createChunks('zz', 2, 'upload-2')[0]);
+
+      const loaded = await fileStorage.loadChunks('upload-1');
+      expect(loaded.map(chunk => chunk.content)).toEqual(['ab', 'cd', 'ef']);
+
+      await fileStorage.deleteChunks('upload-1');
+      expect(await fileStorage.getChunkCount('upload-1')).toBe(0);
+      expect(await fileStorage.getChunkCount('upload-2')).toBe(1);
+    });
+
+    it('should list the files with chunks saved by ID prefix', async () => {
+      for (const fileId of ['tus_a', 'tus_a_upload', 'tus_b', 'other']) {
+        for (const chunk of fileStorage.createChunks('abcd', 2, fileId)) {
+          await fileStorage.saveChunk(chunk);
+        }
+      }
+
+      expect(await fileStorage.listChunkFileIds('tus_')).toEqual(['tus_a', 'tus_a_upload', 'tus_b']);
+    });
   });
 
   describe('File Listing and Querying', () => {
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ImageTransformer, getImageGeometry, parseTransformOptions } from '../ImageTransformer';
+
+vi.mock('../../infrastructure/Logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+describe('parseTransformOptions', () => {
+  it('should read the render/image query parameters', () => {
+    const options = parseTransformOptions(new URLSearchParams('width=200&height=100&resize=contain&quality=60&format=origin'));
+
+    expect(options).toMatchObject({ width: 200, height: 100, resize: 'contain', quality: 60, format: 'origin' });
+  });
+
+  it('should reject values Supabase rejects', () => {
+    expect(() => parseTransformOptions(new URLSearchParams('width=3000'))).toThrow(/width must be an integer between 1 and 2500/);
+    expect(() => parseTransformOptions(new URLSearchParams('quality=10'))).toThrow(/quality/);
+    expect(() => parseTransformOptions(new URLSearchParams('resize=stretch'))).toThrow(/resize must be one of/);
+    expect(() => parseTransformOptions(new URLSearchParams('format=gif'))).toThrow(/format must be one of/);
+  });
+});
+
+describe('getImageGeometry', () => {
+  it('should keep the aspect ratio with only a width', () => {
+    expect(getImageGeometry(400, 200, { width: 100 })).toEqual({ width: 100, height: 50, sx: 0, sy: 0, sw: 400, sh: 200 });
+  });
+
+  it('should crop the overflow for cover', () => {
+    expect(getImageGeometry(400, 200, { width: 100, height: 100 })).toEqual({ width: 100, height: 100, sx: 100, sy: 0, sw: 200, sh: 200 });
+  });
+
+  it('should fit the image in the box for contain', () => {
+    expect(getImageGeometry(400, 200, { width: 100, height: 100, resize: 'contain' })).toMatchObject({ width: 100, height: 50 });
+  });
+
+  it('should stretch the image for fill', () => {
+    expect(getImageGeometry(400, 200, { width: 100, height: 100, resize: 'fill' })).toEqual({ width: 100, height: 100, sx: 0, sy: 0, sw: 400, sh: 200 });
+  });
+});
+
+describe('ImageTransformer', () => {
+  const source = { content: new Uint8Array([1, 2, 3]).buffer, mimeType: 'image/png', hash: 'abc' };
+  const drawImage = vi.fn();
+  const convertToBlob = vi.fn();
+  const createImageBitmap = vi.fn();
+  let transformer: ImageTransformer;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    transformer = new ImageTransformer();
+
+    createImageBitmap.mockResolvedValue({ width: 400, height: 200, close: vi.fn() });
+    convertToBlob.mockImplementation(async ({ type }: { type: string }) => ({
+      type,
+      arrayBuffer: async () => new Uint8Array([9]).buffer,
+    }));
+    vi.stubGlobal('createImageBitmap', createImageBitmap);
+    vi.stubGlobal('OffscreenCanvas', class {
+      getContext() {
+        return { drawImage };
+      }
+      convertToBlob = convertToBlob;
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should resize and serve WebP to clients that accept it', async () => {
+    const image = await transformer.transform(source, { width: 100, height: 100, quality: 60 }, 'image/avif,image/webp,*/*');
+
+    expect(image.mimeType).toBe('image/webp');
+    expect(image.body.byteLength).toBe(1);
+    expect(drawImage).toHaveBeenCalledWith(expect.anything(), 100, 0, 200, 200, 0, 0, 100, 100);
+    expect(convertToBlob).toHaveBeenCalledWith({ type: 'image/webp', quality: 0.6 });
+  });
+
+  it('should keep the original format for origin', async () => {
+    const image = await transformer.transform(source, { width: 100, format: 'origin' }, 'image/webp');
+
+    expect(image.mimeType).toBe('image/png');
+  });
+
+  it('should serve derived images from the cache', async () => {
+    await transformer.transform(source, { width: 100 });
+    await transformer.transform(source, { width: 100 });
+    await transformer.transform({ ...source, hash: 'def' }, { width: 100 });
+
+    expect(createImageBitmap).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject files that are not images', async () => {
+    await expect(transformer.transform({ ...source, mimeType: 'text/plain' }, { width: 100 }))
+      .rejects.toMatchObject({ message: 'Images of type text/plain cannot be transformed' });
+  });
+
+  it('should serve the original image without OffscreenCanvas', async () => {
+    vi.stubGlobal('OffscreenCanvas', undefined);
+
+    const image = await transformer.transform(source, { width: 100 });
+
+    expect(image).toEqual({ body: source.content, mimeType: 'image/png' });
+  });
+});
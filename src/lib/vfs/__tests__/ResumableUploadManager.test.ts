@@ -0,0 +1,156 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ResumableUploadManager, parseUploadMetadata } from '../ResumableUploadManager';
+import { VFS_CONFIG } from '../constants';
+import type { VFSManager } from '../VFSManager';
+import type { VFSFileChunk } from '../../../types/vfs';
+
+describe('parseUploadMetadata', () => {
+  it('should decode the base64 values of each key', () => {
+    const header = `bucketName ${btoa('videos')},objectName ${btoa('clips/intro.mp4')}, contentType ${btoa('video/mp4')},flag`;
+
+    expect(parseUploadMetadata(header)).toEqual({
+      bucketName: 'videos',
+      objectName: 'clips/intro.mp4',
+      contentType: 'video/mp4',
+      flag: '',
+    });
+  });
+
+  it('should decode UTF-8 values', () => {
+    const value = btoa(String.fromCharCode(...new TextEncoder().encode('vidéo.mp4')));
+
+    expect(parseUploadMetadata(`objectName ${value}`)).toEqual({ objectName: 'vidéo.mp4' });
+  });
+
+  it('should return nothing without a header', () => {
+    expect(parseUploadMetadata(null)).toEqual({});
+  });
+});
+
+describe('ResumableUploadManager', () => {
+  const chunks: VFSFileChunk[] = [];
+  const mockVfsManager = {
+    getCurrentProjectId: vi.fn(),
+    saveChunks: vi.fn(),
+    loadChunks: vi.fn(),
+    deleteChunks: vi.fn(),
+    listChunkFileIds: vi.fn(),
+  };
+  let manager: ResumableUploadManager;
+
+  const createUpload = (length: number) =>
+    manager.create({ bucket: 'videos', objectName: 'intro.mp4', length, contentType: 'video/mp4' });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    chunks.length = 0;
+
+    mockVfsManager.getCurrentProjectId.mockReturnValue('project-1');
+    mockVfsManager.saveChunks.mockImplementation(async (saved: VFSFileChunk[]) => {
+      for (const chunk of saved) {
+        const index = chunks.findIndex(({ id }) => id === chunk.id);
+        chunks.splice(index === -1 ? chunks.length : index, 1, chunk);
+      }
+    });
+    mockVfsManager.loadChunks.mockImplementation(async (fileId: string) =>
+      chunks.filter(chunk => chunk.fileId === fileId)
+    );
+    mockVfsManager.deleteChunks.mockImplementation(async (fileId: string) => {
+      chunks.splice(0, chunks.length, ...chunks.filter(chunk => chunk.fileId !== fileId));
+    });
+    mockVfsManager.listChunkFileIds.mockImplementation(async (prefix: string) =>
+      [...new Set(chunks.map(chunk => chunk.fileId))].filter(fileId => fileId.startsWith(prefix))
+    );
+    manager = new ResumableUploadManager(mockVfsManager as unknown as VFSManager);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should store parts as chunks and read them back in order', async () => {
+    const upload = await createUpload(VFS_CONFIG.CHUNK_SIZE + 10);
+    const first = new Uint8Array(VFS_CONFIG.CHUNK_SIZE).map((_, i) => i % 256);
+    const second = new Uint8Array(10).fill(7);
+
+    await manager.append(upload, first);
+    await manager.append(upload, second);
+
+    const parts = chunks.filter(chunk => chunk.fileId === `tus_${upload.id}`);
+    expect(upload.offset).toBe(VFS_CONFIG.CHUNK_SIZE + 10);
+    expect(parts.map(chunk => chunk.sequence)).toEqual([0, 1, 2]);
+    expect(parts[2].id).toBe(`tus_${upload.id}_chunk_2`);
+
+    const bytes = await manager.read(upload);
+    expect(bytes.subarray(0, first.length)).toEqual(first);
+    expect(bytes.subarray(first.length)).toEqual(second);
+  });
+
+  it('should only find uploads of the current project', async () => {
+    const upload = await createUpload(3);
+
+    expect(await manager.get(upload.id)).toBe(upload);
+
+    mockVfsManager.getCurrentProjectId.mockReturnValue('project-2');
+    expect(await manager.get(upload.id)).toBeNull();
+  });
+
+  it('should resume uploads after a reload', async () => {
+    const upload = await createUpload(6);
+    await manager.append(upload, new Uint8Array([1, 2, 3]));
+
+    const reloaded = new ResumableUploadManager(mockVfsManager as unknown as VFSManager);
+    const resumed = await reloaded.get(upload.id);
+
+    expect(resumed).toMatchObject({ id: upload.id, bucket: 'videos', offset: 3, length: 6, chunkCount: 1 });
+    expect(resumed!.expiresAt).toEqual(upload.expiresAt);
+
+    await reloaded.append(resumed!, new Uint8Array([4, 5, 6]));
+    expect(await reloaded.read(resumed!)).toEqual(new Uint8Array([1, 2, 3, 4, 5, 6]));
+  });
+
+  it('should remove the chunks of uploads that are gone on startup', async () => {
+    const upload = await createUpload(6);
+    await manager.append(upload, new Uint8Array([1, 2, 3]));
+    chunks.push(
+      { id: 'tus_lost_chunk_0', fileId: 'tus_lost', sequence: 0, content: 'AQID', size: 4, createdAt: new Date() },
+      { id: 'tus_broken_upload_chunk_0', fileId: 'tus_broken_upload', sequence: 0, content: '{', size: 1, createdAt: new Date() },
+      { id: 'file_chunk_0', fileId: 'file', sequence: 0, content: 'AQID', size: 4, createdAt: new Date() }
+    );
+
+    const reloaded = new ResumableUploadManager(mockVfsManager as unknown as VFSManager);
+    expect(await reloaded.get('lost')).toBeNull();
+
+    expect([...new Set(chunks.map(chunk => chunk.fileId))]).toEqual([
+      `tus_${upload.id}_upload`,
+      `tus_${upload.id}`,
+      'file',
+    ]);
+  });
+
+  it('should expire uploads after a day and drop their chunks', async () => {
+    const upload = await createUpload(3);
+
+    vi.setSystemTime(Date.now() + VFS_CONFIG.RESUMABLE_UPLOAD_EXPIRY);
+    expect(manager.isExpired(upload)).toBe(true);
+
+    await createUpload(3);
+
+    expect(await manager.get(upload.id)).toBeNull();
+    expect(mockVfsManager.deleteChunks).toHaveBeenCalledWith(`tus_${upload.id}`);
+    expect(chunks.some(chunk => chunk.fileId.startsWith(`tus_${upload.id}`))).toBe(false);
+  });
+
+  it('should keep completed uploads so clients can see they are done', async () => {
+    const upload = await createUpload(3);
+    await manager.append(upload, new Uint8Array([1, 2, 3]));
+
+    await manager.complete(upload);
+
+    expect(mockVfsManager.deleteChunks).toHaveBeenCalledWith(`tus_${upload.id}`);
+    expect(await manager.get(upload.id)).toMatchObject({ offset: 3, length: 3 });
+    expect(await new ResumableUploadManager(mockVfsManager as unknown as VFSManager).get(upload.id))
+      .toMatchObject({ offset: 3, length: 3 });
+  });
+});
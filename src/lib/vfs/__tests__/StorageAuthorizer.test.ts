@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { StorageAuthorizer } from '../StorageAuthorizer';
+import type { DatabaseManager } from '../../database/connection';
+
+vi.mock('../../infrastructure/Logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+describe('StorageAuthorizer', () => {
+  const mockDbManager = {
+    query: vi.fn(),
+    queryWithContext: vi.fn(),
+  };
+  let authorizer: StorageAuthorizer;
+
+  const user = { role: 'authenticated', userId: 'user-1', claims: { sub: 'user-1', role: 'authenticated' } };
+
+  const policies = (...rows: Array<Record<string, unknown>>) => {
+    mockDbManager.query.mockImplementation(async (sql: string) =>
+      sql.includes('pg_policies') ? { rows } : { rows: [] }
+    );
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    authorizer = new StorageAuthorizer(mockDbManager as unknown as DatabaseManager);
+  });
+
+  it('should allow the service role without querying', async () => {
+    expect(await authorizer.canAccess('avatars', 'a.png', 'DELETE', { role: 'service_role' })).toBe(true);
+    expect(await authorizer.canInsert('avatars', 'a.png', { role: 'service_role' })).toBe(true);
+    expect(mockDbManager.query).not.toHaveBeenCalled();
+  });
+
+  it('should deny without storage.objects policies', async () => {
+    policies();
+
+    expect(await authorizer.canAccess('avatars', 'a.png', 'SELECT', user)).toBe(false);
+    expect(mockDbManager.queryWithContext).not.toHaveBeenCalled();
+  });
+
+  it('should evaluate read policies against the object row with the caller claims', async () => {
+    policies(
+      { cmd: 'SELECT', roles: ['authenticated'], permissive: 'PERMISSIVE', qual: '((storage.foldername(name))[1] = (auth.uid())::text)', with_check: null },
+      { cmd: 'DELETE', roles: ['authenticated'], permissive: 'PERMISSIVE', qual: '(owner = auth.uid())', with_check: null }
+    );
+    mockDbManager.queryWithContext.mockResolvedValue({ rows: [{ allowed: true }] });
+
+    expect(await authorizer.canAccess('avatars', 'user-1/a.png', 'SELECT', user)).toBe(true);
+
+    const [sql, context, params] = mockDbManager.queryWithContext.mock.calls[0];
+    expect(sql).toContain('SELECT ((((storage.foldername(name))[1] = (auth.uid())::text))) AS allowed');
+    expect(sql).toContain('FROM storage.objects WHERE bucket_id = $1 AND name = $2');
+    expect(sql).not.toContain('owner = auth.uid()');
+    expect(context).toEqual({ role: 'authenticated', userId: 'user-1', claims: user.claims });
+    expect(params).toEqual(['avatars', 'user-1/a.png']);
+    expect(mockDbManager.query).toHaveBeenCalledWith(
+      expect.stringContaining("set_config('request.jwt.claims', $1, false)"),
+      [JSON.stringify(user.claims), 'authenticated']
+    );
+    expect(mockDbManager.query).toHaveBeenLastCalledWith(expect.stringContaining("set_config('request.jwt.claims', '', false)"));
+  });
+
+  it('should check uploads against the row they would insert', async () => {
+    policies({ cmd: 'INSERT', roles: ['public'], permissive: 'PERMISSIVE', qual: null, with_check: "(bucket_id = 'avatars'::text)" });
+    mockDbManager.queryWithContext.mockResolvedValue({ rows: [{ allowed: false }] });
+
+    expect(await authorizer.canInsert('avatars', 'user-1/a.png', user, { size: 3 })).toBe(false);
+
+    const [sql, , params] = mockDbManager.queryWithContext.mock.calls[0];
+    expect(sql).toContain("SELECT (((bucket_id = 'avatars'::text))) AS allowed");
+    expect(sql).toContain("string_to_array($2::text, '/') AS path_tokens");
+    expect(params).toEqual(['avatars', 'user-1/a.png', 'user-1', 'user-1', '{"size":3}']);
+  });
+
+  it('should require USING on the existing row and WITH CHECK on the renamed one', async () => {
+    policies({ cmd: 'UPDATE', roles: ['public'], permissive: 'PERMISSIVE', qual: '(owner = auth.uid())', with_check: "(name ~~ 'user-1/%'::text)" });
+    mockDbManager.queryWithContext
+      .mockResolvedValueOnce({ rows: [{ allowed: true }] })
+      .mockResolvedValueOnce({ rows: [{ allowed: false }] });
+
+    expect(await authorizer.canUpdate('avatars', 'user-1/a.png', 'user-2/a.png', user)).toBe(false);
+
+    const [usingSql] = mockDbManager.queryWithContext.mock.calls[0];
+    const [checkSql, , checkParams] = mockDbManager.queryWithContext.mock.calls[1];
+    expect(usingSql).toContain('(((owner = auth.uid()))) AS allowed');
+    expect(checkSql).toContain("(((name ~~ 'user-1/%'::text))) AS allowed");
+    expect(checkSql).toContain('$3::text AS name');
+    expect(checkParams).toEqual(['avatars', 'user-1/a.png', 'user-2/a.png']);
+  });
+
+  it('should filter listings in one query', async () => {
+    policies({ cmd: 'ALL', roles: ['anon'], permissive: 'PERMISSIVE', qual: "(bucket_id = 'public'::text)", with_check: null });
+    mockDbManager.queryWithContext.mockResolvedValue({ rows: [{ name: 'a.png' }] });
+
+    const readable = await authorizer.filterReadable('public', ['a.png', 'b.png'], { role: 'anon' });
+
+    expect([...readable]).toEqual(['a.png']);
+    expect(mockDbManager.queryWithContext).toHaveBeenCalledTimes(1);
+    expect(mockDbManager.queryWithContext.mock.calls[0][2]).toEqual(['public', ['a.png', 'b.png']]);
+  });
+
+  it('should deny when policy evaluation fails', async () => {
+    policies({ cmd: 'SELECT', roles: ['public'], permissive: 'PERMISSIVE', qual: '(missing_column = 1)', with_check: null });
+    mockDbManager.queryWithContext.mockRejectedValue(new Error('column "missing_column" does not exist'));
+
+    expect(await authorizer.canAccess('avatars', 'a.png', 'SELECT', user)).toBe(false);
+  });
+});
@@ -229,6 +229,18 @@ describe('VFSManager', () => {
         const file = await vfsManager.createFile('compressed.txt', options);
         expect(file.compression).toBe('gzip');
       });
+
+      it('should persist cache control and user metadata', async () => {
+        await vfsManager.createFile('avatar.png', {
+          content: 'png',
+          cacheControl: 'max-age=3600',
+          metadata: { owner: 'jane' },
+        });
+
+        const file = await vfsManager.readFile('avatar.png');
+        expect(file!.cacheControl).toBe('max-age=3600');
+        expect(file!.metadata).toEqual({ owner: 'jane' });
+      });
     });
 
     describe('readFile', () => {
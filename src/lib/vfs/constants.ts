@@ -28,6 +28,18 @@ export const VFS_CONFIG = {
   CACHE_MAX_SIZE: 50 * 1024 * 1024,       // 50MB cache
   CACHE_MAX_ENTRIES: 1000,                // Max cached files
   CACHE_TTL: 5 * 60 * 1000,               // 5 minutes TTL
+
+  // Image Transformations
+  IMAGE_MAX_DIMENSION: 2500,              // Largest width or height, as on supabase.com
+  IMAGE_MIN_QUALITY: 20,
+  IMAGE_DEFAULT_QUALITY: 80,
+  IMAGE_CACHE_MAX_ENTRIES: 100,           // Derived images kept in memory
+
+  // Resumable Uploads
+  RESUMABLE_UPLOAD_EXPIRY: 24 * 60 * 60 * 1000, // 24 hours, as on supabase.com
+
+  // Object Metadata
+  DEFAULT_CACHE_CONTROL: 'no-cache',      // Objects uploaded without a cacheControl
   
   // Performance Benchmarks
   TARGET_OPERATION_TIME: 100,             // Target < 100ms for small files
@@ -275,6 +287,26 @@ export const UTILS = {
     return COMPRESSIBLE_MIME_TYPES.has(mimeType);
   },
   
+  /**
+   * Check a MIME type against a bucket's allowed types, which may use a
+   * wildcard subtype like image/*. An empty list allows every type.
+   */
+  isMimeTypeAllowed: (mimeType: string, allowedMimeTypes: string[] = []): boolean => {
+    if (allowedMimeTypes.length === 0) {
+      return true;
+    }
+
+    const [type, subtype] = mimeType.split(';')[0].trim().toLowerCase().split('/');
+    return allowedMimeTypes.some(allowed => {
+      const [allowedType, allowedSubtype] = allowed.trim().toLowerCase().split('/');
+      // * and */* allow everything
+      if (allowedType === '*') {
+        return true;
+      }
+      return allowedType === type && (allowedSubtype === '*' || allowedSubtype === subtype);
+    });
+  },
+
   /**
    * Check if file is binary
    */
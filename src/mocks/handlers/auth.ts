@@ -33,7 +33,8 @@ const createAuthHandler = (endpoint: string) => async ({ request, params }: any)
       method: request.method,
       url: url,
       headers: extractHeaders(request),
-      body
+      body,
+      params
     })
     
     console.log(`✅ MSW: Auth ${endpoint} response:`, { 
@@ -42,6 +43,14 @@ const createAuthHandler = (endpoint: string) => async ({ request, params }: any)
       hasError: !!response.error 
     })
     
+    // Emailed verification links and /authorize answer with a redirect
+    if (response.status >= 300 && response.status < 400 && response.headers.Location) {
+      return new HttpResponse(null, {
+        status: response.status,
+        headers: { ...AUTH_HEADERS, Location: response.headers.Location }
+      })
+    }
+    
     if (response.error) {
       return HttpResponse.json(response.error, {
         status: response.status || 400,
@@ -49,9 +58,10 @@ const createAuthHandler = (endpoint: string) => async ({ request, params }: any)
       })
     }
     
+    // Keep headers such as X-Total-Count and Link from the bridge
     return HttpResponse.json(response.data, {
       status: response.status || 200,
-      headers: AUTH_HEADERS
+      headers: { ...response.headers, ...AUTH_HEADERS }
     })
   } catch (error) {
     console.error(`❌ MSW: Auth ${endpoint} error:`, error)
@@ -95,6 +105,9 @@ export const authHandlers = [
   http.post('/auth/v1/verify', createAuthHandler('verify')),
   http.post('/:projectId/auth/v1/verify', withProjectResolution(createAuthHandler('verify'))),
   
+  http.get('/auth/v1/verify', withProjectResolution(createAuthHandler('verify'))),
+  http.get('/:projectId/auth/v1/verify', withProjectResolution(createAuthHandler('verify'))),
+  
   // Password recovery
   http.post('/auth/v1/recover', withProjectResolution(createAuthHandler('recover'))),
   http.post('/:projectId/auth/v1/recover', withProjectResolution(createAuthHandler('recover'))),
@@ -132,6 +145,9 @@ export const authHandlers = [
   
   http.post('/auth/v1/user/identities', withProjectResolution(createAuthHandler('identities_link'))),
   http.post('/:projectId/auth/v1/user/identities', withProjectResolution(createAuthHandler('identities_link'))),
+
+  http.get('/auth/v1/user/identities/authorize', withProjectResolution(createAuthHandler('identities_authorize'))),
+  http.get('/:projectId/auth/v1/user/identities/authorize', withProjectResolution(createAuthHandler('identities_authorize'))),
   
   http.delete('/auth/v1/user/identities/:identityId', withProjectResolution(createAuthHandler('identities_unlink'))),
   http.delete('/:projectId/auth/v1/user/identities/:identityId', withProjectResolution(createAuthHandler('identities_unlink'))),
@@ -155,6 +171,9 @@ export const authHandlers = [
   http.post('/auth/v1/admin/generate_link', withProjectResolution(createAuthHandler('admin_generate_link'))),
   http.post('/:projectId/auth/v1/admin/generate_link', withProjectResolution(createAuthHandler('admin_generate_link'))),
   
+  http.post('/auth/v1/invite', withProjectResolution(createAuthHandler('invite'))),
+  http.post('/:projectId/auth/v1/invite', withProjectResolution(createAuthHandler('invite'))),
+  
   // Session management
   http.get('/auth/v1/sessions', withProjectResolution(createAuthHandler('sessions_list'))),
   http.get('/:projectId/auth/v1/sessions', withProjectResolution(createAuthHandler('sessions_list'))),
@@ -1,5 +1,14 @@
-import { http, HttpResponse } from 'msw'
-import { resolveAndSwitchToProject, normalizeApiPath } from '../../project-resolver'
+import { http, HttpResponse, type HttpResponseResolver, type PathParams } from 'msw'
+import { resolveAndSwitchToProject, normalizeApiPath, type ProjectResolutionResult } from '../../project-resolver'
+
+/**
+ * What a handler wrapped with withProjectResolution receives: MSW's resolver
+ * info plus the project the request was resolved to
+ */
+export type ProjectResolverInfo<Params extends PathParams<keyof Params> = PathParams> =
+  Parameters<HttpResponseResolver<Params>>[0] & {
+    projectInfo?: Pick<ProjectResolutionResult, 'projectId' | 'projectName'>
+  }
 
 /**
  * Higher-order function that wraps handlers with project resolution
@@ -1,6 +1,8 @@
 import { http } from 'msw'
 import { VFSBridge } from '../../lib/vfs/VFSBridge'
-import { withProjectResolution } from './shared/project-resolution'
+import { withProjectResolution, type ProjectResolverInfo } from './shared/project-resolution'
+import { resolveSessionContext } from '../../api/middleware/authentication'
+import { parseTransformOptions } from '../../lib/vfs/ImageTransformer'
 import { 
   createErrorResponse, 
   initializeVFS,
@@ -10,6 +12,26 @@ import {
 // Initialize the VFS bridge
 const vfsBridge = new VFSBridge()
 
+// Resolve the caller's role and claims from the bearer token or apikey header,
+// so object requests are authorized by the storage policies
+const getSession = (request: Request) => {
+  const authHeader = request.headers.get('Authorization')
+  const token = authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : request.headers.get('apikey')
+  return resolveSessionContext(token || undefined)
+}
+
+// Validators of a conditional GET, an unchanged object is answered with a 304
+const getConditionalHeaders = (request: Request) => ({
+  ifNoneMatch: request.headers.get('If-None-Match') || undefined,
+  ifModifiedSince: request.headers.get('If-Modified-Since') || undefined,
+})
+
+// HEAD requests get the status and headers of the matching GET, without its body
+const createHeadHandler = <T>(handler: (info: T) => Promise<Response>) => async (info: T) => {
+  const response = await handler(info)
+  return new Response(null, { status: response.status, headers: response.headers })
+}
+
 // VFS Handler Functions (extracted from original handlers)
 const createVFSFileGetHandler = () => async ({ params, request, projectInfo }: any) => {
   try {
@@ -33,6 +55,7 @@ const createVFSFileGetHandler = () => async ({ params, request, projectInfo }: a
         bucket,
         path,
         token,
+        ...getConditionalHeaders(request),
       });
     } else {
       // Handle as regular file request
@@ -40,6 +63,8 @@ const createVFSFileGetHandler = () => async ({ params, request, projectInfo }: a
         bucket,
         path,
         range: rangeHeader || undefined,
+        ...getConditionalHeaders(request),
+        session: await getSession(request),
       });
     }
     
@@ -55,6 +80,31 @@ const createVFSFileGetHandler = () => async ({ params, request, projectInfo }: a
   }
 };
 
+const createObjectInfoHandler = () => async ({ params, request, projectInfo }: ProjectResolverInfo) => {
+  try {
+    const bucket = params.bucket as string;
+    const path = params[0] as string;
+
+    console.log('📁 MSW: Object info request', { bucket, path, projectId: projectInfo?.projectId });
+
+    // Initialize VFS for the current project
+    await initializeVFS(vfsBridge, projectInfo)
+
+    return await vfsBridge.handleObjectInfoRequest({
+      bucket,
+      path,
+      session: await getSession(request),
+    });
+  } catch (error) {
+    console.error('❌ MSW: Object info error:', error);
+    return createErrorResponse(
+      'info_failed',
+      'Failed to get object info',
+      500
+    );
+  }
+};
+
 const createVFSFilePostHandler = () => async ({ params, request, projectInfo }: any) => {
   try {
     const bucket = params.bucket as string;
@@ -70,6 +120,7 @@ const createVFSFilePostHandler = () => async ({ params, request, projectInfo }:
       bucket,
       path,
       formData,
+      session: await getSession(request),
     });
     
     console.log('✅ MSW: VFS file uploaded', { bucket, path, status: response.status });
@@ -84,7 +135,7 @@ const createVFSFilePostHandler = () => async ({ params, request, projectInfo }:
   }
 };
 
-const createVFSFileDeleteHandler = () => async ({ params, request: _request, projectInfo }: any) => {
+const createVFSFileDeleteHandler = () => async ({ params, request, projectInfo }: ProjectResolverInfo) => {
   try {
     const bucket = params.bucket as string;
     const path = params[0] as string;
@@ -97,6 +148,7 @@ const createVFSFileDeleteHandler = () => async ({ params, request: _request, pro
     const response = await vfsBridge.handleDeleteRequest({
       bucket,
       path,
+      session: await getSession(request),
     });
     
     console.log('✅ MSW: VFS file deleted', { bucket, path, status: response.status });
@@ -130,6 +182,7 @@ const createSignedUrlHandler = () => async ({ params, request, projectInfo }: an
       path,
       signedUrlOptions: { expiresIn, transform, download },
       projectId: projectInfo?.projectId || 'default',
+      session: await getSession(request),
     });
   } catch (error) {
     console.error('Signed URL handler error:', error);
@@ -159,6 +212,7 @@ const createSignedUploadUrlHandler = () => async ({ params, request, projectInfo
       path,
       signedUploadUrlOptions: { expiresIn, upsert },
       projectId: projectInfo?.projectId || 'default',
+      session: await getSession(request),
     });
   } catch (error) {
     console.error('Signed upload URL handler error:', error);
@@ -170,6 +224,36 @@ const createSignedUploadUrlHandler = () => async ({ params, request, projectInfo
   }
 };
 
+const createSignedUploadHandler = () => async ({ params, request, projectInfo }: ProjectResolverInfo) => {
+  try {
+    // Initialize VFS for the current project
+    await initializeVFS(vfsBridge, projectInfo)
+
+    const bucket = params.bucket as string;
+    const path = (params[0] as string) || '';
+    const token = new URL(request.url).searchParams.get('token');
+    if (!token) {
+      return createErrorResponse('authentication_required', 'Token required for signed uploads', 401);
+    }
+
+    console.log('⬆️ MSW: Signed upload', { bucket, path, projectId: projectInfo?.projectId });
+
+    return await vfsBridge.handleSignedUploadRequest({
+      bucket,
+      path,
+      token,
+      formData: await request.formData(),
+    });
+  } catch (error) {
+    console.error('Signed upload handler error:', error);
+    return createErrorResponse(
+      'upload_failed',
+      'Failed to upload file',
+      500
+    );
+  }
+};
+
 const createPublicUrlHandler = () => async ({ params, request, projectInfo }: any) => {
   console.log('🌐 MSW: Public URL handler started');
   try {
@@ -188,7 +272,8 @@ const createPublicUrlHandler = () => async ({ params, request, projectInfo }: an
     return await vfsBridge.handlePublicUrlRequest({
       bucket,
       path,
-      publicUrlOptions: { transform }
+      publicUrlOptions: { transform },
+      ...getConditionalHeaders(request)
     });
   } catch (error) {
     console.error('Public URL handler error:', error);
@@ -214,7 +299,8 @@ const createAuthenticatedFileHandler = () => async ({ params, request, projectIn
     return await vfsBridge.handleAuthenticatedFileRequest({
       bucket,
       path,
-      userContext: { authHeader }
+      ...getConditionalHeaders(request),
+      session: await getSession(request)
     });
   } catch (error) {
     console.error('❌ MSW: Authenticated file error:', error);
@@ -226,6 +312,96 @@ const createAuthenticatedFileHandler = () => async ({ params, request, projectIn
   }
 };
 
+const createImageRenderHandler = (access: 'public' | 'authenticated') => async ({ params, request, projectInfo }: ProjectResolverInfo) => {
+  try {
+    // Initialize VFS for the current project
+    await initializeVFS(vfsBridge, projectInfo)
+
+    const bucket = params.bucket as string;
+    const path = params[0] as string;
+
+    let transform;
+    try {
+      transform = parseTransformOptions(new URL(request.url).searchParams);
+    } catch (error) {
+      return createErrorResponse('invalid_transformation', (error as Error).message, 400);
+    }
+
+    console.log('🖼️ MSW: Image render request', { bucket, path, access, transform, projectId: projectInfo?.projectId });
+
+    return await vfsBridge.handleImageRenderRequest({
+      bucket,
+      path,
+      access,
+      transform,
+      accept: request.headers.get('Accept') || undefined,
+      session: access === 'authenticated' ? await getSession(request) : undefined
+    });
+  } catch (error) {
+    console.error('❌ MSW: Image render error:', error);
+    return createErrorResponse(
+      'image_render_failed',
+      'Failed to transform image',
+      500
+    );
+  }
+};
+
+// Resumable (TUS) upload handlers, as used by tus-js-client and Uppy
+const createResumableUploadCreateHandler = () => async ({ request, projectInfo }: ProjectResolverInfo) => {
+  try {
+    console.log('📁 MSW: Resumable upload create request', { projectId: projectInfo?.projectId });
+
+    // Initialize VFS for the current project
+    await initializeVFS(vfsBridge, projectInfo)
+
+    return await vfsBridge.handleCreateResumableUploadRequest({
+      url: request.url,
+      headers: request.headers,
+      body: await request.arrayBuffer(),
+      session: await getSession(request)
+    });
+  } catch (error) {
+    console.error('❌ MSW: Resumable upload create error:', error);
+    return createErrorResponse(
+      'upload_failed',
+      'Failed to create upload',
+      500
+    );
+  }
+};
+
+const createResumableUploadHandler = (method: 'HEAD' | 'PATCH' | 'DELETE') => async ({ params, request, projectInfo }: ProjectResolverInfo) => {
+  try {
+    const uploadId = params.uploadId as string;
+
+    console.log('📁 MSW: Resumable upload request', { method, uploadId, projectId: projectInfo?.projectId });
+
+    // Initialize VFS for the current project
+    await initializeVFS(vfsBridge, projectInfo)
+
+    switch (method) {
+      case 'HEAD':
+        return await vfsBridge.handleResumableUploadHeadRequest({ uploadId, headers: request.headers });
+      case 'PATCH':
+        return await vfsBridge.handleResumableUploadPatchRequest({
+          uploadId,
+          headers: request.headers,
+          body: await request.arrayBuffer()
+        });
+      case 'DELETE':
+        return await vfsBridge.handleResumableUploadDeleteRequest({ uploadId, headers: request.headers });
+    }
+  } catch (error) {
+    console.error('❌ MSW: Resumable upload error:', error);
+    return createErrorResponse(
+      'upload_failed',
+      'Failed to process upload',
+      500
+    );
+  }
+};
+
 const createVFSListHandler = () => async ({ params, request, projectInfo }: any) => {
   try {
     const bucket = params.bucket as string;
@@ -244,7 +420,8 @@ const createVFSListHandler = () => async ({ params, request, projectInfo }: any)
       bucket,
       prefix: path,
       limit,
-      offset
+      offset,
+      session: await getSession(request)
     });
     
     console.log('✅ MSW: VFS list completed', { bucket, path, status: response.status });
@@ -530,18 +707,46 @@ export const storageHandlers = [
   http.post('/:projectId/storage/v1/object/sign/:bucket/*', withProjectResolution(createSignedUrlHandler())),
   http.post('/storage/v1/object/upload/sign/:bucket/*', withProjectResolution(createSignedUploadUrlHandler())),
   http.post('/:projectId/storage/v1/object/upload/sign/:bucket/*', withProjectResolution(createSignedUploadUrlHandler())),
+  http.put('/storage/v1/object/upload/sign/:bucket/*', withProjectResolution(createSignedUploadHandler())),
+  http.put('/:projectId/storage/v1/object/upload/sign/:bucket/*', withProjectResolution(createSignedUploadHandler())),
 
   // Public URLs
   http.get('/storage/v1/object/public/:bucket/*', withProjectResolution(createPublicUrlHandler())),
   http.get('/:projectId/storage/v1/object/public/:bucket/*', withProjectResolution(createPublicUrlHandler())),
+  http.head('/storage/v1/object/public/:bucket/*', withProjectResolution(createHeadHandler(createPublicUrlHandler()))),
+  http.head('/:projectId/storage/v1/object/public/:bucket/*', withProjectResolution(createHeadHandler(createPublicUrlHandler()))),
+
+  // Object info routes
+  http.get('/storage/v1/object/info/:bucket/*', withProjectResolution(createObjectInfoHandler())),
+  http.get('/:projectId/storage/v1/object/info/:bucket/*', withProjectResolution(createObjectInfoHandler())),
+
+  // Image transformations
+  http.get('/storage/v1/render/image/public/:bucket/*', withProjectResolution(createImageRenderHandler('public'))),
+  http.get('/:projectId/storage/v1/render/image/public/:bucket/*', withProjectResolution(createImageRenderHandler('public'))),
+  http.get('/storage/v1/render/image/authenticated/:bucket/*', withProjectResolution(createImageRenderHandler('authenticated'))),
+  http.get('/:projectId/storage/v1/render/image/authenticated/:bucket/*', withProjectResolution(createImageRenderHandler('authenticated'))),
 
   // Authenticated file access
   http.get('/storage/v1/object/authenticated/:bucket/*', withProjectResolution(createAuthenticatedFileHandler())),
   http.get('/:projectId/storage/v1/object/authenticated/:bucket/*', withProjectResolution(createAuthenticatedFileHandler())),
+  http.head('/storage/v1/object/authenticated/:bucket/*', withProjectResolution(createHeadHandler(createAuthenticatedFileHandler()))),
+  http.head('/:projectId/storage/v1/object/authenticated/:bucket/*', withProjectResolution(createHeadHandler(createAuthenticatedFileHandler()))),
+
+  // Resumable uploads (TUS)
+  http.post('/storage/v1/upload/resumable', withProjectResolution(createResumableUploadCreateHandler())),
+  http.post('/:projectId/storage/v1/upload/resumable', withProjectResolution(createResumableUploadCreateHandler())),
+  http.head('/storage/v1/upload/resumable/:uploadId', withProjectResolution(createResumableUploadHandler('HEAD'))),
+  http.head('/:projectId/storage/v1/upload/resumable/:uploadId', withProjectResolution(createResumableUploadHandler('HEAD'))),
+  http.patch('/storage/v1/upload/resumable/:uploadId', withProjectResolution(createResumableUploadHandler('PATCH'))),
+  http.patch('/:projectId/storage/v1/upload/resumable/:uploadId', withProjectResolution(createResumableUploadHandler('PATCH'))),
+  http.delete('/storage/v1/upload/resumable/:uploadId', withProjectResolution(createResumableUploadHandler('DELETE'))),
+  http.delete('/:projectId/storage/v1/upload/resumable/:uploadId', withProjectResolution(createResumableUploadHandler('DELETE'))),
 
   // File operations
   http.get('/storage/v1/object/:bucket/*', withProjectResolution(createVFSFileGetHandler())),
   http.get('/:projectId/storage/v1/object/:bucket/*', withProjectResolution(createVFSFileGetHandler())),
+  http.head('/storage/v1/object/:bucket/*', withProjectResolution(createHeadHandler(createVFSFileGetHandler()))),
+  http.head('/:projectId/storage/v1/object/:bucket/*', withProjectResolution(createHeadHandler(createVFSFileGetHandler()))),
 
   http.post('/storage/v1/object/:bucket/*', withProjectResolution(createVFSFilePostHandler())),
   http.post('/:projectId/storage/v1/object/:bucket/*', withProjectResolution(createVFSFilePostHandler())),
@@ -562,7 +767,8 @@ export const storageHandlers = [
       const response = await vfsBridge.handleMoveFileRequest({
         bucket: destinationBucket,
         sourceKey,
-        destinationKey
+        destinationKey,
+        session: await getSession(request)
       });
       
       console.log('✅ MSW: File moved:', { sourceKey, destinationKey, status: response.status });
@@ -585,7 +791,8 @@ export const storageHandlers = [
       const response = await vfsBridge.handleMoveFileRequest({
         bucket: destinationBucket,
         sourceKey,
-        destinationKey
+        destinationKey,
+        session: await getSession(request)
       });
       
       console.log('✅ MSW: File moved (project-scoped):', { sourceKey, destinationKey, status: response.status });
@@ -609,7 +816,8 @@ export const storageHandlers = [
       const response = await vfsBridge.handleCopyFileRequest({
         bucket: destinationBucket,
         sourceKey,
-        destinationKey
+        destinationKey,
+        session: await getSession(request)
       });
       
       console.log('✅ MSW: File copied:', { sourceKey, destinationKey, status: response.status });
@@ -632,7 +840,8 @@ export const storageHandlers = [
       const response = await vfsBridge.handleCopyFileRequest({
         bucket: destinationBucket,
         sourceKey,
-        destinationKey
+        destinationKey,
+        session: await getSession(request)
       });
       
       console.log('✅ MSW: File copied (project-scoped):', { sourceKey, destinationKey, status: response.status });
@@ -656,7 +865,8 @@ export const storageHandlers = [
       
       const response = await vfsBridge.handleBatchDeleteRequest({
         bucket,
-        prefixes
+        prefixes,
+        session: await getSession(request)
       });
       
       console.log('✅ MSW: Batch delete completed:', { bucket, status: response.status });
@@ -679,7 +889,8 @@ export const storageHandlers = [
       
       const response = await vfsBridge.handleBatchDeleteRequest({
         bucket,
-        prefixes
+        prefixes,
+        session: await getSession(request)
       });
       
       console.log('✅ MSW: Batch delete completed (project-scoped):', { bucket, status: response.status });
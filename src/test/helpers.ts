@@ -0,0 +1,100 @@
+import { vi } from 'vitest'
+import { webcrypto } from 'node:crypto'
+import { QueryParser } from '../lib/postgrest/QueryParser'
+import type { JWTKeyService, StoredSigningKey } from '../lib/auth/services/JWTKeyService'
+
+type Row = Record<string, unknown>
+
+/**
+ * Collapses whitespace so generated SQL can be compared on one line
+ */
+export const normalize = (sql: string) => sql.replace(/\s+/g, ' ').trim()
+
+/**
+ * Parses a PostgREST request against a table the way the API layer does
+ */
+export const parseQuery = (table: string, search: string, headers: Record<string, string> = {}) =>
+  QueryParser.parseQuery(new URL(`http://localhost/rest/v1/${table}?${search}`), headers)
+
+/**
+ * A connected database manager answering each query with the rows `rows` returns for it
+ */
+export const createDbManager = (rows: (sql: string, params: unknown[]) => object[] = () => []) => ({
+  isConnected: () => true,
+  getConnectionInfo: () => ({ id: 'project-a' }),
+  exec: vi.fn(async () => {}),
+  query: vi.fn(async (sql: string, params: unknown[] = []) => ({ rows: rows(sql, params) }))
+})
+
+/**
+ * Keeps auth.users rows in memory for the statements AuthManager runs
+ */
+export const createUsersDbManager = (users: Row[] = []) => ({
+  ...createDbManager((sql, params) => {
+    if (sql.includes('INSERT INTO auth.users')) {
+      const [id, email, phone, encrypted_password, email_confirmed_at] = params
+      users.push({
+        id,
+        email,
+        phone,
+        encrypted_password,
+        email_confirmed_at,
+        raw_app_meta_data: params[9],
+        raw_user_meta_data: params[10],
+        is_anonymous: params[11]
+      })
+    } else if (sql.includes('SET email = email_change')) {
+      const user = users.find(u => u.id === params[1])
+      Object.assign(user!, { email: user!.email_change, email_change: '', email_confirmed_at: params[0] })
+    } else if (sql.includes('UPDATE auth.users')) {
+      const user = users.find(u => u.id === params[params.length - 1])
+      const assignments = [...sql.matchAll(/(\w+) = \$(\d+)/g)]
+      assignments.forEach(([, column, index]) => {
+        if (user) {
+          user[column] = params[Number(index) - 1]
+        }
+      })
+    }
+    const lookup = sql.match(/^\s*SELECT .* FROM auth\.users WHERE (\w+) = \$1/)
+    return lookup ? users.filter(u => u[lookup[1]] === params[0]).map(u => ({ ...u })) : []
+  }),
+  rows: users
+})
+
+/**
+ * Swaps the jose and WebCrypto mocks of the test setup for the real ones, for the
+ * modules imported after vi.resetModules(). Undo with vi.doUnmock('jose') and
+ * vi.unstubAllGlobals().
+ */
+export const useRealJose = async () => {
+  vi.stubGlobal('crypto', webcrypto)
+  // jsdom has its own Uint8Array, which jose would not accept from Node's TextEncoder
+  vi.stubGlobal('Uint8Array', Object.getPrototypeOf(Buffer))
+  vi.doMock('jose', () => vi.importActual('jose'))
+  return import('jose')
+}
+
+/**
+ * A signing key store holding `keys`, the first one in use
+ */
+export const createKeyStore = (keys: StoredSigningKey[]) => ({
+  getCurrentKey: vi.fn(async () => keys[0]),
+  getVerificationKeys: vi.fn(async () => keys)
+}) as unknown as JWTKeyService
+
+/**
+ * A stored ES256 key, or an HS256 key for `secret`, made with the given jose
+ */
+export const createStoredKey = async (
+  jose: typeof import('jose'),
+  id: string,
+  secret?: string
+): Promise<StoredSigningKey> => {
+  const meta = { status: 'in_use' as const, created_at: '2024-01-01T00:00:00.000Z', updated_at: '2024-01-01T00:00:00.000Z' }
+  if (secret) {
+    return { id, algorithm: 'HS256', private_jwk: { kty: 'oct', k: jose.base64url.encode(secret) }, public_jwk: null, ...meta }
+  }
+
+  const { privateKey, publicKey } = await jose.generateKeyPair('ES256', { extractable: true })
+  return { id, algorithm: 'ES256', private_jwk: await jose.exportJWK(privateKey), public_jwk: await jose.exportJWK(publicKey), ...meta }
+}
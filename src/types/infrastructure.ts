@@ -177,6 +177,8 @@ export interface TransactionOptions {
   isolationLevel?: 'READ_UNCOMMITTED' | 'READ_COMMITTED' | 'REPEATABLE_READ' | 'SERIALIZABLE';
   timeout?: number;
   readOnly?: boolean;
+  /** Roll back instead of committing once every query succeeded, keeping their results */
+  rollback?: boolean;
 }
 
 export interface QueryOptions {
@@ -14,7 +14,7 @@ export interface TransformOptions {
   height?: number;
   resize?: 'cover' | 'contain' | 'fill' | 'inside' | 'outside';
   quality?: number; // 1-100
-  format?: 'webp' | 'jpeg' | 'png';
+  format?: 'origin' | 'webp' | 'jpeg' | 'png'; // 'origin' keeps the uploaded format
   rotate?: number; // degrees
 }
 
@@ -32,6 +32,10 @@ export interface VFSFile {
   compression?: 'gzip' | 'none';
   /** File hash for deduplication and integrity */
   hash?: string;
+  /** Cache-Control header the file is served with */
+  cacheControl?: string;
+  /** User metadata stored with the file */
+  metadata?: Record<string, unknown>;
 }
 
 export interface VFSFileChunk {
@@ -168,7 +172,9 @@ export interface VFSCreateFileOptions {
   compress?: boolean;
   /** Create parent directories if they don't exist */
   createDirectories?: boolean;
-  /** Additional file metadata */
+  /** Cache-Control header to serve the file with */
+  cacheControl?: string;
+  /** User metadata stored with the file */
   metadata?: Record<string, unknown>;
 }
 